@@ -0,0 +1,63 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { ApprovalLink } from '../src/models/approvalLink/approvalLink.model';
+import { connectDatabase } from '../src/config/database.config';
+import { DEFAULT_APPROVAL_SETTINGS } from '../src/utils/constants';
+
+/**
+ * Bring approval links created by older versions up to date:
+ * - links decide the host's step unless they belong to a later approval chain step
+ * - tokens are stored as SHA-256 hashes instead of plaintext
+ * - every link expires; older links get the default lifetime from now
+ * - the old unique index on appointmentId gives way to the per-approver, per-step one
+ */
+async function migrateApprovalLinks() {
+    try {
+        await connectDatabase();
+        console.log('✅ Connected to database');
+
+        const backfilled = await ApprovalLink.updateMany({ step: { $exists: false } }, { $set: { step: 0 } });
+        console.log(`🔧 Set the approval step on ${backfilled.modifiedCount} existing links`);
+
+        // The plaintext field is no longer in the schema, so go through the raw collection
+        const plaintextLinks = await ApprovalLink.collection
+            .find({ token: { $exists: true } }, { projection: { token: 1 } })
+            .toArray();
+        for (const link of plaintextLinks) {
+            await ApprovalLink.collection.updateOne(
+                { _id: link._id },
+                {
+                    $set: { tokenHash: crypto.createHash('sha256').update(link.token).digest('hex') },
+                    $unset: { token: '' }
+                }
+            );
+        }
+        console.log(`🔒 Hashed the tokens of ${plaintextLinks.length} existing links`);
+
+        const expiresAt = new Date(Date.now() + DEFAULT_APPROVAL_SETTINGS.linkExpiryHours * 60 * 60 * 1000);
+        const expiring = await ApprovalLink.updateMany({ expiresAt: { $exists: false } }, { $set: { expiresAt } });
+        console.log(`⏳ Set an expiry on ${expiring.modifiedCount} existing links`);
+
+        const dropped = await ApprovalLink.syncIndexes();
+        if (dropped.length > 0) {
+            console.log(`🗑️  Dropped indexes: ${dropped.join(', ')}`);
+        }
+        console.log('🎉 Approval links are up to date');
+    } catch (error) {
+        console.error('❌ Error migrating approval links:', error);
+        process.exit(1);
+    } finally {
+        await mongoose.connection.close();
+        console.log('🔌 Database connection closed');
+        process.exit(0);
+    }
+}
+
+if (require.main === module) {
+    migrateApprovalLinks();
+}
+
+export { migrateApprovalLinks };
@@ -16,6 +16,7 @@ import { swaggerSpec } from './docs/swagger';
 import { CONSTANTS } from './utils/constants';
 import { EmailService } from './services/email/email.service';
 import { webhookRouter } from './routes/userSubscription/userSubscription.routes';
+import { startJobs } from './jobs';
 
 const app: Express = express();
 
@@ -75,6 +76,11 @@ app.use(notFoundHandler);
 const PORT = CONSTANTS.PORT;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT} (${CONSTANTS.NODE_ENV})`);
+
+  // Background jobs (no-show detection, auto-checkout, reminders); set JOBS_ENABLED=false to run them elsewhere
+  if (CONSTANTS.JOBS_ENABLED) {
+    startJobs();
+  }
 });
 
 export default app;
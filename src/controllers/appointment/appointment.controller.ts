@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppointmentService } from '../../services/appointment/appointment.service';
+import { RescheduleService } from '../../services/reschedule/reschedule.service';
+import { AttendeeService } from '../../services/attendee/attendee.service';
+import { OnSiteService } from '../../services/onSite/onSite.service';
+import { OverstayService } from '../../services/overstay/overstay.service';
 import { Appointment } from '../../models/appointment/appointment.model';
 import { ResponseUtil } from '../../utils';
 import {
@@ -8,9 +12,16 @@ import {
     IGetAppointmentsQuery,
     ICheckInRequest,
     ICheckOutRequest,
-    IBulkUpdateAppointmentsDTO
+    IBulkUpdateAppointmentsDTO,
+    IAppointmentCalendarQuery,
+    IProposeRescheduleDTO,
+    IRespondRescheduleDTO,
+    IWalkInAppointmentDTO,
+    IStatusReasonDTO,
+    IAttendeeCheckInDTO
 } from '../../types/appointment/appointment.types';
-import { ERROR_CODES } from '../../utils/constants';
+import { IOnSiteQuery } from '../../types/onSite/onSite.types';
+import { ERROR_CODES, AVAILABILITY_OVERRIDE_ROLES, WATCHLIST_ROLES } from '../../utils/constants';
 import { TryCatch } from '../../decorators';
 import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
 import { AppError } from '../../middlewares/errorHandler';
@@ -25,12 +36,42 @@ export class AppointmentController {
         if (!req.user) {
             throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
         }
-        const appointmentData: ICreateAppointmentDTO = req.body;
+        const { overrideAvailability, watchlistOverrideReason, ...appointmentData }: ICreateAppointmentDTO & {
+            overrideAvailability?: boolean;
+            watchlistOverrideReason?: string;
+        } = req.body;
+        if (overrideAvailability && !AVAILABILITY_OVERRIDE_ROLES.includes(req.user.role)) {
+            throw new AppError('You are not allowed to book outside the employee\'s availability', ERROR_CODES.FORBIDDEN);
+        }
+        if (watchlistOverrideReason && !WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('You are not allowed to override a watchlist hold', ERROR_CODES.FORBIDDEN);
+        }
         const createdBy = req.user._id.toString();
-        const appointment = await AppointmentService.createAppointment(appointmentData, createdBy);
+        const appointment = await AppointmentService.createAppointment(appointmentData, createdBy, {
+            overrideAvailability: Boolean(overrideAvailability),
+            watchlistOverrideReason
+        });
         ResponseUtil.success(res, 'Appointment created successfully', appointment, ERROR_CODES.CREATED);
     }
 
+    /**
+     * Register a walk-in visitor and book an appointment starting now
+     * POST /api/appointments/walk-in
+     */
+    @TryCatch('Failed to register walk-in')
+    static async createWalkInAppointment(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { watchlistOverrideReason, ...walkInData }: IWalkInAppointmentDTO & { watchlistOverrideReason?: string } = req.body;
+        if (watchlistOverrideReason && !WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('You are not allowed to override a watchlist hold', ERROR_CODES.FORBIDDEN);
+        }
+        const createdBy = req.user._id.toString();
+        const result = await AppointmentService.createWalkInAppointment(walkInData, createdBy, { watchlistOverrideReason });
+        ResponseUtil.success(res, 'Walk-in registered successfully', result, ERROR_CODES.CREATED);
+    }
+
     /**
      * Get all appointments with pagination and filtering (user-specific)
      * GET /api/appointments
@@ -88,10 +129,13 @@ export class AppointmentController {
      * PUT /api/appointments/:id
      */
     @TryCatch('Failed to update appointment')
-    static async updateAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    static async updateAppointment(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
         const { id } = req.params;
         const updateData: IUpdateAppointmentDTO = req.body;
-        const appointment = await AppointmentService.updateAppointment(id, updateData);
+        const appointment = await AppointmentService.updateAppointment(id, updateData, req.user._id.toString());
         ResponseUtil.success(res, 'Appointment updated successfully', appointment);
     }
 
@@ -115,9 +159,15 @@ export class AppointmentController {
      * POST /api/appointments/check-in
      */
     @TryCatch('Failed to check in appointment')
-    static async checkInAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    static async checkInAppointment(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
         const request: ICheckInRequest = req.body;
-        const appointment = await AppointmentService.checkInAppointment(request);
+        if (request.watchlistOverrideReason && !WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('You are not allowed to override a watchlist hold', ERROR_CODES.FORBIDDEN);
+        }
+        const appointment = await AppointmentService.checkInAppointment(request, req.user._id.toString());
         ResponseUtil.success(res, 'Appointment checked in successfully', appointment);
     }
 
@@ -126,12 +176,29 @@ export class AppointmentController {
      * POST /api/appointments/check-out
      */
     @TryCatch('Failed to check out appointment')
-    static async checkOutAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    static async checkOutAppointment(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
         const request: ICheckOutRequest = req.body;
-        const appointment = await AppointmentService.checkOutAppointment(request);
+        const appointment = await AppointmentService.checkOutAppointment(request, req.user._id.toString());
         ResponseUtil.success(res, 'Appointment checked out successfully', appointment);
     }
 
+    /**
+     * Mark a checked-in visitor as in their meeting
+     * PUT /api/appointments/:id/start-meeting
+     */
+    @TryCatch('Failed to start meeting')
+    static async startMeeting(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const appointment = await AppointmentService.startMeeting(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Meeting started successfully', appointment);
+    }
+
     /**
      * Get appointment statistics (user-specific)
      * GET /api/appointments/stats
@@ -147,6 +214,52 @@ export class AppointmentController {
         ResponseUtil.success(res, 'Appointment statistics retrieved successfully', stats);
     }
 
+    /**
+     * Visitors in the building right now, optionally at one site
+     * GET /api/appointments/on-site?site=HQ
+     */
+    @TryCatch('Failed to get on-site visitors')
+    static async getOnSiteVisitors(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+
+        const query: IOnSiteQuery = req.query;
+        const onSite = await OnSiteService.getOnSite(req.user._id.toString(), query);
+        ResponseUtil.success(res, 'On-site visitors retrieved successfully', onSite);
+    }
+
+    /**
+     * Visits running past their scheduled duration right now, optionally at one site
+     * GET /api/appointments/overstaying?site=HQ
+     */
+    @TryCatch('Failed to get overstaying visits')
+    static async getOverstayingVisits(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+
+        const query: IOnSiteQuery = req.query;
+        const overstaying = await OverstayService.getOverstaying(req.user._id.toString(), query);
+        ResponseUtil.success(res, 'Overstaying visits retrieved successfully', overstaying);
+    }
+
+    /**
+     * Get appointments grouped by day (user-specific)
+     * GET /api/appointments/calendar
+     */
+    @TryCatch('Failed to get appointments calendar')
+    static async getAppointmentsCalendar(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+
+        const query = req.query as unknown as IAppointmentCalendarQuery;
+        const userId = req.user._id.toString();
+        const calendar = await AppointmentService.getAppointmentsCalendar(query, userId);
+        ResponseUtil.success(res, 'Appointments calendar retrieved successfully', calendar);
+    }
+
 
 
     /**
@@ -154,9 +267,12 @@ export class AppointmentController {
      * PUT /api/appointments/bulk-update
      */
     @TryCatch('Failed to bulk update appointments')
-    static async bulkUpdateAppointments(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    static async bulkUpdateAppointments(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
         const bulkData: IBulkUpdateAppointmentsDTO = req.body;
-        const result = await AppointmentService.bulkUpdateAppointments(bulkData);
+        const result = await AppointmentService.bulkUpdateAppointments(bulkData, req.user._id.toString());
         ResponseUtil.success(res, 'Appointments updated successfully', result);
     }
 
@@ -205,35 +321,161 @@ export class AppointmentController {
     }
 
     /**
-     * Cancel appointment
+     * Cancel appointment, optionally with a reason
      * PUT /api/appointments/:id/cancel
      */
     @TryCatch('Failed to cancel appointment')
-    static async cancelAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    static async cancelAppointment(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
         const { id } = req.params;
-        const appointment = await AppointmentService.cancelAppointment(id);
+        const { reasonCode, reason }: IStatusReasonDTO = req.body;
+        const appointment = await AppointmentService.cancelAppointment(id, req.user._id.toString(), { reasonCode, reason });
         ResponseUtil.success(res, 'Appointment cancelled successfully', appointment);
     }
 
+    /**
+     * Mark appointment as no-show, optionally with a reason
+     * PUT /api/appointments/:id/no-show
+     */
+    @TryCatch('Failed to mark appointment as no-show')
+    static async markNoShow(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const { reasonCode, reason }: IStatusReasonDTO = req.body;
+        const appointment = await AppointmentService.markNoShow(id, req.user._id.toString(), { reasonCode, reason });
+        ResponseUtil.success(res, 'Appointment marked as no-show', appointment);
+    }
+
     /**
      * Approve appointment
      * PUT /api/appointments/:id/approve
      */
     @TryCatch('Failed to approve appointment')
-    static async approveAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    static async approveAppointment(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
         const { id } = req.params;
-        const result = await AppointmentService.approveAppointment(id);
+        const result = await AppointmentService.approveAppointment(id, req.user._id.toString());
+        if (result.status === 'pending' && result.approvalChain) {
+            const nextStep = result.approvalChain.steps[result.approvalChain.currentStep];
+            ResponseUtil.success(res, `Approval recorded. The appointment now needs ${nextStep.name} approval.`, result);
+            return;
+        }
         ResponseUtil.success(res, 'Appointment approved successfully. The visitor has been notified.', result);
     }
 
     /**
-     * Reject appointment
+     * Reject appointment, optionally with a reason
      * PUT /api/appointments/:id/reject
      */
     @TryCatch('Failed to reject appointment')
-    static async rejectAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    static async rejectAppointment(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
         const { id } = req.params;
-        const result = await AppointmentService.rejectAppointment(id);
+        const { reasonCode, reason }: IStatusReasonDTO = req.body;
+        const result = await AppointmentService.rejectAppointment(id, req.user._id.toString(), { reasonCode, reason });
         ResponseUtil.success(res, 'Appointment rejected. The visitor has been informed.', result);
     }
+
+    /**
+     * Propose a new time to the visitor
+     * POST /api/appointments/:id/reschedule
+     */
+    @TryCatch('Failed to propose new time')
+    static async proposeReschedule(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const proposal: IProposeRescheduleDTO = req.body;
+        const appointment = await RescheduleService.proposeByHost(id, proposal, req.user._id.toString());
+        ResponseUtil.success(res, 'New time proposed successfully', appointment);
+    }
+
+    /**
+     * Accept or decline the time proposed by the visitor
+     * PUT /api/appointments/:id/reschedule/respond
+     */
+    @TryCatch('Failed to respond to new time')
+    static async respondToReschedule(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const response: IRespondRescheduleDTO = req.body;
+        const appointment = await RescheduleService.respondByHost(id, response, req.user._id.toString());
+        ResponseUtil.success(res, response.accept ? 'New time accepted successfully' : 'New time declined successfully', appointment);
+    }
+
+    /**
+     * Add a visitor to the group
+     * POST /api/appointments/:id/attendees/:visitorId
+     */
+    @TryCatch('Failed to add attendee')
+    static async addAttendee(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, visitorId } = req.params;
+        const appointment = await AttendeeService.addAttendee(id, visitorId, req.user._id.toString());
+        ResponseUtil.success(res, 'Visitor added to the appointment successfully', appointment);
+    }
+
+    /**
+     * Remove a visitor from the group
+     * DELETE /api/appointments/:id/attendees/:visitorId
+     */
+    @TryCatch('Failed to remove attendee')
+    static async removeAttendee(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, visitorId } = req.params;
+        const appointment = await AttendeeService.removeAttendee(id, visitorId, req.user._id.toString());
+        ResponseUtil.success(res, 'Visitor removed from the appointment successfully', appointment);
+    }
+
+    /**
+     * Check in one visitor of the group
+     * PUT /api/appointments/:id/attendees/:visitorId/check-in
+     */
+    @TryCatch('Failed to check in attendee')
+    static async checkInAttendee(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, visitorId } = req.params;
+        const { badgeNumber, watchlistOverrideReason }: IAttendeeCheckInDTO = req.body;
+        if (watchlistOverrideReason && !WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('You are not allowed to override a watchlist hold', ERROR_CODES.FORBIDDEN);
+        }
+        const appointment = await AttendeeService.checkInAttendee(
+            id,
+            visitorId,
+            { badgeNumber, watchlistOverrideReason },
+            req.user._id.toString()
+        );
+        ResponseUtil.success(res, 'Visitor checked in successfully', appointment);
+    }
+
+    /**
+     * Check out one visitor of the group
+     * PUT /api/appointments/:id/attendees/:visitorId/check-out
+     */
+    @TryCatch('Failed to check out attendee')
+    static async checkOutAttendee(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, visitorId } = req.params;
+        const appointment = await AttendeeService.checkOutAttendee(id, visitorId, req.user._id.toString());
+        ResponseUtil.success(res, 'Visitor checked out successfully', appointment);
+    }
 }
@@ -0,0 +1,92 @@
+import { Response, NextFunction } from 'express';
+import { AppointmentSeriesService } from '../../services/appointmentSeries/appointmentSeries.service';
+import { ResponseUtil } from '../../utils';
+import {
+    ICreateAppointmentSeriesDTO,
+    IUpdateSeriesOccurrenceDTO,
+    IGetAppointmentSeriesQuery,
+    ICancelSeriesOccurrenceDTO
+} from '../../types/appointmentSeries/appointmentSeries.types';
+import { ERROR_CODES, AVAILABILITY_OVERRIDE_ROLES } from '../../utils/constants';
+import { TryCatch } from '../../decorators';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { AppError } from '../../middlewares/errorHandler';
+
+export class AppointmentSeriesController {
+    /**
+     * Create a recurring appointment series
+     * POST /api/appointment-series
+     */
+    @TryCatch('Failed to create appointment series')
+    static async createSeries(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { overrideAvailability, ...seriesData }: ICreateAppointmentSeriesDTO & { overrideAvailability?: boolean } = req.body;
+        if (overrideAvailability && !AVAILABILITY_OVERRIDE_ROLES.includes(req.user.role)) {
+            throw new AppError('You are not allowed to book outside the employee\'s availability', ERROR_CODES.FORBIDDEN);
+        }
+        const series = await AppointmentSeriesService.createSeries(seriesData, req.user._id.toString(), {
+            overrideAvailability: Boolean(overrideAvailability)
+        });
+        ResponseUtil.success(res, 'Appointment series created successfully', series, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Get all appointment series (user-specific)
+     * GET /api/appointment-series
+     */
+    @TryCatch('Failed to get appointment series')
+    static async getAllSeries(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const query: IGetAppointmentSeriesQuery = req.query;
+        const result = await AppointmentSeriesService.getAllSeries(query, req.user._id.toString());
+        ResponseUtil.success(res, 'Appointment series retrieved successfully', result);
+    }
+
+    /**
+     * Get an appointment series with its occurrences
+     * GET /api/appointment-series/:id
+     */
+    @TryCatch('Failed to get appointment series')
+    static async getSeriesById(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const series = await AppointmentSeriesService.getSeriesById(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Appointment series retrieved successfully', series);
+    }
+
+    /**
+     * Edit an occurrence, this and following occurrences, or the whole series
+     * PUT /api/appointment-series/:id/occurrences/:appointmentId
+     */
+    @TryCatch('Failed to update appointment series')
+    static async updateOccurrences(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, appointmentId } = req.params;
+        const updateData: IUpdateSeriesOccurrenceDTO = req.body;
+        const result = await AppointmentSeriesService.updateOccurrences(id, appointmentId, updateData, req.user._id.toString());
+        ResponseUtil.success(res, 'Appointment series updated successfully', result);
+    }
+
+    /**
+     * Cancel an occurrence, this and following occurrences, or the whole series
+     * PUT /api/appointment-series/:id/occurrences/:appointmentId/cancel
+     */
+    @TryCatch('Failed to cancel appointment series')
+    static async cancelOccurrences(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, appointmentId } = req.params;
+        const { scope }: ICancelSeriesOccurrenceDTO = req.body;
+        const result = await AppointmentSeriesService.cancelOccurrences(id, appointmentId, scope, req.user._id.toString());
+        ResponseUtil.success(res, 'Appointment series cancelled successfully', result);
+    }
+}
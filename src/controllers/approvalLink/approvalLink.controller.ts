@@ -3,7 +3,16 @@ import { ApprovalLinkService } from '../../services/approvalLink/approvalLink.se
 import { ResponseUtil } from '../../utils';
 import { ERROR_CODES } from '../../utils/constants';
 import { TryCatch } from '../../decorators';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
 import { AppError } from '../../middlewares/errorHandler';
+import { ApprovalLinkState, IApprovalLinkAccessContext } from '../../types/approvalLink/approvalLink.types';
+
+const STATE_MESSAGES: Partial<Record<ApprovalLinkState, string>> = {
+    used: 'This request has already been decided',
+    expired: 'This link has expired',
+    revoked: 'This link has been revoked',
+    past: 'This visit is already over'
+};
 
 export class ApprovalLinkController {
     /**
@@ -18,15 +27,20 @@ export class ApprovalLinkController {
             throw new AppError('Token is required', ERROR_CODES.BAD_REQUEST);
         }
 
-        const result = await ApprovalLinkService.verifyToken(token);
+        const result = await ApprovalLinkService.verifyToken(token, ApprovalLinkController.getAccessContext(req));
 
-        if (!result.isValid) {
+        if (!result.state) {
             ResponseUtil.error(res, 'Invalid or expired link', ERROR_CODES.NOT_FOUND);
             return;
         }
 
-        if (result.isUsed) {
-            ResponseUtil.error(res, 'Link expired or already used', ERROR_CODES.BAD_REQUEST);
+        // Links that can no longer decide still show which visit they were for, without visitor details
+        if (!result.isValid) {
+            ResponseUtil.success(res, STATE_MESSAGES[result.state] || 'This link is no longer active', {
+                isValid: false,
+                state: result.state,
+                appointment: result.appointment
+            });
             return;
         }
 
@@ -42,7 +56,7 @@ export class ApprovalLinkController {
      */
     @TryCatch('Failed to update appointment status')
     static async updateStatus(req: Request, res: Response, _next: NextFunction): Promise<void> {
-        const { token, status } = req.body;
+        const { token, status, reason, reasonCode } = req.body;
 
         if (!token) {
             throw new AppError('Token is required', ERROR_CODES.BAD_REQUEST);
@@ -52,17 +66,74 @@ export class ApprovalLinkController {
             throw new AppError('Status must be either "approved" or "rejected"', ERROR_CODES.BAD_REQUEST);
         }
 
-        const result = await ApprovalLinkService.updateStatusViaToken(token, status);
+        if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 500)) {
+            throw new AppError('Reason must be text of at most 500 characters', ERROR_CODES.BAD_REQUEST);
+        }
+
+        if (reasonCode !== undefined && reasonCode !== null && typeof reasonCode !== 'string') {
+            throw new AppError('Reason code must be text', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const result = await ApprovalLinkService.updateStatusViaToken(
+            token,
+            status,
+            { reasonCode: reasonCode || undefined, reason: reason || undefined },
+            ApprovalLinkController.getAccessContext(req)
+        );
 
         ResponseUtil.success(
             res,
-            `Appointment ${status} successfully`,
+            result.nextStep
+                ? `Approval recorded. The appointment now needs ${result.nextStep} approval`
+                : `Appointment ${status} successfully`,
             result.appointment,
             ERROR_CODES.OK
         );
     }
-}
 
+    /**
+     * Approval links of an appointment with their state and access log
+     * GET /api/appointments/:id/approval-links
+     */
+    @TryCatch('Failed to get approval links')
+    static async getApprovalLinks(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const links = await ApprovalLinkService.getApprovalLinks(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Approval links retrieved successfully', links);
+    }
 
+    /**
+     * Issue a new token for an approval link and send it to the approver again
+     * POST /api/appointments/:id/approval-links/:linkId/resend
+     */
+    @TryCatch('Failed to resend approval link')
+    static async resendApprovalLink(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, linkId } = req.params;
+        const link = await ApprovalLinkService.resendApprovalLink(id, linkId, req.user._id.toString());
+        ResponseUtil.success(res, 'Approval link resent successfully', link);
+    }
 
+    /**
+     * Revoke an approval link
+     * PUT /api/appointments/:id/approval-links/:linkId/revoke
+     */
+    @TryCatch('Failed to revoke approval link')
+    static async revokeApprovalLink(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, linkId } = req.params;
+        const link = await ApprovalLinkService.revokeApprovalLink(id, linkId, req.user._id.toString());
+        ResponseUtil.success(res, 'Approval link revoked successfully', link);
+    }
 
+    private static getAccessContext(req: Request): IApprovalLinkAccessContext {
+        return { ip: req.ip, userAgent: req.get('user-agent') };
+    }
+}
@@ -0,0 +1,43 @@
+import { Response, NextFunction } from 'express';
+import { BadgeService } from '../../services/badge/badge.service';
+import { ERROR_CODES } from '../../utils/constants';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { IBadgeBatchQuery, IBadgePrintQuery } from '../../types/badge/badge.types';
+import { AppError } from '../../middlewares/errorHandler';
+import { TryCatch } from '../../decorators';
+
+export class BadgeController {
+    /**
+     * Printable badges of everyone on an appointment, one page each
+     * GET /api/appointments/:id/badge.pdf?size=62mm
+     */
+    @TryCatch('Failed to print badge')
+    static async getAppointmentBadge(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const pdf = await BadgeService.renderAppointmentBadges(id, req.user._id.toString(), req.query as IBadgePrintQuery);
+        BadgeController.sendPdf(res, pdf, `badge-${id}.pdf`);
+    }
+
+    /**
+     * Printable badges of the next morning's approved visitors
+     * GET /api/appointments/badges.pdf?date=2024-01-15&until=12:00&size=4x3in
+     */
+    @TryCatch('Failed to print badges')
+    static async getMorningBadges(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const pdf = await BadgeService.renderMorningBadges(req.user._id.toString(), req.query as IBadgeBatchQuery);
+        BadgeController.sendPdf(res, pdf, 'badges.pdf');
+    }
+
+    private static sendPdf(res: Response, pdf: Buffer, filename: string): void {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+        res.setHeader('Cache-Control', 'no-store');
+        res.status(200).send(pdf);
+    }
+}
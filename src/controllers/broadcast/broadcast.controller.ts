@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import { BroadcastService } from '../../services/broadcast/broadcast.service';
+import { ResponseUtil } from '../../utils';
+import { ERROR_CODES } from '../../utils/constants';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { ISendBroadcastDTO, IGetBroadcastsQuery } from '../../types/broadcast/broadcast.types';
+import { AppError } from '../../middlewares/errorHandler';
+import { TryCatch } from '../../decorators';
+
+export class BroadcastController {
+    /**
+     * Send an emergency broadcast (admin only)
+     * POST /api/broadcasts
+     */
+    @TryCatch('Failed to send broadcast')
+    static async sendBroadcast(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (req.user.role !== 'admin') {
+            throw new AppError('Access denied. Admin role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const broadcastData: ISendBroadcastDTO = req.body;
+        const broadcast = await BroadcastService.sendBroadcast(broadcastData, req.user._id.toString());
+        ResponseUtil.success(res, 'Broadcast sent', broadcast, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Broadcast history (admin only)
+     * GET /api/broadcasts
+     */
+    @TryCatch('Failed to get broadcasts')
+    static async getBroadcasts(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (req.user.role !== 'admin') {
+            throw new AppError('Access denied. Admin role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const query: IGetBroadcastsQuery = req.query;
+        const result = await BroadcastService.getBroadcasts(query, req.user._id.toString());
+        ResponseUtil.success(res, 'Broadcasts retrieved successfully', result);
+    }
+
+    /**
+     * A broadcast with per-recipient delivery and acknowledgement (admin only)
+     * GET /api/broadcasts/:id
+     */
+    @TryCatch('Failed to get broadcast')
+    static async getBroadcast(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (req.user.role !== 'admin') {
+            throw new AppError('Access denied. Admin role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const { id } = req.params;
+        const broadcast = await BroadcastService.getBroadcast(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Broadcast retrieved successfully', broadcast);
+    }
+
+    /**
+     * Record an acknowledgement received in person or by phone (admin only)
+     * PUT /api/broadcasts/:id/recipients/:recipientId/acknowledge
+     */
+    @TryCatch('Failed to acknowledge broadcast')
+    static async acknowledgeRecipient(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (req.user.role !== 'admin') {
+            throw new AppError('Access denied. Admin role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const { id, recipientId } = req.params;
+        const broadcast = await BroadcastService.acknowledgeRecipient(id, recipientId, req.user._id.toString());
+        ResponseUtil.success(res, 'Acknowledgement recorded', broadcast);
+    }
+
+    /**
+     * The broadcast behind a recipient's acknowledgement link (public)
+     * GET /api/acknowledge/:token
+     */
+    @TryCatch('Failed to get broadcast')
+    static async getAcknowledgement(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const acknowledgement = await BroadcastService.getAcknowledgement(token);
+        ResponseUtil.success(res, 'Broadcast retrieved successfully', acknowledgement);
+    }
+
+    /**
+     * Acknowledge a broadcast from its link (public)
+     * POST /api/acknowledge/:token
+     */
+    @TryCatch('Failed to acknowledge broadcast')
+    static async acknowledge(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const acknowledgement = await BroadcastService.acknowledge(token);
+        ResponseUtil.success(res, 'Thank you, your acknowledgement has been recorded', acknowledgement);
+    }
+}
@@ -1,5 +1,8 @@
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { EmployeeService } from '../../services/employee/employee.service';
+import { AvailabilityService } from '../../services/availability/availability.service';
+import { CalendarService } from '../../services/calendar/calendar.service';
+import { DelegationService } from '../../services/delegation/delegation.service';
 import { Employee } from '../../models/employee/employee.model';
 import { ResponseUtil } from '../../utils';
 import {
@@ -7,7 +10,11 @@ import {
     IUpdateEmployeeDTO,
     IGetEmployeesQuery,
     IUpdateEmployeeStatusDTO,
-    IBulkUpdateEmployeesDTO
+    IBulkUpdateEmployeesDTO,
+    IAvailabilityQuery,
+    ICreateBlockedTimeDTO,
+    IGetBlockedTimesQuery,
+    ISetDelegationDTO
 } from '../../types/employee/employee.types';
 import { ERROR_CODES } from '../../utils/constants';
 import { TryCatch } from '../../decorators';
@@ -216,4 +223,139 @@ export class EmployeeController {
         const stats = await EmployeeService.getEmployeeStats(userId);
         ResponseUtil.success(res, 'Employee statistics retrieved successfully', stats);
     }
+
+    /**
+     * Get free slots of an employee on a day
+     * GET /api/employees/:id/availability?date=YYYY-MM-DD
+     */
+    @TryCatch('Failed to get employee availability')
+    static async getAvailability(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const query = req.query as unknown as IAvailabilityQuery;
+        const availability = await AvailabilityService.getAvailability(id, query, req.user._id.toString());
+        ResponseUtil.success(res, 'Employee availability retrieved successfully', availability);
+    }
+
+    /**
+     * Block time in an employee's calendar
+     * POST /api/employees/:id/blocked-times
+     */
+    @TryCatch('Failed to block employee time')
+    static async createBlockedTime(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const blockData: ICreateBlockedTimeDTO = req.body;
+        const blockedTime = await AvailabilityService.createBlockedTime(id, blockData, req.user._id.toString());
+        ResponseUtil.success(res, 'Blocked time created successfully', blockedTime, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Get blocked time entries of an employee
+     * GET /api/employees/:id/blocked-times
+     */
+    @TryCatch('Failed to get blocked time')
+    static async getBlockedTimes(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const query: IGetBlockedTimesQuery = req.query;
+        const blockedTimes = await AvailabilityService.getBlockedTimes(id, query, req.user._id.toString());
+        ResponseUtil.success(res, 'Blocked time retrieved successfully', blockedTimes);
+    }
+
+    /**
+     * Remove a blocked time entry
+     * DELETE /api/employees/:id/blocked-times/:blockId
+     */
+    @TryCatch('Failed to delete blocked time')
+    static async deleteBlockedTime(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, blockId } = req.params;
+        await AvailabilityService.deleteBlockedTime(id, blockId, req.user._id.toString());
+        ResponseUtil.success(res, 'Blocked time deleted successfully');
+    }
+
+    /**
+     * Get the iCalendar feed URL of an employee
+     * GET /api/employees/:id/calendar-feed
+     */
+    @TryCatch('Failed to get calendar feed')
+    static async getCalendarFeed(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const feed = await CalendarService.getFeedLink(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Calendar feed retrieved successfully', feed);
+    }
+
+    /**
+     * Issue a new calendar feed URL, invalidating the previous one
+     * POST /api/employees/:id/calendar-feed/rotate
+     */
+    @TryCatch('Failed to rotate calendar feed')
+    static async rotateCalendarFeed(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const feed = await CalendarService.rotateFeedToken(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Calendar feed rotated successfully', feed);
+    }
+
+    /**
+     * Hand an employee's approvals to a colleague, optionally for a date range
+     * PUT /api/employees/:id/delegation
+     */
+    @TryCatch('Failed to set delegation')
+    static async setDelegation(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const delegationData: ISetDelegationDTO = {
+            delegateId: req.body.delegateId,
+            startDate: req.body.startDate,
+            endDate: req.body.endDate,
+            reason: req.body.reason
+        };
+        const employee = await DelegationService.setDelegation(id, delegationData, req.user._id.toString());
+        ResponseUtil.success(res, 'Delegation set successfully', employee);
+    }
+
+    /**
+     * Stop delegating an employee's approvals
+     * DELETE /api/employees/:id/delegation
+     */
+    @TryCatch('Failed to clear delegation')
+    static async clearDelegation(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const employee = await DelegationService.clearDelegation(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Delegation cleared successfully', employee);
+    }
+
+    /**
+     * iCalendar feed of approved appointments (public, token-protected)
+     * GET /api/employees/:id/calendar.ics?token=...
+     */
+    @TryCatch('Failed to get calendar')
+    static async getCalendarIcs(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { id } = req.params;
+        const ics = await CalendarService.getEmployeeFeed(id, req.query.token as string);
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', 'inline; filename="calendar.ics"');
+        res.setHeader('Cache-Control', 'private, max-age=300');
+        res.status(200).send(ics);
+    }
 }
@@ -5,3 +5,14 @@ export * from './visitor/visitor.controller';
 export * from './subscription/subscription.controller';
 export * from './userSubscription/userSubscription.controller';
 export * from './settings/settings.controller';
+export * from './appointmentSeries/appointmentSeries.controller';
+export * from './meetingRoom/meetingRoom.controller';
+export * from './visitorLink/visitorLink.controller';
+export * from './preRegistration/preRegistration.controller';
+export * from './invitation/invitation.controller';
+export * from './visitorPass/visitorPass.controller';
+export * from './badge/badge.controller';
+export * from './rollCall/rollCall.controller';
+export * from './broadcast/broadcast.controller';
+export * from './watchlist/watchlist.controller';
+export * from './visitorType/visitorType.controller';
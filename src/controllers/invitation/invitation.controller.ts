@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import { InvitationService } from '../../services/invitation/invitation.service';
+import { ResponseUtil } from '../../utils';
+import { ERROR_CODES } from '../../utils/constants';
+import {
+    ICreateInvitationDTO,
+    IGetInvitationsQuery,
+    ICompleteInvitationDTO
+} from '../../types/invitation/invitation.types';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { AppError } from '../../middlewares/errorHandler';
+import { TryCatch } from '../../decorators';
+
+export class InvitationController {
+    /**
+     * Invite a visitor; the appointment is created once they complete their details
+     * POST /api/v1/appointments/invitations
+     */
+    @TryCatch('Failed to create invitation')
+    static async createInvitation(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const invitationData: ICreateInvitationDTO = req.body;
+        const createdBy = req.user._id.toString();
+        const invitation = await InvitationService.createInvitation(invitationData, createdBy);
+        ResponseUtil.success(res, 'Invitation sent successfully', invitation, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Get invitations with pagination and filtering
+     * GET /api/v1/appointments/invitations
+     */
+    @TryCatch('Failed to get invitations')
+    static async getInvitations(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const query: IGetInvitationsQuery = req.query;
+        const userId = req.user._id.toString();
+        const result = await InvitationService.getInvitations(query, userId);
+        ResponseUtil.success(res, 'Invitations retrieved successfully', result);
+    }
+
+    /**
+     * Send the invitation again with a new link
+     * POST /api/v1/appointments/invitations/:id/resend
+     */
+    @TryCatch('Failed to resend invitation')
+    static async resendInvitation(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const userId = req.user._id.toString();
+        const invitation = await InvitationService.resendInvitation(id, userId, {
+            expiresInHours: req.body.expiresInHours
+        });
+        ResponseUtil.success(res, 'Invitation resent successfully', invitation);
+    }
+
+    /**
+     * Revoke a pending invitation
+     * PUT /api/v1/appointments/invitations/:id/revoke
+     */
+    @TryCatch('Failed to revoke invitation')
+    static async revokeInvitation(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const userId = req.user._id.toString();
+        const invitation = await InvitationService.revokeInvitation(id, userId);
+        ResponseUtil.success(res, 'Invitation revoked successfully', invitation);
+    }
+
+    /**
+     * Get the invitation behind a magic link
+     * GET /api/v1/invite/:token
+     */
+    @TryCatch('Failed to get invitation')
+    static async getInvitationForm(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const form = await InvitationService.getInvitationForm(token);
+        ResponseUtil.success(res, 'Invitation retrieved successfully', form);
+    }
+
+    /**
+     * Upload the visitor's photo or ID proof
+     * POST /api/v1/invite/:token/upload
+     */
+    @TryCatch('Failed to upload file')
+    static async uploadFile(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.file) {
+            throw new AppError('No file uploaded', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const { token } = req.params;
+        const uploadResult = await InvitationService.uploadFile(token, req.file);
+        ResponseUtil.success(res, 'File uploaded successfully', uploadResult);
+    }
+
+    /**
+     * Complete the visitor's details; creates the approved appointment and sends the pass
+     * POST /api/v1/invite/:token
+     */
+    @TryCatch('Failed to complete invitation')
+    static async completeInvitation(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const details: ICompleteInvitationDTO = req.body;
+        const result = await InvitationService.completeInvitation(token, details, {});
+        ResponseUtil.success(res, 'Invitation completed successfully', result, ERROR_CODES.CREATED);
+    }
+}
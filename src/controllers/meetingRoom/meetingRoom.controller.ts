@@ -0,0 +1,106 @@
+import { Response, NextFunction } from 'express';
+import { MeetingRoomService } from '../../services/meetingRoom/meetingRoom.service';
+import { ResponseUtil } from '../../utils';
+import {
+    ICreateMeetingRoomDTO,
+    IUpdateMeetingRoomDTO,
+    IGetMeetingRoomsQuery,
+    IRoomUtilizationQuery
+} from '../../types/meetingRoom/meetingRoom.types';
+import { ERROR_CODES } from '../../utils/constants';
+import { TryCatch } from '../../decorators';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { AppError } from '../../middlewares/errorHandler';
+
+export class MeetingRoomController {
+    /**
+     * Create a new meeting room
+     * POST /api/meeting-rooms
+     */
+    @TryCatch('Failed to create meeting room')
+    static async createMeetingRoom(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const roomData: ICreateMeetingRoomDTO = req.body;
+        const createdBy = req.user._id.toString();
+        const room = await MeetingRoomService.createMeetingRoom(roomData, createdBy);
+        ResponseUtil.success(res, 'Meeting room created successfully', room, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Get all meeting rooms with pagination and filtering (user-specific)
+     * GET /api/meeting-rooms
+     */
+    @TryCatch('Failed to get meeting rooms')
+    static async getAllMeetingRooms(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const query: IGetMeetingRoomsQuery = req.query;
+        const userId = req.user._id.toString();
+        const result = await MeetingRoomService.getAllMeetingRooms(query, userId);
+        ResponseUtil.success(res, 'Meeting rooms retrieved successfully', result);
+    }
+
+    /**
+     * Get booked time per room in a date range
+     * GET /api/meeting-rooms/utilization
+     */
+    @TryCatch('Failed to get meeting room utilization')
+    static async getUtilization(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const query = req.query as unknown as IRoomUtilizationQuery;
+        const userId = req.user._id.toString();
+        const utilization = await MeetingRoomService.getUtilization(query, userId);
+        ResponseUtil.success(res, 'Meeting room utilization retrieved successfully', utilization);
+    }
+
+    /**
+     * Get meeting room by ID (user-specific)
+     * GET /api/meeting-rooms/:id
+     */
+    @TryCatch('Failed to get meeting room')
+    static async getMeetingRoomById(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const userId = req.user._id.toString();
+        const room = await MeetingRoomService.getMeetingRoomById(id, userId);
+        ResponseUtil.success(res, 'Meeting room retrieved successfully', room);
+    }
+
+    /**
+     * Update meeting room (user-specific)
+     * PUT /api/meeting-rooms/:id
+     */
+    @TryCatch('Failed to update meeting room')
+    static async updateMeetingRoom(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const updateData: IUpdateMeetingRoomDTO = req.body;
+        const userId = req.user._id.toString();
+        const room = await MeetingRoomService.updateMeetingRoom(id, updateData, userId);
+        ResponseUtil.success(res, 'Meeting room updated successfully', room);
+    }
+
+    /**
+     * Delete meeting room (soft delete)
+     * DELETE /api/meeting-rooms/:id
+     */
+    @TryCatch('Failed to delete meeting room')
+    static async deleteMeetingRoom(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const deletedBy = req.user._id.toString();
+        await MeetingRoomService.deleteMeetingRoom(id, deletedBy);
+        ResponseUtil.success(res, 'Meeting room deleted successfully');
+    }
+}
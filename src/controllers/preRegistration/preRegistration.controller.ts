@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { PreRegistrationService } from '../../services/preRegistration/preRegistration.service';
+import { ResponseUtil } from '../../utils';
+import { ERROR_CODES } from '../../utils/constants';
+import { IPreRegistrationDTO } from '../../types/preRegistration/preRegistration.types';
+import { AppError } from '../../middlewares/errorHandler';
+import { TryCatch } from '../../decorators';
+
+export class PreRegistrationController {
+    /**
+     * Get the company details, hosts and purposes for the public registration form
+     * GET /api/v1/register/:token
+     */
+    @TryCatch('Failed to get registration form')
+    static async getForm(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const form = await PreRegistrationService.getForm(token);
+        ResponseUtil.success(res, 'Registration form retrieved successfully', form);
+    }
+
+    /**
+     * Upload the visitor's photo or ID proof
+     * POST /api/v1/register/:token/upload
+     */
+    @TryCatch('Failed to upload file')
+    static async uploadFile(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.file) {
+            throw new AppError('No file uploaded', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const { token } = req.params;
+        const uploadResult = await PreRegistrationService.uploadFile(token, req.file);
+        ResponseUtil.success(res, 'File uploaded successfully', uploadResult);
+    }
+
+    /**
+     * Submit the registration; creates the visitor and a pending appointment
+     * POST /api/v1/register/:token
+     */
+    @TryCatch('Failed to submit registration')
+    static async register(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const registration: IPreRegistrationDTO = req.body;
+        const result = await PreRegistrationService.register(token, registration, {});
+        ResponseUtil.success(res, 'Registration submitted successfully', result, ERROR_CODES.CREATED);
+    }
+}
@@ -0,0 +1,106 @@
+import { Response, NextFunction } from 'express';
+import { RollCallService } from '../../services/rollCall/rollCall.service';
+import { ResponseUtil } from '../../utils';
+import { ERROR_CODES } from '../../utils/constants';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import {
+    IStartRollCallDTO,
+    IMarkSafeDTO,
+    ICloseRollCallDTO,
+    IGetRollCallsQuery,
+    RollCallExportFormat
+} from '../../types/rollCall/rollCall.types';
+import { AppError } from '../../middlewares/errorHandler';
+import { TryCatch } from '../../decorators';
+
+export class RollCallController {
+    /**
+     * Start an emergency roll call with everyone on site
+     * POST /api/roll-calls
+     */
+    @TryCatch('Failed to start roll call')
+    static async startRollCall(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const rollCallData: IStartRollCallDTO = req.body;
+        const rollCall = await RollCallService.startRollCall(rollCallData, req.user._id.toString());
+        ResponseUtil.success(res, 'Roll call started', rollCall, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Roll call history
+     * GET /api/roll-calls
+     */
+    @TryCatch('Failed to get roll calls')
+    static async getRollCalls(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const query: IGetRollCallsQuery = req.query;
+        const result = await RollCallService.getRollCalls(query, req.user._id.toString());
+        ResponseUtil.success(res, 'Roll calls retrieved successfully', result);
+    }
+
+    /**
+     * A roll call with its list and, once closed, its summary
+     * GET /api/roll-calls/:id
+     */
+    @TryCatch('Failed to get roll call')
+    static async getRollCall(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const rollCall = await RollCallService.getRollCall(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Roll call retrieved successfully', rollCall);
+    }
+
+    /**
+     * Download the list as CSV or a printable PDF
+     * GET /api/roll-calls/:id/export?format=pdf
+     */
+    @TryCatch('Failed to export roll call')
+    static async exportRollCall(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const format = req.query.format as RollCallExportFormat | undefined;
+        const file = await RollCallService.exportRollCall(id, req.user._id.toString(), format);
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+        res.setHeader('Cache-Control', 'no-store');
+        res.status(200).send(file.content);
+    }
+
+    /**
+     * Mark a visitor safe at the assembly point
+     * PUT /api/roll-calls/:id/entries/:entryId/safe
+     */
+    @TryCatch('Failed to mark visitor safe')
+    static async markSafe(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id, entryId } = req.params;
+        const markData: IMarkSafeDTO = req.body;
+        const rollCall = await RollCallService.markSafe(id, entryId, markData, req.user._id.toString());
+        ResponseUtil.success(res, 'Visitor marked safe', rollCall);
+    }
+
+    /**
+     * Close the roll call and produce its summary report
+     * PUT /api/roll-calls/:id/close
+     */
+    @TryCatch('Failed to close roll call')
+    static async closeRollCall(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const closeData: ICloseRollCallDTO = req.body;
+        const rollCall = await RollCallService.closeRollCall(id, closeData, req.user._id.toString());
+        ResponseUtil.success(res, 'Roll call closed', rollCall);
+    }
+}
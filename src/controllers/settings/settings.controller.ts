@@ -1,5 +1,6 @@
 import { Response, NextFunction } from 'express';
 import { SettingsService } from '../../services/settings/settings.service';
+import { PreRegistrationService } from '../../services/preRegistration/preRegistration.service';
 import { ResponseUtil } from '../../utils';
 import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
 import { TryCatch } from '../../decorators';
@@ -25,7 +26,26 @@ export class SettingsController {
         const settings = await SettingsService.updateSettings(userId, updateData);
         ResponseUtil.success(res, 'Settings updated successfully', settings);
     }
-}
-
 
+    /**
+     * Get the company's public pre-registration link
+     * GET /api/v1/settings/pre-registration-link
+     */
+    @TryCatch('Failed to get pre-registration link')
+    static async getPreRegistrationLink(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        const userId = req.user!._id.toString();
+        const link = await PreRegistrationService.getLink(userId);
+        ResponseUtil.success(res, 'Pre-registration link retrieved successfully', link);
+    }
 
+    /**
+     * Replace the pre-registration link; the previous link stops working
+     * POST /api/v1/settings/pre-registration-link/rotate
+     */
+    @TryCatch('Failed to rotate pre-registration link')
+    static async rotatePreRegistrationLink(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        const userId = req.user!._id.toString();
+        const link = await PreRegistrationService.rotateLink(userId);
+        ResponseUtil.success(res, 'Pre-registration link rotated successfully', link);
+    }
+}
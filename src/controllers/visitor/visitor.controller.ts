@@ -9,7 +9,7 @@ import {
     IBulkUpdateVisitorsDTO,
     IVisitorSearchQuery
 } from '../../types/visitor/visitor.types';
-import { ERROR_CODES } from '../../utils/constants';
+import { ERROR_CODES, WATCHLIST_ROLES } from '../../utils/constants';
 import { TryCatch } from '../../decorators';
 import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
 import { AppError } from '../../middlewares/errorHandler';
@@ -24,9 +24,12 @@ export class VisitorController {
         if (!req.user) {
             throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
         }
-        const visitorData: ICreateVisitorDTO = req.body;
+        const { watchlistOverrideReason, ...visitorData }: ICreateVisitorDTO & { watchlistOverrideReason?: string } = req.body;
+        if (watchlistOverrideReason && !WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('You are not allowed to override a watchlist hold', ERROR_CODES.FORBIDDEN);
+        }
         const createdBy = req.user._id.toString();
-        const visitor = await VisitorService.createVisitor(visitorData, createdBy);
+        const visitor = await VisitorService.createVisitor(visitorData, createdBy, { watchlistOverrideReason });
         ResponseUtil.success(res, 'Visitor created successfully', visitor, ERROR_CODES.CREATED);
     }
 
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import { RescheduleService } from '../../services/reschedule/reschedule.service';
+import { ResponseUtil } from '../../utils';
+import { IProposeRescheduleDTO, IRespondRescheduleDTO } from '../../types/appointment/appointment.types';
+import { TryCatch } from '../../decorators';
+
+export class VisitorLinkController {
+    /**
+     * Get the appointment behind a visitor link
+     * GET /api/v1/visit/:token
+     */
+    @TryCatch('Failed to get appointment')
+    static async getAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const appointment = await RescheduleService.getVisitorView(token);
+        ResponseUtil.success(res, 'Appointment retrieved successfully', appointment);
+    }
+
+    /**
+     * Propose a new time to the host
+     * POST /api/v1/visit/:token/reschedule
+     */
+    @TryCatch('Failed to propose new time')
+    static async proposeReschedule(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const proposal: IProposeRescheduleDTO = req.body;
+        const appointment = await RescheduleService.proposeByVisitor(token, proposal, {});
+        ResponseUtil.success(res, 'New time proposed successfully', appointment);
+    }
+
+    /**
+     * Accept or decline the time proposed by the host
+     * POST /api/v1/visit/:token/reschedule/respond
+     */
+    @TryCatch('Failed to respond to new time')
+    static async respondToReschedule(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const response: IRespondRescheduleDTO = req.body;
+        const appointment = await RescheduleService.respondByVisitor(token, response, {});
+        ResponseUtil.success(res, response.accept ? 'New time accepted successfully' : 'New time declined successfully', appointment);
+    }
+
+    /**
+     * Cancel the appointment
+     * POST /api/v1/visit/:token/cancel
+     */
+    @TryCatch('Failed to cancel appointment')
+    static async cancelAppointment(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const appointment = await RescheduleService.cancelByVisitor(token, req.body.reason);
+        ResponseUtil.success(res, 'Appointment cancelled successfully', appointment);
+    }
+}
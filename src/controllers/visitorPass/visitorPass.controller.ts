@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { VisitorPassService } from '../../services/visitorPass/visitorPass.service';
+import { ResponseUtil } from '../../utils';
+import { ERROR_CODES } from '../../utils/constants';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { IVisitorPassScanDTO } from '../../types/visitorPass/visitorPass.types';
+import { AppError } from '../../middlewares/errorHandler';
+import { TryCatch } from '../../decorators';
+
+export class VisitorPassController {
+    /**
+     * Scan a visitor's QR pass: checks them in on arrival and out when they leave
+     * POST /api/appointments/scan
+     */
+    @TryCatch('Failed to scan visitor pass')
+    static async scanPass(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const scanData: IVisitorPassScanDTO = req.body;
+        const result = await VisitorPassService.scanPass(scanData, req.user._id.toString());
+        const message = result.action === 'checked_in' ? 'Visitor checked in successfully' : 'Visitor checked out successfully';
+        ResponseUtil.success(res, message, result);
+    }
+
+    /**
+     * Passes of everyone on an approved appointment
+     * GET /api/appointments/:id/passes
+     */
+    @TryCatch('Failed to get visitor passes')
+    static async getPasses(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const passes = await VisitorPassService.getPasses(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Visitor passes retrieved successfully', passes);
+    }
+
+    /**
+     * Revoke every pass of an appointment and send the visitors new ones
+     * POST /api/appointments/:id/passes/revoke
+     */
+    @TryCatch('Failed to revoke visitor passes')
+    static async revokePasses(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const passes = await VisitorPassService.revokePasses(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Visitor passes revoked successfully', passes);
+    }
+
+    /**
+     * QR code image of a pass (public, the signed token is the pass)
+     * GET /api/passes/:token/qr.png
+     */
+    @TryCatch('Failed to get visitor pass')
+    static async getQrCode(req: Request, res: Response, _next: NextFunction): Promise<void> {
+        const { token } = req.params;
+        const image = await VisitorPassService.renderQrCode(token);
+        res.setHeader('Content-Type', 'image/png');
+        res.setHeader('Content-Disposition', 'inline; filename="visitor-pass.png"');
+        res.setHeader('Cache-Control', 'private, max-age=86400');
+        res.status(200).send(image);
+    }
+}
@@ -0,0 +1,90 @@
+import { Response, NextFunction } from 'express';
+import { VisitorTypeService } from '../../services/visitorType/visitorType.service';
+import { ResponseUtil } from '../../utils';
+import {
+    ICreateVisitorTypeDTO,
+    IUpdateVisitorTypeDTO,
+    IGetVisitorTypesQuery
+} from '../../types/visitorType/visitorType.types';
+import { ERROR_CODES } from '../../utils/constants';
+import { TryCatch } from '../../decorators';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import { AppError } from '../../middlewares/errorHandler';
+
+export class VisitorTypeController {
+    /**
+     * Create a new visitor type
+     * POST /api/visitor-types
+     */
+    @TryCatch('Failed to create visitor type')
+    static async createVisitorType(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const typeData: ICreateVisitorTypeDTO = req.body;
+        const createdBy = req.user._id.toString();
+        const visitorType = await VisitorTypeService.createVisitorType(typeData, createdBy);
+        ResponseUtil.success(res, 'Visitor type created successfully', visitorType, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Get all visitor types with pagination and filtering (user-specific)
+     * GET /api/visitor-types
+     */
+    @TryCatch('Failed to get visitor types')
+    static async getAllVisitorTypes(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const query: IGetVisitorTypesQuery = req.query;
+        const userId = req.user._id.toString();
+        const result = await VisitorTypeService.getAllVisitorTypes(query, userId);
+        ResponseUtil.success(res, 'Visitor types retrieved successfully', result);
+    }
+
+    /**
+     * Get visitor type by ID (user-specific)
+     * GET /api/visitor-types/:id
+     */
+    @TryCatch('Failed to get visitor type')
+    static async getVisitorTypeById(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const userId = req.user._id.toString();
+        const visitorType = await VisitorTypeService.getVisitorTypeById(id, userId);
+        ResponseUtil.success(res, 'Visitor type retrieved successfully', visitorType);
+    }
+
+    /**
+     * Update visitor type (user-specific)
+     * PUT /api/visitor-types/:id
+     */
+    @TryCatch('Failed to update visitor type')
+    static async updateVisitorType(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const updateData: IUpdateVisitorTypeDTO = req.body;
+        const userId = req.user._id.toString();
+        const visitorType = await VisitorTypeService.updateVisitorType(id, updateData, userId);
+        ResponseUtil.success(res, 'Visitor type updated successfully', visitorType);
+    }
+
+    /**
+     * Delete visitor type (soft delete)
+     * DELETE /api/visitor-types/:id
+     */
+    @TryCatch('Failed to delete visitor type')
+    static async deleteVisitorType(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        const { id } = req.params;
+        const deletedBy = req.user._id.toString();
+        await VisitorTypeService.deleteVisitorType(id, deletedBy);
+        ResponseUtil.success(res, 'Visitor type deleted successfully');
+    }
+}
@@ -0,0 +1,118 @@
+import { Response, NextFunction } from 'express';
+import { WatchlistService } from '../../services/watchlist/watchlist.service';
+import { ResponseUtil } from '../../utils';
+import { ERROR_CODES, WATCHLIST_ROLES } from '../../utils/constants';
+import { AuthenticatedRequest } from '../../middlewares/auth.middleware';
+import {
+    ICreateWatchlistEntryDTO,
+    IUpdateWatchlistEntryDTO,
+    IGetWatchlistQuery,
+    IGetWatchlistHitsQuery
+} from '../../types/watchlist/watchlist.types';
+import { AppError } from '../../middlewares/errorHandler';
+import { TryCatch } from '../../decorators';
+
+export class WatchlistController {
+    /**
+     * Add a person to the watchlist
+     * POST /api/watchlist
+     */
+    @TryCatch('Failed to add watchlist entry')
+    static async createEntry(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (!WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('Access denied. Security role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const entryData: ICreateWatchlistEntryDTO = req.body;
+        const entry = await WatchlistService.createEntry(entryData, req.user._id.toString());
+        ResponseUtil.success(res, 'Watchlist entry created successfully', entry, ERROR_CODES.CREATED);
+    }
+
+    /**
+     * Watchlist entries with pagination and filtering
+     * GET /api/watchlist
+     */
+    @TryCatch('Failed to get watchlist')
+    static async getEntries(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (!WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('Access denied. Security role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const query: IGetWatchlistQuery = req.query;
+        const result = await WatchlistService.getEntries(query, req.user._id.toString());
+        ResponseUtil.success(res, 'Watchlist retrieved successfully', result);
+    }
+
+    /**
+     * Every watchlist hit and the decision taken on it
+     * GET /api/watchlist/hits
+     */
+    @TryCatch('Failed to get watchlist hits')
+    static async getHits(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (!WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('Access denied. Security role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const query: IGetWatchlistHitsQuery = req.query;
+        const result = await WatchlistService.getHits(query, req.user._id.toString());
+        ResponseUtil.success(res, 'Watchlist hits retrieved successfully', result);
+    }
+
+    /**
+     * Get a watchlist entry
+     * GET /api/watchlist/:id
+     */
+    @TryCatch('Failed to get watchlist entry')
+    static async getEntry(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (!WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('Access denied. Security role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const { id } = req.params;
+        const entry = await WatchlistService.getEntry(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Watchlist entry retrieved successfully', entry);
+    }
+
+    /**
+     * Update a watchlist entry, or switch it off with isActive: false
+     * PUT /api/watchlist/:id
+     */
+    @TryCatch('Failed to update watchlist entry')
+    static async updateEntry(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (!WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('Access denied. Security role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const { id } = req.params;
+        const updateData: IUpdateWatchlistEntryDTO = req.body;
+        const entry = await WatchlistService.updateEntry(id, updateData, req.user._id.toString());
+        ResponseUtil.success(res, 'Watchlist entry updated successfully', entry);
+    }
+
+    /**
+     * Remove a watchlist entry; its hits are kept
+     * DELETE /api/watchlist/:id
+     */
+    @TryCatch('Failed to delete watchlist entry')
+    static async deleteEntry(req: AuthenticatedRequest, res: Response, _next: NextFunction): Promise<void> {
+        if (!req.user) {
+            throw new AppError('User not authenticated', ERROR_CODES.UNAUTHORIZED);
+        }
+        if (!WATCHLIST_ROLES.includes(req.user.role)) {
+            throw new AppError('Access denied. Security role required.', ERROR_CODES.FORBIDDEN);
+        }
+        const { id } = req.params;
+        await WatchlistService.deleteEntry(id, req.user._id.toString());
+        ResponseUtil.success(res, 'Watchlist entry deleted successfully');
+    }
+}
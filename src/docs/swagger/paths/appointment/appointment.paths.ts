@@ -115,7 +115,7 @@ export const appointmentPaths = {
                     description: 'Filter by appointment status',
                     schema: {
                         type: 'string',
-                        enum: ['scheduled', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show']
+                        enum: ['pending', 'approved', 'rejected', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show']
                     }
                 },
                 {
@@ -753,7 +753,7 @@ export const appointmentPaths = {
                     description: 'Filter by appointment status',
                     schema: {
                         type: 'string',
-                        enum: ['scheduled', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show']
+                        enum: ['pending', 'approved', 'rejected', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show']
                     }
                 }
             ],
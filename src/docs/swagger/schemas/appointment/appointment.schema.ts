@@ -203,7 +203,7 @@ export const appointmentSchemas = {
             },
             status: {
                 type: 'string',
-                enum: ['scheduled', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show'],
+                enum: ['pending', 'approved', 'rejected', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show'],
                 description: 'Appointment status',
                 example: 'scheduled'
             },
@@ -523,9 +523,20 @@ export const appointmentSchemas = {
             },
             status: {
                 type: 'string',
-                enum: ['scheduled', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show'],
-                description: 'Appointment status',
-                example: 'scheduled'
+                enum: ['approved', 'rejected', 'cancelled', 'no_show'],
+                description: 'New status, applied as by the approve, reject, cancel and no-show actions',
+                example: 'cancelled'
+            },
+            reasonCode: {
+                type: 'string',
+                description: 'Code from the company reason list, when rejecting, cancelling or marking a no-show',
+                example: 'host_unavailable'
+            },
+            reason: {
+                type: 'string',
+                maxLength: 500,
+                description: 'Comment on the status change',
+                example: 'Host is travelling'
             },
             securityDetails: {
                 type: 'object',
@@ -798,7 +809,7 @@ export const appointmentSchemas = {
                             },
                             status: {
                                 type: 'string',
-                                enum: ['scheduled', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show'],
+                                enum: ['pending', 'approved', 'rejected', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show'],
                                 description: 'Appointment status',
                                 example: 'scheduled'
                             },
@@ -862,9 +873,20 @@ export const appointmentSchemas = {
             },
             status: {
                 type: 'string',
-                enum: ['scheduled', 'checked_in', 'in_meeting', 'completed', 'cancelled', 'no_show'],
-                description: 'New status for appointments',
-                example: 'completed'
+                enum: ['approved', 'rejected', 'cancelled', 'no_show'],
+                description: 'New status for appointments, applied as by the approve, reject, cancel and no-show actions',
+                example: 'cancelled'
+            },
+            reasonCode: {
+                type: 'string',
+                description: 'Code from the company reason list, when rejecting, cancelling or marking a no-show',
+                example: 'host_unavailable'
+            },
+            reason: {
+                type: 'string',
+                maxLength: 500,
+                description: 'Comment on the status change',
+                example: 'Office closed'
             },
             employeeId: {
                 type: 'string',
@@ -887,6 +909,11 @@ export const appointmentSchemas = {
                 type: 'number',
                 description: 'Number of appointments updated',
                 example: 5
+            },
+            awaitingApprovalCount: {
+                type: 'number',
+                description: 'Number of appointments whose host approval was recorded but which still wait for a later step of their approval policy',
+                example: 0
             }
         }
     }
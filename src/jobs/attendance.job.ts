@@ -0,0 +1,18 @@
+import { IScheduledJob } from './jobScheduler';
+import { AttendanceService } from '../services/attendance/attendance.service';
+
+/**
+ * Marks missed appointments as no-show and checks out visitors still on site
+ * after the end-of-day cutoff, following each company's attendance settings
+ */
+export const attendanceJob: IScheduledJob = {
+  name: 'attendance',
+  intervalMs: 5 * 60 * 1000,
+  run: async () => {
+    const noShows = await AttendanceService.markNoShows();
+    const checkedOut = await AttendanceService.autoCheckout();
+    if (noShows || checkedOut) {
+      console.log(`Attendance job: ${noShows} marked as no-show, ${checkedOut} auto checked-out`);
+    }
+  }
+};
@@ -0,0 +1,8 @@
+import { JobScheduler } from './jobScheduler';
+import { attendanceJob } from './attendance.job';
+import { reminderJob } from './reminder.job';
+import { overstayJob } from './overstay.job';
+
+export const startJobs = (): void => {
+  JobScheduler.start([attendanceJob, reminderJob, overstayJob]);
+};
@@ -0,0 +1,56 @@
+import { RedisLockService } from '../services/redis/redisLock.service';
+
+export interface IScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Runs background jobs on a fixed interval. Each run takes a Redis lock for the
+ * interval so only one server instance runs a job per tick; without Redis the
+ * job still runs, and the jobs themselves are written to be safe to repeat.
+ */
+export class JobScheduler {
+  private static timers: NodeJS.Timeout[] = [];
+  private static running = new Set<string>();
+
+  static start(jobs: IScheduledJob[]): void {
+    for (const job of jobs) {
+      const timer = setInterval(() => {
+        void this.runJob(job);
+      }, job.intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+    }
+  }
+
+  static stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  private static async runJob(job: IScheduledJob): Promise<void> {
+    // A slow run must not overlap the next tick in the same process
+    if (this.running.has(job.name)) {
+      return;
+    }
+    this.running.add(job.name);
+
+    try {
+      const acquired = await RedisLockService.acquire(`job:${job.name}`, job.intervalMs - 1000).catch((error) => {
+        console.warn(`Job ${job.name}: Redis lock unavailable, running without it:`, error.message);
+        return true;
+      });
+      if (!acquired) {
+        return;
+      }
+
+      await job.run();
+    } catch (error) {
+      console.error(`Job ${job.name} failed:`, error);
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
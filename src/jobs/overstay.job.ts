@@ -0,0 +1,17 @@
+import { IScheduledJob } from './jobScheduler';
+import { OverstayService } from '../services/overstay/overstay.service';
+
+/**
+ * Alerts hosts and security about visitors still on site past the scheduled
+ * duration of their visit, following each company's attendance settings
+ */
+export const overstayJob: IScheduledJob = {
+  name: 'overstay',
+  intervalMs: 5 * 60 * 1000,
+  run: async () => {
+    const alerted = await OverstayService.sendOverstayAlerts();
+    if (alerted) {
+      console.log(`Overstay job: ${alerted} overstaying visits alerted`);
+    }
+  }
+};
@@ -0,0 +1,16 @@
+import { IScheduledJob } from './jobScheduler';
+import { ReminderService } from '../services/reminder/reminder.service';
+
+/**
+ * Sends appointment reminders to visitors and hosts at each company's configured offsets
+ */
+export const reminderJob: IScheduledJob = {
+  name: 'reminders',
+  intervalMs: 60 * 1000,
+  run: async () => {
+    const reminded = await ReminderService.sendDueReminders();
+    if (reminded) {
+      console.log(`Reminder job: ${reminded} appointment reminders sent`);
+    }
+  }
+};
@@ -40,7 +40,7 @@ export const checkTrialLimits = async (
                 limitExceeded = true;
                 resourceType = 'visitors';
             }
-        } else if (req.originalUrl.includes('/appointments')) {
+        } else if (req.originalUrl.includes('/appointments') || req.originalUrl.includes('/appointment-series')) {
             if (counts.appointments >= TRIAL_LIMITS.appointments) {
                 limitExceeded = true;
                 resourceType = 'appointments';
@@ -5,11 +5,13 @@ import { sendErrorResponse } from '../utils/errorResponse.util';
 export class AppError extends Error {
     public statusCode: number;
     public isOperational: boolean;
+    public details?: unknown; // Extra context returned to the client (e.g. conflicting records)
 
-    constructor(message: string, statusCode: number = ERROR_CODES.INTERNAL_SERVER_ERROR) {
+    constructor(message: string, statusCode: number = ERROR_CODES.INTERNAL_SERVER_ERROR, details?: unknown) {
         super(message);
         this.statusCode = statusCode;
         this.isOperational = true;
+        this.details = details;
 
         Error.captureStackTrace(this, this.constructor);
     }
@@ -23,10 +25,12 @@ export const errorHandler = (
 ): void => {
     let statusCode = ERROR_CODES.INTERNAL_SERVER_ERROR;
     let message = 'Internal Server Error';
+    let details: unknown;
 
     if (error instanceof AppError) {
         statusCode = error.statusCode;
         message = error.message;
+        details = error.details;
     } else if (error.name === 'ValidationError') {
         statusCode = ERROR_CODES.BAD_REQUEST;
         message = 'Validation Error';
@@ -52,6 +56,7 @@ export const errorHandler = (
         res,
         message,
         statusCode,
-        process.env.NODE_ENV === 'development' ? error.message : undefined
+        process.env.NODE_ENV === 'development' ? error.message : undefined,
+        details
     );
 };
@@ -2,7 +2,7 @@ export { errorHandler, AppError } from './errorHandler';
 export { notFoundHandler } from './notFoundHandler';
 export { verifyToken, protect } from './auth.middleware';
 export { validateRequest } from './validateRequest';
-export { generalLimiter, authLimiter, passwordResetLimiter } from './rateLimiter';
+export { generalLimiter, authLimiter, passwordResetLimiter, publicFormLimiter } from './rateLimiter';
 export {
     checkPremiumSubscription,
     checkActiveSubscription,
@@ -42,4 +42,17 @@ export const passwordResetLimiter = rateLimit({
   skip: () => isDevelopment,
 });
 
+export const publicFormLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: isDevelopment ? 200 : 20,
+  message: {
+    success: false,
+    message: 'Too many submissions from this IP, please try again later.',
+    statusCode: ERROR_CODES.TOO_MANY_REQUESTS
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: () => isDevelopment,
+});
+
 export default generalLimiter;
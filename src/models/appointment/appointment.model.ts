@@ -1,4 +1,77 @@
 import mongoose, { Schema } from 'mongoose';
+import {
+    AppointmentStatus,
+    IStatusChangeActor,
+    StatusChangeSource,
+    IAppointmentSlot,
+    RescheduleParty,
+    RescheduleStatus,
+    IReminderLogEntry,
+    ApprovalStepStatus,
+    IStatusReason,
+    ReasonedStatus
+} from '../../types/appointment/appointment.types';
+import { APPOINTMENT_STATUSES, APPOINTMENT_STATUS_TRANSITIONS, REASONED_STATUSES, ERROR_CODES } from '../../utils/constants';
+import { AppError } from '../../middlewares/errorHandler';
+
+export interface IStatusHistoryEntry {
+    from: AppointmentStatus;
+    to: AppointmentStatus;
+    changedBy?: mongoose.Types.ObjectId; // Reference to User who made the change
+    source: StatusChangeSource;
+    note?: string;
+    reasonCode?: string; // Code from the company's reason list, for rejections, cancellations and no-shows
+    changedAt: Date;
+}
+
+export interface IApprovalRecord {
+    decision: 'approved' | 'rejected';
+    decidedBy?: mongoose.Types.ObjectId | null; // Reference to User, for dashboard decisions
+    approverId?: mongoose.Types.ObjectId | null; // Reference to Employee, for approval link decisions
+    onBehalfOf?: mongoose.Types.ObjectId | null; // Reference to Employee (host) when someone else decided
+    source: StatusChangeSource;
+    reason?: string; // Given when rejecting
+    decidedAt: Date;
+}
+
+export interface IApprovalStepRecord {
+    name: string;
+    approverIds: mongoose.Types.ObjectId[]; // References to Employee; the host for the first step
+    status: ApprovalStepStatus;
+    decidedBy?: mongoose.Types.ObjectId | null; // Reference to User, for dashboard decisions
+    approverId?: mongoose.Types.ObjectId | null; // Reference to Employee, for approval link decisions
+    onBehalfOf?: mongoose.Types.ObjectId | null; // Reference to Employee (host) when a delegate decided the host's step
+    reason?: string;
+    decidedAt?: Date;
+}
+
+export interface IApprovalChainRecord {
+    policyName: string;
+    currentStep: number; // Index of the step waiting for a decision
+    steps: IApprovalStepRecord[];
+}
+
+export interface IRescheduleHistoryEntry {
+    _id?: mongoose.Types.ObjectId;
+    previousSlot: IAppointmentSlot;
+    proposedSlot: IAppointmentSlot;
+    proposedBy: RescheduleParty;
+    proposedByUser?: mongoose.Types.ObjectId; // Reference to User when the host side proposed
+    reason?: string;
+    status: RescheduleStatus;
+    responseReason?: string;
+    respondedByUser?: mongoose.Types.ObjectId; // Reference to User when the host side responded
+    proposedAt: Date;
+    respondedAt?: Date;
+}
+
+export interface IAttendeeRecord {
+    visitorId: mongoose.Types.ObjectId; // Reference to Visitor
+    isLead: boolean; // The visitor the appointment is booked for (visitorId)
+    badgeNumber?: string;
+    checkInTime?: Date | null;
+    checkOutTime?: Date | null;
+}
 
 export interface IAppointment extends mongoose.Document {
     appointmentId: string;
@@ -15,20 +88,32 @@ export interface IAppointment extends mongoose.Document {
         };
     };
     accompanyingCount?: number;
+    attendees: IAttendeeRecord[]; // Everyone on the visit with their own Visitor record, the lead first
     appointmentDetails: {
         purpose: string;
         scheduledDate: Date;
         scheduledTime: string;
         duration: number; // in minutes
-        meetingRoom?: string;
+        meetingRoomId?: mongoose.Types.ObjectId; // Reference to MeetingRoom
+        meetingRoom?: string; // Room name, kept for display and for older free-text bookings
         notes?: string;
         vehicleNumber?: string; // Optional vehicle number
         vehiclePhoto?: string; // Optional vehicle photo URL
     };
-    status: 'pending' | 'approved' | 'rejected' | 'completed';
+    status: AppointmentStatus;
+    statusHistory: IStatusHistoryEntry[];
+    rescheduleHistory: IRescheduleHistoryEntry[]; // Proposed and applied time changes, oldest first
+    visitorToken?: string; // Secret for the visitor's appointment link
+    reminderOffsetsSent: number[]; // Reminder offsets (minutes) already claimed for the current time slot
+    reminderLog: IReminderLogEntry[]; // Every reminder sent, per recipient and channel
     checkInTime?: Date;
     checkOutTime?: Date;
     actualDuration?: number; // in minutes
+    autoCheckedOut: boolean; // Checked out by the end-of-day job rather than at the desk
+    overstayAlertedAt?: Date | null; // When the host and security were told the visit ran over
+    approval?: IApprovalRecord | null; // Latest approval decision
+    approvalChain?: IApprovalChainRecord | null; // Set when an approval policy requires more than the host's approval
+    statusReason?: IStatusReason | null; // Why the appointment was rejected, cancelled or marked as a no-show
     securityDetails: {
         badgeIssued: boolean;
         badgeNumber?: string;
@@ -40,15 +125,237 @@ export interface IAppointment extends mongoose.Document {
         emailSent: boolean;
         whatsappSent: boolean;
         reminderSent: boolean;
+        calendarInviteSent: boolean;
     };
+    visitorTypeId?: mongoose.Types.ObjectId | null; // Reference to VisitorType the visit was booked as
+    seriesId?: mongoose.Types.ObjectId; // Reference to AppointmentSeries when generated from a recurrence
+    occurrenceDate?: Date; // Date the recurrence rule generated, kept even if this occurrence is moved
+    isSeriesException: boolean; // Edited individually and no longer follows the series template
+    availabilityOverride?: {
+        overriddenBy: mongoose.Types.ObjectId; // Reference to User who booked outside availability
+        reason: string; // Why the slot was outside availability
+        overriddenAt: Date;
+    };
+    calendarSequence: number; // iCalendar SEQUENCE of the invite sent to visitor and host
+    passVersion: number; // Bumped to revoke every visitor pass handed out so far
     createdBy: mongoose.Types.ObjectId; // Reference to User who created the appointment
     isDeleted: boolean;
     deletedAt?: Date;
     deletedBy?: mongoose.Types.ObjectId; // Reference to User who deleted the appointment
     createdAt: Date;
     updatedAt: Date;
+
+    canTransitionTo(status: AppointmentStatus): boolean;
+    transitionTo(status: AppointmentStatus, actor: IStatusChangeActor): void;
 }
 
+const statusHistorySchema = new Schema<IStatusHistoryEntry>(
+    {
+        from: {
+            type: String,
+            enum: APPOINTMENT_STATUSES,
+            required: true
+        },
+        to: {
+            type: String,
+            enum: APPOINTMENT_STATUSES,
+            required: true
+        },
+        changedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        source: {
+            type: String,
+            enum: ['dashboard', 'approval_link', 'visitor_link', 'system'],
+            required: true
+        },
+        note: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Status note cannot exceed 500 characters']
+        },
+        reasonCode: {
+            type: String,
+            trim: true
+        },
+        changedAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    { _id: false }
+);
+
+const approvalStepSchema = new Schema<IApprovalStepRecord>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        approverIds: [{
+            type: Schema.Types.ObjectId,
+            ref: 'Employee'
+        }],
+        status: {
+            type: String,
+            enum: ['waiting', 'pending', 'approved', 'rejected'],
+            default: 'waiting'
+        },
+        decidedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        approverId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            default: null
+        },
+        onBehalfOf: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            default: null
+        },
+        reason: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Reason cannot exceed 500 characters']
+        },
+        decidedAt: {
+            type: Date
+        }
+    },
+    { _id: false }
+);
+
+const attendeeSchema = new Schema<IAttendeeRecord>(
+    {
+        visitorId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Visitor',
+            required: [true, 'Visitor ID is required']
+        },
+        isLead: {
+            type: Boolean,
+            default: false
+        },
+        badgeNumber: {
+            type: String,
+            trim: true,
+            uppercase: true
+        },
+        checkInTime: {
+            type: Date,
+            default: null
+        },
+        checkOutTime: {
+            type: Date,
+            default: null
+        }
+    },
+    { _id: false }
+);
+
+const slotSchema = new Schema<IAppointmentSlot>(
+    {
+        scheduledDate: {
+            type: Date,
+            required: true
+        },
+        scheduledTime: {
+            type: String,
+            required: true,
+            match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Please enter a valid time format (HH:MM)']
+        },
+        duration: {
+            type: Number,
+            required: true,
+            min: [15, 'Duration must be at least 15 minutes'],
+            max: [480, 'Duration cannot exceed 8 hours']
+        }
+    },
+    { _id: false }
+);
+
+const rescheduleHistorySchema = new Schema<IRescheduleHistoryEntry>({
+    previousSlot: {
+        type: slotSchema,
+        required: true
+    },
+    proposedSlot: {
+        type: slotSchema,
+        required: true
+    },
+    proposedBy: {
+        type: String,
+        enum: ['host', 'visitor'],
+        required: true
+    },
+    proposedByUser: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+    reason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'accepted', 'declined', 'superseded', 'applied'],
+        default: 'pending'
+    },
+    responseReason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    respondedByUser: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+    proposedAt: {
+        type: Date,
+        default: Date.now
+    },
+    respondedAt: {
+        type: Date
+    }
+});
+
+const reminderLogSchema = new Schema<IReminderLogEntry>(
+    {
+        offsetMinutes: {
+            type: Number,
+            required: true
+        },
+        recipient: {
+            type: String,
+            enum: ['visitor', 'host'],
+            required: true
+        },
+        channel: {
+            type: String,
+            enum: ['email', 'whatsapp'],
+            required: true
+        },
+        success: {
+            type: Boolean,
+            required: true
+        },
+        sentAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    { _id: false }
+);
+
 const appointmentSchema = new Schema<IAppointment>(
     {
         appointmentId: {
@@ -111,6 +418,10 @@ const appointmentSchema = new Schema<IAppointment>(
             max: [20, 'Accompanying people cannot exceed 20'],
             default: 0,
         },
+        attendees: {
+            type: [attendeeSchema],
+            default: []
+        },
         appointmentDetails: {
             purpose: {
                 type: String,
@@ -133,6 +444,11 @@ const appointmentSchema = new Schema<IAppointment>(
                 min: [15, 'Duration must be at least 15 minutes'],
                 max: [480, 'Duration cannot exceed 8 hours']
             },
+            meetingRoomId: {
+                type: Schema.Types.ObjectId,
+                ref: 'MeetingRoom',
+                default: null
+            },
             meetingRoom: {
                 type: String,
                 trim: true,
@@ -157,11 +473,31 @@ const appointmentSchema = new Schema<IAppointment>(
         status: {
             type: String,
             enum: {
-                values: ['pending', 'approved', 'rejected', 'completed'],
-                message: 'Status must be one of: pending, approved, rejected, completed'
+                values: APPOINTMENT_STATUSES,
+                message: `Status must be one of: ${APPOINTMENT_STATUSES.join(', ')}`
             },
             default: 'pending'
         },
+        statusHistory: {
+            type: [statusHistorySchema],
+            default: []
+        },
+        rescheduleHistory: {
+            type: [rescheduleHistorySchema],
+            default: []
+        },
+        visitorToken: {
+            type: String,
+            select: false
+        },
+        reminderOffsetsSent: {
+            type: [Number],
+            default: []
+        },
+        reminderLog: {
+            type: [reminderLogSchema],
+            default: []
+        },
         checkInTime: {
             type: Date
         },
@@ -172,6 +508,14 @@ const appointmentSchema = new Schema<IAppointment>(
             type: Number,
             min: [0, 'Actual duration cannot be negative']
         },
+        autoCheckedOut: {
+            type: Boolean,
+            default: false
+        },
+        overstayAlertedAt: {
+            type: Date,
+            default: null
+        },
         securityDetails: {
             badgeIssued: {
                 type: Boolean,
@@ -208,8 +552,124 @@ const appointmentSchema = new Schema<IAppointment>(
             reminderSent: {
                 type: Boolean,
                 default: false
+            },
+            calendarInviteSent: {
+                type: Boolean,
+                default: false
             }
         },
+        visitorTypeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'VisitorType',
+            default: null
+        },
+        seriesId: {
+            type: Schema.Types.ObjectId,
+            ref: 'AppointmentSeries',
+            default: null
+        },
+        occurrenceDate: {
+            type: Date,
+            default: null
+        },
+        isSeriesException: {
+            type: Boolean,
+            default: false
+        },
+        approval: {
+            type: {
+                decision: {
+                    type: String,
+                    enum: ['approved', 'rejected']
+                },
+                decidedBy: {
+                    type: Schema.Types.ObjectId,
+                    ref: 'User',
+                    default: null
+                },
+                approverId: {
+                    type: Schema.Types.ObjectId,
+                    ref: 'Employee',
+                    default: null
+                },
+                onBehalfOf: {
+                    type: Schema.Types.ObjectId,
+                    ref: 'Employee',
+                    default: null
+                },
+                source: {
+                    type: String,
+                    enum: ['dashboard', 'approval_link', 'visitor_link', 'system']
+                },
+                reason: {
+                    type: String,
+                    trim: true,
+                    maxlength: [500, 'Reason cannot exceed 500 characters']
+                },
+                decidedAt: {
+                    type: Date
+                }
+            },
+            default: null
+        },
+        approvalChain: {
+            type: {
+                policyName: {
+                    type: String,
+                    trim: true
+                },
+                currentStep: {
+                    type: Number,
+                    default: 0
+                },
+                steps: [approvalStepSchema]
+            },
+            default: null
+        },
+        statusReason: {
+            type: {
+                code: {
+                    type: String,
+                    trim: true,
+                    default: null
+                },
+                label: {
+                    type: String,
+                    trim: true,
+                    default: null
+                },
+                comment: {
+                    type: String,
+                    trim: true,
+                    maxlength: [500, 'Reason comment cannot exceed 500 characters']
+                }
+            },
+            default: null
+        },
+        availabilityOverride: {
+            type: {
+                overriddenBy: {
+                    type: Schema.Types.ObjectId,
+                    ref: 'User'
+                },
+                reason: {
+                    type: String,
+                    trim: true
+                },
+                overriddenAt: {
+                    type: Date
+                }
+            },
+            default: null
+        },
+        calendarSequence: {
+            type: Number,
+            default: 0
+        },
+        passVersion: {
+            type: Number,
+            default: 0
+        },
         createdBy: {
             type: Schema.Types.ObjectId,
             ref: 'User',
@@ -243,6 +703,10 @@ appointmentSchema.index({ createdBy: 1 });
 appointmentSchema.index({ isDeleted: 1 });
 appointmentSchema.index({ createdAt: -1 });
 appointmentSchema.index({ employeeId: 1, 'appointmentDetails.scheduledDate': 1 });
+appointmentSchema.index({ seriesId: 1, occurrenceDate: 1 });
+appointmentSchema.index({ 'appointmentDetails.meetingRoomId': 1, 'appointmentDetails.scheduledDate': 1 });
+appointmentSchema.index({ visitorToken: 1 }, { unique: true, sparse: true });
+appointmentSchema.index({ 'attendees.visitorId': 1 });
 
 appointmentSchema.pre('save', function (next) {
     if (!this.appointmentId) {
@@ -294,13 +758,60 @@ appointmentSchema.methods.restore = function () {
     return this.save();
 };
 
-appointmentSchema.methods.checkIn = function () {
-    this.status = 'checked_in';
+appointmentSchema.methods.canTransitionTo = function (status: AppointmentStatus): boolean {
+    return APPOINTMENT_STATUS_TRANSITIONS[this.status as AppointmentStatus].includes(status);
+};
+
+/**
+ * Move the appointment to a new status through the lifecycle transition table
+ * and record who made the change, and for approval decisions on whose behalf.
+ * Does not save the document.
+ */
+appointmentSchema.methods.transitionTo = function (status: AppointmentStatus, actor: IStatusChangeActor): void {
+    const from = this.status as AppointmentStatus;
+    if (!this.canTransitionTo(status)) {
+        throw new AppError(`Cannot change appointment status from ${from} to ${status}`, ERROR_CODES.BAD_REQUEST);
+    }
+
+    this.status = status;
+    this.statusHistory.push({
+        from,
+        to: status,
+        changedBy: actor.userId ? new mongoose.Types.ObjectId(actor.userId) : null,
+        source: actor.source,
+        note: actor.note,
+        reasonCode: actor.reason?.code,
+        changedAt: new Date()
+    });
+
+    if (REASONED_STATUSES.includes(status as ReasonedStatus)) {
+        this.statusReason = {
+            code: actor.reason?.code ?? null,
+            label: actor.reason?.label ?? null,
+            comment: actor.note
+        };
+    }
+
+    if (from === 'pending' && (status === 'approved' || status === 'rejected')) {
+        this.approval = {
+            decision: status,
+            decidedBy: actor.userId ? new mongoose.Types.ObjectId(actor.userId) : null,
+            approverId: actor.approverId ? new mongoose.Types.ObjectId(actor.approverId) : null,
+            onBehalfOf: actor.onBehalfOf ? new mongoose.Types.ObjectId(actor.onBehalfOf) : null,
+            source: actor.source,
+            reason: status === 'rejected' ? actor.note : undefined,
+            decidedAt: new Date()
+        };
+    }
+};
+
+appointmentSchema.methods.checkIn = function (actor: IStatusChangeActor) {
+    this.transitionTo('checked_in', actor);
     this.checkInTime = new Date();
     return this.save();
 };
-appointmentSchema.methods.checkOut = function () {
-    this.status = 'completed';
+appointmentSchema.methods.checkOut = function (actor: IStatusChangeActor) {
+    this.transitionTo('completed', actor);
     this.checkOutTime = new Date();
     if (this.checkInTime) {
         this.actualDuration = Math.floor((this.checkOutTime.getTime() - this.checkInTime.getTime()) / (1000 * 60));
@@ -0,0 +1,196 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+    IRecurrenceRule,
+    ISeriesAppointmentDetails,
+    SeriesApprovalMode,
+    SeriesStatus
+} from '../../types/appointmentSeries/appointmentSeries.types';
+import { RecurrenceUtil } from '../../utils/recurrence.util';
+
+export interface IAppointmentSeries extends mongoose.Document {
+    seriesId: string;
+    employeeId: mongoose.Types.ObjectId; // Reference to Employee
+    visitorId: mongoose.Types.ObjectId; // Reference to Visitor
+    accompanyingCount?: number;
+    appointmentDetails: ISeriesAppointmentDetails; // Template copied onto every occurrence
+    recurrence: IRecurrenceRule;
+    exceptions: Date[]; // Occurrence dates skipped or cancelled individually
+    approvalMode: SeriesApprovalMode;
+    status: SeriesStatus;
+    parentSeriesId?: mongoose.Types.ObjectId; // Series this one was split from by a "this and following" edit
+    createdBy: mongoose.Types.ObjectId; // Reference to User who created the series
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const appointmentSeriesSchema = new Schema<IAppointmentSeries>(
+    {
+        seriesId: {
+            type: String,
+            unique: true,
+            uppercase: true,
+            trim: true
+        },
+        employeeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            required: [true, 'Employee ID is required']
+        },
+        visitorId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Visitor',
+            required: [true, 'Visitor ID is required']
+        },
+        accompanyingCount: {
+            type: Number,
+            min: [0, 'Accompanying people cannot be negative'],
+            max: [20, 'Accompanying people cannot exceed 20'],
+            default: 0
+        },
+        appointmentDetails: {
+            purpose: {
+                type: String,
+                required: [true, 'Appointment purpose is required'],
+                trim: true,
+                maxlength: [200, 'Purpose cannot exceed 200 characters']
+            },
+            scheduledTime: {
+                type: String,
+                required: [true, 'Scheduled time is required'],
+                match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)']
+            },
+            duration: {
+                type: Number,
+                required: [true, 'Duration is required'],
+                min: [15, 'Duration must be at least 15 minutes'],
+                max: [480, 'Duration cannot exceed 8 hours']
+            },
+            meetingRoomId: {
+                type: Schema.Types.ObjectId,
+                ref: 'MeetingRoom',
+                default: null
+            },
+            meetingRoom: {
+                type: String,
+                trim: true,
+                maxlength: [50, 'Meeting room cannot exceed 50 characters']
+            },
+            notes: {
+                type: String,
+                trim: true,
+                maxlength: [500, 'Notes cannot exceed 500 characters']
+            },
+            vehicleNumber: {
+                type: String,
+                trim: true,
+                uppercase: true,
+                maxlength: [20, 'Vehicle number cannot exceed 20 characters']
+            }
+        },
+        recurrence: {
+            frequency: {
+                type: String,
+                enum: {
+                    values: ['daily', 'weekly', 'monthly'],
+                    message: 'Frequency must be one of: daily, weekly, monthly'
+                },
+                required: [true, 'Recurrence frequency is required']
+            },
+            interval: {
+                type: Number,
+                min: [1, 'Interval must be at least 1'],
+                max: [12, 'Interval cannot exceed 12'],
+                default: 1
+            },
+            byWeekday: {
+                type: [Number],
+                default: undefined
+            },
+            startDate: {
+                type: Date,
+                required: [true, 'Start date is required']
+            },
+            endDate: {
+                type: Date,
+                default: null
+            },
+            count: {
+                type: Number,
+                min: [1, 'Count must be at least 1'],
+                default: null
+            }
+        },
+        exceptions: {
+            type: [Date],
+            default: []
+        },
+        approvalMode: {
+            type: String,
+            enum: {
+                values: ['series', 'occurrence'],
+                message: 'Approval mode must be one of: series, occurrence'
+            },
+            default: 'series'
+        },
+        status: {
+            type: String,
+            enum: {
+                values: ['active', 'cancelled'],
+                message: 'Status must be one of: active, cancelled'
+            },
+            default: 'active'
+        },
+        parentSeriesId: {
+            type: Schema.Types.ObjectId,
+            ref: 'AppointmentSeries',
+            default: null
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        },
+        isDeleted: {
+            type: Boolean,
+            default: false
+        },
+        deletedAt: {
+            type: Date,
+            default: null
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true }
+    }
+);
+
+appointmentSeriesSchema.index({ createdBy: 1, isDeleted: 1 });
+appointmentSeriesSchema.index({ employeeId: 1 });
+appointmentSeriesSchema.index({ visitorId: 1 });
+appointmentSeriesSchema.index({ status: 1 });
+
+appointmentSeriesSchema.pre('save', function (next) {
+    if (!this.seriesId) {
+        const timestamp = Date.now().toString().slice(-6);
+        const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+        this.seriesId = `SER${timestamp}${random}`;
+    }
+    next();
+});
+
+appointmentSeriesSchema.virtual('rrule').get(function () {
+    return RecurrenceUtil.toRRule(this.recurrence);
+});
+
+export const AppointmentSeries = mongoose.model<IAppointmentSeries>('AppointmentSeries', appointmentSeriesSchema);
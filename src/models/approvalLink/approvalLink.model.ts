@@ -2,8 +2,16 @@ import mongoose, { Schema } from 'mongoose';
 
 export interface IApprovalLink extends mongoose.Document {
     appointmentId: mongoose.Types.ObjectId; // Reference to Appointment
-    token: string; // Unique secure token
+    approverId?: mongoose.Types.ObjectId | null; // Employee the link was sent to; unset for the host's own link
+    onBehalfOf?: mongoose.Types.ObjectId | null; // Host the approver acts for (delegate or fallback approver links)
+    step: number; // Approval chain step the link decides; 0 is the host's step
+    tokenHash: string; // SHA-256 of the token; the token itself is only ever in the link sent out
+    expiresAt: Date;
     isUsed: boolean; // Whether the link has been used
+    sendCount: number;
+    lastSentAt?: Date;
+    revokedAt?: Date | null;
+    revokedBy?: mongoose.Types.ObjectId | null; // Reference to User who revoked the link
     createdAt: Date;
     updatedAt: Date;
 }
@@ -13,18 +21,52 @@ const approvalLinkSchema = new Schema<IApprovalLink>(
         appointmentId: {
             type: Schema.Types.ObjectId,
             ref: 'Appointment',
-            required: [true, 'Appointment ID is required'],
-            unique: true // One approval link per appointment
+            required: [true, 'Appointment ID is required']
         },
-        token: {
+        approverId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            default: null
+        },
+        onBehalfOf: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            default: null
+        },
+        step: {
+            type: Number,
+            default: 0,
+            min: 0
+        },
+        tokenHash: {
             type: String,
             required: [true, 'Token is required'],
             unique: true,
             trim: true
         },
+        expiresAt: {
+            type: Date,
+            required: [true, 'Expiry is required']
+        },
         isUsed: {
             type: Boolean,
             default: false
+        },
+        sendCount: {
+            type: Number,
+            default: 1
+        },
+        lastSentAt: {
+            type: Date
+        },
+        revokedAt: {
+            type: Date,
+            default: null
+        },
+        revokedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
         }
     },
     {
@@ -34,7 +76,10 @@ const approvalLinkSchema = new Schema<IApprovalLink>(
 );
 
 // Indexes for better query performance
-// Note: token and appointmentId already have indexes from unique: true
+// Note: tokenHash already has an index from unique: true
+// One link per approver and step: the host's own link, one for each delegate or fallback
+// approver and one for each approver of the later steps of an approval chain
+approvalLinkSchema.index({ appointmentId: 1, step: 1, approverId: 1 }, { unique: true });
 approvalLinkSchema.index({ isUsed: 1 });
 
 export const ApprovalLink = mongoose.model<IApprovalLink>('ApprovalLink', approvalLinkSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema } from 'mongoose';
+import { ApprovalLinkAction, ApprovalLinkAccessOutcome } from '../../types/approvalLink/approvalLink.types';
+
+export interface IApprovalLinkAccess extends mongoose.Document {
+    linkId?: mongoose.Types.ObjectId | null; // Reference to ApprovalLink; unset when the token matched no link
+    appointmentId?: mongoose.Types.ObjectId | null; // Reference to Appointment
+    action: ApprovalLinkAction;
+    outcome: ApprovalLinkAccessOutcome;
+    ip?: string;
+    userAgent?: string;
+    createdAt: Date;
+}
+
+const approvalLinkAccessSchema = new Schema<IApprovalLinkAccess>(
+    {
+        linkId: {
+            type: Schema.Types.ObjectId,
+            ref: 'ApprovalLink',
+            default: null
+        },
+        appointmentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Appointment',
+            default: null
+        },
+        action: {
+            type: String,
+            enum: ['view', 'approve', 'reject'],
+            required: true
+        },
+        outcome: {
+            type: String,
+            enum: ['active', 'used', 'expired', 'revoked', 'past', 'invalid'],
+            required: true
+        },
+        ip: {
+            type: String,
+            trim: true
+        },
+        userAgent: {
+            type: String,
+            trim: true,
+            maxlength: 500
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        versionKey: false
+    }
+);
+
+approvalLinkAccessSchema.index({ linkId: 1, createdAt: -1 });
+approvalLinkAccessSchema.index({ appointmentId: 1, createdAt: -1 });
+
+export const ApprovalLinkAccess = mongoose.model<IApprovalLinkAccess>('ApprovalLinkAccess', approvalLinkAccessSchema);
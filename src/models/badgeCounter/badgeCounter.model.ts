@@ -0,0 +1,30 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface IBadgeCounter extends mongoose.Document {
+    companyId: mongoose.Types.ObjectId; // Reference to User (company) the sequence belongs to
+    lastNumber: number; // Last badge number handed out
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const badgeCounterSchema = new Schema<IBadgeCounter>(
+    {
+        companyId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Company ID is required'],
+            unique: true
+        },
+        lastNumber: {
+            type: Number,
+            min: 0,
+            default: 0
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+export const BadgeCounter = mongoose.model<IBadgeCounter>('BadgeCounter', badgeCounterSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface IBlockedTime extends mongoose.Document {
+    employeeId: mongoose.Types.ObjectId; // Reference to Employee
+    start: Date;
+    end: Date;
+    reason?: string;
+    createdBy: mongoose.Types.ObjectId; // Reference to User who blocked the time
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const blockedTimeSchema = new Schema<IBlockedTime>(
+    {
+        employeeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            required: [true, 'Employee ID is required']
+        },
+        start: {
+            type: Date,
+            required: [true, 'Start is required']
+        },
+        end: {
+            type: Date,
+            required: [true, 'End is required']
+        },
+        reason: {
+            type: String,
+            trim: true,
+            maxlength: [200, 'Reason cannot exceed 200 characters']
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+blockedTimeSchema.index({ employeeId: 1, start: 1, end: 1 });
+blockedTimeSchema.index({ createdBy: 1 });
+
+export const BlockedTime = mongoose.model<IBlockedTime>('BlockedTime', blockedTimeSchema);
@@ -0,0 +1,132 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+    BroadcastChannel,
+    BroadcastRecipientType,
+    BroadcastAcknowledgementSource,
+    IBroadcastDelivery
+} from '../../types/broadcast/broadcast.types';
+
+/**
+ * Someone the broadcast was sent to. Contact details are copied so the record
+ * shows who was reached, and how, at the time.
+ */
+export interface IBroadcastRecipient {
+    _id?: mongoose.Types.ObjectId;
+    type: BroadcastRecipientType;
+    refId: mongoose.Types.ObjectId; // Reference to Visitor or Employee
+    name: string;
+    email?: string;
+    phone?: string;
+    tokenHash: string; // Hash of the token in the recipient's acknowledgement link
+    deliveries: IBroadcastDelivery[];
+    acknowledgedAt?: Date | null;
+    acknowledgedVia?: BroadcastAcknowledgementSource | null;
+    acknowledgedBy?: mongoose.Types.ObjectId | null; // Reference to User who recorded a manual acknowledgement
+}
+
+export interface IBroadcast extends mongoose.Document {
+    subject: string;
+    message: string;
+    site?: string | null;
+    includeEmployees: boolean;
+    channels: BroadcastChannel[];
+    recipients: IBroadcastRecipient[];
+    createdBy: mongoose.Types.ObjectId; // Reference to User (admin) who sent it
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const deliverySchema = new Schema<IBroadcastDelivery>(
+    {
+        channel: {
+            type: String,
+            enum: ['email', 'whatsapp'],
+            required: true
+        },
+        success: {
+            type: Boolean,
+            required: true
+        },
+        sentAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    { _id: false }
+);
+
+const recipientSchema = new Schema<IBroadcastRecipient>(
+    {
+        type: {
+            type: String,
+            enum: ['visitor', 'host', 'employee'],
+            required: true
+        },
+        refId: { type: Schema.Types.ObjectId, required: true },
+        name: { type: String, required: true },
+        email: { type: String },
+        phone: { type: String },
+        tokenHash: { type: String, required: true },
+        deliveries: {
+            type: [deliverySchema],
+            default: []
+        },
+        acknowledgedAt: { type: Date, default: null },
+        acknowledgedVia: {
+            type: String,
+            enum: ['link', 'manual'],
+            default: null
+        },
+        acknowledgedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null }
+    }
+);
+
+const broadcastSchema = new Schema<IBroadcast>(
+    {
+        subject: {
+            type: String,
+            required: [true, 'Subject is required'],
+            trim: true,
+            maxlength: [150, 'Subject cannot exceed 150 characters']
+        },
+        message: {
+            type: String,
+            required: [true, 'Message is required'],
+            trim: true,
+            maxlength: [1000, 'Message cannot exceed 1000 characters']
+        },
+        site: {
+            type: String,
+            trim: true,
+            default: null
+        },
+        includeEmployees: {
+            type: Boolean,
+            default: false
+        },
+        channels: {
+            type: [String],
+            enum: ['email', 'whatsapp'],
+            default: []
+        },
+        recipients: {
+            type: [recipientSchema],
+            default: []
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+// Broadcasts are kept for audits and never deleted
+broadcastSchema.index({ createdBy: 1, createdAt: -1 });
+broadcastSchema.index({ 'recipients.tokenHash': 1 });
+
+export const Broadcast = mongoose.model<IBroadcast>('Broadcast', broadcastSchema);
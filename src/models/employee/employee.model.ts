@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { IWorkingHours } from '../../types/employee/employee.types';
 
 export interface IEmployee extends Document {
     name: string;
@@ -7,6 +8,14 @@ export interface IEmployee extends Document {
     department: string;
     designation?: string;
     status: 'Active' | 'Inactive';
+    workingHours?: IWorkingHours[]; // Weekly schedule; unset means the company working hours apply
+    calendarToken?: string; // Secret for the iCalendar feed URL
+    delegation?: {
+        delegateId: mongoose.Types.ObjectId; // Employee who approves in this employee's place
+        startDate?: Date | null; // Unset: from now on
+        endDate?: Date | null; // Unset: until cleared
+        reason?: string;
+    } | null;
     createdBy: mongoose.Types.ObjectId; // Reference to User who created the employee
     isDeleted: boolean;
     deletedAt?: Date;
@@ -15,6 +24,46 @@ export interface IEmployee extends Document {
     updatedAt: Date;
 }
 
+const workingHoursSchema = new Schema<IWorkingHours>({
+    dayOfWeek: {
+        type: Number,
+        required: [true, 'Day of week is required'],
+        min: [0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+        max: [6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)']
+    },
+    start: {
+        type: String,
+        required: [true, 'Start time is required'],
+        match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)']
+    },
+    end: {
+        type: String,
+        required: [true, 'End time is required'],
+        match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)']
+    }
+}, { _id: false });
+
+const delegationSchema = new Schema({
+    delegateId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Employee',
+        required: [true, 'Delegate is required']
+    },
+    startDate: {
+        type: Date,
+        default: null
+    },
+    endDate: {
+        type: Date,
+        default: null
+    },
+    reason: {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Reason cannot exceed 200 characters']
+    }
+}, { _id: false });
+
 const employeeSchema = new Schema<IEmployee>({
     name: {
         type: String,
@@ -55,6 +104,18 @@ const employeeSchema = new Schema<IEmployee>({
         enum: ['Active', 'Inactive'],
         default: 'Active'
     },
+    workingHours: {
+        type: [workingHoursSchema],
+        default: undefined
+    },
+    calendarToken: {
+        type: String,
+        select: false
+    },
+    delegation: {
+        type: delegationSchema,
+        default: null
+    },
     createdBy: {
         type: Schema.Types.ObjectId,
         ref: 'User',
@@ -86,6 +147,7 @@ employeeSchema.index({ deletedAt: 1 });
 employeeSchema.index({ createdBy: 1 });
 
 employeeSchema.index({ createdBy: 1, email: 1 }, { unique: true });
+employeeSchema.index({ calendarToken: 1 }, { unique: true, sparse: true });
 
 employeeSchema.virtual('fullName').get(function () {
     return this.name;
@@ -5,3 +5,6 @@ export * from './visitor/visitor.model';
 export * from './subscription/subscription.model';
 export * from './userSubscription/userSubscription.model';
 export * from './settings/settings.model';
+export * from './appointmentSeries/appointmentSeries.model';
+export * from './blockedTime/blockedTime.model';
+export * from './meetingRoom/meetingRoom.model';
@@ -0,0 +1,150 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface IInvitation extends mongoose.Document {
+    employeeId: mongoose.Types.ObjectId; // Host who invited the visitor
+    guest: {
+        name: string;
+        email?: string;
+        phone?: string;
+    };
+    appointmentDetails: {
+        purpose: string;
+        scheduledDate: Date;
+        scheduledTime: string;
+        duration: number;
+        meetingRoomId?: mongoose.Types.ObjectId;
+        notes?: string;
+    };
+    tokenHash?: string; // SHA-256 of the magic link token, replaced on every resend; the token is only in the link sent out
+    status: 'pending' | 'completed' | 'revoked';
+    expiresAt: Date;
+    sendCount: number;
+    lastSentAt?: Date;
+    visitorId?: mongoose.Types.ObjectId; // Set once the visitor completes the invitation
+    appointmentId?: mongoose.Types.ObjectId;
+    completedAt?: Date;
+    revokedAt?: Date;
+    revokedBy?: mongoose.Types.ObjectId;
+    createdBy: mongoose.Types.ObjectId; // Reference to User (company) that sent the invitation
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>(
+    {
+        employeeId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Employee',
+            required: [true, 'Employee ID is required']
+        },
+        guest: {
+            name: {
+                type: String,
+                required: [true, 'Visitor name is required'],
+                trim: true,
+                maxlength: [100, 'Name cannot exceed 100 characters']
+            },
+            email: {
+                type: String,
+                lowercase: true,
+                trim: true
+            },
+            phone: {
+                type: String,
+                trim: true
+            }
+        },
+        appointmentDetails: {
+            purpose: {
+                type: String,
+                required: [true, 'Appointment purpose is required'],
+                trim: true,
+                maxlength: [200, 'Purpose cannot exceed 200 characters']
+            },
+            scheduledDate: {
+                type: Date,
+                required: [true, 'Scheduled date is required']
+            },
+            scheduledTime: {
+                type: String,
+                required: [true, 'Scheduled time is required']
+            },
+            duration: {
+                type: Number,
+                required: [true, 'Duration is required'],
+                min: [15, 'Duration must be at least 15 minutes'],
+                max: [480, 'Duration cannot exceed 8 hours']
+            },
+            meetingRoomId: {
+                type: Schema.Types.ObjectId,
+                ref: 'MeetingRoom',
+                default: null
+            },
+            notes: {
+                type: String,
+                trim: true,
+                maxlength: [500, 'Notes cannot exceed 500 characters']
+            }
+        },
+        tokenHash: {
+            type: String,
+            unique: true,
+            sparse: true,
+            select: false
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'completed', 'revoked'],
+            default: 'pending'
+        },
+        expiresAt: {
+            type: Date,
+            required: [true, 'Expiry is required']
+        },
+        sendCount: {
+            type: Number,
+            default: 0
+        },
+        lastSentAt: {
+            type: Date,
+            default: null
+        },
+        visitorId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Visitor',
+            default: null
+        },
+        appointmentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Appointment',
+            default: null
+        },
+        completedAt: {
+            type: Date,
+            default: null
+        },
+        revokedAt: {
+            type: Date,
+            default: null
+        },
+        revokedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+invitationSchema.index({ createdBy: 1, status: 1, createdAt: -1 });
+invitationSchema.index({ employeeId: 1 });
+
+export const Invitation = mongoose.model<IInvitation>('Invitation', invitationSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Schema } from 'mongoose';
+import { MeetingRoomStatus } from '../../types/meetingRoom/meetingRoom.types';
+
+export interface IMeetingRoom extends mongoose.Document {
+    name: string;
+    floor?: string;
+    site?: string; // Building or campus the room is in
+    capacity: number; // Maximum number of people including the visitor
+    amenities: string[];
+    status: MeetingRoomStatus;
+    createdBy: mongoose.Types.ObjectId; // Reference to User (company) that owns the room
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const meetingRoomSchema = new Schema<IMeetingRoom>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Room name is required'],
+            trim: true,
+            maxlength: [50, 'Room name cannot exceed 50 characters']
+        },
+        floor: {
+            type: String,
+            trim: true,
+            maxlength: [20, 'Floor cannot exceed 20 characters']
+        },
+        site: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Site cannot exceed 100 characters']
+        },
+        capacity: {
+            type: Number,
+            required: [true, 'Capacity is required'],
+            min: [1, 'Capacity must be at least 1'],
+            max: [500, 'Capacity cannot exceed 500']
+        },
+        amenities: {
+            type: [String],
+            default: []
+        },
+        status: {
+            type: String,
+            enum: ['Active', 'Inactive'],
+            default: 'Active'
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        },
+        isDeleted: {
+            type: Boolean,
+            default: false
+        },
+        deletedAt: {
+            type: Date,
+            default: null
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+meetingRoomSchema.index({ createdBy: 1, isDeleted: 1 });
+meetingRoomSchema.index({ createdBy: 1, site: 1 });
+meetingRoomSchema.index({ createdBy: 1, name: 1 }, { unique: true, partialFilterExpression: { isDeleted: false } });
+
+export const MeetingRoom = mongoose.model<IMeetingRoom>('MeetingRoom', meetingRoomSchema);
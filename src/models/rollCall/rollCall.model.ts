@@ -0,0 +1,136 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+    RollCallType,
+    RollCallStatus,
+    RollCallEntryStatus,
+    IRollCallSummary
+} from '../../types/rollCall/rollCall.types';
+
+/**
+ * A visitor on site when the roll call started. Names are copied so the list
+ * stays as it was at the time.
+ */
+export interface IRollCallEntry {
+    _id?: mongoose.Types.ObjectId;
+    appointmentId: mongoose.Types.ObjectId; // Reference to Appointment
+    visitorId: mongoose.Types.ObjectId; // Reference to Visitor
+    visitorName: string;
+    visitorCompany?: string;
+    visitorPhone?: string;
+    badgeNumber?: string;
+    hostName?: string;
+    hostPhone?: string;
+    meetingRoomName?: string;
+    site?: string;
+    checkInTime: Date;
+    accompanyingCount: number; // Accounted for together with the visitor
+    status: RollCallEntryStatus;
+    markedSafeAt?: Date | null;
+    markedSafeBy?: mongoose.Types.ObjectId | null; // Reference to User who confirmed them
+    note?: string;
+}
+
+export interface IRollCall extends mongoose.Document {
+    type: RollCallType;
+    status: RollCallStatus;
+    site?: string | null;
+    notes?: string;
+    entries: IRollCallEntry[];
+    startedAt: Date;
+    closedAt?: Date | null;
+    closedBy?: mongoose.Types.ObjectId | null; // Reference to User
+    summary?: IRollCallSummary | null;
+    createdBy: mongoose.Types.ObjectId; // Reference to User (company) that started the roll call
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const rollCallEntrySchema = new Schema<IRollCallEntry>(
+    {
+        appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment', required: true },
+        visitorId: { type: Schema.Types.ObjectId, ref: 'Visitor', required: true },
+        visitorName: { type: String, required: true },
+        visitorCompany: { type: String },
+        visitorPhone: { type: String },
+        badgeNumber: { type: String },
+        hostName: { type: String },
+        hostPhone: { type: String },
+        meetingRoomName: { type: String },
+        site: { type: String },
+        checkInTime: { type: Date, required: true },
+        accompanyingCount: { type: Number, min: 0, default: 0 },
+        status: {
+            type: String,
+            enum: ['unaccounted', 'safe'],
+            default: 'unaccounted'
+        },
+        markedSafeAt: { type: Date, default: null },
+        markedSafeBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+        note: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Note cannot exceed 500 characters']
+        }
+    }
+);
+
+const rollCallSchema = new Schema<IRollCall>(
+    {
+        type: {
+            type: String,
+            enum: ['drill', 'incident'],
+            required: [true, 'Roll call type is required']
+        },
+        status: {
+            type: String,
+            enum: ['open', 'closed'],
+            default: 'open'
+        },
+        site: {
+            type: String,
+            trim: true,
+            default: null
+        },
+        notes: {
+            type: String,
+            trim: true,
+            maxlength: [1000, 'Notes cannot exceed 1000 characters']
+        },
+        entries: {
+            type: [rollCallEntrySchema],
+            default: []
+        },
+        startedAt: {
+            type: Date,
+            default: Date.now
+        },
+        closedAt: {
+            type: Date,
+            default: null
+        },
+        closedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        summary: {
+            type: Schema.Types.Mixed,
+            default: null
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+rollCallSchema.index({ createdBy: 1, startedAt: -1 });
+// One roll call can be open at a time per company
+rollCallSchema.index({ createdBy: 1 }, { unique: true, partialFilterExpression: { status: 'open' } });
+
+export const RollCall = mongoose.model<IRollCall>('RollCall', rollCallSchema);
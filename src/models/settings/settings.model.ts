@@ -1,5 +1,158 @@
 import mongoose, { Schema } from 'mongoose';
-import { ISettings } from '../../types/settings/settings.types';
+import { ISettings, IHoliday, IFallbackApprover, IApprovalPolicy, IApprovalPolicyStep } from '../../types/settings/settings.types';
+import { IWorkingHours } from '../../types/employee/employee.types';
+import { IStatusReasonOption } from '../../types/appointment/appointment.types';
+import {
+    DEFAULT_WORKING_HOURS,
+    DEFAULT_ATTENDANCE_SETTINGS,
+    DEFAULT_REMINDER_SETTINGS,
+    DEFAULT_PRE_REGISTRATION_SETTINGS,
+    DEFAULT_APPROVAL_SETTINGS,
+    DEFAULT_STATUS_REASON_SETTINGS,
+    DEFAULT_BADGE_SETTINGS,
+    DEFAULT_WATCHLIST_SETTINGS,
+    BADGE_SIZES,
+    MAX_REMINDER_OFFSET_MINUTES,
+    MAX_APPROVAL_LINK_EXPIRY_HOURS
+} from '../../utils/constants';
+
+const workingHoursSchema = new Schema<IWorkingHours>(
+    {
+        dayOfWeek: {
+            type: Number,
+            required: [true, 'Day of week is required'],
+            min: [0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+            max: [6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)']
+        },
+        start: {
+            type: String,
+            required: [true, 'Start time is required'],
+            match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)']
+        },
+        end: {
+            type: String,
+            required: [true, 'End time is required'],
+            match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)']
+        }
+    },
+    { _id: false }
+);
+
+const holidaySchema = new Schema<IHoliday>(
+    {
+        date: {
+            type: Date,
+            required: [true, 'Holiday date is required']
+        },
+        name: {
+            type: String,
+            required: [true, 'Holiday name is required'],
+            trim: true,
+            maxlength: [100, 'Holiday name cannot exceed 100 characters']
+        },
+        recurring: {
+            type: Boolean,
+            default: false
+        }
+    },
+    { _id: false }
+);
+
+const fallbackApproverSchema = new Schema<IFallbackApprover>(
+    {
+        department: {
+            type: String,
+            required: [true, 'Department is required'],
+            trim: true,
+            maxlength: [100, 'Department cannot exceed 100 characters']
+        },
+        employeeIds: {
+            type: [{
+                type: Schema.Types.ObjectId,
+                ref: 'Employee'
+            }],
+            default: []
+        }
+    },
+    { _id: false }
+);
+
+const approvalPolicyStepSchema = new Schema<IApprovalPolicyStep>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Step name is required'],
+            trim: true,
+            maxlength: [50, 'Step name cannot exceed 50 characters']
+        },
+        employeeIds: {
+            type: [{
+                type: Schema.Types.ObjectId,
+                ref: 'Employee'
+            }],
+            default: []
+        }
+    },
+    { _id: false }
+);
+
+const statusReasonOptionSchema = new Schema<IStatusReasonOption>(
+    {
+        code: {
+            type: String,
+            required: [true, 'Reason code is required'],
+            trim: true,
+            lowercase: true,
+            match: [/^[a-z0-9_]+$/, 'Reason code can only contain letters, numbers and underscores'],
+            maxlength: [50, 'Reason code cannot exceed 50 characters']
+        },
+        label: {
+            type: String,
+            required: [true, 'Reason label is required'],
+            trim: true,
+            maxlength: [100, 'Reason label cannot exceed 100 characters']
+        }
+    },
+    { _id: false }
+);
+
+const approvalPolicySchema = new Schema<IApprovalPolicy>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Policy name is required'],
+            trim: true,
+            maxlength: [100, 'Policy name cannot exceed 100 characters']
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        conditions: {
+            meetingRoomIds: {
+                type: [{
+                    type: Schema.Types.ObjectId,
+                    ref: 'MeetingRoom'
+                }],
+                default: []
+            },
+            departments: {
+                type: [String],
+                default: []
+            },
+            visitorsOutsideCountry: {
+                type: String,
+                trim: true,
+                default: null
+            }
+        },
+        steps: {
+            type: [approvalPolicyStepSchema],
+            default: []
+        }
+    },
+    { _id: false }
+);
 
 const settingsSchema = new Schema<ISettings>(
     {
@@ -38,6 +191,185 @@ const settingsSchema = new Schema<ISettings>(
                 type: Date,
                 default: null
             }
+        },
+        scheduling: {
+            bufferMinutes: {
+                type: Number,
+                min: [0, 'Buffer cannot be negative'],
+                max: [120, 'Buffer cannot exceed 120 minutes'],
+                default: 0
+            },
+            seriesApprovalMode: {
+                type: String,
+                enum: {
+                    values: ['series', 'occurrence'],
+                    message: 'Series approval mode must be one of: series, occurrence'
+                },
+                default: 'series'
+            }
+        },
+        availability: {
+            workingHours: {
+                type: [workingHoursSchema],
+                default: () => DEFAULT_WORKING_HOURS.map(hours => ({ ...hours }))
+            },
+            holidays: {
+                type: [holidaySchema],
+                default: []
+            }
+        },
+        attendance: {
+            noShowEnabled: {
+                type: Boolean,
+                default: DEFAULT_ATTENDANCE_SETTINGS.noShowEnabled
+            },
+            noShowGraceMinutes: {
+                type: Number,
+                min: [0, 'Grace period cannot be negative'],
+                max: [1440, 'Grace period cannot exceed 24 hours'],
+                default: DEFAULT_ATTENDANCE_SETTINGS.noShowGraceMinutes
+            },
+            autoCheckoutEnabled: {
+                type: Boolean,
+                default: DEFAULT_ATTENDANCE_SETTINGS.autoCheckoutEnabled
+            },
+            autoCheckoutTime: {
+                type: String,
+                match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'],
+                default: DEFAULT_ATTENDANCE_SETTINGS.autoCheckoutTime
+            },
+            overstayAlertsEnabled: {
+                type: Boolean,
+                default: DEFAULT_ATTENDANCE_SETTINGS.overstayAlertsEnabled
+            },
+            overstayGraceMinutes: {
+                type: Number,
+                min: [0, 'Overstay grace period cannot be negative'],
+                max: [1440, 'Overstay grace period cannot exceed 24 hours'],
+                default: DEFAULT_ATTENDANCE_SETTINGS.overstayGraceMinutes
+            },
+            overstayNotifyHost: {
+                type: Boolean,
+                default: DEFAULT_ATTENDANCE_SETTINGS.overstayNotifyHost
+            },
+            overstayNotifySecurity: {
+                type: Boolean,
+                default: DEFAULT_ATTENDANCE_SETTINGS.overstayNotifySecurity
+            }
+        },
+        reminders: {
+            enabled: {
+                type: Boolean,
+                default: DEFAULT_REMINDER_SETTINGS.enabled
+            },
+            offsets: {
+                type: [{
+                    type: Number,
+                    min: [1, 'Reminder offset must be at least 1 minute'],
+                    max: [MAX_REMINDER_OFFSET_MINUTES, 'Reminder offset cannot exceed 7 days']
+                }],
+                default: DEFAULT_REMINDER_SETTINGS.offsets
+            },
+            notifyVisitor: {
+                type: Boolean,
+                default: DEFAULT_REMINDER_SETTINGS.notifyVisitor
+            },
+            notifyHost: {
+                type: Boolean,
+                default: DEFAULT_REMINDER_SETTINGS.notifyHost
+            },
+            directions: {
+                type: String,
+                trim: true,
+                maxlength: [1000, 'Directions cannot exceed 1000 characters'],
+                default: DEFAULT_REMINDER_SETTINGS.directions
+            }
+        },
+        preRegistration: {
+            enabled: {
+                type: Boolean,
+                default: DEFAULT_PRE_REGISTRATION_SETTINGS.enabled
+            },
+            tokenVersion: {
+                type: Number,
+                default: DEFAULT_PRE_REGISTRATION_SETTINGS.tokenVersion
+            },
+            defaultEmployeeId: {
+                type: Schema.Types.ObjectId,
+                ref: 'Employee',
+                default: null
+            },
+            purposes: {
+                type: [{
+                    type: String,
+                    trim: true,
+                    maxlength: [200, 'Purpose cannot exceed 200 characters']
+                }],
+                default: DEFAULT_PRE_REGISTRATION_SETTINGS.purposes
+            }
+        },
+        approvals: {
+            fallbackApprovers: {
+                type: [fallbackApproverSchema],
+                default: DEFAULT_APPROVAL_SETTINGS.fallbackApprovers
+            },
+            policies: {
+                type: [approvalPolicySchema],
+                default: DEFAULT_APPROVAL_SETTINGS.policies
+            },
+            linkExpiryHours: {
+                type: Number,
+                min: [1, 'Approval links must be valid for at least an hour'],
+                max: [MAX_APPROVAL_LINK_EXPIRY_HOURS, `Approval links cannot be valid for more than ${MAX_APPROVAL_LINK_EXPIRY_HOURS} hours`],
+                default: DEFAULT_APPROVAL_SETTINGS.linkExpiryHours
+            }
+        },
+        statusReasons: {
+            rejected: {
+                type: [statusReasonOptionSchema],
+                default: DEFAULT_STATUS_REASON_SETTINGS.rejected
+            },
+            cancelled: {
+                type: [statusReasonOptionSchema],
+                default: DEFAULT_STATUS_REASON_SETTINGS.cancelled
+            },
+            no_show: {
+                type: [statusReasonOptionSchema],
+                default: DEFAULT_STATUS_REASON_SETTINGS.no_show
+            }
+        },
+        badges: {
+            prefix: {
+                type: String,
+                trim: true,
+                maxlength: [10, 'Badge prefix cannot exceed 10 characters'],
+                default: DEFAULT_BADGE_SETTINGS.prefix
+            },
+            digits: {
+                type: Number,
+                min: [1, 'Badge numbers need at least one digit'],
+                max: [10, 'Badge numbers cannot have more than 10 digits'],
+                default: DEFAULT_BADGE_SETTINGS.digits
+            },
+            defaultSize: {
+                type: String,
+                enum: BADGE_SIZES,
+                default: DEFAULT_BADGE_SETTINGS.defaultSize
+            },
+            assignOnCheckIn: {
+                type: Boolean,
+                default: DEFAULT_BADGE_SETTINGS.assignOnCheckIn
+            }
+        },
+        watchlist: {
+            alertEmails: {
+                type: [String],
+                default: DEFAULT_WATCHLIST_SETTINGS.alertEmails
+            },
+            alertPhones: {
+                type: [String],
+                default: DEFAULT_WATCHLIST_SETTINGS.alertPhones
+            }
         }
     },
     {
@@ -18,11 +18,12 @@ export interface IVisitor extends Document {
     name: string;
     email: string;
     phone: string;
-    company: string;
-    designation: string;
-    address: IAddress;
-    idProof: IIdProof;
+    company?: string;
+    designation?: string;
+    address?: IAddress; // Required or not by the visitor's type
+    idProof?: IIdProof; // Required or not by the visitor's type
     photo?: string;
+    visitorTypeId?: mongoose.Types.ObjectId | null; // Reference to VisitorType
     createdBy: mongoose.Types.ObjectId; // Reference to User who created the visitor
     isDeleted: boolean;
     deletedAt?: Date;
@@ -112,19 +113,32 @@ const visitorSchema = new Schema<IVisitor>({
         trim: true,
         match: [/^[\+]?[1-9][\d]{0,15}$/, 'Please enter a valid phone number']
     },
+    company: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Company cannot exceed 100 characters']
+    },
+    designation: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Designation cannot exceed 100 characters']
+    },
     address: {
-        type: addressSchema,
-        required: [true, 'Address is required']
+        type: addressSchema
     },
     idProof: {
-        type: idProofSchema,
-        required: [true, 'ID proof is required']
+        type: idProofSchema
     },
     photo: {
         type: String,
         trim: true,
         maxlength: [500, 'Photo URL cannot exceed 500 characters']
     },
+    visitorTypeId: {
+        type: Schema.Types.ObjectId,
+        ref: 'VisitorType',
+        default: null
+    },
     createdBy: {
         type: Schema.Types.ObjectId,
         ref: 'User',
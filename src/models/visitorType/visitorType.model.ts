@@ -0,0 +1,103 @@
+import mongoose, { Schema } from 'mongoose';
+import { VisitorTypeApprovalMode, VisitorTypeField } from '../../types/visitorType/visitorType.types';
+import { VISITOR_TYPE_APPROVAL_MODES, VISITOR_TYPE_FIELDS } from '../../utils/constants';
+
+export interface IVisitorType extends mongoose.Document {
+    name: string;
+    description?: string;
+    requiredFields: VisitorTypeField[]; // Visitor fields that must be filled in, beyond name, email and phone
+    idProofRequired: boolean;
+    photoRequired: boolean;
+    approvalMode: VisitorTypeApprovalMode;
+    approvalPolicyName?: string | null; // Company approval policy applied when approvalMode is 'policy'
+    badgeColor?: string | null; // Stripe across printed badges, e.g. #D32F2F
+    maxDurationMinutes?: number | null; // Longest visit that can be booked
+    isActive: boolean; // Inactive types cannot be picked for new visitors or appointments
+    createdBy: mongoose.Types.ObjectId; // Reference to User (company) that owns the type
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const visitorTypeSchema = new Schema<IVisitorType>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Visitor type name is required'],
+            trim: true,
+            maxlength: [50, 'Visitor type name cannot exceed 50 characters']
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [300, 'Description cannot exceed 300 characters']
+        },
+        requiredFields: {
+            type: [{ type: String, enum: VISITOR_TYPE_FIELDS }],
+            default: []
+        },
+        idProofRequired: {
+            type: Boolean,
+            default: false
+        },
+        photoRequired: {
+            type: Boolean,
+            default: false
+        },
+        approvalMode: {
+            type: String,
+            enum: VISITOR_TYPE_APPROVAL_MODES,
+            default: 'default'
+        },
+        approvalPolicyName: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Approval policy name cannot exceed 100 characters'],
+            default: null
+        },
+        badgeColor: {
+            type: String,
+            match: [/^#[0-9a-fA-F]{6}$/, 'Badge colour must be a hex colour such as #D32F2F'],
+            default: null
+        },
+        maxDurationMinutes: {
+            type: Number,
+            min: [15, 'Maximum duration must be at least 15 minutes'],
+            max: [480, 'Maximum duration cannot exceed 8 hours'],
+            default: null
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        },
+        isDeleted: {
+            type: Boolean,
+            default: false
+        },
+        deletedAt: {
+            type: Date,
+            default: null
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+visitorTypeSchema.index({ createdBy: 1, isDeleted: 1 });
+visitorTypeSchema.index({ createdBy: 1, name: 1 }, { unique: true, partialFilterExpression: { isDeleted: false } });
+
+export const VisitorType = mongoose.model<IVisitorType>('VisitorType', visitorTypeSchema);
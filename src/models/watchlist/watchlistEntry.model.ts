@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { WatchlistSeverity } from '../../types/watchlist/watchlist.types';
+
+/**
+ * A person the company wants to stop or hear about, known by any of their identifiers
+ */
+export interface IWatchlistEntry extends Document {
+    name?: string;
+    phone?: string;
+    email?: string;
+    idProofNumber?: string;
+    vehicleNumber?: string;
+    severity: WatchlistSeverity;
+    reason: string; // Shown to security on a hit
+    notes?: string;
+    expiresAt?: Date | null;
+    isActive: boolean;
+    createdBy: mongoose.Types.ObjectId; // Reference to User (company) that owns the watchlist
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: mongoose.Types.ObjectId; // Reference to User who deleted the entry
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const watchlistEntrySchema = new Schema<IWatchlistEntry>(
+    {
+        name: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Name cannot exceed 100 characters']
+        },
+        phone: {
+            type: String,
+            trim: true
+        },
+        email: {
+            type: String,
+            lowercase: true,
+            trim: true
+        },
+        idProofNumber: {
+            type: String,
+            trim: true,
+            maxlength: [50, 'ID proof number cannot exceed 50 characters']
+        },
+        vehicleNumber: {
+            type: String,
+            trim: true,
+            maxlength: [20, 'Vehicle number cannot exceed 20 characters']
+        },
+        severity: {
+            type: String,
+            enum: {
+                values: ['high', 'medium', 'low'],
+                message: 'Severity must be high, medium or low'
+            },
+            required: [true, 'Severity is required']
+        },
+        reason: {
+            type: String,
+            required: [true, 'Reason is required'],
+            trim: true,
+            maxlength: [500, 'Reason cannot exceed 500 characters']
+        },
+        notes: {
+            type: String,
+            trim: true,
+            maxlength: [1000, 'Notes cannot exceed 1000 characters']
+        },
+        expiresAt: {
+            type: Date,
+            default: null
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        },
+        isDeleted: {
+            type: Boolean,
+            default: false
+        },
+        deletedAt: {
+            type: Date
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+watchlistEntrySchema.index({ createdBy: 1, isDeleted: 1, isActive: 1 });
+
+export const WatchlistEntry = mongoose.model<IWatchlistEntry>('WatchlistEntry', watchlistEntrySchema);
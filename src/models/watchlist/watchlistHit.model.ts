@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+    WatchlistSeverity,
+    WatchlistAction,
+    WatchlistContext,
+    WatchlistHitOutcome,
+    IWatchlistSubject,
+    IWatchlistMatch
+} from '../../types/watchlist/watchlist.types';
+
+/**
+ * A screening that matched a watchlist entry, and what was decided. Kept for audits.
+ */
+export interface IWatchlistHit extends Document {
+    entryId: mongoose.Types.ObjectId; // Reference to WatchlistEntry
+    severity: WatchlistSeverity;
+    action: WatchlistAction;
+    outcome: WatchlistHitOutcome;
+    context: WatchlistContext;
+    subject: IWatchlistSubject;
+    matches: IWatchlistMatch[];
+    reason: string; // Copied from the entry, which can change later
+    overrideReason?: string;
+    decidedBy?: mongoose.Types.ObjectId | null; // Reference to User who overrode the hold
+    createdBy: mongoose.Types.ObjectId; // Reference to User (company)
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const matchSchema = new Schema<IWatchlistMatch>(
+    {
+        field: {
+            type: String,
+            enum: ['name', 'phone', 'email', 'idProofNumber', 'vehicleNumber'],
+            required: true
+        },
+        value: { type: String, required: true },
+        score: { type: Number, min: 0, max: 1, required: true }
+    },
+    { _id: false }
+);
+
+const subjectSchema = new Schema<IWatchlistSubject>(
+    {
+        visitorId: { type: Schema.Types.ObjectId, ref: 'Visitor' },
+        appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment' },
+        name: { type: String },
+        phone: { type: String },
+        email: { type: String },
+        idProofNumber: { type: String },
+        vehicleNumber: { type: String }
+    },
+    { _id: false }
+);
+
+const watchlistHitSchema = new Schema<IWatchlistHit>(
+    {
+        entryId: {
+            type: Schema.Types.ObjectId,
+            ref: 'WatchlistEntry',
+            required: true
+        },
+        severity: {
+            type: String,
+            enum: ['high', 'medium', 'low'],
+            required: true
+        },
+        action: {
+            type: String,
+            enum: ['block', 'override', 'alert'],
+            required: true
+        },
+        outcome: {
+            type: String,
+            enum: ['blocked', 'held', 'overridden', 'alerted'],
+            required: true
+        },
+        context: {
+            type: String,
+            enum: ['visitor_registration', 'appointment_booking', 'check_in'],
+            required: true
+        },
+        subject: {
+            type: subjectSchema,
+            required: true
+        },
+        matches: {
+            type: [matchSchema],
+            default: []
+        },
+        reason: {
+            type: String,
+            required: true
+        },
+        overrideReason: {
+            type: String,
+            trim: true
+        },
+        decidedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'Created by user ID is required']
+        }
+    },
+    {
+        timestamps: true,
+        versionKey: false
+    }
+);
+
+// Hits are kept for audits and never deleted
+watchlistHitSchema.index({ createdBy: 1, createdAt: -1 });
+watchlistHitSchema.index({ createdBy: 1, entryId: 1, createdAt: -1 });
+watchlistHitSchema.index({ createdBy: 1, 'subject.visitorId': 1, createdAt: -1 });
+
+export const WatchlistHit = mongoose.model<IWatchlistHit>('WatchlistHit', watchlistHitSchema);
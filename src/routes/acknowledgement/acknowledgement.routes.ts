@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { BroadcastController } from '../../controllers/broadcast/broadcast.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import { publicFormLimiter } from '../../middlewares/rateLimiter';
+import { broadcastTokenValidation } from '../../validations/broadcast/broadcast.validation';
+
+const router = Router();
+
+// Public routes - the token in the recipient's link authorises the request
+router.get(
+    '/:token',
+    validateRequest(broadcastTokenValidation),
+    asyncWrapper(BroadcastController.getAcknowledgement)
+);
+
+router.post(
+    '/:token',
+    publicFormLimiter,
+    validateRequest(broadcastTokenValidation),
+    asyncWrapper(BroadcastController.acknowledge)
+);
+
+export default router;
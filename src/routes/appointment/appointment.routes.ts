@@ -1,19 +1,40 @@
 import { Router } from 'express';
 import { AppointmentController } from '../../controllers/appointment/appointment.controller';
+import { InvitationController } from '../../controllers/invitation/invitation.controller';
+import { ApprovalLinkController } from '../../controllers/approvalLink/approvalLink.controller';
+import { VisitorPassController } from '../../controllers/visitorPass/visitorPass.controller';
+import { BadgeController } from '../../controllers/badge/badge.controller';
 import { validateRequest } from '../../middlewares/validateRequest';
 import { verifyToken } from '../../middlewares/auth.middleware';
 import { asyncWrapper } from '../../middlewares/asyncWrapper';
 import { checkTrialLimits } from '../../middlewares/checkTrialLimits.middleware';
 import {
     createAppointmentValidation,
+    walkInAppointmentValidation,
     updateAppointmentValidation,
     appointmentParamsValidation,
+    statusReasonValidation,
+    attendeeParamsValidation,
+    attendeeCheckInValidation,
     appointmentIdParamsValidation,
     getAppointmentsValidation,
     bulkUpdateAppointmentsValidation,
     employeeIdParamsValidation,
-    dateRangeValidation
+    dateRangeValidation,
+    appointmentCalendarValidation,
+    proposeRescheduleValidation,
+    respondRescheduleValidation,
+    onSiteValidation
 } from '../../validations/appointment/appointment.validation';
+import {
+    createInvitationValidation,
+    getInvitationsValidation,
+    invitationParamsValidation,
+    resendInvitationValidation
+} from '../../validations/invitation/invitation.validation';
+import { approvalLinkParamsValidation } from '../../validations/approvalLink/approvalLink.validation';
+import { visitorPassScanValidation } from '../../validations/visitorPass/visitorPass.validation';
+import { badgePrintValidation, badgeBatchValidation } from '../../validations/badge/badge.validation';
 
 const router = Router();
 
@@ -26,6 +47,40 @@ router.post(
     asyncWrapper(AppointmentController.createAppointment)
 );
 
+// Counts as one appointment against trial limits, even when a new visitor is registered
+router.post(
+    '/walk-in',
+    checkTrialLimits,
+    validateRequest(walkInAppointmentValidation),
+    asyncWrapper(AppointmentController.createWalkInAppointment)
+);
+
+// Invitations cannot be sent once the trial's appointment limit is reached
+router.post(
+    '/invitations',
+    checkTrialLimits,
+    validateRequest(createInvitationValidation),
+    asyncWrapper(InvitationController.createInvitation)
+);
+
+router.get(
+    '/invitations',
+    validateRequest(getInvitationsValidation),
+    asyncWrapper(InvitationController.getInvitations)
+);
+
+router.post(
+    '/invitations/:id/resend',
+    validateRequest(resendInvitationValidation),
+    asyncWrapper(InvitationController.resendInvitation)
+);
+
+router.put(
+    '/invitations/:id/revoke',
+    validateRequest(invitationParamsValidation),
+    asyncWrapper(InvitationController.revokeInvitation)
+);
+
 router.get(
     '/',
     validateRequest(getAppointmentsValidation),
@@ -37,6 +92,26 @@ router.get(
     asyncWrapper(AppointmentController.getAppointmentStats)
 );
 
+// Who is in the building right now, for reception and evacuations
+router.get(
+    '/on-site',
+    validateRequest(onSiteValidation),
+    asyncWrapper(AppointmentController.getOnSiteVisitors)
+);
+
+// Visitors still inside past the end of their visit
+router.get(
+    '/overstaying',
+    validateRequest(onSiteValidation),
+    asyncWrapper(AppointmentController.getOverstayingVisits)
+);
+
+router.get(
+    '/calendar',
+    validateRequest(appointmentCalendarValidation),
+    asyncWrapper(AppointmentController.getAppointmentsCalendar)
+);
+
 router.put(
     '/bulk-update',
     validateRequest(bulkUpdateAppointmentsValidation),
@@ -67,6 +142,18 @@ router.post(
     asyncWrapper(AppointmentController.checkOutAppointment)
 );
 
+router.get(
+    '/badges.pdf',
+    validateRequest(badgeBatchValidation),
+    asyncWrapper(BadgeController.getMorningBadges)
+);
+
+router.post(
+    '/scan',
+    validateRequest(visitorPassScanValidation),
+    asyncWrapper(VisitorPassController.scanPass)
+);
+
 router.get(
     '/:id',
     validateRequest(appointmentParamsValidation),
@@ -93,11 +180,35 @@ router.put(
 );
 
 router.put(
-    '/:id/cancel',
+    '/:id/start-meeting',
     validateRequest(appointmentParamsValidation),
+    asyncWrapper(AppointmentController.startMeeting)
+);
+
+router.put(
+    '/:id/cancel',
+    validateRequest(statusReasonValidation),
     asyncWrapper(AppointmentController.cancelAppointment)
 );
 
+router.put(
+    '/:id/no-show',
+    validateRequest(statusReasonValidation),
+    asyncWrapper(AppointmentController.markNoShow)
+);
+
+router.post(
+    '/:id/reschedule',
+    validateRequest(proposeRescheduleValidation),
+    asyncWrapper(AppointmentController.proposeReschedule)
+);
+
+router.put(
+    '/:id/reschedule/respond',
+    validateRequest(respondRescheduleValidation),
+    asyncWrapper(AppointmentController.respondToReschedule)
+);
+
 router.put(
     '/:id/approve',
     validateRequest(appointmentParamsValidation),
@@ -106,10 +217,70 @@ router.put(
 
 router.put(
     '/:id/reject',
-    validateRequest(appointmentParamsValidation),
+    validateRequest(statusReasonValidation),
     asyncWrapper(AppointmentController.rejectAppointment)
 );
 
+router.post(
+    '/:id/attendees/:visitorId',
+    validateRequest(attendeeParamsValidation),
+    asyncWrapper(AppointmentController.addAttendee)
+);
+
+router.delete(
+    '/:id/attendees/:visitorId',
+    validateRequest(attendeeParamsValidation),
+    asyncWrapper(AppointmentController.removeAttendee)
+);
+
+router.put(
+    '/:id/attendees/:visitorId/check-in',
+    validateRequest(attendeeCheckInValidation),
+    asyncWrapper(AppointmentController.checkInAttendee)
+);
+
+router.put(
+    '/:id/attendees/:visitorId/check-out',
+    validateRequest(attendeeParamsValidation),
+    asyncWrapper(AppointmentController.checkOutAttendee)
+);
+
+router.get(
+    '/:id/badge.pdf',
+    validateRequest(badgePrintValidation),
+    asyncWrapper(BadgeController.getAppointmentBadge)
+);
+
+router.get(
+    '/:id/passes',
+    validateRequest(appointmentParamsValidation),
+    asyncWrapper(VisitorPassController.getPasses)
+);
+
+router.post(
+    '/:id/passes/revoke',
+    validateRequest(appointmentParamsValidation),
+    asyncWrapper(VisitorPassController.revokePasses)
+);
+
+router.get(
+    '/:id/approval-links',
+    validateRequest(appointmentParamsValidation),
+    asyncWrapper(ApprovalLinkController.getApprovalLinks)
+);
+
+router.post(
+    '/:id/approval-links/:linkId/resend',
+    validateRequest(approvalLinkParamsValidation),
+    asyncWrapper(ApprovalLinkController.resendApprovalLink)
+);
+
+router.put(
+    '/:id/approval-links/:linkId/revoke',
+    validateRequest(approvalLinkParamsValidation),
+    asyncWrapper(ApprovalLinkController.revokeApprovalLink)
+);
+
 router.get(
     '/appointment/:appointmentId',
     validateRequest(appointmentIdParamsValidation),
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { AppointmentSeriesController } from '../../controllers/appointmentSeries/appointmentSeries.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { verifyToken } from '../../middlewares/auth.middleware';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import { checkTrialLimits } from '../../middlewares/checkTrialLimits.middleware';
+import {
+    createAppointmentSeriesValidation,
+    getAppointmentSeriesValidation,
+    appointmentSeriesParamsValidation,
+    updateSeriesOccurrenceValidation,
+    cancelSeriesOccurrenceValidation
+} from '../../validations/appointmentSeries/appointmentSeries.validation';
+
+const router = Router();
+
+router.use(verifyToken);
+
+router.post(
+    '/',
+    checkTrialLimits,
+    validateRequest(createAppointmentSeriesValidation),
+    asyncWrapper(AppointmentSeriesController.createSeries)
+);
+
+router.get(
+    '/',
+    validateRequest(getAppointmentSeriesValidation),
+    asyncWrapper(AppointmentSeriesController.getAllSeries)
+);
+
+router.get(
+    '/:id',
+    validateRequest(appointmentSeriesParamsValidation),
+    asyncWrapper(AppointmentSeriesController.getSeriesById)
+);
+
+router.put(
+    '/:id/occurrences/:appointmentId',
+    validateRequest(updateSeriesOccurrenceValidation),
+    asyncWrapper(AppointmentSeriesController.updateOccurrences)
+);
+
+router.put(
+    '/:id/occurrences/:appointmentId/cancel',
+    validateRequest(cancelSeriesOccurrenceValidation),
+    asyncWrapper(AppointmentSeriesController.cancelOccurrences)
+);
+
+export default router;
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { BroadcastController } from '../../controllers/broadcast/broadcast.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { verifyToken } from '../../middlewares/auth.middleware';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import {
+    sendBroadcastValidation,
+    getBroadcastsValidation,
+    broadcastParamsValidation,
+    broadcastRecipientParamsValidation
+} from '../../validations/broadcast/broadcast.validation';
+
+const router = Router();
+
+router.use(verifyToken);
+
+router.post(
+    '/',
+    validateRequest(sendBroadcastValidation),
+    asyncWrapper(BroadcastController.sendBroadcast)
+);
+
+router.get(
+    '/',
+    validateRequest(getBroadcastsValidation),
+    asyncWrapper(BroadcastController.getBroadcasts)
+);
+
+router.get(
+    '/:id',
+    validateRequest(broadcastParamsValidation),
+    asyncWrapper(BroadcastController.getBroadcast)
+);
+
+router.put(
+    '/:id/recipients/:recipientId/acknowledge',
+    validateRequest(broadcastRecipientParamsValidation),
+    asyncWrapper(BroadcastController.acknowledgeRecipient)
+);
+
+export default router;
@@ -10,11 +10,24 @@ import {
     employeeParamsValidation,
     getEmployeesValidation,
     updateEmployeeStatusValidation,
-    bulkUpdateEmployeesValidation
+    bulkUpdateEmployeesValidation,
+    employeeAvailabilityValidation,
+    createBlockedTimeValidation,
+    getBlockedTimesValidation,
+    blockedTimeParamsValidation,
+    calendarFeedValidation,
+    setDelegationValidation
 } from '../../validations/employee/employee.validation';
 
 const router = Router();
 
+// Calendar clients cannot send a bearer token; the feed token in the URL authorises this route
+router.get(
+    '/:id/calendar.ics',
+    validateRequest(calendarFeedValidation),
+    asyncWrapper(EmployeeController.getCalendarIcs)
+);
+
 router.use(verifyToken);
 
 router.post(
@@ -47,6 +60,54 @@ router.get(
     asyncWrapper(EmployeeController.getEmployeeById)
 );
 
+router.get(
+    '/:id/availability',
+    validateRequest(employeeAvailabilityValidation),
+    asyncWrapper(EmployeeController.getAvailability)
+);
+
+router.post(
+    '/:id/blocked-times',
+    validateRequest(createBlockedTimeValidation),
+    asyncWrapper(EmployeeController.createBlockedTime)
+);
+
+router.get(
+    '/:id/blocked-times',
+    validateRequest(getBlockedTimesValidation),
+    asyncWrapper(EmployeeController.getBlockedTimes)
+);
+
+router.delete(
+    '/:id/blocked-times/:blockId',
+    validateRequest(blockedTimeParamsValidation),
+    asyncWrapper(EmployeeController.deleteBlockedTime)
+);
+
+router.get(
+    '/:id/calendar-feed',
+    validateRequest(employeeParamsValidation),
+    asyncWrapper(EmployeeController.getCalendarFeed)
+);
+
+router.post(
+    '/:id/calendar-feed/rotate',
+    validateRequest(employeeParamsValidation),
+    asyncWrapper(EmployeeController.rotateCalendarFeed)
+);
+
+router.put(
+    '/:id/delegation',
+    validateRequest(setDelegationValidation),
+    asyncWrapper(EmployeeController.setDelegation)
+);
+
+router.delete(
+    '/:id/delegation',
+    validateRequest(employeeParamsValidation),
+    asyncWrapper(EmployeeController.clearDelegation)
+);
+
 router.put(
     '/:id',
     validateRequest(employeeParamsValidation),
@@ -2,12 +2,23 @@ import { Router } from 'express';
 import userRoutes from './user/user.routes';
 import employeeRoutes from './employee/employee.routes';
 import appointmentRoutes from './appointment/appointment.routes';
+import appointmentSeriesRoutes from './appointmentSeries/appointmentSeries.routes';
 import visitorRoutes from './visitor/visitor.routes';
 import subscriptionRoutes from './subscription/subscription.routes';
 import userSubscriptionRoutes from './userSubscription/userSubscription.routes';
 import uploadRoutes from './upload/upload.routes';
 import approvalLinkRoutes from './approvalLink/approvalLink.routes';
+import visitorLinkRoutes from './visitorLink/visitorLink.routes';
+import preRegistrationRoutes from './preRegistration/preRegistration.routes';
+import invitationRoutes from './invitation/invitation.routes';
 import settingsRoutes from './settings/settings.routes';
+import meetingRoomRoutes from './meetingRoom/meetingRoom.routes';
+import visitorPassRoutes from './visitorPass/visitorPass.routes';
+import rollCallRoutes from './rollCall/rollCall.routes';
+import broadcastRoutes from './broadcast/broadcast.routes';
+import acknowledgementRoutes from './acknowledgement/acknowledgement.routes';
+import watchlistRoutes from './watchlist/watchlist.routes';
+import visitorTypeRoutes from './visitorType/visitorType.routes';
 
 const router = Router();
 
@@ -22,15 +33,26 @@ router.get('/health', (_req, res) => {
 
 // Public routes (no authentication required)
 router.use('/', approvalLinkRoutes);
+router.use('/visit', visitorLinkRoutes);
+router.use('/register', preRegistrationRoutes);
+router.use('/invite', invitationRoutes);
+router.use('/passes', visitorPassRoutes);
+router.use('/acknowledge', acknowledgementRoutes);
 
 // Protected routes (authentication required)
 router.use('/users', userRoutes);
 router.use('/employees', employeeRoutes);
 router.use('/appointments', appointmentRoutes);
+router.use('/appointment-series', appointmentSeriesRoutes);
 router.use('/visitors', visitorRoutes);
 router.use('/subscription-plans', subscriptionRoutes);
 router.use('/user-subscriptions', userSubscriptionRoutes);
 router.use('/upload', uploadRoutes);
 router.use('/settings', settingsRoutes);
+router.use('/meeting-rooms', meetingRoomRoutes);
+router.use('/visitor-types', visitorTypeRoutes);
+router.use('/roll-calls', rollCallRoutes);
+router.use('/broadcasts', broadcastRoutes);
+router.use('/watchlist', watchlistRoutes);
 
 export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import multer = require('multer');
+import { InvitationController } from '../../controllers/invitation/invitation.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import { publicFormLimiter } from '../../middlewares/rateLimiter';
+import { UPLOAD_CONFIG } from '../../utils/cloudinary';
+import {
+    invitationTokenValidation,
+    completeInvitationValidation
+} from '../../validations/invitation/invitation.validation';
+
+const router = Router();
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: UPLOAD_CONFIG.MAX_FILE_SIZE,
+    },
+    fileFilter: (_req, file, cb) => {
+        if (file.mimetype.startsWith('image/')) {
+            cb(null, true);
+        } else {
+            cb(new Error('Invalid file type. Only images are allowed'));
+        }
+    }
+});
+
+// Public routes - the token in the visitor's invitation link authorises the request
+router.get(
+    '/:token',
+    validateRequest(invitationTokenValidation),
+    asyncWrapper(InvitationController.getInvitationForm)
+);
+
+router.post(
+    '/:token/upload',
+    publicFormLimiter,
+    validateRequest(invitationTokenValidation),
+    upload.single('file'),
+    asyncWrapper(InvitationController.uploadFile)
+);
+
+router.post(
+    '/:token',
+    publicFormLimiter,
+    validateRequest(completeInvitationValidation),
+    asyncWrapper(InvitationController.completeInvitation)
+);
+
+export default router;
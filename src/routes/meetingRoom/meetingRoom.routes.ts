@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { MeetingRoomController } from '../../controllers/meetingRoom/meetingRoom.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { verifyToken } from '../../middlewares/auth.middleware';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import {
+    createMeetingRoomValidation,
+    updateMeetingRoomValidation,
+    meetingRoomParamsValidation,
+    getMeetingRoomsValidation,
+    roomUtilizationValidation
+} from '../../validations/meetingRoom/meetingRoom.validation';
+
+const router = Router();
+
+router.use(verifyToken);
+
+router.post(
+    '/',
+    validateRequest(createMeetingRoomValidation),
+    asyncWrapper(MeetingRoomController.createMeetingRoom)
+);
+
+router.get(
+    '/',
+    validateRequest(getMeetingRoomsValidation),
+    asyncWrapper(MeetingRoomController.getAllMeetingRooms)
+);
+
+router.get(
+    '/utilization',
+    validateRequest(roomUtilizationValidation),
+    asyncWrapper(MeetingRoomController.getUtilization)
+);
+
+router.get(
+    '/:id',
+    validateRequest(meetingRoomParamsValidation),
+    asyncWrapper(MeetingRoomController.getMeetingRoomById)
+);
+
+router.put(
+    '/:id',
+    validateRequest(updateMeetingRoomValidation),
+    asyncWrapper(MeetingRoomController.updateMeetingRoom)
+);
+
+router.delete(
+    '/:id',
+    validateRequest(meetingRoomParamsValidation),
+    asyncWrapper(MeetingRoomController.deleteMeetingRoom)
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import multer = require('multer');
+import { PreRegistrationController } from '../../controllers/preRegistration/preRegistration.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import { publicFormLimiter } from '../../middlewares/rateLimiter';
+import { UPLOAD_CONFIG } from '../../utils/cloudinary';
+import {
+    preRegistrationTokenValidation,
+    preRegistrationSubmitValidation
+} from '../../validations/preRegistration/preRegistration.validation';
+
+const router = Router();
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: UPLOAD_CONFIG.MAX_FILE_SIZE,
+    },
+    fileFilter: (_req, file, cb) => {
+        if (file.mimetype.startsWith('image/')) {
+            cb(null, true);
+        } else {
+            cb(new Error('Invalid file type. Only images are allowed'));
+        }
+    }
+});
+
+// Public routes - the signed token in the company's registration link authorises the request
+router.get(
+    '/:token',
+    validateRequest(preRegistrationTokenValidation),
+    asyncWrapper(PreRegistrationController.getForm)
+);
+
+router.post(
+    '/:token/upload',
+    publicFormLimiter,
+    validateRequest(preRegistrationTokenValidation),
+    upload.single('file'),
+    asyncWrapper(PreRegistrationController.uploadFile)
+);
+
+router.post(
+    '/:token',
+    publicFormLimiter,
+    validateRequest(preRegistrationSubmitValidation),
+    asyncWrapper(PreRegistrationController.register)
+);
+
+export default router;
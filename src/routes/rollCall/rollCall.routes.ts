@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { RollCallController } from '../../controllers/rollCall/rollCall.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { verifyToken } from '../../middlewares/auth.middleware';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import {
+    startRollCallValidation,
+    getRollCallsValidation,
+    rollCallParamsValidation,
+    rollCallExportValidation,
+    markSafeValidation,
+    closeRollCallValidation
+} from '../../validations/rollCall/rollCall.validation';
+
+const router = Router();
+
+router.use(verifyToken);
+
+router.post(
+    '/',
+    validateRequest(startRollCallValidation),
+    asyncWrapper(RollCallController.startRollCall)
+);
+
+router.get(
+    '/',
+    validateRequest(getRollCallsValidation),
+    asyncWrapper(RollCallController.getRollCalls)
+);
+
+router.get(
+    '/:id',
+    validateRequest(rollCallParamsValidation),
+    asyncWrapper(RollCallController.getRollCall)
+);
+
+router.get(
+    '/:id/export',
+    validateRequest(rollCallExportValidation),
+    asyncWrapper(RollCallController.exportRollCall)
+);
+
+router.put(
+    '/:id/entries/:entryId/safe',
+    validateRequest(markSafeValidation),
+    asyncWrapper(RollCallController.markSafe)
+);
+
+router.put(
+    '/:id/close',
+    validateRequest(closeRollCallValidation),
+    asyncWrapper(RollCallController.closeRollCall)
+);
+
+export default router;
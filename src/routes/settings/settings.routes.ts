@@ -14,6 +14,8 @@ router.put('/',
     validateRequest(updateSettingsValidation),
     asyncWrapper(SettingsController.updateSettings)
 );
+router.get('/pre-registration-link', asyncWrapper(SettingsController.getPreRegistrationLink));
+router.post('/pre-registration-link/rotate', asyncWrapper(SettingsController.rotatePreRegistrationLink));
 
 export default router;
 
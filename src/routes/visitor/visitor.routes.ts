@@ -5,7 +5,7 @@ import { verifyToken } from '../../middlewares/auth.middleware';
 import { asyncWrapper } from '../../middlewares/asyncWrapper';
 import { checkTrialLimits } from '../../middlewares/checkTrialLimits.middleware';
 import {
-    createVisitorValidation,
+    registerVisitorValidation,
     updateVisitorValidation,
     visitorParamsValidation,
     getVisitorsValidation,
@@ -20,7 +20,7 @@ router.use(verifyToken);
 router.post(
     '/',
     checkTrialLimits,
-    validateRequest(createVisitorValidation),
+    validateRequest(registerVisitorValidation),
     asyncWrapper(VisitorController.createVisitor)
 );
 
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { VisitorLinkController } from '../../controllers/visitorLink/visitorLink.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import { publicFormLimiter } from '../../middlewares/rateLimiter';
+import {
+    visitorTokenValidation,
+    visitorProposeRescheduleValidation,
+    visitorRespondRescheduleValidation,
+    visitorCancelValidation
+} from '../../validations/visitorLink/visitorLink.validation';
+
+const router = Router();
+
+// Public routes - the token in the visitor's link authorises the request
+router.get(
+    '/:token',
+    validateRequest(visitorTokenValidation),
+    asyncWrapper(VisitorLinkController.getAppointment)
+);
+
+router.post(
+    '/:token/reschedule',
+    publicFormLimiter,
+    validateRequest(visitorProposeRescheduleValidation),
+    asyncWrapper(VisitorLinkController.proposeReschedule)
+);
+
+router.post(
+    '/:token/reschedule/respond',
+    publicFormLimiter,
+    validateRequest(visitorRespondRescheduleValidation),
+    asyncWrapper(VisitorLinkController.respondToReschedule)
+);
+
+router.post(
+    '/:token/cancel',
+    publicFormLimiter,
+    validateRequest(visitorCancelValidation),
+    asyncWrapper(VisitorLinkController.cancelAppointment)
+);
+
+export default router;
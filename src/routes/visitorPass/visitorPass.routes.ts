@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { VisitorPassController } from '../../controllers/visitorPass/visitorPass.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import { visitorPassTokenValidation } from '../../validations/visitorPass/visitorPass.validation';
+
+const router = Router();
+
+// Public route - the signed token is the pass, so showing its QR code needs nothing else
+router.get(
+    '/:token/qr.png',
+    validateRequest(visitorPassTokenValidation),
+    asyncWrapper(VisitorPassController.getQrCode)
+);
+
+export default router;
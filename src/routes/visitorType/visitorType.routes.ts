@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { VisitorTypeController } from '../../controllers/visitorType/visitorType.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { verifyToken } from '../../middlewares/auth.middleware';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import {
+    createVisitorTypeValidation,
+    updateVisitorTypeValidation,
+    visitorTypeParamsValidation,
+    getVisitorTypesValidation
+} from '../../validations/visitorType/visitorType.validation';
+
+const router = Router();
+
+router.use(verifyToken);
+
+router.post(
+    '/',
+    validateRequest(createVisitorTypeValidation),
+    asyncWrapper(VisitorTypeController.createVisitorType)
+);
+
+router.get(
+    '/',
+    validateRequest(getVisitorTypesValidation),
+    asyncWrapper(VisitorTypeController.getAllVisitorTypes)
+);
+
+router.get(
+    '/:id',
+    validateRequest(visitorTypeParamsValidation),
+    asyncWrapper(VisitorTypeController.getVisitorTypeById)
+);
+
+router.put(
+    '/:id',
+    validateRequest(updateVisitorTypeValidation),
+    asyncWrapper(VisitorTypeController.updateVisitorType)
+);
+
+router.delete(
+    '/:id',
+    validateRequest(visitorTypeParamsValidation),
+    asyncWrapper(VisitorTypeController.deleteVisitorType)
+);
+
+export default router;
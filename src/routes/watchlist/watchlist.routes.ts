@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { WatchlistController } from '../../controllers/watchlist/watchlist.controller';
+import { validateRequest } from '../../middlewares/validateRequest';
+import { verifyToken } from '../../middlewares/auth.middleware';
+import { asyncWrapper } from '../../middlewares/asyncWrapper';
+import {
+    createWatchlistEntryValidation,
+    updateWatchlistEntryValidation,
+    watchlistEntryParamsValidation,
+    getWatchlistValidation,
+    getWatchlistHitsValidation
+} from '../../validations/watchlist/watchlist.validation';
+
+const router = Router();
+
+router.use(verifyToken);
+
+router.post(
+    '/',
+    validateRequest(createWatchlistEntryValidation),
+    asyncWrapper(WatchlistController.createEntry)
+);
+
+router.get(
+    '/',
+    validateRequest(getWatchlistValidation),
+    asyncWrapper(WatchlistController.getEntries)
+);
+
+router.get(
+    '/hits',
+    validateRequest(getWatchlistHitsValidation),
+    asyncWrapper(WatchlistController.getHits)
+);
+
+router.get(
+    '/:id',
+    validateRequest(watchlistEntryParamsValidation),
+    asyncWrapper(WatchlistController.getEntry)
+);
+
+router.put(
+    '/:id',
+    validateRequest(updateWatchlistEntryValidation),
+    asyncWrapper(WatchlistController.updateEntry)
+);
+
+router.delete(
+    '/:id',
+    validateRequest(watchlistEntryParamsValidation),
+    asyncWrapper(WatchlistController.deleteEntry)
+);
+
+export default router;
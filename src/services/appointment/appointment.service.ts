@@ -1,11 +1,27 @@
-import { Appointment } from '../../models/appointment/appointment.model';
+import mongoose from 'mongoose';
+import { Appointment, IAppointment } from '../../models/appointment/appointment.model';
 import { Employee } from '../../models/employee/employee.model';
 import { Visitor } from '../../models/visitor/visitor.model';
-import { EmailService } from '../email/email.service';
+import { MeetingRoom, IMeetingRoom } from '../../models/meetingRoom/meetingRoom.model';
+import { EmailService, IEmailAttachment } from '../email/email.service';
 import { ApprovalLinkService } from '../approvalLink/approvalLink.service';
 import { WhatsAppService } from '../whatsapp/whatsapp.service';
 import { SettingsService } from '../settings/settings.service';
+import { AppointmentSeriesService } from '../appointmentSeries/appointmentSeries.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { RescheduleService } from '../reschedule/reschedule.service';
+import { VisitorService } from '../visitor/visitor.service';
+import { DelegationService } from '../delegation/delegation.service';
+import { ApprovalChainService } from '../approvalChain/approvalChain.service';
+import { AttendeeService } from '../attendee/attendee.service';
+import { VisitorPassService } from '../visitorPass/visitorPass.service';
+import { BadgeService } from '../badge/badge.service';
+import { WatchlistService } from '../watchlist/watchlist.service';
+import { OverstayService } from '../overstay/overstay.service';
+import { VisitorTypeService } from '../visitorType/visitorType.service';
 import {
+    AppointmentStatus,
     ICreateAppointmentDTO,
     IUpdateAppointmentDTO,
     IAppointmentResponse,
@@ -15,20 +31,220 @@ import {
     ICheckOutRequest,
     IAppointmentStats,
     IBulkUpdateAppointmentsDTO,
+    IAppointmentCalendarQuery,
     IAppointmentCalendarResponse,
-    IAppointmentSearchRequest
+    IAppointmentSearchRequest,
+    IAppointmentConflict,
+    IConflictCheckOptions,
+    IWalkInAppointmentDTO,
+    IWalkInAppointmentResponse,
+    IStatusChangeActor,
+    IStatusReasonDTO,
+    IStatusReason,
+    ReasonedStatus
 } from '../../types/appointment/appointment.types';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../utils/constants';
+import { ICreateVisitorDTO, IVisitorResponse } from '../../types/visitor/visitor.types';
+import { ERROR_MESSAGES, ERROR_CODES, ACTIVE_APPOINTMENT_STATUSES, REASONED_STATUSES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
 import { AppError } from '../../middlewares/errorHandler';
 import { Transaction } from '../../decorators';
 
+const MAX_CALENDAR_RANGE_DAYS = 92;
+
+// Length of a walk-in visit when the front desk does not give one
+const DEFAULT_WALK_IN_DURATION = 30;
+
 export class AppointmentService {
     /**
-     * Create a new appointment
+     * Find active appointments of an employee whose time window, padded by the
+     * buffer, overlaps the requested slot
+     */
+    static async findConflictingAppointments(
+        employeeId: string,
+        scheduledDate: Date | string,
+        scheduledTime: string,
+        duration: number,
+        options: IConflictCheckOptions = {}
+    ): Promise<IAppointmentConflict[]> {
+        return this.findOverlappingAppointments({ employeeId }, scheduledDate, scheduledTime, duration, options);
+    }
+
+    /**
+     * Find active appointments booked in a meeting room whose time window, padded by
+     * the buffer, overlaps the requested slot
+     */
+    static async findConflictingRoomBookings(
+        meetingRoomId: string,
+        scheduledDate: Date | string,
+        scheduledTime: string,
+        duration: number,
+        options: IConflictCheckOptions = {}
+    ): Promise<IAppointmentConflict[]> {
+        return this.findOverlappingAppointments(
+            { 'appointmentDetails.meetingRoomId': meetingRoomId },
+            scheduledDate,
+            scheduledTime,
+            duration,
+            options
+        );
+    }
+
+    private static async findOverlappingAppointments(
+        match: Record<string, unknown>,
+        scheduledDate: Date | string,
+        scheduledTime: string,
+        duration: number,
+        options: IConflictCheckOptions
+    ): Promise<IAppointmentConflict[]> {
+        const { excludeAppointmentIds = [], bufferMinutes = 0, session } = options;
+        const requested = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
+
+        // Appointments can run past midnight, so look at the neighbouring days too
+        const dayStart = AppointmentTimeUtil.startOfDay(scheduledDate);
+        const rangeStart = new Date(dayStart);
+        rangeStart.setDate(rangeStart.getDate() - 1);
+        const rangeEnd = new Date(dayStart);
+        rangeEnd.setDate(rangeEnd.getDate() + 2);
+
+        const candidates = await Appointment.find({
+            ...match,
+            _id: { $nin: excludeAppointmentIds },
+            status: { $in: ACTIVE_APPOINTMENT_STATUSES },
+            isDeleted: false,
+            'appointmentDetails.scheduledDate': { $gte: rangeStart, $lt: rangeEnd }
+        })
+            .select('appointmentId status appointmentDetails')
+            .session(session)
+            .lean();
+
+        return candidates
+            .map((candidate: any) => {
+                const { scheduledDate: date, scheduledTime: time, duration: length } = candidate.appointmentDetails;
+                const window = AppointmentTimeUtil.getWindow(date, time, length);
+                return {
+                    _id: candidate._id.toString(),
+                    appointmentId: candidate.appointmentId,
+                    status: candidate.status,
+                    scheduledDate: date,
+                    scheduledTime: time,
+                    duration: length,
+                    startsAt: window.start,
+                    endsAt: window.end
+                };
+            })
+            .filter(conflict => AppointmentTimeUtil.overlaps(requested, { start: conflict.startsAt, end: conflict.endsAt }, bufferMinutes));
+    }
+
+    /**
+     * Throw a 409 listing the clashing appointments if the slot is already taken
+     */
+    static async assertNoConflicts(
+        employeeId: string,
+        scheduledDate: Date | string,
+        scheduledTime: string,
+        duration: number,
+        companyUserId: string,
+        options: IConflictCheckOptions = {}
+    ): Promise<void> {
+        const bufferMinutes = await SettingsService.getBufferMinutes(companyUserId);
+        const conflicts = await this.findConflictingAppointments(employeeId, scheduledDate, scheduledTime, duration, {
+            ...options,
+            bufferMinutes
+        });
+
+        if (conflicts.length > 0) {
+            throw new AppError(
+                bufferMinutes > 0
+                    ? `Employee already has an appointment within ${bufferMinutes} minutes of this time`
+                    : 'Employee already has an appointment at this time',
+                ERROR_CODES.CONFLICT,
+                { conflicts }
+            );
+        }
+    }
+
+    /**
+     * People coming with the lead visitor: the rest of the group and anyone
+     * accompanying them without a visitor record of their own
+     */
+    static countCompanions(appointment: Pick<IAppointment, 'accompanyingCount' | 'attendees'>): number {
+        const groupMembers = (appointment.attendees ?? []).filter(attendee => !attendee.isLead).length;
+        return (appointment.accompanyingCount ?? 0) + groupMembers;
+    }
+
+    /**
+     * Load a company meeting room that is active and large enough for the visitor
+     * and the people accompanying them
+     */
+    static async findBookableRoom(meetingRoomId: string, accompanyingCount: number = 0, companyUserId: string, session?: any): Promise<IMeetingRoom> {
+        const room = await MeetingRoom.findOne({ _id: meetingRoomId, createdBy: companyUserId, isDeleted: false }).session(session);
+        if (!room) {
+            throw new AppError(ERROR_MESSAGES.MEETING_ROOM_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        if (room.status === 'Inactive') {
+            throw new AppError('Meeting room is inactive. Please select an active room.', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const attendees = accompanyingCount + 1;
+        if (attendees > room.capacity) {
+            throw new AppError(
+                `Meeting room ${room.name} holds ${room.capacity} people but the visit has ${attendees}`,
+                ERROR_CODES.BAD_REQUEST
+            );
+        }
+
+        return room;
+    }
+
+    /**
+     * Throw unless the meeting room fits the visit and is free for the slot (with the company buffer)
+     */
+    static async assertRoomAvailable(
+        meetingRoomId: string,
+        scheduledDate: Date | string,
+        scheduledTime: string,
+        duration: number,
+        accompanyingCount: number = 0,
+        companyUserId: string,
+        options: IConflictCheckOptions = {}
+    ): Promise<IMeetingRoom> {
+        const room = await this.findBookableRoom(meetingRoomId, accompanyingCount, companyUserId, options.session);
+
+        const bufferMinutes = await SettingsService.getBufferMinutes(companyUserId);
+        const conflicts = await this.findConflictingRoomBookings(meetingRoomId, scheduledDate, scheduledTime, duration, {
+            ...options,
+            bufferMinutes
+        });
+
+        if (conflicts.length > 0) {
+            throw new AppError(`Meeting room ${room.name} is already booked at this time`, ERROR_CODES.CONFLICT, { conflicts });
+        }
+
+        return room;
+    }
+
+    /**
+     * Create a new appointment. Pass notify: false to skip the host notifications
+     * (used for the later occurrences of a series approved as a whole),
+     * overrideAvailability: true to book outside the employee's availability,
+     * watchlistOverrideReason to let security book a visitor the watchlist holds,
+     * skipWatchlist: true when the visitors were screened for the same booking already, and
+     * approvedBy to book the visit already approved, without an approval chain (visits the host arranged).
      */
     @Transaction('Failed to create appointment')
-    static async createAppointment(appointmentData: ICreateAppointmentDTO, createdBy: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
-        const { session } = options;
+    static async createAppointment(
+        appointmentData: ICreateAppointmentDTO,
+        createdBy: string,
+        options: {
+            session?: any;
+            notify?: boolean;
+            overrideAvailability?: boolean;
+            skipWatchlist?: boolean;
+            watchlistOverrideReason?: string;
+            approvedBy?: IStatusChangeActor;
+        } = {}
+    ): Promise<IAppointmentResponse> {
+        const { session, notify = true, overrideAvailability = false, skipWatchlist = false, watchlistOverrideReason, approvedBy } = options;
 
         const employee = await Employee.findOne({ _id: appointmentData.employeeId, isDeleted: false }).session(session);
         if (!employee) {
@@ -38,23 +254,106 @@ export class AppointmentService {
             throw new AppError('Employee is inactive. Please select an active employee.', ERROR_CODES.BAD_REQUEST);
         }
 
-        // Prevent double booking for the same employee, date, and time while an earlier appointment is pending/approved
-        const conflictAppointment = await Appointment.findOne({
-            employeeId: appointmentData.employeeId,
-            'appointmentDetails.scheduledDate': appointmentData.appointmentDetails.scheduledDate,
-            'appointmentDetails.scheduledTime': appointmentData.appointmentDetails.scheduledTime,
-            status: 'approved',
-            isDeleted: false
-        }).session(session);
+        // The slot must fall inside the employee's working hours, off holidays and blocked time;
+        // privileged users may override, which is recorded on the appointment
+        const { scheduledDate, scheduledTime, duration } = appointmentData.appointmentDetails;
+        const unavailable = await AvailabilityService.checkAvailability(employee, scheduledDate, scheduledTime, duration, createdBy, session);
+        if (unavailable && !overrideAvailability) {
+            throw new AppError(unavailable.message, ERROR_CODES.BAD_REQUEST, { reason: unavailable.reason });
+        }
+
+        // Prevent double booking: the new slot must not overlap any active appointment of the employee
+        await this.assertNoConflicts(
+            appointmentData.employeeId,
+            appointmentData.appointmentDetails.scheduledDate,
+            appointmentData.appointmentDetails.scheduledTime,
+            appointmentData.appointmentDetails.duration,
+            createdBy,
+            { session }
+        );
+
+        // Group visits: everyone after the lead needs their own visitor record
+        const groupMemberIds = await AttendeeService.resolveGroupMembers(
+            appointmentData.attendees ?? [],
+            appointmentData.visitorId,
+            createdBy,
+            session
+        );
+        const attendees = [
+            { visitorId: new mongoose.Types.ObjectId(appointmentData.visitorId), isLead: true },
+            ...groupMemberIds.map(visitorId => ({ visitorId, isLead: false }))
+        ];
+
+        // The visitor type decides how long the visit can be, what every visitor must have given
+        // and how the visit is approved
+        const visitorType = await VisitorTypeService.resolveAppointmentType(
+            createdBy,
+            appointmentData.visitorTypeId,
+            appointmentData.visitorId,
+            session
+        );
+        VisitorTypeService.assertDuration(visitorType, duration);
+        await VisitorTypeService.assertVisitorsMeetRequirements(
+            attendees.map(attendee => attendee.visitorId.toString()),
+            visitorType,
+            session
+        );
 
-        if (conflictAppointment) {
-            throw new AppError('Employee already has an appointment at this time', ERROR_CODES.CONFLICT);
+        if (!skipWatchlist) {
+            await WatchlistService.screenVisitors(
+                createdBy,
+                [appointmentData.visitorId, ...groupMemberIds.map(visitorId => visitorId.toString())],
+                'appointment_booking',
+                createdBy,
+                { vehicleNumber: appointmentData.appointmentDetails.vehicleNumber, overrideReason: watchlistOverrideReason, session }
+            );
         }
 
+        // The meeting room, if any, must be free and large enough for the visitor and companions
+        const appointmentDetails = { ...appointmentData.appointmentDetails };
+        if (appointmentDetails.meetingRoomId) {
+            const room = await this.assertRoomAvailable(
+                appointmentDetails.meetingRoomId,
+                scheduledDate,
+                scheduledTime,
+                duration,
+                (appointmentData.accompanyingCount ?? 0) + groupMemberIds.length,
+                createdBy,
+                { session }
+            );
+            appointmentDetails.meetingRoom = room.name;
+        }
+
+        // Appointments that fall under an approval policy need more than the host's approval,
+        // unless the visitor type asks for the host's approval alone or none at all
+        const approvalMode = approvedBy ? 'auto' : visitorType?.approvalMode ?? 'default';
+        const approvalChain = approvalMode === 'default' || approvalMode === 'policy'
+            ? await ApprovalChainService.buildChain(
+                createdBy,
+                employee,
+                appointmentData.visitorId,
+                appointmentDetails.meetingRoomId,
+                visitorType?.approvalPolicyName,
+                session
+            )
+            : null;
+
         const appointment = new Appointment({
             ...appointmentData,
+            attendees,
+            appointmentDetails,
+            visitorTypeId: visitorType?._id ?? null,
+            approvalChain,
+            availabilityOverride: unavailable
+                ? { overriddenBy: createdBy, reason: unavailable.message, overriddenAt: new Date() }
+                : null,
             createdBy
         });
+        if (approvedBy) {
+            appointment.transitionTo('approved', approvedBy);
+        } else if (visitorType && approvalMode === 'auto') {
+            appointment.transitionTo('approved', { source: 'system', note: `Approved on booking for ${visitorType.name} visitors` });
+        }
 
         await appointment.save({ session });
 
@@ -63,19 +362,24 @@ export class AppointmentService {
             .populate('visitorId', 'name email phone company designation address idProof photo visitorId')
             .session(session);
 
+        // Visits approved on booking leave the host nothing to decide
+        const requestApproval = appointment.status === 'pending';
+
         // Generate approval link for the appointment
         let approvalLink = null;
-        try {
-            const appointmentId = (appointment._id as any).toString();
-            approvalLink = await ApprovalLinkService.createApprovalLink(appointmentId);
-        } catch (error) {
-            console.error('Failed to create approval link:', error);
+        if (requestApproval) {
+            try {
+                const appointmentId = (appointment._id as any).toString();
+                approvalLink = await ApprovalLinkService.createApprovalLink(appointmentId, null, session);
+            } catch (error) {
+                console.error('Failed to create approval link:', error);
+            }
         }
 
         // Check settings for notifications
-        const emailEnabled = await SettingsService.isEmailEnabled(createdBy);
-        const whatsappEnabled = await SettingsService.isWhatsAppEnabled(createdBy);
-        const smsEnabled = await SettingsService.isSmsEnabled(createdBy);
+        const emailEnabled = notify && requestApproval && await SettingsService.isEmailEnabled(createdBy);
+        const whatsappEnabled = notify && requestApproval && await SettingsService.isWhatsAppEnabled(createdBy);
+        const smsEnabled = notify && requestApproval && await SettingsService.isSmsEnabled(createdBy);
 
         // Send email notification to employee (if enabled)
         try {
@@ -140,7 +444,11 @@ export class AppointmentService {
                     appointment.notifications.whatsappSent = false;
                 }
             } else {
-                if (!whatsappEnabled) {
+                if (!notify) {
+                    console.log('WhatsApp notification skipped for series occurrence');
+                } else if (!requestApproval) {
+                    console.log('WhatsApp notification skipped: appointment approved on booking');
+                } else if (!whatsappEnabled) {
                     console.log('WhatsApp notifications are disabled in settings');
                 } else if (!approvalLink?.link) {
                     console.warn('Approval link not generated. WhatsApp notification not sent.');
@@ -153,6 +461,15 @@ export class AppointmentService {
             appointment.notifications.whatsappSent = false;
         }
 
+        // Hosts who delegated their approvals or are away also get their stand-ins notified
+        if (notify && requestApproval) {
+            try {
+                await DelegationService.notifyStandInApprovers((appointment._id as any).toString(), createdBy, session);
+            } catch (error) {
+                console.error('Failed to notify stand-in approvers:', error);
+            }
+        }
+
         // SMS notifications (if SMS service is implemented)
         // For now, mark as not sent if disabled
         appointment.notifications.smsSent = false;
@@ -162,6 +479,12 @@ export class AppointmentService {
             // appointment.notifications.smsSent = smsSent;
         }
 
+        // Visits approved on booking get the invite, passes and messages an approval sends
+        if (!requestApproval && populatedAppointment) {
+            await this.sendApprovalNotifications(populatedAppointment, session);
+            appointment.notifications.calendarInviteSent = populatedAppointment.notifications.calendarInviteSent;
+        }
+
         // Save notification status
         await appointment.save({ session });
 
@@ -174,6 +497,91 @@ export class AppointmentService {
         } as IAppointmentResponse;
     }
 
+    /**
+     * Register a visitor who arrives without an appointment: find or create the visitor,
+     * book an appointment starting now and optionally approve and check in straight away.
+     * The host is told someone is waiting at reception. The visitor is already there, so a visit
+     * outside the host's working hours is recorded as an availability override, not refused;
+     * conflicts and the watchlist are checked as for any booking.
+     */
+    @Transaction('Failed to register walk-in')
+    static async createWalkInAppointment(
+        walkInData: IWalkInAppointmentDTO,
+        createdBy: string,
+        options: { session?: any; watchlistOverrideReason?: string } = {}
+    ): Promise<IWalkInAppointmentResponse> {
+        const { session, watchlistOverrideReason } = options;
+
+        const { visitor, created: visitorCreated } = await this.findOrCreateWalkInVisitor(walkInData.visitor, createdBy, session);
+
+        // Walk-ins without a duration stay the default time, or less when their type allows less
+        const visitorType = await VisitorTypeService.resolveAppointmentType(createdBy, walkInData.visitor.visitorTypeId, visitor._id.toString(), session);
+        const defaultDuration = Math.min(DEFAULT_WALK_IN_DURATION, visitorType?.maxDurationMinutes || DEFAULT_WALK_IN_DURATION);
+
+        const now = new Date();
+        const created = await this.createAppointment(
+            {
+                employeeId: walkInData.employeeId,
+                visitorId: visitor._id.toString(),
+                visitorTypeId: visitorType ? (visitorType._id as any).toString() : undefined,
+                accompaniedBy: walkInData.accompaniedBy,
+                accompanyingCount: walkInData.accompanyingCount,
+                appointmentDetails: {
+                    ...walkInData.appointmentDetails,
+                    scheduledDate: AppointmentTimeUtil.startOfDay(now),
+                    scheduledTime: AppointmentTimeUtil.formatTime(now),
+                    duration: walkInData.appointmentDetails.duration ?? defaultDuration
+                }
+            },
+            createdBy,
+            // The host gets the walk-in notice below instead of a booking request
+            { session, notify: false, overrideAvailability: true, watchlistOverrideReason }
+        );
+
+        let appointment = created;
+        if (walkInData.checkIn) {
+            const booked = await Appointment.findById(created._id).session(session);
+            if (!booked) {
+                throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+            }
+            const actor: IStatusChangeActor = { userId: createdBy, source: 'dashboard', note: 'Walk-in approved at reception' };
+
+            // Under an approval policy reception only approves the host's step; the visitor
+            // can be checked in once the remaining steps are approved. Visitor types approved
+            // on booking need no approval here.
+            if (booked.status === 'approved' || ApprovalChainService.recordDecision(booked, 'approved', actor)) {
+                if (booked.status === 'pending') {
+                    booked.transitionTo('approved', actor);
+                    await booked.save({ session });
+                }
+
+                // Screened against the watchlist when booked a moment ago
+                appointment = await this.checkInAppointment(
+                    { appointmentId: booked.appointmentId, badgeNumber: walkInData.badgeNumber, securityNotes: walkInData.securityNotes },
+                    createdBy,
+                    { session, skipWatchlist: true }
+                );
+            } else {
+                await booked.save({ session });
+                await ApprovalChainService.notifyCurrentStep((booked._id as any).toString(), session);
+                appointment = booked.toObject() as unknown as IAppointmentResponse;
+            }
+        }
+
+        // The host's link only decides while the host's step is open
+        const hostLink = appointment.approvalChain?.currentStep ? undefined : created.approvalLink || undefined;
+        await this.notifyHostOfWalkIn(appointment, visitor, hostLink, createdBy, session);
+        if (appointment.status === 'pending') {
+            try {
+                await DelegationService.notifyStandInApprovers(appointment._id.toString(), createdBy, session);
+            } catch (error) {
+                console.error('Failed to notify stand-in approvers:', error);
+            }
+        }
+
+        return { appointment, visitor, visitorCreated };
+    }
+
     /**
      * Get appointment by ID
      */
@@ -181,6 +589,7 @@ export class AppointmentService {
         const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false })
             .populate('employeeId', 'name email department designation phone')
             .populate('visitorId', 'name email phone company purposeOfVisit photo visitorId designation address idProof')
+            .populate('attendees.visitorId', 'name email phone company photo visitorId designation idProof')
             .populate('createdBy', 'firstName lastName email')
             .populate('deletedBy', 'firstName lastName email');
 
@@ -198,6 +607,7 @@ export class AppointmentService {
         const appointment = await Appointment.findOne({ appointmentId, isDeleted: false })
             .populate('employeeId', 'name email department designation phone')
             .populate('visitorId', 'name email phone company purposeOfVisit photo visitorId designation address idProof')
+            .populate('attendees.visitorId', 'name email phone company photo visitorId designation idProof')
             .populate('createdBy', 'firstName lastName email')
             .populate('deletedBy', 'firstName lastName email');
 
@@ -221,6 +631,7 @@ export class AppointmentService {
             scheduledDate = '',
             startDate = '',
             endDate = '',
+            autoCheckedOut,
             sortBy = 'createdAt',
             sortOrder = 'desc'
         } = query;
@@ -279,6 +690,10 @@ export class AppointmentService {
             filter.status = status;
         }
 
+        if (autoCheckedOut !== undefined) {
+            filter.autoCheckedOut = String(autoCheckedOut) === 'true';
+        }
+
         if (scheduledDate) {
             const date = new Date(scheduledDate);
             const nextDay = new Date(date);
@@ -351,45 +766,94 @@ export class AppointmentService {
      * Update appointment
      */
     @Transaction('Failed to update appointment')
-    static async updateAppointment(appointmentId: string, updateData: IUpdateAppointmentDTO, options: { session?: any } = {}): Promise<IAppointmentResponse> {
+    static async updateAppointment(appointmentId: string, updateData: IUpdateAppointmentDTO, changedBy: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
         const { session } = options;
         
         const cleanUpdateData = { ...updateData };
         delete (cleanUpdateData as any).session;
+        delete cleanUpdateData.status;
+        delete cleanUpdateData.reasonCode;
+        delete cleanUpdateData.reason;
 
-        if (updateData.appointmentDetails?.scheduledDate || updateData.appointmentDetails?.scheduledTime) {
+        const details = updateData.appointmentDetails;
+        const timeChanged = Boolean(details?.scheduledDate || details?.scheduledTime || details?.duration);
+        if (timeChanged || details || updateData.employeeId || updateData.accompanyingCount !== undefined) {
             const appointment = await Appointment.findById(appointmentId).session(session);
             if (!appointment) {
                 throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
             }
 
-            const scheduledDate = updateData.appointmentDetails?.scheduledDate || appointment.appointmentDetails.scheduledDate;
-            const scheduledTime = updateData.appointmentDetails?.scheduledTime || appointment.appointmentDetails.scheduledTime;
-            const employeeId = updateData.employeeId || appointment.employeeId.toString();
-
-            const conflictAppointment = await Appointment.findOne({
-                _id: { $ne: appointmentId },
-                employeeId,
-                'appointmentDetails.scheduledDate': scheduledDate,
-                'appointmentDetails.scheduledTime': scheduledTime,
-                status: { $in: ['scheduled', 'checked_in', 'in_meeting'] },
-                isDeleted: false
-            }).session(session);
-
-            if (conflictAppointment) {
-                throw new AppError('Employee already has an appointment at this time', ERROR_CODES.CONFLICT);
+            const scheduledDate = details?.scheduledDate || appointment.appointmentDetails.scheduledDate;
+            const scheduledTime = details?.scheduledTime || appointment.appointmentDetails.scheduledTime;
+            const duration = details?.duration || appointment.appointmentDetails.duration;
+
+            if (details?.duration) {
+                await VisitorTypeService.assertAppointmentDuration(appointment, duration, session);
+            }
+
+            if (timeChanged || updateData.employeeId) {
+                await this.assertNoConflicts(
+                    updateData.employeeId || appointment.employeeId.toString(),
+                    scheduledDate,
+                    scheduledTime,
+                    duration,
+                    appointment.createdBy.toString(),
+                    { excludeAppointmentIds: [appointmentId], session }
+                );
+            }
+
+            if (timeChanged) {
+                await RescheduleService.recordDirectChange(
+                    appointment,
+                    { scheduledDate: new Date(scheduledDate), scheduledTime, duration },
+                    changedBy,
+                    session
+                );
+            }
+
+            // appointmentDetails is replaced as a whole, so the room comes from the update when one is given
+            const meetingRoomId = details ? details.meetingRoomId : appointment.appointmentDetails.meetingRoomId?.toString();
+            if (meetingRoomId) {
+                const room = await this.assertRoomAvailable(
+                    meetingRoomId,
+                    scheduledDate,
+                    scheduledTime,
+                    duration,
+                    this.countCompanions({
+                        accompanyingCount: updateData.accompanyingCount ?? appointment.accompanyingCount,
+                        attendees: appointment.attendees
+                    }),
+                    appointment.createdBy.toString(),
+                    { excludeAppointmentIds: [appointmentId], session }
+                );
+                if (cleanUpdateData.appointmentDetails) {
+                    cleanUpdateData.appointmentDetails = { ...cleanUpdateData.appointmentDetails, meetingRoom: room.name };
+                }
             }
         }
 
-        const appointment = await Appointment.findOneAndUpdate(
+        const updated = await Appointment.findOneAndUpdate(
             { _id: appointmentId, isDeleted: false },
             cleanUpdateData,
             { new: true, runValidators: true, session }
-        )
+        );
+        if (!updated) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        // A new status is applied after the other changes, so approval messages and invites carry them.
+        // Otherwise keep the calendar invites of visitor and host in step with the appointment.
+        if (updateData.status && updated.status !== updateData.status) {
+            await this.applyStatusChange(appointmentId, updateData.status, changedBy, updateData, session);
+        } else if (updated.status === 'approved' && (details || updateData.employeeId)) {
+            await CalendarService.sendInviteUpdate(appointmentId, 'REQUEST', session);
+        }
+
+        const appointment = await Appointment.findById(appointmentId)
             .populate('employeeId', 'name email department designation')
             .populate('createdBy', 'firstName lastName email')
-            .populate('deletedBy', 'firstName lastName email');
-
+            .populate('deletedBy', 'firstName lastName email')
+            .session(session);
         if (!appointment) {
             throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
         }
@@ -409,33 +873,64 @@ export class AppointmentService {
             throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
         }
 
-        await (appointment as any).softDelete(deletedBy);
+        // Saved in the transaction, before the calendar update writes the same document
+        appointment.isDeleted = true;
+        appointment.deletedAt = new Date();
+        appointment.set('deletedBy', deletedBy);
+        await appointment.save({ session });
+
+        if (appointment.status === 'approved') {
+            await CalendarService.sendInviteUpdate(appointmentId, 'CANCEL', session);
+        }
     }
 
     /**
-     * Check in appointment
+     * Check in appointment, with everyone of the group who has not checked in yet
      */
     @Transaction('Failed to check in appointment')
-    static async checkInAppointment(request: ICheckInRequest, options: { session?: any } = {}): Promise<IAppointmentResponse> {
-        const { session } = options;
-        const { appointmentId, badgeNumber, securityNotes } = request;
+    static async checkInAppointment(
+        request: ICheckInRequest,
+        changedBy: string,
+        options: { session?: any; skipWatchlist?: boolean } = {}
+    ): Promise<IAppointmentResponse> {
+        const { session, skipWatchlist = false } = options;
+        const { appointmentId, badgeNumber, securityNotes, watchlistOverrideReason } = request;
 
         const appointment = await Appointment.findOne({ appointmentId, isDeleted: false }).session(session);
         if (!appointment) {
             throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
         }
 
-        if (appointment.status !== 'pending') {
-            throw new AppError('Appointment is not in pending status', ERROR_CODES.BAD_REQUEST);
+        if (appointment.status !== 'approved') {
+            throw new AppError('Only approved appointments can be checked in', ERROR_CODES.BAD_REQUEST);
+        }
+
+        AttendeeService.ensureLead(appointment);
+        if (!skipWatchlist) {
+            await WatchlistService.screenVisitors(
+                appointment.createdBy.toString(),
+                appointment.attendees.filter(attendee => !attendee.checkInTime).map(attendee => attendee.visitorId.toString()),
+                'check_in',
+                changedBy,
+                {
+                    appointmentId: (appointment._id as any).toString(),
+                    vehicleNumber: appointment.appointmentDetails.vehicleNumber,
+                    overrideReason: watchlistOverrideReason,
+                    session
+                }
+            );
         }
 
-        appointment.status = 'approved';
+        appointment.transitionTo('checked_in', { userId: changedBy, source: 'dashboard' });
         appointment.checkInTime = new Date();
 
-        if (badgeNumber) {
-            appointment.securityDetails.badgeIssued = true;
-            appointment.securityDetails.badgeNumber = badgeNumber;
+        // Checks in the whole group; members arriving separately are checked in one by one instead.
+        // The badge number typed in is the lead's; the others get theirs from the sequence.
+        for (const attendee of appointment.attendees) {
+            attendee.checkInTime = attendee.checkInTime ?? appointment.checkInTime;
+            await BadgeService.issueOnCheckIn(appointment, attendee, attendee.isLead ? badgeNumber : undefined, session);
         }
+        appointment.markModified('attendees');
 
         if (securityNotes) {
             appointment.securityDetails.securityNotes = securityNotes;
@@ -447,10 +942,10 @@ export class AppointmentService {
     }
 
     /**
-     * Check out appointment
+     * Check out appointment, with everyone of the group still on site
      */
     @Transaction('Failed to check out appointment')
-    static async checkOutAppointment(request: ICheckOutRequest, options: { session?: any } = {}): Promise<IAppointmentResponse> {
+    static async checkOutAppointment(request: ICheckOutRequest, changedBy: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
         const { session } = options;
         const { appointmentId, notes } = request;
 
@@ -459,9 +954,21 @@ export class AppointmentService {
             throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
         }
 
-        appointment.status = 'completed';
+        if (appointment.status !== 'checked_in' && appointment.status !== 'in_meeting') {
+            throw new AppError('Only checked-in appointments can be checked out', ERROR_CODES.BAD_REQUEST);
+        }
+
+        appointment.transitionTo('completed', { userId: changedBy, source: 'dashboard' });
         appointment.checkOutTime = new Date();
 
+        // Everyone of the group still on site leaves with the appointment
+        for (const attendee of appointment.attendees) {
+            if (attendee.checkInTime && !attendee.checkOutTime) {
+                attendee.checkOutTime = appointment.checkOutTime;
+            }
+        }
+        appointment.markModified('attendees');
+
         if (appointment.checkInTime) {
             appointment.actualDuration = Math.floor(
                 (appointment.checkOutTime.getTime() - appointment.checkInTime.getTime()) / (1000 * 60)
@@ -477,6 +984,24 @@ export class AppointmentService {
         return appointment.toObject() as unknown as IAppointmentResponse;
     }
 
+    /**
+     * Mark a checked-in visitor as having started their meeting
+     */
+    @Transaction('Failed to start meeting')
+    static async startMeeting(appointmentId: string, changedBy: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
+        const { session } = options;
+
+        const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false }).session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        appointment.transitionTo('in_meeting', { userId: changedBy, source: 'dashboard' });
+        await appointment.save({ session });
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
     /**
      * Get appointment statistics (user-specific)
      */
@@ -488,18 +1013,26 @@ export class AppointmentService {
 
         const [
             totalAppointments,
+            pendingAppointments,
             scheduledAppointments,
+            rejectedAppointments,
             checkedInAppointments,
+            inMeetingAppointments,
             completedAppointments,
             cancelledAppointments,
             noShowAppointments,
             appointmentsByStatus,
             appointmentsByEmployee,
-            appointmentsByDate
+            appointmentsByDate,
+            appointmentsByReason,
+            overstays
         ] = await Promise.all([
             Appointment.countDocuments({ ...baseFilter, isDeleted: false }),
-            Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'scheduled' }),
+            Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'pending' }),
+            Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'approved' }),
+            Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'rejected' }),
             Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'checked_in' }),
+            Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'in_meeting' }),
             Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'completed' }),
             Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'cancelled' }),
             Appointment.countDocuments({ ...baseFilter, isDeleted: false, status: 'no_show' }),
@@ -532,16 +1065,45 @@ export class AppointmentService {
                 },
                 { $sort: { _id: -1 } },
                 { $limit: 30 }
-            ])
+            ]),
+            Appointment.aggregate([
+                { $match: { ...baseFilter, isDeleted: false, status: { $in: REASONED_STATUSES } } },
+                { $sort: { updatedAt: 1 } },
+                {
+                    $group: {
+                        _id: { status: '$status', code: { $ifNull: ['$statusReason.code', null] } },
+                        label: { $last: '$statusReason.label' }, // Most recent label, if the code was renamed
+                        count: { $sum: 1 }
+                    }
+                },
+                { $sort: { count: -1 } }
+            ]),
+            OverstayService.countOverstays(userId)
         ]);
 
+        const reasonBreakdown = Object.fromEntries(
+            REASONED_STATUSES.map(status => [status, [] as IAppointmentStats['reasonBreakdown'][ReasonedStatus]])
+        ) as IAppointmentStats['reasonBreakdown'];
+        for (const item of appointmentsByReason) {
+            reasonBreakdown[item._id.status as ReasonedStatus].push({
+                code: item._id.code,
+                label: item._id.code ? item.label || item._id.code : 'No reason given',
+                count: item.count
+            });
+        }
+
         return {
             totalAppointments,
+            pendingAppointments,
             scheduledAppointments,
+            rejectedAppointments,
             checkedInAppointments,
+            inMeetingAppointments,
             completedAppointments,
             cancelledAppointments,
             noShowAppointments,
+            overstayingAppointments: overstays.overstaying,
+            overstayedAppointments: overstays.overstayed,
             appointmentsByStatus: appointmentsByStatus.map(item => ({
                 status: item._id,
                 count: item.count
@@ -554,48 +1116,71 @@ export class AppointmentService {
             appointmentsByDate: appointmentsByDate.map(item => ({
                 date: item._id,
                 count: item.count
-            }))
+            })),
+            reasonBreakdown
         };
     }
 
     /**
-     * Get appointments calendar view
+     * Get appointments calendar view, grouped by scheduled day (user-specific)
      */
-    static async getAppointmentsCalendar(startDate: string, endDate: string): Promise<IAppointmentCalendarResponse[]> {
-        const appointments = await Appointment.find({
-            'appointmentDetails.scheduledDate': {
-                $gte: new Date(startDate),
-                $lte: new Date(endDate)
-            },
-            isDeleted: false
-        })
+    static async getAppointmentsCalendar(query: IAppointmentCalendarQuery, userId: string): Promise<IAppointmentCalendarResponse[]> {
+        const startDate = AppointmentTimeUtil.startOfDay(query.startDate);
+        const endExclusive = AppointmentTimeUtil.startOfDay(query.endDate);
+        endExclusive.setDate(endExclusive.getDate() + 1);
+
+        const rangeDays = Math.round((endExclusive.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
+        if (rangeDays < 1 || rangeDays > MAX_CALENDAR_RANGE_DAYS) {
+            throw new AppError(`Date range must be between 1 and ${MAX_CALENDAR_RANGE_DAYS} days`, ERROR_CODES.BAD_REQUEST);
+        }
+
+        const filter: any = {
+            createdBy: userId,
+            isDeleted: false,
+            'appointmentDetails.scheduledDate': { $gte: startDate, $lt: endExclusive }
+        };
+        if (query.employeeId) {
+            filter.employeeId = query.employeeId;
+        }
+        if (query.status) {
+            filter.status = query.status;
+        }
+
+        const appointments = await Appointment.find(filter)
             .populate('employeeId', 'name')
+            .populate('visitorId', 'name')
             .sort({ 'appointmentDetails.scheduledDate': 1, 'appointmentDetails.scheduledTime': 1 })
             .lean();
 
-        const appointmentsByDate = appointments.reduce((acc: any, appointment: any) => {
-            const date = appointment.appointmentDetails.scheduledDate.toISOString().split('T')[0];
+        const appointmentsByDate = new Map<string, IAppointmentCalendarResponse['appointments']>();
+        for (const appointment of appointments as any[]) {
+            const { scheduledDate, scheduledTime, duration, purpose, meetingRoom } = appointment.appointmentDetails;
+            const date = AppointmentTimeUtil.formatDate(new Date(scheduledDate));
+            const window = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
 
-            if (!acc[date]) {
-                acc[date] = [];
+            if (!appointmentsByDate.has(date)) {
+                appointmentsByDate.set(date, []);
             }
 
-            acc[date].push({
+            appointmentsByDate.get(date)!.push({
+                _id: appointment._id.toString(),
                 appointmentId: appointment.appointmentId,
-                visitorName: appointment.visitorDetails.name,
-                employeeName: appointment.employeeId.name,
-                scheduledTime: appointment.appointmentDetails.scheduledTime,
-                duration: appointment.appointmentDetails.duration,
+                visitorName: appointment.visitorId?.name || '',
+                employeeId: appointment.employeeId?._id?.toString() || '',
+                employeeName: appointment.employeeId?.name || '',
+                scheduledTime,
+                duration,
+                startsAt: window.start,
+                endsAt: window.end,
                 status: appointment.status,
-                purpose: appointment.appointmentDetails.purpose
+                purpose,
+                meetingRoom
             });
+        }
 
-            return acc;
-        }, {});
-
-        return Object.entries(appointmentsByDate).map(([date, appointments]) => ({
+        return Array.from(appointmentsByDate.entries()).map(([date, dayAppointments]) => ({
             date,
-            appointments: appointments as any[]
+            appointments: dayAppointments
         }));
     }
 
@@ -657,29 +1242,85 @@ export class AppointmentService {
      * Bulk update appointments
      */
     @Transaction('Failed to bulk update appointments')
-    static async bulkUpdateAppointments(bulkData: IBulkUpdateAppointmentsDTO, options: { session?: any } = {}): Promise<{ updatedCount: number }> {
+    static async bulkUpdateAppointments(
+        bulkData: IBulkUpdateAppointmentsDTO,
+        changedBy: string,
+        options: { session?: any } = {}
+    ): Promise<{ updatedCount: number; awaitingApprovalCount: number }> {
         const { session } = options;
-        const { appointmentIds, ...updateData } = bulkData;
+        const { appointmentIds, status, meetingRoomId, employeeId, reasonCode, reason } = bulkData;
 
-        const cleanUpdateData = Object.fromEntries(
-            Object.entries(updateData).filter(([_, value]) => value !== undefined && value !== '')
-        );
+        // Only the host is set as is; anything else in the body is ignored
+        const cleanUpdateData: { employeeId?: string } = employeeId ? { employeeId } : {};
 
-        if (Object.keys(cleanUpdateData).length === 0) {
+        if (Object.keys(cleanUpdateData).length === 0 && !status && !meetingRoomId) {
             throw new AppError('No update data provided', ERROR_CODES.BAD_REQUEST);
         }
 
-        const result = await Appointment.updateMany(
-            { _id: { $in: appointmentIds }, isDeleted: false },
-            cleanUpdateData,
-            { session }
-        );
-
-        if (result.matchedCount === 0) {
+        const appointments = await Appointment.find({ _id: { $in: appointmentIds }, isDeleted: false }).session(session);
+        if (appointments.length === 0) {
             throw new AppError('No appointments found', ERROR_CODES.NOT_FOUND);
         }
 
-        return { updatedCount: result.modifiedCount };
+        // Each appointment is changed individually so one invalid status change
+        // aborts the whole batch
+        let updatedCount = 0;
+        let awaitingApprovalCount = 0;
+        for (const appointment of appointments) {
+            const appointmentId = (appointment._id as any).toString();
+            let modified = false;
+            let rescheduled = false;
+            if (cleanUpdateData.employeeId && appointment.employeeId.toString() !== cleanUpdateData.employeeId) {
+                await this.assertNoConflicts(
+                    cleanUpdateData.employeeId as string,
+                    appointment.appointmentDetails.scheduledDate,
+                    appointment.appointmentDetails.scheduledTime,
+                    appointment.appointmentDetails.duration,
+                    appointment.createdBy.toString(),
+                    { excludeAppointmentIds: [(appointment._id as any).toString()], session }
+                );
+            }
+            if (meetingRoomId && appointment.appointmentDetails.meetingRoomId?.toString() !== meetingRoomId) {
+                const room = await this.assertRoomAvailable(
+                    meetingRoomId,
+                    appointment.appointmentDetails.scheduledDate,
+                    appointment.appointmentDetails.scheduledTime,
+                    appointment.appointmentDetails.duration,
+                    this.countCompanions(appointment),
+                    appointment.createdBy.toString(),
+                    { excludeAppointmentIds: [(appointment._id as any).toString()], session }
+                );
+                appointment.set('appointmentDetails.meetingRoomId', room._id);
+                appointment.set('appointmentDetails.meetingRoom', room.name);
+                modified = true;
+                rescheduled = true;
+            }
+            if (Object.keys(cleanUpdateData).length > 0) {
+                appointment.set(cleanUpdateData);
+                rescheduled = rescheduled || appointment.isModified('employeeId');
+                modified = modified || appointment.isModified();
+            }
+            if (modified) {
+                await appointment.save({ session });
+            }
+
+            if (status && appointment.status !== status) {
+                // Approving the host's step of an approval policy leaves the appointment pending
+                if (await this.applyStatusChange(appointmentId, status, changedBy, { reasonCode, reason }, session) === status) {
+                    modified = true;
+                } else {
+                    awaitingApprovalCount++;
+                }
+            } else if (appointment.status === 'approved' && rescheduled) {
+                await CalendarService.sendInviteUpdate(appointmentId, 'REQUEST', session);
+            }
+
+            if (modified) {
+                updatedCount++;
+            }
+        }
+
+        return { updatedCount, awaitingApprovalCount };
     }
 
     /**
@@ -699,26 +1340,66 @@ export class AppointmentService {
     }
 
     /**
-     * Cancel appointment
+     * Cancel appointment, optionally with a reason
      */
     @Transaction('Failed to cancel appointment')
-    static async cancelAppointment(appointmentId: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
-        const { session } = options;
+    static async cancelAppointment(
+        appointmentId: string,
+        changedBy: string,
+        options: { session?: any } & IStatusReasonDTO = {}
+    ): Promise<IAppointmentResponse> {
+        const { session, reasonCode, reason } = options;
 
         const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false }).session(session);
         if (!appointment) {
             throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
         }
 
-        if (appointment.status === 'completed') {
-            throw new AppError('Cannot cancel a completed appointment', ERROR_CODES.BAD_REQUEST);
+        if (appointment.status === 'cancelled') {
+            throw new AppError('Appointment is already cancelled', ERROR_CODES.BAD_REQUEST);
         }
 
-        if (appointment.status === 'rejected') {
-            throw new AppError('Appointment is already cancelled', ERROR_CODES.BAD_REQUEST);
+        appointment.transitionTo('cancelled', {
+            userId: changedBy,
+            source: 'dashboard',
+            reason: await SettingsService.resolveStatusReason(appointment.createdBy.toString(), 'cancelled', reasonCode),
+            note: reason || undefined
+        });
+        await appointment.save({ session });
+
+        await CalendarService.sendInviteUpdate(appointmentId, 'CANCEL', session);
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Mark an approved appointment the visitor did not come to as a no-show, optionally
+     * with a reason. The no-show job does this on its own once the grace period has passed.
+     */
+    @Transaction('Failed to mark appointment as no-show')
+    static async markNoShow(
+        appointmentId: string,
+        changedBy: string,
+        options: { session?: any } & IStatusReasonDTO = {}
+    ): Promise<IAppointmentResponse> {
+        const { session, reasonCode, reason } = options;
+
+        const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false }).session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        const { scheduledDate, scheduledTime } = appointment.appointmentDetails;
+        if (AppointmentTimeUtil.getStartTime(scheduledDate, scheduledTime) > new Date()) {
+            throw new AppError('An appointment cannot be marked as a no-show before it starts', ERROR_CODES.BAD_REQUEST);
         }
 
-        appointment.status = 'rejected';
+        appointment.transitionTo('no_show', {
+            userId: changedBy,
+            source: 'dashboard',
+            reason: await SettingsService.resolveStatusReason(appointment.createdBy.toString(), 'no_show', reasonCode),
+            note: reason || undefined
+        });
         await appointment.save({ session });
 
         return appointment.toObject() as unknown as IAppointmentResponse;
@@ -727,7 +1408,7 @@ export class AppointmentService {
     /**
      * Approve appointment
      */
-    static async approveAppointment(appointmentId: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
+    static async approveAppointment(appointmentId: string, changedBy: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
         const { session } = options;
 
         const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false })
@@ -743,9 +1424,40 @@ export class AppointmentService {
             throw new AppError('Only pending appointments can be approved', ERROR_CODES.BAD_REQUEST);
         }
 
-        appointment.status = 'approved';
+        // Decided from the dashboard for the host
+        const actor: IStatusChangeActor = {
+            userId: changedBy,
+            source: 'dashboard',
+            onBehalfOf: (appointment.employeeId as any)?._id?.toString()
+        };
+
+        // Under an approval policy the dashboard approves the host's step only; later steps are
+        // decided by their own approvers and the appointment stays pending until the last one approves
+        if (!ApprovalChainService.recordDecision(appointment, 'approved', actor, 0)) {
+            await appointment.save({ session });
+            await ApprovalChainService.notifyCurrentStep(appointmentId, session);
+            return appointment.toObject() as unknown as IAppointmentResponse;
+        }
+
+        appointment.transitionTo('approved', actor);
         await appointment.save({ session });
 
+        // Series approved as a whole: apply the decision to the other pending occurrences
+        await AppointmentSeriesService.applySeriesDecision(appointment, 'approved', actor, session);
+
+        await this.sendApprovalNotifications(appointment, session);
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Tell the visitor and the host an appointment is approved: the calendar invite, the lead's
+     * pass with the approval messages and the passes of the rest of the group.
+     * The appointment must have its host and visitor populated.
+     */
+    static async sendApprovalNotifications(appointment: IAppointment, session?: any): Promise<void> {
+        const appointmentId = (appointment._id as any).toString();
+
         // Get user ID who created the appointment (for settings check)
         const userId = (appointment.createdBy as any)?.toString() || appointment.createdBy;
 
@@ -754,15 +1466,38 @@ export class AppointmentService {
         const whatsappEnabled = userId ? await SettingsService.isWhatsAppEnabled(userId) : true;
         const smsEnabled = userId ? await SettingsService.isSmsEnabled(userId) : false;
 
-        // Send email notification to visitor (if enabled)
+        // Calendar invite attached to both approval emails; later changes are sent as updates
+        let invite: IEmailAttachment | undefined;
+        if (emailEnabled) {
+            try {
+                invite = await CalendarService.buildInviteAttachment(appointment, 'REQUEST');
+                appointment.notifications.calendarInviteSent = true;
+                await appointment.save({ session });
+            } catch (error) {
+                console.error('Failed to build calendar invite:', error);
+            }
+        }
+
+        // The lead's QR pass goes out with their approval messages
+        const pass = VisitorPassService.issuePass(appointment, (appointment.visitorId as any)._id.toString());
+
+        // Send email notification to visitor (if enabled), with their link for proposing a new time
         try {
             if (emailEnabled) {
+                const visitorLink = await RescheduleService.getVisitorLink(appointmentId, session);
+                const attachments = [await VisitorPassService.buildAttachment(pass)];
+                if (invite) {
+                    attachments.push(invite);
+                }
                 await EmailService.sendAppointmentApprovalEmail(
                     (appointment.visitorId as any).email,
                     (appointment.visitorId as any).name,
                     (appointment.employeeId as any).name,
                     appointment.appointmentDetails.scheduledDate,
-                    appointment.appointmentDetails.scheduledTime
+                    appointment.appointmentDetails.scheduledTime,
+                    attachments,
+                    visitorLink,
+                    pass.url
                 );
             }
         } catch (error) {
@@ -780,7 +1515,9 @@ export class AppointmentService {
                         (appointment.employeeId as any).name,
                         appointment.appointmentDetails.scheduledDate,
                         appointment.appointmentDetails.scheduledTime,
-                        'approved'
+                        'approved',
+                        undefined,
+                        pass.url
                     );
                 }
             }
@@ -788,6 +1525,13 @@ export class AppointmentService {
             console.error('Failed to send approval WhatsApp to visitor:', error);
         }
 
+        // The rest of the group get their own passes
+        try {
+            await VisitorPassService.deliverPasses(appointmentId, { includeLead: false, session });
+        } catch (error) {
+            console.error('Failed to send visitor passes to the group:', error);
+        }
+
         // SMS notifications (if SMS service is implemented and enabled)
         if (smsEnabled) {
             // TODO: Implement SMS service when available
@@ -801,20 +1545,23 @@ export class AppointmentService {
                 (appointment.employeeId as any).name,
                 (appointment.visitorId as any).name,
                 appointment.appointmentDetails.scheduledDate,
-                appointment.appointmentDetails.scheduledTime
+                appointment.appointmentDetails.scheduledTime,
+                invite && [invite]
             );
         } catch (error) {
             console.error('Failed to send approval email to employee:', error);
         }
-
-        return appointment.toObject() as unknown as IAppointmentResponse;
     }
 
     /**
      * Reject appointment
      */
-    static async rejectAppointment(appointmentId: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
-        const { session } = options;
+    static async rejectAppointment(
+        appointmentId: string,
+        changedBy: string,
+        options: { session?: any } & IStatusReasonDTO = {}
+    ): Promise<IAppointmentResponse> {
+        const { session, reasonCode, reason } = options;
 
         const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false })
             .populate('employeeId', 'name email')
@@ -829,9 +1576,31 @@ export class AppointmentService {
             throw new AppError('Only pending appointments can be rejected', ERROR_CODES.BAD_REQUEST);
         }
 
-        appointment.status = 'rejected';
+        // Decided from the dashboard for the host; under an approval policy this rejects the current step
+        const actor: IStatusChangeActor = {
+            userId: changedBy,
+            source: 'dashboard',
+            onBehalfOf: (appointment.employeeId as any)?._id?.toString(),
+            reason: await SettingsService.resolveStatusReason(appointment.createdBy.toString(), 'rejected', reasonCode),
+            note: reason || undefined
+        };
+        ApprovalChainService.recordDecision(appointment, 'rejected', actor);
+        appointment.transitionTo('rejected', actor);
         await appointment.save({ session });
 
+        // Series approved as a whole: apply the decision to the other pending occurrences
+        await AppointmentSeriesService.applySeriesDecision(appointment, 'rejected', actor, session);
+
+        await this.sendRejectionNotifications(appointment);
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Tell the visitor and the host an appointment is rejected, with the reason if one was given.
+     * The appointment must have its host and visitor populated.
+     */
+    static async sendRejectionNotifications(appointment: IAppointment): Promise<void> {
         // Get user ID who created the appointment (for settings check)
         const userId = (appointment.createdBy as any)?.toString() || appointment.createdBy;
 
@@ -840,6 +1609,8 @@ export class AppointmentService {
         const whatsappEnabled = userId ? await SettingsService.isWhatsAppEnabled(userId) : true;
         const smsEnabled = userId ? await SettingsService.isSmsEnabled(userId) : false;
 
+        const reasonText = this.describeStatusReason(appointment.statusReason);
+
         // Send email notification to visitor (if enabled)
         try {
             if (emailEnabled) {
@@ -848,7 +1619,8 @@ export class AppointmentService {
                     (appointment.visitorId as any).name,
                     (appointment.employeeId as any).name,
                     appointment.appointmentDetails.scheduledDate,
-                    appointment.appointmentDetails.scheduledTime
+                    appointment.appointmentDetails.scheduledTime,
+                    reasonText
                 );
             }
         } catch (error) {
@@ -866,7 +1638,8 @@ export class AppointmentService {
                         (appointment.employeeId as any).name,
                         appointment.appointmentDetails.scheduledDate,
                         appointment.appointmentDetails.scheduledTime,
-                        'rejected'
+                        'rejected',
+                        reasonText
                     );
                 }
             }
@@ -887,12 +1660,125 @@ export class AppointmentService {
                 (appointment.employeeId as any).name,
                 (appointment.visitorId as any).name,
                 appointment.appointmentDetails.scheduledDate,
-                appointment.appointmentDetails.scheduledTime
+                appointment.appointmentDetails.scheduledTime,
+                reasonText
             );
         } catch (error) {
             console.error('Failed to send rejection email to employee:', error);
         }
+    }
 
-        return appointment.toObject() as unknown as IAppointmentResponse;
+    /**
+     * Apply a status set by an edit or bulk update through the status's own action, so an
+     * approval goes through the approval chain and sends what an approval sends, and
+     * rejections, cancellations and no-shows take a reason from the company's list.
+     * Returns the status the appointment ends up in.
+     */
+    private static async applyStatusChange(
+        appointmentId: string,
+        status: AppointmentStatus,
+        changedBy: string,
+        reasonData: IStatusReasonDTO,
+        session?: any
+    ): Promise<AppointmentStatus> {
+        const { reasonCode, reason } = reasonData;
+        switch (status) {
+            case 'approved':
+                return (await this.approveAppointment(appointmentId, changedBy, { session })).status;
+            case 'rejected':
+                return (await this.rejectAppointment(appointmentId, changedBy, { session, reasonCode, reason })).status;
+            case 'cancelled':
+                return (await this.cancelAppointment(appointmentId, changedBy, { session, reasonCode, reason })).status;
+            case 'no_show':
+                return (await this.markNoShow(appointmentId, changedBy, { session, reasonCode, reason })).status;
+            default:
+                throw new AppError(
+                    `Status cannot be changed to ${status} here. Use check-in and check-out instead.`,
+                    ERROR_CODES.BAD_REQUEST
+                );
+        }
+    }
+
+    /**
+     * Reason as shown in notifications: the reason's label, the comment, or both
+     */
+    private static describeStatusReason(reason?: IStatusReason | null): string | undefined {
+        const parts = [reason?.label, reason?.comment].filter(Boolean);
+        return parts.length > 0 ? parts.join(' - ') : undefined;
+    }
+
+    /**
+     * Match a walk-in to a known visitor by phone or email, or register a new one
+     */
+    private static async findOrCreateWalkInVisitor(
+        visitorData: IWalkInAppointmentDTO['visitor'],
+        createdBy: string,
+        session?: any
+    ): Promise<{ visitor: IVisitorResponse; created: boolean }> {
+        const matchers: any[] = [{ phone: visitorData.phone }];
+        if (visitorData.email) {
+            matchers.push({ email: visitorData.email });
+        }
+
+        const existing = await Visitor.findOne({ createdBy, isDeleted: false, $or: matchers })
+            .sort({ createdAt: -1 })
+            .session(session);
+        if (existing) {
+            return { visitor: existing.toObject() as unknown as IVisitorResponse, created: false };
+        }
+
+        // What else a new visitor must give comes from the visitor type
+        if (!visitorData.email) {
+            throw new AppError(
+                'No visitor found with this phone or email. An email is required to register a new visitor.',
+                ERROR_CODES.BAD_REQUEST
+            );
+        }
+
+        // Screened against the watchlist with the walk-in's appointment
+        const visitor = await VisitorService.createVisitor(visitorData as ICreateVisitorDTO, createdBy, { session, skipWatchlist: true });
+        return { visitor, created: true };
+    }
+
+    private static async notifyHostOfWalkIn(
+        appointment: IAppointmentResponse,
+        visitor: IVisitorResponse,
+        approvalLink: string | undefined,
+        createdBy: string,
+        session?: any
+    ): Promise<void> {
+        const employee = await Employee.findById(appointment.employeeId).select('name email phone').session(session);
+        if (!employee) {
+            return;
+        }
+
+        const checkedIn = appointment.status === 'checked_in';
+        const { purpose } = appointment.appointmentDetails;
+        const notifications: Record<string, boolean> = {};
+
+        if (employee.email && await SettingsService.isEmailEnabled(createdBy)) {
+            notifications['notifications.emailSent'] = await EmailService.sendVisitorArrivalEmail(
+                employee.email,
+                employee.name,
+                visitor.name,
+                purpose,
+                checkedIn,
+                approvalLink
+            );
+        }
+        if (employee.phone && await SettingsService.isWhatsAppEnabled(createdBy)) {
+            notifications['notifications.whatsappSent'] = await WhatsAppService.sendVisitorArrival(
+                employee.phone,
+                employee.name,
+                visitor.name,
+                purpose,
+                checkedIn,
+                approvalLink
+            );
+        }
+
+        if (Object.keys(notifications).length > 0) {
+            await Appointment.updateOne({ _id: appointment._id }, { $set: notifications }, { session });
+        }
     }
 }
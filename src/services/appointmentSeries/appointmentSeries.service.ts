@@ -0,0 +1,562 @@
+import { Appointment, IAppointment } from '../../models/appointment/appointment.model';
+import { AppointmentSeries, IAppointmentSeries } from '../../models/appointmentSeries/appointmentSeries.model';
+import { Employee } from '../../models/employee/employee.model';
+import { AppointmentService } from '../appointment/appointment.service';
+import { ApprovalChainService } from '../approvalChain/approvalChain.service';
+import { SettingsService } from '../settings/settings.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { ReminderService } from '../reminder/reminder.service';
+import { VisitorTypeService } from '../visitorType/visitorType.service';
+import { IAppointmentConflict, IAppointmentResponse, IStatusChangeActor } from '../../types/appointment/appointment.types';
+import {
+    ICreateAppointmentSeriesDTO,
+    IUpdateSeriesOccurrenceDTO,
+    IAppointmentSeriesResponse,
+    IGetAppointmentSeriesQuery,
+    IAppointmentSeriesListResponse,
+    ISeriesOccurrenceResult,
+    SeriesEditScope
+} from '../../types/appointmentSeries/appointmentSeries.types';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../utils/constants';
+import { RecurrenceUtil } from '../../utils/recurrence.util';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+// Occurrences that have not started yet and can still be edited through the series
+const EDITABLE_OCCURRENCE_STATUSES = ['pending', 'approved'];
+
+// Template fields that can be changed across several occurrences at once
+const SERIES_DETAIL_FIELDS = ['purpose', 'scheduledTime', 'duration', 'meetingRoomId', 'meetingRoom', 'notes'] as const;
+
+export class AppointmentSeriesService {
+    /**
+     * Create a recurring series and one appointment per occurrence.
+     * All occurrences are checked for conflicts before anything is saved.
+     */
+    @Transaction('Failed to create appointment series')
+    static async createSeries(
+        seriesData: ICreateAppointmentSeriesDTO,
+        createdBy: string,
+        options: { session?: any; overrideAvailability?: boolean } = {}
+    ): Promise<IAppointmentSeriesResponse> {
+        const { session, overrideAvailability = false } = options;
+        const { employeeId, visitorId, accompanyingCount, recurrence, exceptions = [] } = seriesData;
+        const appointmentDetails = { ...seriesData.appointmentDetails };
+
+        const occurrenceDates = RecurrenceUtil.expand(recurrence, exceptions);
+        if (occurrenceDates.length === 0) {
+            throw new AppError('Recurrence rule does not produce any occurrences', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const employee = await Employee.findOne({ _id: employeeId, isDeleted: false }).session(session);
+        if (!employee) {
+            throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+
+        if (!overrideAvailability) {
+            const unavailable: Array<{ occurrenceDate: Date; reason: string; message: string }> = [];
+            for (const occurrenceDate of occurrenceDates) {
+                const result = await AvailabilityService.checkAvailability(
+                    employee,
+                    occurrenceDate,
+                    appointmentDetails.scheduledTime,
+                    appointmentDetails.duration,
+                    createdBy,
+                    session
+                );
+                if (result) {
+                    unavailable.push({ occurrenceDate, ...result });
+                }
+            }
+
+            if (unavailable.length > 0) {
+                throw new AppError(
+                    `${unavailable.length} of ${occurrenceDates.length} occurrences fall outside the employee's availability`,
+                    ERROR_CODES.BAD_REQUEST,
+                    { unavailable }
+                );
+            }
+        }
+
+        if (appointmentDetails.meetingRoomId) {
+            const room = await AppointmentService.findBookableRoom(appointmentDetails.meetingRoomId, accompanyingCount, createdBy, session);
+            appointmentDetails.meetingRoom = room.name;
+        }
+
+        const bufferMinutes = await SettingsService.getBufferMinutes(createdBy);
+        const conflicts: Array<{ occurrenceDate: Date; conflicts: IAppointmentConflict[] }> = [];
+        for (const occurrenceDate of occurrenceDates) {
+            const clashes = await AppointmentService.findConflictingAppointments(
+                employeeId,
+                occurrenceDate,
+                appointmentDetails.scheduledTime,
+                appointmentDetails.duration,
+                { bufferMinutes, session }
+            );
+            if (appointmentDetails.meetingRoomId) {
+                clashes.push(...await AppointmentService.findConflictingRoomBookings(
+                    appointmentDetails.meetingRoomId,
+                    occurrenceDate,
+                    appointmentDetails.scheduledTime,
+                    appointmentDetails.duration,
+                    { bufferMinutes, session }
+                ));
+            }
+            if (clashes.length > 0) {
+                conflicts.push({ occurrenceDate, conflicts: clashes });
+            }
+        }
+
+        if (conflicts.length > 0) {
+            throw new AppError(
+                `${conflicts.length} of ${occurrenceDates.length} occurrences clash with existing appointments`,
+                ERROR_CODES.CONFLICT,
+                { conflicts }
+            );
+        }
+
+        const approvalMode = seriesData.approvalMode || await SettingsService.getSeriesApprovalMode(createdBy);
+
+        const series = new AppointmentSeries({
+            employeeId,
+            visitorId,
+            accompanyingCount,
+            appointmentDetails,
+            recurrence,
+            exceptions,
+            approvalMode,
+            createdBy
+        });
+        await series.save({ session });
+
+        const seriesObjectId = (series._id as any).toString();
+        const occurrences: IAppointmentResponse[] = [];
+        for (const [index, occurrenceDate] of occurrenceDates.entries()) {
+            // A series approved as a whole only asks the host once, on the first occurrence
+            const notify = approvalMode === 'occurrence' || index === 0;
+
+            const occurrence = await AppointmentService.createAppointment(
+                {
+                    employeeId,
+                    visitorId,
+                    accompanyingCount,
+                    appointmentDetails: { ...appointmentDetails, scheduledDate: occurrenceDate },
+                    seriesId: seriesObjectId,
+                    occurrenceDate
+                },
+                createdBy,
+                // The visitor is screened against the watchlist once, with the first occurrence
+                { session, notify, overrideAvailability, skipWatchlist: index > 0 }
+            );
+            occurrences.push(occurrence);
+        }
+
+        return {
+            ...(series.toObject() as unknown as IAppointmentSeriesResponse),
+            occurrences
+        };
+    }
+
+    /**
+     * Get all series with pagination and filtering (user-specific)
+     */
+    static async getAllSeries(query: IGetAppointmentSeriesQuery = {}, userId?: string): Promise<IAppointmentSeriesListResponse> {
+        const { page = 1, limit = 10, employeeId = '', visitorId = '', status = '' } = query;
+
+        const filter: any = { isDeleted: false };
+
+        if (userId) {
+            filter.createdBy = userId;
+        }
+
+        if (employeeId) {
+            filter.employeeId = employeeId;
+        }
+
+        if (visitorId) {
+            filter.visitorId = visitorId;
+        }
+
+        if (status) {
+            filter.status = status;
+        }
+
+        const skip = (page - 1) * limit;
+
+        const [series, totalSeries] = await Promise.all([
+            AppointmentSeries.find(filter)
+                .populate('employeeId', 'name email department designation phone')
+                .populate('visitorId', 'name email phone company photo visitorId')
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit),
+            AppointmentSeries.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalSeries / limit);
+
+        return {
+            series: series.map(item => item.toObject() as unknown as IAppointmentSeriesResponse),
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalSeries,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    /**
+     * Get a series with its occurrences
+     */
+    static async getSeriesById(seriesId: string, userId: string): Promise<IAppointmentSeriesResponse> {
+        const series = await AppointmentSeries.findOne({ _id: seriesId, createdBy: userId, isDeleted: false })
+            .populate('employeeId', 'name email department designation phone')
+            .populate('visitorId', 'name email phone company photo visitorId');
+
+        if (!series) {
+            throw new AppError('Appointment series not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        const occurrences = await Appointment.find({ seriesId: series._id, isDeleted: false })
+            .sort({ occurrenceDate: 1 })
+            .lean();
+
+        return {
+            ...(series.toObject() as unknown as IAppointmentSeriesResponse),
+            occurrences: occurrences as unknown as IAppointmentResponse[]
+        };
+    }
+
+    /**
+     * Edit one occurrence, this and following occurrences, or the whole series
+     */
+    @Transaction('Failed to update appointment series')
+    static async updateOccurrences(
+        seriesId: string,
+        appointmentId: string,
+        updateData: IUpdateSeriesOccurrenceDTO,
+        changedBy: string,
+        options: { session?: any } = {}
+    ): Promise<ISeriesOccurrenceResult> {
+        const { session } = options;
+        const { scope, employeeId, scheduledDate } = updateData;
+        const detailChanges = SERIES_DETAIL_FIELDS
+            .filter(field => updateData[field] !== undefined)
+            .map(field => [field, updateData[field]] as const);
+
+        if (scheduledDate && scope !== 'this') {
+            throw new AppError('Only a single occurrence can be moved to another date', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const { series, target } = await this.findSeriesOccurrence(seriesId, appointmentId, changedBy, session);
+
+        if (!EDITABLE_OCCURRENCE_STATUSES.includes(target.status)) {
+            throw new AppError('Only pending or approved occurrences can be edited', ERROR_CODES.BAD_REQUEST);
+        }
+
+        if (employeeId) {
+            const employee = await Employee.findOne({ _id: employeeId, isDeleted: false }).session(session);
+            if (!employee) {
+                throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+            }
+            if (employee.status === 'Inactive') {
+                throw new AppError('Employee is inactive. Please select an active employee.', ERROR_CODES.BAD_REQUEST);
+            }
+        }
+
+        const occurrences = (await this.findScopedOccurrences(series, target, scope, session))
+            .filter(occurrence => EDITABLE_OCCURRENCE_STATUSES.includes(occurrence.status));
+        const excludeAppointmentIds = occurrences.map(occurrence => (occurrence._id as any).toString());
+        const timeChanged = Boolean(employeeId || scheduledDate || updateData.scheduledTime || updateData.duration);
+
+        for (const occurrence of occurrences) {
+            if (employeeId) {
+                occurrence.set('employeeId', employeeId);
+            }
+            if (scheduledDate) {
+                occurrence.set('appointmentDetails.scheduledDate', scheduledDate);
+            }
+            for (const [field, value] of detailChanges) {
+                occurrence.set(`appointmentDetails.${field}`, value);
+            }
+            if (scheduledDate || updateData.scheduledTime || updateData.duration) {
+                ReminderService.resetReminders(occurrence);
+            }
+            if (updateData.duration) {
+                await VisitorTypeService.assertAppointmentDuration(occurrence, updateData.duration, session);
+            }
+            if (scope === 'this') {
+                occurrence.isSeriesException = true;
+            }
+
+            if (timeChanged) {
+                // The edited occurrences move together, so they are not checked against each other
+                await AppointmentService.assertNoConflicts(
+                    occurrence.employeeId.toString(),
+                    occurrence.appointmentDetails.scheduledDate,
+                    occurrence.appointmentDetails.scheduledTime,
+                    occurrence.appointmentDetails.duration,
+                    occurrence.createdBy.toString(),
+                    { excludeAppointmentIds, session }
+                );
+            }
+
+            const meetingRoomId = occurrence.appointmentDetails.meetingRoomId?.toString();
+            if (meetingRoomId && (timeChanged || updateData.meetingRoomId)) {
+                const room = await AppointmentService.assertRoomAvailable(
+                    meetingRoomId,
+                    occurrence.appointmentDetails.scheduledDate,
+                    occurrence.appointmentDetails.scheduledTime,
+                    occurrence.appointmentDetails.duration,
+                    AppointmentService.countCompanions(occurrence),
+                    occurrence.createdBy.toString(),
+                    { excludeAppointmentIds, session }
+                );
+                occurrence.set('appointmentDetails.meetingRoom', room.name);
+            }
+
+            await occurrence.save({ session });
+
+            if (occurrence.status === 'approved') {
+                await CalendarService.sendInviteUpdate((occurrence._id as any).toString(), 'REQUEST', session);
+            }
+        }
+
+        let updatedSeries = series;
+        if (scope !== 'this') {
+            // "This and following" from the first occurrence is the same as editing the whole series
+            updatedSeries = scope === 'following' && !(await this.isFirstOccurrence(series, target, session))
+                ? await this.splitSeries(series, target, session)
+                : series;
+
+            if (employeeId) {
+                updatedSeries.set('employeeId', employeeId);
+            }
+            for (const [field, value] of detailChanges) {
+                updatedSeries.set(`appointmentDetails.${field}`, value);
+            }
+            if (updateData.meetingRoomId && occurrences.length > 0) {
+                updatedSeries.set('appointmentDetails.meetingRoom', occurrences[0].appointmentDetails.meetingRoom);
+            }
+            await updatedSeries.save({ session });
+        }
+
+        return {
+            series: updatedSeries.toObject() as unknown as IAppointmentSeriesResponse,
+            updatedCount: occurrences.length
+        };
+    }
+
+    /**
+     * Cancel one occurrence, this and following occurrences, or the whole series
+     */
+    @Transaction('Failed to cancel appointment series')
+    static async cancelOccurrences(
+        seriesId: string,
+        appointmentId: string,
+        scope: SeriesEditScope,
+        changedBy: string,
+        options: { session?: any } = {}
+    ): Promise<ISeriesOccurrenceResult> {
+        const { session } = options;
+
+        const { series, target } = await this.findSeriesOccurrence(seriesId, appointmentId, changedBy, session);
+
+        let occurrences: IAppointment[];
+        if (scope === 'this') {
+            // A single occurrence must be cancellable, so let the transition table reject it otherwise
+            occurrences = [target];
+        } else {
+            occurrences = (await this.findScopedOccurrences(series, target, scope, session))
+                .filter(occurrence => occurrence.canTransitionTo('cancelled'));
+        }
+
+        for (const occurrence of occurrences) {
+            occurrence.transitionTo('cancelled', {
+                userId: changedBy,
+                source: 'dashboard',
+                note: scope === 'this' ? undefined : `Cancelled with series ${series.seriesId}`
+            });
+            await occurrence.save({ session });
+            await CalendarService.sendInviteUpdate((occurrence._id as any).toString(), 'CANCEL', session);
+        }
+
+        if (scope === 'this') {
+            if (target.occurrenceDate) {
+                series.exceptions.push(target.occurrenceDate);
+            }
+        } else if (scope === 'following' && !(await this.isFirstOccurrence(series, target, session))) {
+            this.endSeriesBefore(series, target.occurrenceDate as Date);
+        } else {
+            series.status = 'cancelled';
+        }
+        await series.save({ session });
+
+        return {
+            series: series.toObject() as unknown as IAppointmentSeriesResponse,
+            updatedCount: occurrences.length
+        };
+    }
+
+    /**
+     * When a series is approved as a whole, apply an approval or rejection of one
+     * occurrence to the other occurrences that are still pending. Each occurrence goes
+     * through its own approval chain: under an approval policy an approval settles the
+     * step it is waiting on and the next step's approvers are asked. Settled occurrences
+     * get the same invites, passes and messages as a decision made on them.
+     */
+    static async applySeriesDecision(
+        appointment: IAppointment,
+        status: 'approved' | 'rejected',
+        actor: IStatusChangeActor,
+        session?: any
+    ): Promise<number> {
+        if (!appointment.seriesId) {
+            return 0;
+        }
+
+        const series = await AppointmentSeries.findById(appointment.seriesId).session(session);
+        if (!series || series.approvalMode !== 'series') {
+            return 0;
+        }
+
+        const pendingOccurrences = await Appointment.find({
+            seriesId: series._id,
+            _id: { $ne: appointment._id },
+            status: 'pending',
+            isDeleted: false
+        })
+            .populate('employeeId', 'name email')
+            .populate('visitorId', 'name email phone photo visitorId')
+            .session(session);
+
+        // A rejection keeps its reason and comment
+        const occurrenceActor: IStatusChangeActor = { ...actor, note: actor.note || `Applied from series ${series.seriesId}` };
+
+        for (const occurrence of pendingOccurrences) {
+            const occurrenceId = (occurrence._id as any).toString();
+
+            if (!ApprovalChainService.recordDecision(occurrence, status, occurrenceActor)) {
+                await occurrence.save({ session });
+                await ApprovalChainService.notifyCurrentStep(occurrenceId, session);
+                continue;
+            }
+
+            occurrence.transitionTo(status, occurrenceActor);
+            await occurrence.save({ session });
+
+            if (status === 'approved') {
+                await AppointmentService.sendApprovalNotifications(occurrence, session);
+            } else {
+                await AppointmentService.sendRejectionNotifications(occurrence);
+            }
+        }
+
+        return pendingOccurrences.length;
+    }
+
+    /**
+     * Load a series owned by the user together with one of its occurrences
+     */
+    private static async findSeriesOccurrence(
+        seriesId: string,
+        appointmentId: string,
+        userId: string,
+        session?: any
+    ): Promise<{ series: IAppointmentSeries; target: IAppointment }> {
+        const series = await AppointmentSeries.findOne({ _id: seriesId, createdBy: userId, isDeleted: false }).session(session);
+        if (!series) {
+            throw new AppError('Appointment series not found', ERROR_CODES.NOT_FOUND);
+        }
+        if (series.status === 'cancelled') {
+            throw new AppError('Appointment series is cancelled', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const target = await Appointment.findOne({ _id: appointmentId, seriesId: series._id, isDeleted: false }).session(session);
+        if (!target) {
+            throw new AppError('Appointment is not part of this series', ERROR_CODES.NOT_FOUND);
+        }
+
+        return { series, target };
+    }
+
+    private static async findScopedOccurrences(
+        series: IAppointmentSeries,
+        target: IAppointment,
+        scope: SeriesEditScope,
+        session?: any
+    ): Promise<IAppointment[]> {
+        const filter: any = { seriesId: series._id, isDeleted: false };
+
+        if (scope === 'this') {
+            filter._id = target._id;
+        } else if (scope === 'following') {
+            filter.occurrenceDate = { $gte: target.occurrenceDate };
+        }
+
+        return Appointment.find(filter).sort({ occurrenceDate: 1 }).session(session);
+    }
+
+    private static async isFirstOccurrence(series: IAppointmentSeries, target: IAppointment, session?: any): Promise<boolean> {
+        const earlier = await Appointment.countDocuments({
+            seriesId: series._id,
+            occurrenceDate: { $lt: target.occurrenceDate },
+            isDeleted: false
+        }).session(session);
+        return earlier === 0;
+    }
+
+    /**
+     * Stop the recurrence the day before the given occurrence, keeping COUNT in line with the shorter rule
+     */
+    private static endSeriesBefore(series: IAppointmentSeries, occurrenceDate: Date): void {
+        const cutoff = AppointmentTimeUtil.startOfDay(occurrenceDate);
+        const earlierCount = RecurrenceUtil.expand(series.recurrence).filter(date => date < cutoff).length;
+
+        const endDate = new Date(cutoff);
+        endDate.setDate(endDate.getDate() - 1);
+
+        series.set('recurrence.endDate', endDate);
+        if (series.recurrence.count) {
+            series.set('recurrence.count', earlierCount);
+        }
+        series.exceptions = series.exceptions.filter(date => date < cutoff);
+    }
+
+    /**
+     * Split a series at the given occurrence: the original series ends before it and a new
+     * series, linked through parentSeriesId, takes over this and the following occurrences
+     */
+    private static async splitSeries(series: IAppointmentSeries, target: IAppointment, session?: any): Promise<IAppointmentSeries> {
+        const cutoff = AppointmentTimeUtil.startOfDay(target.occurrenceDate as Date);
+        const earlierCount = RecurrenceUtil.expand(series.recurrence).filter(date => date < cutoff).length;
+        const { _id, seriesId, createdAt, updatedAt, ...seriesFields } = series.toObject({ virtuals: false });
+
+        const followingSeries = new AppointmentSeries({
+            ...seriesFields,
+            recurrence: {
+                ...seriesFields.recurrence,
+                startDate: cutoff,
+                count: series.recurrence.count ? series.recurrence.count - earlierCount : null
+            },
+            exceptions: series.exceptions.filter(date => date >= cutoff),
+            parentSeriesId: _id
+        });
+        await followingSeries.save({ session });
+
+        await Appointment.updateMany(
+            { seriesId: series._id, occurrenceDate: { $gte: cutoff } },
+            { $set: { seriesId: followingSeries._id } },
+            { session }
+        );
+
+        this.endSeriesBefore(series, cutoff);
+        await series.save({ session });
+
+        return followingSeries;
+    }
+}
@@ -0,0 +1,211 @@
+import mongoose from 'mongoose';
+import { Appointment, IAppointment, IApprovalChainRecord } from '../../models/appointment/appointment.model';
+import { ApprovalLink } from '../../models/approvalLink/approvalLink.model';
+import { Employee, IEmployee } from '../../models/employee/employee.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { ApprovalLinkService } from '../approvalLink/approvalLink.service';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { IStatusChangeActor } from '../../types/appointment/appointment.types';
+import { IApprovalPolicy } from '../../types/settings/settings.types';
+import { ERROR_CODES } from '../../utils/constants';
+import { AppError } from '../../middlewares/errorHandler';
+
+const HOST_STEP_NAME = 'Host';
+
+/**
+ * Multi-step approvals: appointments that match one of the company's approval policies
+ * need the host's approval followed by each of the policy's steps, in order.
+ */
+export class ApprovalChainService {
+    /**
+     * Approval chain for a new appointment from the first active policy that matches it,
+     * or null when the host's approval is enough. A policy named by the visitor's type
+     * applies whatever its conditions; while it is inactive the usual matching applies.
+     */
+    static async buildChain(
+        companyId: string,
+        host: IEmployee,
+        visitorId: string,
+        meetingRoomId?: string,
+        policyName?: string | null,
+        session?: any
+    ): Promise<IApprovalChainRecord | null> {
+        const { policies } = await SettingsService.getApprovalSettings(companyId);
+        const activePolicies = policies.filter(policy => policy.isActive && policy.steps.length > 0);
+        if (activePolicies.length === 0) {
+            return null;
+        }
+
+        const namedPolicy = policyName && activePolicies.find(policy => policy.name.toLowerCase() === policyName.toLowerCase());
+        if (namedPolicy) {
+            return this.toChain(namedPolicy, host);
+        }
+
+        // The visitor's country is only needed when a policy looks at it
+        let visitorCountry: string | undefined;
+        if (activePolicies.some(policy => policy.conditions?.visitorsOutsideCountry)) {
+            const visitor = await Visitor.findById(visitorId).select('address.country').session(session).lean();
+            visitorCountry = visitor?.address?.country;
+        }
+
+        const policy = activePolicies.find(candidate => this.matches(candidate, host, meetingRoomId, visitorCountry));
+        return policy ? this.toChain(policy, host) : null;
+    }
+
+    /**
+     * Record a decision on the step the chain is waiting on. Returns true when the decision
+     * settles the appointment (a rejection, the last step's approval, or no chain at all) and
+     * false when the chain moves on to the next step. Links for any other step cannot decide.
+     * Does not save the document.
+     */
+    static recordDecision(
+        appointment: IAppointment,
+        decision: 'approved' | 'rejected',
+        actor: IStatusChangeActor,
+        step?: number
+    ): boolean {
+        const chain = appointment.approvalChain;
+        if (!chain) {
+            return true;
+        }
+
+        const current = chain.steps[chain.currentStep];
+        if (step !== undefined && step !== chain.currentStep) {
+            throw new AppError(`This request is waiting for ${current.name} approval`, ERROR_CODES.BAD_REQUEST);
+        }
+
+        current.status = decision;
+        current.decidedBy = actor.userId ? new mongoose.Types.ObjectId(actor.userId) : null;
+        current.approverId = actor.approverId ? new mongoose.Types.ObjectId(actor.approverId) : null;
+        current.onBehalfOf = actor.onBehalfOf ? new mongoose.Types.ObjectId(actor.onBehalfOf) : null;
+        current.reason = actor.note;
+        current.decidedAt = new Date();
+
+        const settled = decision === 'rejected' || chain.currentStep === chain.steps.length - 1;
+        if (!settled) {
+            chain.currentStep += 1;
+            chain.steps[chain.currentStep].status = 'pending';
+        }
+
+        appointment.markModified('approvalChain');
+        return settled;
+    }
+
+    /**
+     * Retire the links of the steps already decided and send each approver of the
+     * step the chain is now waiting on their own link
+     */
+    static async notifyCurrentStep(appointmentId: string, session?: any): Promise<void> {
+        const appointment = await Appointment.findOne({ _id: appointmentId, status: 'pending', isDeleted: false })
+            .populate('employeeId', 'name')
+            .populate('visitorId', 'name')
+            .session(session);
+        const chain = appointment?.approvalChain;
+        if (!appointment || !chain || chain.currentStep === 0) {
+            return;
+        }
+
+        await ApprovalLink.updateMany(
+            { appointmentId: appointment._id, step: { $lt: chain.currentStep } },
+            { $set: { isUsed: true } },
+            { session }
+        );
+
+        const step = chain.steps[chain.currentStep];
+        const approvers = await Employee.find({ _id: { $in: step.approverIds }, isDeleted: false, status: 'Active' }).session(session);
+        if (approvers.length === 0) {
+            console.warn(`No active approvers for the ${step.name} step of appointment ${appointment.appointmentId}`);
+            return;
+        }
+
+        for (const approver of approvers) {
+            try {
+                const approvalLink = await ApprovalLinkService.createApprovalLink(
+                    appointmentId,
+                    { approverId: (approver._id as any).toString(), step: chain.currentStep },
+                    session
+                );
+                // Approvers who already hold a working link for the step are not asked again
+                if (approvalLink) {
+                    await this.sendStepRequest(appointment, approver, step.name, approvalLink.link);
+                }
+            } catch (error) {
+                console.error(`Failed to notify ${step.name} approver ${approver._id} for appointment ${appointmentId}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Email and WhatsApp an approver of a chain step their link, as the company's settings
+     * allow. The appointment must have its host and visitor populated.
+     */
+    static async sendStepRequest(appointment: IAppointment, approver: IEmployee, stepName: string, link: string): Promise<void> {
+        const companyId = appointment.createdBy.toString();
+        const hostName = (appointment.employeeId as any)?.name || 'The host';
+        const visitorName = (appointment.visitorId as any)?.name || 'A visitor';
+        const { scheduledDate, scheduledTime, purpose } = appointment.appointmentDetails;
+
+        if (approver.email && await SettingsService.isEmailEnabled(companyId)) {
+            await EmailService.sendApprovalStepRequestEmail(
+                approver.email,
+                approver.name,
+                stepName,
+                hostName,
+                visitorName,
+                scheduledDate,
+                scheduledTime,
+                purpose,
+                link
+            );
+        }
+        if (approver.phone && await SettingsService.isWhatsAppEnabled(companyId)) {
+            await WhatsAppService.sendApprovalStepRequest(
+                approver.phone,
+                approver.name,
+                stepName,
+                hostName,
+                visitorName,
+                scheduledDate,
+                scheduledTime,
+                link
+            );
+        }
+    }
+
+    private static toChain(policy: IApprovalPolicy, host: IEmployee): IApprovalChainRecord {
+        return {
+            policyName: policy.name,
+            currentStep: 0,
+            steps: [
+                { name: HOST_STEP_NAME, approverIds: [host._id as mongoose.Types.ObjectId], status: 'pending' },
+                ...policy.steps.map(step => ({ name: step.name, approverIds: step.employeeIds, status: 'waiting' as const }))
+            ]
+        };
+    }
+
+    /**
+     * A policy without conditions applies to every appointment; otherwise any one
+     * of its conditions applies it
+     */
+    private static matches(policy: IApprovalPolicy, host: IEmployee, meetingRoomId?: string, visitorCountry?: string): boolean {
+        const meetingRoomIds = policy.conditions?.meetingRoomIds ?? [];
+        const departments = policy.conditions?.departments ?? [];
+        const homeCountry = policy.conditions?.visitorsOutsideCountry?.trim().toLowerCase();
+
+        const checks: boolean[] = [];
+        if (meetingRoomIds.length > 0) {
+            checks.push(!!meetingRoomId && meetingRoomIds.some(id => id.toString() === meetingRoomId.toString()));
+        }
+        if (departments.length > 0) {
+            const department = host.department.toLowerCase();
+            checks.push(departments.some(name => name.toLowerCase() === department));
+        }
+        if (homeCountry) {
+            checks.push(!!visitorCountry && visitorCountry.trim().toLowerCase() !== homeCountry);
+        }
+
+        return checks.length === 0 || checks.some(Boolean);
+    }
+}
@@ -1,139 +1,202 @@
-import { ApprovalLink } from '../../models/approvalLink/approvalLink.model';
+import { ApprovalLink, IApprovalLink } from '../../models/approvalLink/approvalLink.model';
+import { ApprovalLinkAccess } from '../../models/approvalLinkAccess/approvalLinkAccess.model';
+import { Appointment, IAppointment } from '../../models/appointment/appointment.model';
+import { Employee } from '../../models/employee/employee.model';
 import { ERROR_CODES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { TokenUtil } from '../../utils/token.util';
 import { AppError } from '../../middlewares/errorHandler';
-import * as crypto from 'crypto';
+import { Transaction } from '../../decorators';
+import { AppointmentSeriesService } from '../appointmentSeries/appointmentSeries.service';
+import { ApprovalChainService } from '../approvalChain/approvalChain.service';
+import { DelegationService } from '../delegation/delegation.service';
+import { SettingsService } from '../settings/settings.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { VisitorPassService } from '../visitorPass/visitorPass.service';
+import { IStatusChangeActor, IStatusReasonDTO } from '../../types/appointment/appointment.types';
+import {
+    ApprovalLinkState,
+    ApprovalLinkAction,
+    ApprovalLinkAccessOutcome,
+    IApprovalLinkAccessContext,
+    IApprovalLinkSummary,
+    IApprovalLinkResponse
+} from '../../types/approvalLink/approvalLink.types';
+
+const ACCESS_LOG_LIMIT = 200;
 
 export class ApprovalLinkService {
-    private static getBaseUrl(): string {
-        const url = process.env.APPROVAL_LINK_BASE_URL || '';
-        return url.replace(/\/$/, ''); // Remove trailing slash
-    }
     /**
-     * Generate a secure random token
+     * Create an approval link for an appointment. Without an approver the link is the
+     * host's own; delegates, fallback approvers and the approvers of later approval chain
+     * steps each get a separate link. Tokens are not stored, so a link that still works is
+     * left as it is and null is returned: the approver already has it. Only resending a
+     * link gives a working link a new token.
      */
-    private static generateToken(): string {
-        return crypto.randomBytes(32).toString('hex');
-    }
+    static async createApprovalLink(
+        appointmentId: string,
+        approver: { approverId: string; onBehalfOf?: string | null; step?: number } | null = null,
+        session?: any
+    ): Promise<{ token: string; link: string } | null> {
+        const step = approver?.step ?? 0;
 
-    /**
-     * Create an approval link for an appointment
-     */
-    static async createApprovalLink(appointmentId: string): Promise<{ token: string; link: string }> {
-        // Check if approval link already exists
-        const existingLink = await ApprovalLink.findOne({ appointmentId });
-        if (existingLink) {
-            const baseUrl = this.getBaseUrl();
-            return {
-                token: existingLink.token,
-                link: `${baseUrl}/verify/${existingLink.token}`
-            };
+        const appointment = await Appointment.findById(appointmentId).select('status appointmentDetails createdBy').session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
         }
 
-        // Generate unique token
-        let token: string = '';
-        let isUnique = false;
-        
-        while (!isUnique) {
-            token = this.generateToken();
-            const existing = await ApprovalLink.findOne({ token });
-            if (!existing) {
-                isUnique = true;
-            }
+        const existing = await ApprovalLink.findOne({ appointmentId, step, approverId: approver?.approverId ?? null }).session(session);
+        if (existing && this.getState(existing, appointment) === 'active') {
+            return null;
         }
 
-        // Create approval link
-        const approvalLink = new ApprovalLink({
+        const approvalLink = existing ?? new ApprovalLink({
             appointmentId,
-            token
+            approverId: approver?.approverId ?? null,
+            onBehalfOf: approver?.onBehalfOf ?? null,
+            step,
+            sendCount: 0
         });
 
-        await approvalLink.save();
-
-        const baseUrl = this.getBaseUrl();
-        const link = `${baseUrl}/verify/${token}`;
-
-        return { token, link };
+        const token = await this.issueToken(approvalLink, appointment, session);
+        return { token, link: TokenUtil.buildUrl(`verify/${token}`) };
     }
 
     /**
-     * Verify token and get appointment details
+     * Verify token and get appointment details. Links that can no longer decide only
+     * get a minimal summary without any visitor details.
      */
-    static async verifyToken(token: string): Promise<{
+    static async verifyToken(token: string, access: IApprovalLinkAccessContext = {}): Promise<{
         isValid: boolean;
-        isUsed: boolean;
+        state?: ApprovalLinkState;
         appointment?: any;
     }> {
-        const approvalLink = await ApprovalLink.findOne({ token })
+        const approvalLink = await ApprovalLink.findOne({ tokenHash: TokenUtil.hashToken(token) })
             .populate({
                 path: 'appointmentId',
                 populate: [
-                    { path: 'employeeId', select: 'name email department designation phone' },
-                    { path: 'visitorId', select: 'name email phone company designation address idProof photo visitorId' }
+                    { path: 'employeeId', select: 'name department designation' },
+                    { path: 'visitorId', select: 'name company designation photo visitorId' },
+                    { path: 'attendees.visitorId', select: 'name company designation photo visitorId' }
                 ]
-            });
+            })
+            .populate('approverId', 'name email department designation');
 
-        if (!approvalLink) {
-            return { isValid: false, isUsed: false };
+        const appointment = approvalLink?.appointmentId as any;
+        if (!approvalLink || !appointment) {
+            await this.logAccess(null, null, 'view', 'invalid', access);
+            return { isValid: false };
         }
 
-        if (approvalLink.isUsed) {
-            return { isValid: true, isUsed: true };
+        const state = this.getState(approvalLink, appointment);
+        await this.logAccess(approvalLink._id, appointment._id, 'view', state, access);
+
+        if (state !== 'active') {
+            return { isValid: false, state, appointment: this.toSummary(appointment) };
         }
 
-        const appointment = approvalLink.appointmentId as any;
-        
         return {
             isValid: true,
-            isUsed: false,
+            state,
             appointment: {
                 _id: appointment._id,
                 appointmentId: appointment.appointmentId,
                 status: appointment.status,
                 employee: appointment.employeeId,
                 visitor: appointment.visitorId,
+                // Group visits are decided as a whole, so the approver sees everyone coming
+                groupMembers: (appointment.attendees ?? [])
+                    .filter((attendee: any) => !attendee.isLead)
+                    .map((attendee: any) => attendee.visitorId),
                 appointmentDetails: appointment.appointmentDetails,
-                accompaniedBy: appointment.accompaniedBy,
-                createdAt: appointment.createdAt
+                accompaniedBy: appointment.accompaniedBy
+                    ? { name: appointment.accompaniedBy.name, relation: appointment.accompaniedBy.relation }
+                    : undefined,
+                createdAt: appointment.createdAt,
+                expiresAt: approvalLink.expiresAt,
+                // Set when the link was sent to a delegate or fallback approver acting for the host
+                approver: approvalLink.onBehalfOf ? approvalLink.approverId : null,
+                // Steps of the approval policy the appointment falls under, and the one this link decides
+                approvalChain: appointment.approvalChain
+                    ? {
+                        policyName: appointment.approvalChain.policyName,
+                        currentStep: appointment.approvalChain.currentStep,
+                        steps: appointment.approvalChain.steps.map((step: any) => ({ name: step.name, status: step.status, reason: step.reason }))
+                    }
+                    : null,
+                step: approvalLink.step ?? 0,
+                // Reasons the approver can pick from when rejecting
+                rejectionReasons: (await SettingsService.getStatusReasonSettings(appointment.createdBy.toString())).rejected
             }
         };
     }
 
     /**
-     * Update appointment status via approval link
+     * Update appointment status via approval link. Under an approval policy the link decides
+     * its own step: approving moves the request on to the next step's approvers, and any step
+     * can reject the request, optionally with a reason.
      */
-    static async updateStatusViaToken(token: string, status: 'approved' | 'rejected'): Promise<{
+    static async updateStatusViaToken(
+        token: string,
+        status: 'approved' | 'rejected',
+        reasonData: IStatusReasonDTO = {},
+        access: IApprovalLinkAccessContext = {}
+    ): Promise<{
         success: boolean;
         appointment: any;
+        nextStep?: string; // Step the request now waits on, when the chain moved on
     }> {
-        const approvalLink = await ApprovalLink.findOne({ token })
+        const action: ApprovalLinkAction = status === 'approved' ? 'approve' : 'reject';
+        const approvalLink = await ApprovalLink.findOne({ tokenHash: TokenUtil.hashToken(token) })
             .populate('appointmentId');
 
-        if (!approvalLink) {
+        const appointment = approvalLink?.appointmentId as any;
+        if (!approvalLink || !appointment) {
+            await this.logAccess(null, null, action, 'invalid', access);
             throw new AppError('Invalid or expired link', ERROR_CODES.NOT_FOUND);
         }
 
-        if (approvalLink.isUsed) {
-            throw new AppError('Link expired or already used', ERROR_CODES.BAD_REQUEST);
-        }
+        const state = this.getState(approvalLink, appointment);
+        await this.logAccess(approvalLink._id, appointment._id, action, state, access);
+        this.assertActive(state);
 
-        const appointment = approvalLink.appointmentId as any;
+        // Record who decided: the host's own link, or a delegate or fallback approver acting for them
+        const actor: IStatusChangeActor = {
+            source: 'approval_link',
+            approverId: (approvalLink.approverId ?? appointment.employeeId).toString(),
+            onBehalfOf: approvalLink.onBehalfOf?.toString(),
+            reason: status === 'rejected'
+                ? await SettingsService.resolveStatusReason(appointment.createdBy.toString(), 'rejected', reasonData.reasonCode)
+                : undefined,
+            note: reasonData.reason || undefined
+        };
 
-        if (!appointment) {
-            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
-        }
+        if (!ApprovalChainService.recordDecision(appointment, status, actor, approvalLink.step ?? 0)) {
+            await appointment.save();
+            await ApprovalChainService.notifyCurrentStep(appointment._id.toString());
 
-        // Check if appointment is still pending
-        if (appointment.status !== 'pending') {
-            throw new AppError('Appointment status cannot be changed', ERROR_CODES.BAD_REQUEST);
+            return {
+                success: true,
+                appointment: appointment.toObject(),
+                nextStep: appointment.approvalChain.steps[appointment.approvalChain.currentStep].name
+            };
         }
 
-        // Update appointment status
-        appointment.status = status;
+        // Update appointment status through the lifecycle transition table
+        appointment.transitionTo(status, actor);
         await appointment.save();
+        await AppointmentSeriesService.applySeriesDecision(appointment, status, actor);
 
-        // Mark approval link as used
-        approvalLink.isUsed = true;
-        await approvalLink.save();
+        // The decision is made: every approver's link for the appointment is now used
+        await ApprovalLink.updateMany({ appointmentId: appointment._id }, { $set: { isUsed: true } });
+
+        if (status === 'approved') {
+            try {
+                await VisitorPassService.deliverPasses(appointment._id.toString());
+            } catch (error) {
+                console.error('Failed to send visitor passes:', error);
+            }
+        }
 
         return {
             success: true,
@@ -142,22 +205,284 @@ export class ApprovalLinkService {
     }
 
     /**
-     * Get approval link by appointment ID
+     * Approval links of an appointment with their state and recent accesses
+     */
+    static async getApprovalLinks(appointmentId: string, userId: string): Promise<IApprovalLinkResponse[]> {
+        const appointment = await this.findOwnedAppointment(appointmentId, userId);
+
+        const [links, accesses] = await Promise.all([
+            ApprovalLink.find({ appointmentId })
+                .populate('approverId', 'name email phone department')
+                .populate('onBehalfOf', 'name')
+                .sort({ step: 1, createdAt: 1 }),
+            ApprovalLinkAccess.find({ appointmentId })
+                .sort({ createdAt: -1 })
+                .limit(ACCESS_LOG_LIMIT)
+                .lean()
+        ]);
+
+        return links.map(link => this.toResponse(
+            link,
+            appointment,
+            accesses.filter(access => access.linkId?.toString() === (link._id as any).toString())
+        ));
+    }
+
+    /**
+     * Issue a link a new token and expiry and send it to its approver again.
+     * The previous URL stops working; a revoked link is reinstated.
+     */
+    @Transaction('Failed to resend approval link')
+    static async resendApprovalLink(
+        appointmentId: string,
+        linkId: string,
+        userId: string,
+        options: { session?: any } = {}
+    ): Promise<IApprovalLinkResponse> {
+        const { session } = options;
+
+        const appointment = await this.findOwnedAppointment(appointmentId, userId, session);
+        const approvalLink = await this.findLink(appointmentId, linkId, session);
+
+        const state = this.getState(approvalLink, appointment);
+        if (state === 'used' || state === 'past') {
+            this.assertActive(state);
+        }
+        if (appointment.approvalChain && approvalLink.step !== appointment.approvalChain.currentStep) {
+            throw new AppError('This link is for an approval step that is not open', ERROR_CODES.BAD_REQUEST);
+        }
+
+        approvalLink.revokedAt = null;
+        approvalLink.revokedBy = null;
+        const token = await this.issueToken(approvalLink, appointment, session);
+        const link = TokenUtil.buildUrl(`verify/${token}`);
+
+        await this.sendLink(approvalLink, appointment, link, session);
+
+        return { ...this.toResponse(approvalLink, appointment, []), link };
+    }
+
+    /**
+     * Revoke a link; it stops working straight away
+     */
+    @Transaction('Failed to revoke approval link')
+    static async revokeApprovalLink(
+        appointmentId: string,
+        linkId: string,
+        userId: string,
+        options: { session?: any } = {}
+    ): Promise<IApprovalLinkResponse> {
+        const { session } = options;
+
+        const appointment = await this.findOwnedAppointment(appointmentId, userId, session);
+        const approvalLink = await this.findLink(appointmentId, linkId, session);
+
+        if (approvalLink.revokedAt) {
+            throw new AppError('This link has already been revoked', ERROR_CODES.BAD_REQUEST);
+        }
+        if (approvalLink.isUsed) {
+            throw new AppError('This link has already been used', ERROR_CODES.BAD_REQUEST);
+        }
+
+        approvalLink.revokedAt = new Date();
+        approvalLink.revokedBy = userId as any;
+        await approvalLink.save({ session });
+
+        return this.toResponse(approvalLink, appointment, []);
+    }
+
+    /**
+     * Replace the link's token and expiry and save it. Returns the new token.
      */
-    static async getApprovalLinkByAppointmentId(appointmentId: string): Promise<{ token: string; link: string } | null> {
-        const approvalLink = await ApprovalLink.findOne({ appointmentId });
+    private static async issueToken(approvalLink: IApprovalLink, appointment: IAppointment, session?: any): Promise<string> {
+        // Generate unique token
+        let token: string = '';
+        let isUnique = false;
+
+        while (!isUnique) {
+            token = TokenUtil.generateToken();
+            const existing = await ApprovalLink.exists({ tokenHash: TokenUtil.hashToken(token) }).session(session);
+            if (!existing) {
+                isUnique = true;
+            }
+        }
+
+        approvalLink.tokenHash = TokenUtil.hashToken(token);
+        approvalLink.expiresAt = await this.getExpiry(appointment);
+        approvalLink.sendCount = (approvalLink.sendCount ?? 0) + 1;
+        approvalLink.lastSentAt = new Date();
+        await approvalLink.save({ session });
+
+        return token;
+    }
+
+    /**
+     * The company's link lifetime from now, but never past the end of the visit
+     */
+    private static async getExpiry(appointment: IAppointment): Promise<Date> {
+        const { linkExpiryHours } = await SettingsService.getApprovalSettings(appointment.createdBy.toString());
+        const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+        const visitEnd = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration).end;
+        const expiry = new Date(Date.now() + linkExpiryHours * 60 * 60 * 1000);
+        return expiry < visitEnd ? expiry : visitEnd;
+    }
+
+    private static getState(approvalLink: IApprovalLink, appointment: IAppointment): ApprovalLinkState {
+        if (approvalLink.revokedAt) {
+            return 'revoked';
+        }
+        if (approvalLink.isUsed || appointment.status !== 'pending') {
+            return 'used';
+        }
+
+        const now = new Date();
+        const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+        if (AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration).end <= now) {
+            return 'past';
+        }
+        if (approvalLink.expiresAt <= now) {
+            return 'expired';
+        }
+        return 'active';
+    }
 
+    private static assertActive(state: ApprovalLinkState): void {
+        switch (state) {
+            case 'revoked':
+                throw new AppError('This link has been revoked', ERROR_CODES.BAD_REQUEST);
+            case 'used':
+                throw new AppError('Link expired or already used', ERROR_CODES.BAD_REQUEST);
+            case 'past':
+                throw new AppError('This visit is already over', ERROR_CODES.BAD_REQUEST);
+            case 'expired':
+                throw new AppError('This link has expired', ERROR_CODES.BAD_REQUEST);
+        }
+    }
+
+    /**
+     * Record an access to a link. A failure to log never blocks the approver.
+     */
+    private static async logAccess(
+        linkId: any,
+        appointmentId: any,
+        action: ApprovalLinkAction,
+        outcome: ApprovalLinkAccessOutcome,
+        access: IApprovalLinkAccessContext
+    ): Promise<void> {
+        try {
+            await ApprovalLinkAccess.create({
+                linkId,
+                appointmentId,
+                action,
+                outcome,
+                ip: access.ip,
+                userAgent: access.userAgent?.slice(0, 500)
+            });
+        } catch (error) {
+            console.error('Failed to log approval link access:', error);
+        }
+    }
+
+    /**
+     * Send a reissued link through the same channels it was first sent on
+     */
+    private static async sendLink(approvalLink: IApprovalLink, appointment: IAppointment, link: string, session?: any): Promise<void> {
+        const populated = await Appointment.findById(appointment._id)
+            .populate('employeeId', 'name email phone delegation')
+            .populate('visitorId', 'name email phone company visitorId')
+            .session(session);
+        if (!populated) {
+            return;
+        }
+        const host = populated.employeeId as any;
+
+        try {
+            if (approvalLink.step > 0) {
+                const approver = await Employee.findOne({ _id: approvalLink.approverId, isDeleted: false }).session(session);
+                if (approver) {
+                    const stepName = populated.approvalChain?.steps[approvalLink.step]?.name || 'Further';
+                    await ApprovalChainService.sendStepRequest(populated, approver, stepName, link);
+                }
+            } else if (approvalLink.approverId) {
+                const approver = await Employee.findOne({ _id: approvalLink.approverId, isDeleted: false }).session(session);
+                if (approver) {
+                    const asDelegate = host.delegation?.delegateId?.toString() === (approver._id as any).toString();
+                    await DelegationService.sendStandInRequest(populated, host, approver, asDelegate, link);
+                }
+            } else if (host.phone && await SettingsService.isWhatsAppEnabled(populated.createdBy.toString())) {
+                // The host's own link only goes out over WhatsApp; their email carries dashboard actions
+                const visitor = populated.visitorId as any;
+                await WhatsAppService.sendAppointmentNotification(
+                    host.phone,
+                    host.name,
+                    {
+                        name: visitor.name,
+                        email: visitor.email,
+                        phone: visitor.phone,
+                        company: visitor.company,
+                        visitorId: visitor.visitorId
+                    },
+                    populated.appointmentDetails.scheduledDate,
+                    populated.appointmentDetails.scheduledTime,
+                    populated.appointmentDetails.purpose,
+                    link,
+                    (populated._id as any).toString()
+                );
+            }
+        } catch (error) {
+            console.error(`Failed to resend approval link ${approvalLink._id}:`, error);
+        }
+    }
+
+    private static async findOwnedAppointment(appointmentId: string, userId: string, session?: any): Promise<IAppointment> {
+        const appointment = await Appointment.findOne({ _id: appointmentId, createdBy: userId, isDeleted: false })
+            .populate('employeeId', 'name email phone')
+            .session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+        return appointment;
+    }
+
+    private static async findLink(appointmentId: string, linkId: string, session?: any): Promise<IApprovalLink> {
+        const approvalLink = await ApprovalLink.findOne({ _id: linkId, appointmentId }).session(session);
         if (!approvalLink) {
-            return null;
+            throw new AppError('Approval link not found', ERROR_CODES.NOT_FOUND);
         }
+        return approvalLink;
+    }
 
-        const baseUrl = this.getBaseUrl();
-        const link = `${baseUrl}/verify/${approvalLink.token}`;
+    private static toSummary(appointment: any): IApprovalLinkSummary {
+        return {
+            appointmentId: appointment.appointmentId,
+            status: appointment.status,
+            scheduledDate: appointment.appointmentDetails.scheduledDate,
+            scheduledTime: appointment.appointmentDetails.scheduledTime,
+            hostName: appointment.employeeId?.name || ''
+        };
+    }
 
+    private static toResponse(approvalLink: IApprovalLink, appointment: IAppointment, accesses: any[]): IApprovalLinkResponse {
+        const link = approvalLink.toObject() as any;
         return {
-            token: approvalLink.token,
-            link
+            _id: link._id.toString(),
+            approver: link.approverId ?? appointment.employeeId,
+            onBehalfOf: link.onBehalfOf ?? undefined,
+            step: link.step ?? 0,
+            state: this.getState(approvalLink, appointment),
+            expiresAt: link.expiresAt,
+            sendCount: link.sendCount,
+            lastSentAt: link.lastSentAt,
+            revokedAt: link.revokedAt ?? undefined,
+            revokedBy: link.revokedBy?.toString(),
+            createdAt: link.createdAt,
+            accessLog: accesses.map(access => ({
+                action: access.action,
+                outcome: access.outcome,
+                ip: access.ip,
+                userAgent: access.userAgent,
+                createdAt: access.createdAt
+            }))
         };
     }
 }
-
@@ -0,0 +1,171 @@
+import { Appointment } from '../../models/appointment/appointment.model';
+import { Settings } from '../../models/settings/settings.model';
+import { SettingsService } from '../settings/settings.service';
+import { AppointmentStatus } from '../../types/appointment/appointment.types';
+import { IAttendanceSettings } from '../../types/settings/settings.types';
+import { APPOINTMENT_STATUS_TRANSITIONS, AUTO_NO_SHOW_REASON, ON_SITE_STATUSES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+
+/**
+ * Housekeeping for visits nobody closed: approved appointments the visitor never
+ * showed up for and visitors who left without checking out. Run by the attendance job.
+ */
+export class AttendanceService {
+    /**
+     * Mark approved appointments as no-show once the company grace period after
+     * the scheduled end has passed. Returns the number of appointments marked.
+     */
+    static async markNoShows(now: Date = new Date()): Promise<number> {
+        const disabledCompanies = await Settings.distinct('userId', { 'attendance.noShowEnabled': false });
+        const settingsCache = new Map<string, IAttendanceSettings>();
+        let marked = 0;
+
+        const cursor = Appointment.find({
+            status: 'approved',
+            isDeleted: false,
+            createdBy: { $nin: disabledCompanies },
+            'appointmentDetails.scheduledDate': { $lte: now }
+        })
+            .select('createdBy appointmentDetails')
+            .lean()
+            .cursor();
+
+        for await (const appointment of cursor) {
+            const settings = await this.getCompanySettings(appointment.createdBy.toString(), settingsCache);
+            const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+            const { end } = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
+            if (AppointmentTimeUtil.addMinutes(end, settings.noShowGraceMinutes) > now) {
+                continue;
+            }
+
+            const note = `Visitor did not check in within ${settings.noShowGraceMinutes} minutes of the scheduled end`;
+            const updated = await this.transitionIfUnchanged(
+                appointment._id,
+                'approved',
+                'no_show',
+                note,
+                { statusReason: { ...AUTO_NO_SHOW_REASON, comment: note } },
+                now,
+                { reasonCode: AUTO_NO_SHOW_REASON.code }
+            );
+            if (updated) {
+                marked++;
+            }
+        }
+
+        return marked;
+    }
+
+    /**
+     * Check out visitors still on site once the company end-of-day cutoff has passed.
+     * The cutoff is recorded as the check-out time and the appointment is flagged
+     * as auto checked-out. Returns the number of appointments checked out.
+     */
+    static async autoCheckout(now: Date = new Date()): Promise<number> {
+        const disabledCompanies = await Settings.distinct('userId', { 'attendance.autoCheckoutEnabled': false });
+        const settingsCache = new Map<string, IAttendanceSettings>();
+        let checkedOut = 0;
+
+        const cursor = Appointment.find({
+            status: { $in: ON_SITE_STATUSES },
+            isDeleted: false,
+            createdBy: { $nin: disabledCompanies },
+            checkInTime: { $lte: now }
+        })
+            .select('createdBy status checkInTime attendees')
+            .lean()
+            .cursor();
+
+        for await (const appointment of cursor) {
+            const settings = await this.getCompanySettings(appointment.createdBy.toString(), settingsCache);
+            const checkInTime = appointment.checkInTime as Date;
+            const cutoff = this.getCutoffAfter(checkInTime, settings.autoCheckoutTime);
+            if (cutoff > now) {
+                continue;
+            }
+
+            // Group members still on site leave at the cutoff too; appointments booked before
+            // group visits have no attendees to update
+            const hasAttendees = (appointment.attendees?.length ?? 0) > 0;
+            const updated = await this.transitionIfUnchanged(
+                appointment._id,
+                appointment.status,
+                'completed',
+                `Automatically checked out at the end-of-day cutoff (${settings.autoCheckoutTime})`,
+                {
+                    checkOutTime: cutoff,
+                    actualDuration: Math.floor((cutoff.getTime() - checkInTime.getTime()) / (1000 * 60)),
+                    autoCheckedOut: true,
+                    ...(hasAttendees && { 'attendees.$[onSite].checkOutTime': cutoff })
+                },
+                now,
+                hasAttendees ? { arrayFilters: [{ 'onSite.checkInTime': { $ne: null }, 'onSite.checkOutTime': null }] } : {}
+            );
+            if (updated) {
+                checkedOut++;
+            }
+        }
+
+        return checkedOut;
+    }
+
+    /**
+     * First end-of-day cutoff after the check-in (a visitor checking in after
+     * the cutoff is checked out at the next day's cutoff)
+     */
+    private static getCutoffAfter(checkInTime: Date, cutoffTime: string): Date {
+        const cutoff = AppointmentTimeUtil.getStartTime(AppointmentTimeUtil.startOfDay(checkInTime), cutoffTime);
+        if (cutoff <= checkInTime) {
+            cutoff.setDate(cutoff.getDate() + 1);
+        }
+        return cutoff;
+    }
+
+    /**
+     * Apply a system status change only if the appointment is still in the expected
+     * status, so a check-in racing the job or a second job run cannot be overwritten
+     */
+    private static async transitionIfUnchanged(
+        appointmentId: unknown,
+        from: AppointmentStatus,
+        to: AppointmentStatus,
+        note: string,
+        fields: Record<string, unknown>,
+        now: Date,
+        options: { reasonCode?: string; arrayFilters?: Record<string, unknown>[] } = {}
+    ): Promise<boolean> {
+        if (!APPOINTMENT_STATUS_TRANSITIONS[from].includes(to)) {
+            return false;
+        }
+
+        const result = await Appointment.updateOne(
+            { _id: appointmentId, status: from },
+            {
+                $set: { ...fields, status: to },
+                $push: {
+                    statusHistory: {
+                        from,
+                        to,
+                        changedBy: null,
+                        source: 'system',
+                        note,
+                        reasonCode: options.reasonCode,
+                        changedAt: now
+                    }
+                }
+            },
+            { arrayFilters: options.arrayFilters }
+        );
+
+        return result.modifiedCount > 0;
+    }
+
+    private static async getCompanySettings(userId: string, cache: Map<string, IAttendanceSettings>): Promise<IAttendanceSettings> {
+        let settings = cache.get(userId);
+        if (!settings) {
+            settings = await SettingsService.getAttendanceSettings(userId);
+            cache.set(userId, settings);
+        }
+        return settings;
+    }
+}
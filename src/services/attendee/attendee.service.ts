@@ -0,0 +1,231 @@
+import mongoose from 'mongoose';
+import { Appointment, IAppointment, IAttendeeRecord } from '../../models/appointment/appointment.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { AppointmentService } from '../appointment/appointment.service';
+import { BadgeService } from '../badge/badge.service';
+import { WatchlistService } from '../watchlist/watchlist.service';
+import { VisitorTypeService } from '../visitorType/visitorType.service';
+import { AppointmentStatus, IAppointmentResponse, IAttendeeCheckInDTO } from '../../types/appointment/appointment.types';
+import { ERROR_MESSAGES, ERROR_CODES, MAX_APPOINTMENT_ATTENDEES, ON_SITE_STATUSES } from '../../utils/constants';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+// The group can change until the visit starts
+const EDITABLE_STATUSES: AppointmentStatus[] = ['pending', 'approved'];
+
+/**
+ * Group visits: everyone on an appointment has their own Visitor record and is checked in
+ * and out on their own. The group is approved or rejected as a whole with the appointment.
+ */
+export class AttendeeService {
+    /**
+     * Check the visitors joining the lead and return their IDs. They must be company visitors,
+     * listed once, and the group cannot grow past the maximum size.
+     */
+    static async resolveGroupMembers(
+        visitorIds: string[],
+        leadVisitorId: string,
+        companyId: string,
+        session?: any
+    ): Promise<mongoose.Types.ObjectId[]> {
+        const uniqueIds = [...new Set(visitorIds.map(id => id.toString()))].filter(id => id !== leadVisitorId.toString());
+        if (uniqueIds.length + 1 > MAX_APPOINTMENT_ATTENDEES) {
+            throw new AppError(`A group cannot have more than ${MAX_APPOINTMENT_ATTENDEES} visitors`, ERROR_CODES.BAD_REQUEST);
+        }
+        if (uniqueIds.length === 0) {
+            return [];
+        }
+
+        const found = await Visitor.countDocuments({ _id: { $in: uniqueIds }, createdBy: companyId, isDeleted: false }).session(session);
+        if (found !== uniqueIds.length) {
+            throw new AppError(ERROR_MESSAGES.VISITOR_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+
+        return uniqueIds.map(id => new mongoose.Types.ObjectId(id));
+    }
+
+    /**
+     * Add a visitor to the group of a pending or approved appointment
+     */
+    @Transaction('Failed to add attendee')
+    static async addAttendee(appointmentId: string, visitorId: string, userId: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
+        const { session } = options;
+
+        const appointment = await this.findOwnedAppointment(appointmentId, userId, session);
+        if (!EDITABLE_STATUSES.includes(appointment.status)) {
+            throw new AppError('Visitors can only be added before the visit starts', ERROR_CODES.BAD_REQUEST);
+        }
+
+        this.ensureLead(appointment);
+        if (this.findAttendee(appointment, visitorId)) {
+            throw new AppError('Visitor is already on this appointment', ERROR_CODES.CONFLICT);
+        }
+
+        // Checks the new visitor and the size of the group as it will be
+        const memberIds = appointment.attendees.filter(attendee => !attendee.isLead).map(attendee => attendee.visitorId.toString());
+        await this.resolveGroupMembers([...memberIds, visitorId], appointment.visitorId.toString(), userId, session);
+
+        const visitorType = await VisitorTypeService.findActiveType(userId, appointment.visitorTypeId?.toString(), session);
+        await VisitorTypeService.assertVisitorsMeetRequirements([visitorId], visitorType, session);
+
+        const meetingRoomId = appointment.appointmentDetails.meetingRoomId?.toString();
+        if (meetingRoomId) {
+            const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+            await AppointmentService.assertRoomAvailable(
+                meetingRoomId,
+                scheduledDate,
+                scheduledTime,
+                duration,
+                AppointmentService.countCompanions(appointment) + 1,
+                userId,
+                { excludeAppointmentIds: [appointmentId], session }
+            );
+        }
+
+        appointment.attendees.push({ visitorId: new mongoose.Types.ObjectId(visitorId), isLead: false, checkInTime: null, checkOutTime: null });
+        await appointment.save({ session });
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Take a visitor off the group of a pending or approved appointment. The lead stays.
+     */
+    @Transaction('Failed to remove attendee')
+    static async removeAttendee(appointmentId: string, visitorId: string, userId: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
+        const { session } = options;
+
+        const appointment = await this.findOwnedAppointment(appointmentId, userId, session);
+        if (!EDITABLE_STATUSES.includes(appointment.status)) {
+            throw new AppError('Visitors can only be removed before the visit starts', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const attendee = this.findAttendee(appointment, visitorId);
+        if (!attendee) {
+            throw new AppError('Visitor is not on this appointment', ERROR_CODES.NOT_FOUND);
+        }
+        if (attendee.isLead) {
+            throw new AppError('The lead visitor cannot be removed from the appointment', ERROR_CODES.BAD_REQUEST);
+        }
+
+        appointment.set('attendees', appointment.attendees.filter(entry => entry !== attendee));
+        await appointment.save({ session });
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Check in one visitor of the group. The first one in checks the appointment in.
+     */
+    @Transaction('Failed to check in attendee')
+    static async checkInAttendee(
+        appointmentId: string,
+        visitorId: string,
+        checkInData: IAttendeeCheckInDTO,
+        userId: string,
+        options: { session?: any } = {}
+    ): Promise<IAppointmentResponse> {
+        const { session } = options;
+        const now = new Date();
+
+        const appointment = await this.findOwnedAppointment(appointmentId, userId, session);
+        if (appointment.status !== 'approved' && !ON_SITE_STATUSES.includes(appointment.status)) {
+            throw new AppError('Only approved appointments can be checked in', ERROR_CODES.BAD_REQUEST);
+        }
+
+        this.ensureLead(appointment);
+        const attendee = this.findAttendee(appointment, visitorId);
+        if (!attendee) {
+            throw new AppError('Visitor is not on this appointment', ERROR_CODES.NOT_FOUND);
+        }
+        if (attendee.checkInTime) {
+            throw new AppError('Visitor has already checked in', ERROR_CODES.BAD_REQUEST);
+        }
+
+        await WatchlistService.screenVisitors(
+            userId,
+            [visitorId],
+            'check_in',
+            userId,
+            {
+                appointmentId,
+                vehicleNumber: attendee.isLead ? appointment.appointmentDetails.vehicleNumber : undefined,
+                overrideReason: checkInData.watchlistOverrideReason,
+                session
+            }
+        );
+
+        if (appointment.status === 'approved') {
+            appointment.transitionTo('checked_in', { userId, source: 'dashboard' });
+            appointment.checkInTime = now;
+        }
+
+        attendee.checkInTime = now;
+        await BadgeService.issueOnCheckIn(appointment, attendee, checkInData.badgeNumber, session);
+        appointment.markModified('attendees');
+        await appointment.save({ session });
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Check out one visitor of the group. Once everyone has been in and left,
+     * the appointment is completed.
+     */
+    @Transaction('Failed to check out attendee')
+    static async checkOutAttendee(appointmentId: string, visitorId: string, userId: string, options: { session?: any } = {}): Promise<IAppointmentResponse> {
+        const { session } = options;
+        const now = new Date();
+
+        const appointment = await this.findOwnedAppointment(appointmentId, userId, session);
+        if (!ON_SITE_STATUSES.includes(appointment.status)) {
+            throw new AppError('Only checked-in appointments can be checked out', ERROR_CODES.BAD_REQUEST);
+        }
+
+        this.ensureLead(appointment);
+        const attendee = this.findAttendee(appointment, visitorId);
+        if (!attendee) {
+            throw new AppError('Visitor is not on this appointment', ERROR_CODES.NOT_FOUND);
+        }
+        if (!attendee.checkInTime || attendee.checkOutTime) {
+            throw new AppError('Visitor is not on site', ERROR_CODES.BAD_REQUEST);
+        }
+
+        attendee.checkOutTime = now;
+        appointment.markModified('attendees');
+
+        if (appointment.attendees.every(entry => entry.checkInTime && entry.checkOutTime)) {
+            appointment.transitionTo('completed', { userId, source: 'dashboard', note: 'Every visitor of the group checked out' });
+            appointment.checkOutTime = now;
+            if (appointment.checkInTime) {
+                appointment.actualDuration = Math.floor((now.getTime() - appointment.checkInTime.getTime()) / (1000 * 60));
+            }
+        }
+
+        await appointment.save({ session });
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Appointments booked before group visits list nobody; the lead is their only visitor.
+     * Does not save the document.
+     */
+    static ensureLead(appointment: IAppointment): void {
+        if (appointment.attendees.length === 0) {
+            appointment.attendees.push({ visitorId: appointment.visitorId, isLead: true, checkInTime: appointment.checkInTime ?? null, checkOutTime: null });
+        }
+    }
+
+    private static async findOwnedAppointment(appointmentId: string, userId: string, session?: any): Promise<IAppointment> {
+        const appointment = await Appointment.findOne({ _id: appointmentId, createdBy: userId, isDeleted: false }).session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+        return appointment;
+    }
+
+    private static findAttendee(appointment: IAppointment, visitorId: string): IAttendeeRecord | undefined {
+        return appointment.attendees.find(attendee => attendee.visitorId.toString() === visitorId.toString());
+    }
+}
@@ -0,0 +1,257 @@
+import { Appointment } from '../../models/appointment/appointment.model';
+import { BlockedTime } from '../../models/blockedTime/blockedTime.model';
+import { Employee, IEmployee } from '../../models/employee/employee.model';
+import { SettingsService } from '../settings/settings.service';
+import {
+    IWorkingHours,
+    IAvailabilityQuery,
+    IEmployeeAvailability,
+    IBusyPeriod,
+    ICreateBlockedTimeDTO,
+    IBlockedTimeResponse,
+    IGetBlockedTimesQuery
+} from '../../types/employee/employee.types';
+import { IHoliday } from '../../types/settings/settings.types';
+import { ERROR_MESSAGES, ERROR_CODES, ACTIVE_APPOINTMENT_STATUSES } from '../../utils/constants';
+import { AppointmentTimeUtil, ITimeWindow } from '../../utils/appointmentTime.util';
+import { AppError } from '../../middlewares/errorHandler';
+
+export type AvailabilityViolation = 'holiday' | 'outside_working_hours' | 'blocked_time';
+
+export interface IAvailabilityCheckResult {
+    reason: AvailabilityViolation;
+    message: string;
+}
+
+// Free gaps shorter than this are not worth offering as slots
+const MIN_SLOT_MINUTES = 15;
+
+export class AvailabilityService {
+    /**
+     * Working hours on the given day as time windows
+     */
+    static getWorkingWindows(workingHours: IWorkingHours[], date: Date | string): ITimeWindow[] {
+        const day = AppointmentTimeUtil.startOfDay(date);
+
+        return workingHours
+            .filter(hours => hours.dayOfWeek === day.getDay())
+            .map(hours => ({
+                start: AppointmentTimeUtil.getStartTime(day, hours.start),
+                end: AppointmentTimeUtil.getStartTime(day, hours.end)
+            }))
+            .sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+
+    /**
+     * Find the company holiday falling on the given day, if any
+     */
+    static findHoliday(holidays: IHoliday[], date: Date | string): IHoliday | undefined {
+        const day = AppointmentTimeUtil.startOfDay(date);
+
+        return holidays.find(holiday => {
+            const holidayDate = AppointmentTimeUtil.startOfDay(holiday.date);
+            if (holiday.recurring) {
+                return holidayDate.getMonth() === day.getMonth() && holidayDate.getDate() === day.getDate();
+            }
+            return holidayDate.getTime() === day.getTime();
+        });
+    }
+
+    /**
+     * Check a slot against the employee's working hours, the company holidays and blocked time.
+     * Existing appointments are not considered here; see AppointmentService.assertNoConflicts.
+     */
+    static async checkAvailability(
+        employee: IEmployee,
+        scheduledDate: Date | string,
+        scheduledTime: string,
+        duration: number,
+        companyUserId: string,
+        session?: any
+    ): Promise<IAvailabilityCheckResult | null> {
+        const { workingHours, holidays } = await SettingsService.getAvailabilitySettings(companyUserId);
+
+        const holiday = this.findHoliday(holidays, scheduledDate);
+        if (holiday) {
+            return { reason: 'holiday', message: `Scheduled date is a company holiday (${holiday.name})` };
+        }
+
+        const requested = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
+        const windows = this.getWorkingWindows(employee.workingHours ?? workingHours, scheduledDate);
+        const withinWorkingHours = windows.some(window => window.start <= requested.start && requested.end <= window.end);
+        if (!withinWorkingHours) {
+            return { reason: 'outside_working_hours', message: 'Appointment is outside the employee\'s working hours' };
+        }
+
+        const blocked = await BlockedTime.findOne({
+            employeeId: employee._id,
+            start: { $lt: requested.end },
+            end: { $gt: requested.start }
+        }).session(session);
+        if (blocked) {
+            return {
+                reason: 'blocked_time',
+                message: blocked.reason ? `Employee is unavailable at this time: ${blocked.reason}` : 'Employee is unavailable at this time'
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Free slots of an employee on a day: working hours minus holidays, blocked time and
+     * existing appointments (padded by the company buffer)
+     */
+    static async getAvailability(employeeId: string, query: IAvailabilityQuery, userId: string): Promise<IEmployeeAvailability> {
+        const employee = await this.findOwnedEmployee(employeeId, userId);
+
+        const date = AppointmentTimeUtil.startOfDay(query.date);
+        const dayEnd = new Date(date);
+        dayEnd.setDate(dayEnd.getDate() + 1);
+
+        const { workingHours, holidays } = await SettingsService.getAvailabilitySettings(userId);
+        const bufferMinutes = await SettingsService.getBufferMinutes(userId);
+        const holiday = this.findHoliday(holidays, date);
+        const windows = holiday ? [] : this.getWorkingWindows(employee.workingHours ?? workingHours, date);
+
+        // Appointments can run past midnight, so look at the previous day too
+        const rangeStart = new Date(date);
+        rangeStart.setDate(rangeStart.getDate() - 1);
+
+        const [appointments, blockedTimes] = await Promise.all([
+            Appointment.find({
+                employeeId,
+                status: { $in: ACTIVE_APPOINTMENT_STATUSES },
+                isDeleted: false,
+                'appointmentDetails.scheduledDate': { $gte: rangeStart, $lt: dayEnd }
+            })
+                .select('appointmentId appointmentDetails')
+                .lean(),
+            BlockedTime.find({
+                employeeId,
+                start: { $lt: dayEnd },
+                end: { $gt: date }
+            }).lean()
+        ]);
+
+        const busy: IBusyPeriod[] = [];
+        for (const appointment of appointments as any[]) {
+            const { scheduledDate, scheduledTime, duration, purpose } = appointment.appointmentDetails;
+            const window = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
+            if (window.end > date && window.start < dayEnd) {
+                busy.push({
+                    source: 'appointment',
+                    referenceId: appointment.appointmentId,
+                    label: purpose,
+                    startsAt: window.start,
+                    endsAt: window.end
+                });
+            }
+        }
+        for (const blocked of blockedTimes) {
+            busy.push({
+                source: 'blocked',
+                referenceId: blocked._id.toString(),
+                label: blocked.reason,
+                startsAt: blocked.start,
+                endsAt: blocked.end
+            });
+        }
+        busy.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+        // Appointments need the buffer on both sides; blocked time is taken as-is
+        const occupied: ITimeWindow[] = busy.map(period => period.source === 'appointment'
+            ? {
+                start: AppointmentTimeUtil.addMinutes(period.startsAt, -bufferMinutes),
+                end: AppointmentTimeUtil.addMinutes(period.endsAt, bufferMinutes)
+            }
+            : { start: period.startsAt, end: period.endsAt });
+
+        // Time that has already passed today cannot be booked
+        const now = new Date();
+        if (now > date) {
+            occupied.push({ start: date, end: now < dayEnd ? now : dayEnd });
+        }
+
+        const minimumMinutes = query.duration ? Number(query.duration) : MIN_SLOT_MINUTES;
+        const freeSlots = AppointmentTimeUtil.subtractWindows(windows, occupied)
+            .map(window => ({
+                start: AppointmentTimeUtil.formatTime(window.start),
+                end: AppointmentTimeUtil.formatTime(window.end),
+                startsAt: window.start,
+                endsAt: window.end,
+                minutes: Math.floor((window.end.getTime() - window.start.getTime()) / (1000 * 60))
+            }))
+            .filter(slot => slot.minutes >= minimumMinutes);
+
+        return {
+            employeeId: (employee._id as any).toString(),
+            date,
+            holiday: holiday?.name ?? null,
+            bufferMinutes,
+            workingHours: windows.map(window => ({
+                start: AppointmentTimeUtil.formatTime(window.start),
+                end: AppointmentTimeUtil.formatTime(window.end)
+            })),
+            busy,
+            freeSlots
+        };
+    }
+
+    /**
+     * Block time in an employee's calendar (leave, training, offsite...)
+     */
+    static async createBlockedTime(employeeId: string, blockData: ICreateBlockedTimeDTO, createdBy: string): Promise<IBlockedTimeResponse> {
+        await this.findOwnedEmployee(employeeId, createdBy);
+
+        const blockedTime = await BlockedTime.create({
+            employeeId,
+            start: blockData.start,
+            end: blockData.end,
+            reason: blockData.reason,
+            createdBy
+        });
+
+        return blockedTime.toObject() as unknown as IBlockedTimeResponse;
+    }
+
+    /**
+     * Get blocked time entries of an employee, optionally within a date range
+     */
+    static async getBlockedTimes(employeeId: string, query: IGetBlockedTimesQuery, userId: string): Promise<IBlockedTimeResponse[]> {
+        await this.findOwnedEmployee(employeeId, userId);
+
+        const filter: any = { employeeId };
+        if (query.startDate) {
+            filter.end = { $gt: new Date(query.startDate) };
+        }
+        if (query.endDate) {
+            const endExclusive = new Date(query.endDate);
+            endExclusive.setDate(endExclusive.getDate() + 1);
+            filter.start = { $lt: endExclusive };
+        }
+
+        const blockedTimes = await BlockedTime.find(filter).sort({ start: 1 }).lean();
+        return blockedTimes as unknown as IBlockedTimeResponse[];
+    }
+
+    /**
+     * Remove a blocked time entry
+     */
+    static async deleteBlockedTime(employeeId: string, blockId: string, userId: string): Promise<void> {
+        await this.findOwnedEmployee(employeeId, userId);
+
+        const result = await BlockedTime.findOneAndDelete({ _id: blockId, employeeId });
+        if (!result) {
+            throw new AppError('Blocked time not found', ERROR_CODES.NOT_FOUND);
+        }
+    }
+
+    private static async findOwnedEmployee(employeeId: string, userId: string): Promise<IEmployee> {
+        const employee = await Employee.findOne({ _id: employeeId, createdBy: userId, isDeleted: false });
+        if (!employee) {
+            throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        return employee;
+    }
+}
@@ -0,0 +1,358 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { Appointment, IAppointment, IAttendeeRecord } from '../../models/appointment/appointment.model';
+import { BadgeCounter } from '../../models/badgeCounter/badgeCounter.model';
+import { User } from '../../models/user/user.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { VisitorType } from '../../models/visitorType/visitorType.model';
+import { AttendeeService } from '../attendee/attendee.service';
+import { SettingsService } from '../settings/settings.service';
+import { VisitorPassService } from '../visitorPass/visitorPass.service';
+import { AppointmentStatus } from '../../types/appointment/appointment.types';
+import { BadgeSize, IBadgeBatchQuery, IBadgePrintQuery } from '../../types/badge/badge.types';
+import { ERROR_CODES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { isCloudinaryUrl } from '../../utils/cloudinary';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+const POINTS_PER_MM = 72 / 25.4;
+const POINTS_PER_INCH = 72;
+
+// 62mm rolls are cut at 100mm and printed portrait; 4x3in labels are landscape
+const PAGE_SIZES: Record<BadgeSize, [number, number]> = {
+    '62mm': [62 * POINTS_PER_MM, 100 * POINTS_PER_MM],
+    '4x3in': [4 * POINTS_PER_INCH, 3 * POINTS_PER_INCH]
+};
+
+const PRINTABLE_STATUSES: AppointmentStatus[] = ['approved', 'checked_in', 'in_meeting'];
+
+// Morning visits end at noon unless the batch asks otherwise
+const DEFAULT_BATCH_UNTIL = '12:00';
+const IMAGE_FETCH_TIMEOUT_MS = 5000;
+const TYPE_STRIPE_HEIGHT = 6;
+
+interface IBadgeContent {
+    badgeNumber: string;
+    visitorName: string;
+    visitorCompany: string;
+    hostName: string;
+    validUntil: Date;
+    companyName: string;
+    qrCode: Buffer;
+    photo?: Buffer;
+    badgeColor?: string; // Stripe across the top in the colour of the visitor type
+    logo?: Buffer;
+}
+
+/**
+ * Printable visitor badges and the per-company badge number sequence
+ */
+export class BadgeService {
+    /**
+     * Badges of everyone on an approved or on-site appointment, one page each
+     */
+    static async renderAppointmentBadges(appointmentId: string, userId: string, query: IBadgePrintQuery = {}): Promise<Buffer> {
+        await this.assignBadgeNumbers([appointmentId], userId);
+
+        const appointment = await Appointment.findOne({ _id: appointmentId, createdBy: userId, isDeleted: false })
+            .populate('employeeId', 'name');
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        const size = query.size ?? (await SettingsService.getBadgeSettings(userId)).defaultSize;
+        return this.renderPdf([appointment], userId, size);
+    }
+
+    /**
+     * Badges of every visitor on the approved appointments of a morning, in arrival order,
+     * so reception can print them the evening before
+     */
+    static async renderMorningBadges(userId: string, query: IBadgeBatchQuery = {}): Promise<Buffer> {
+        const day = AppointmentTimeUtil.startOfDay(query.date ?? AppointmentTimeUtil.addMinutes(new Date(), 24 * 60));
+        const nextDay = AppointmentTimeUtil.startOfDay(AppointmentTimeUtil.addMinutes(day, 36 * 60));
+        const until = AppointmentTimeUtil.getStartTime(day, query.until ?? DEFAULT_BATCH_UNTIL);
+
+        const candidates = await Appointment.find({
+            createdBy: userId,
+            status: 'approved',
+            isDeleted: false,
+            'appointmentDetails.scheduledDate': { $gte: day, $lt: nextDay }
+        })
+            .select('_id appointmentDetails')
+            .lean();
+
+        const morning = candidates
+            .map(appointment => ({
+                id: appointment._id.toString(),
+                start: AppointmentTimeUtil.getStartTime(appointment.appointmentDetails.scheduledDate, appointment.appointmentDetails.scheduledTime)
+            }))
+            .filter(appointment => appointment.start < until)
+            .sort((a, b) => a.start.getTime() - b.start.getTime());
+        if (morning.length === 0) {
+            throw new AppError('No approved visits to print badges for', ERROR_CODES.NOT_FOUND);
+        }
+
+        const ids = morning.map(appointment => appointment.id);
+        await this.assignBadgeNumbers(ids, userId);
+
+        const appointments = await Appointment.find({ _id: { $in: ids } }).populate('employeeId', 'name');
+        appointments.sort((a, b) => ids.indexOf((a._id as any).toString()) - ids.indexOf((b._id as any).toString()));
+
+        const size = query.size ?? (await SettingsService.getBadgeSettings(userId)).defaultSize;
+        return this.renderPdf(appointments, userId, size);
+    }
+
+    /**
+     * Give every visitor of the appointments who has no badge number yet the next ones
+     * of the company's sequence. The lead's number is the appointment's badge number.
+     */
+    @Transaction('Failed to assign badge numbers')
+    static async assignBadgeNumbers(appointmentIds: string[], userId: string, options: { session?: any } = {}): Promise<void> {
+        const { session } = options;
+
+        const appointments = await Appointment.find({ _id: { $in: appointmentIds }, createdBy: userId, isDeleted: false }).session(session);
+        if (appointments.length !== appointmentIds.length) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        for (const appointment of appointments) {
+            if (!PRINTABLE_STATUSES.includes(appointment.status)) {
+                throw new AppError('Badges can only be printed for approved appointments', ERROR_CODES.BAD_REQUEST);
+            }
+
+            AttendeeService.ensureLead(appointment);
+            const unnumbered = appointment.attendees.filter(attendee => !attendee.badgeNumber);
+            if (unnumbered.length === 0) {
+                continue;
+            }
+
+            for (const attendee of unnumbered) {
+                // The lead keeps a number security already typed in
+                const number = attendee.isLead && appointment.securityDetails.badgeNumber
+                    ? appointment.securityDetails.badgeNumber
+                    : await this.nextBadgeNumber(userId, session);
+                this.setBadgeNumber(appointment, attendee, number);
+            }
+            appointment.markModified('attendees');
+            await appointment.save({ session });
+        }
+    }
+
+    /**
+     * Hand a visitor their badge as they check in: the number typed in, else the one already
+     * printed for them, else the next of the sequence if the company assigns them.
+     * Does not save the document.
+     */
+    static async issueOnCheckIn(appointment: IAppointment, attendee: IAttendeeRecord, badgeNumber?: string, session?: any): Promise<void> {
+        let number = badgeNumber || attendee.badgeNumber;
+        if (!number) {
+            const companyId = appointment.createdBy.toString();
+            const { assignOnCheckIn } = await SettingsService.getBadgeSettings(companyId);
+            if (!assignOnCheckIn) {
+                return;
+            }
+            number = await this.nextBadgeNumber(companyId, session);
+        }
+
+        this.setBadgeNumber(appointment, attendee, number);
+        if (attendee.isLead) {
+            appointment.securityDetails.badgeIssued = true;
+        }
+        appointment.markModified('attendees');
+    }
+
+    /**
+     * Next badge number of the company's sequence, with its prefix and padding
+     */
+    static async nextBadgeNumber(companyId: string, session?: any): Promise<string> {
+        const { prefix, digits } = await SettingsService.getBadgeSettings(companyId);
+        const counter = await BadgeCounter.findOneAndUpdate(
+            { companyId },
+            { $inc: { lastNumber: 1 } },
+            { new: true, upsert: true, setDefaultsOnInsert: true, session }
+        );
+        return `${prefix}${String(counter.lastNumber).padStart(digits, '0')}`;
+    }
+
+    private static setBadgeNumber(appointment: IAppointment, attendee: IAttendeeRecord, number: string): void {
+        attendee.badgeNumber = number;
+        if (attendee.isLead) {
+            appointment.securityDetails.badgeNumber = number;
+        }
+    }
+
+    /**
+     * One page per visitor, the lead of each appointment first. The appointments must have
+     * their host populated.
+     */
+    private static async renderPdf(appointments: IAppointment[], companyId: string, size: BadgeSize): Promise<Buffer> {
+        const company = await User.findById(companyId).select('companyName profilePicture').lean();
+        const logo = await this.loadImage(company?.profilePicture);
+
+        const visitorIds = appointments.flatMap(appointment => appointment.attendees.map(attendee => attendee.visitorId));
+        const visitors = await Visitor.find({ _id: { $in: visitorIds } }).select('name company photo').lean();
+        const visitorsById = new Map(visitors.map(visitor => [visitor._id.toString(), visitor]));
+
+        const typeIds = appointments.map(appointment => appointment.visitorTypeId).filter(Boolean);
+        const types = await VisitorType.find({ _id: { $in: typeIds } }).select('badgeColor').lean();
+        const colorsByType = new Map(types.map(type => [type._id.toString(), type.badgeColor || undefined]));
+
+        const doc = new PDFDocument({ size: PAGE_SIZES[size], margin: 0, autoFirstPage: false });
+        const output = this.collect(doc);
+
+        for (const appointment of appointments) {
+            const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+            const validUntil = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration).end;
+            const attendees = [...appointment.attendees].sort((a, b) => Number(b.isLead) - Number(a.isLead));
+
+            for (const attendee of attendees) {
+                const visitorId = attendee.visitorId.toString();
+                const visitor = visitorsById.get(visitorId);
+                const pass = VisitorPassService.issuePass(appointment, visitorId);
+
+                doc.addPage({ size: PAGE_SIZES[size], margin: 0 });
+                this.drawBadge(doc, size, {
+                    badgeNumber: attendee.badgeNumber || '',
+                    visitorName: visitor?.name || '',
+                    visitorCompany: visitor?.company || '',
+                    hostName: (appointment.employeeId as any)?.name || '',
+                    validUntil,
+                    companyName: company?.companyName || '',
+                    qrCode: await QRCode.toBuffer(pass.token, { type: 'png', width: 300, margin: 1, errorCorrectionLevel: 'M' }),
+                    photo: await this.loadImage(visitor?.photo),
+                    logo,
+                    badgeColor: appointment.visitorTypeId ? colorsByType.get(appointment.visitorTypeId.toString()) : undefined
+                });
+            }
+        }
+
+        doc.end();
+        return output;
+    }
+
+    private static drawBadge(doc: PDFKit.PDFDocument, size: BadgeSize, badge: IBadgeContent): void {
+        const [width, height] = PAGE_SIZES[size];
+        const validUntil = `Valid until ${AppointmentTimeUtil.formatTime(badge.validUntil)}, ${AppointmentTimeUtil.formatDate(badge.validUntil)}`;
+
+        if (badge.badgeColor) {
+            doc.rect(0, 0, width, TYPE_STRIPE_HEIGHT).fillColor(badge.badgeColor).fill();
+            doc.fillColor('#000000');
+        }
+
+        if (size === '62mm') {
+            const margin = 8;
+            const inner = width - margin * 2;
+            const qrSize = 64;
+
+            this.drawHeader(doc, badge, margin, margin, inner, 26, 'center');
+            this.drawPhoto(doc, badge.photo, (width - 64) / 2, 40, 64, 76);
+
+            doc.font('Helvetica-Bold').fontSize(13).fillColor('#000000')
+                .text(badge.visitorName, margin, 120, { width: inner, align: 'center', height: 32, ellipsis: true });
+            doc.font('Helvetica').fontSize(9)
+                .text(badge.visitorCompany, margin, 154, { width: inner, align: 'center', lineBreak: false, ellipsis: true });
+            doc.fontSize(8)
+                .text(`Host: ${badge.hostName}`, margin, 167, { width: inner, align: 'center', lineBreak: false, ellipsis: true })
+                .text(validUntil, margin, 178, { width: inner, align: 'center', lineBreak: false });
+
+            doc.image(badge.qrCode, (width - qrSize) / 2, height - margin - qrSize - 13, { width: qrSize, height: qrSize });
+            doc.font('Helvetica-Bold').fontSize(10)
+                .text(badge.badgeNumber, margin, height - margin - 11, { width: inner, align: 'center', lineBreak: false });
+            return;
+        }
+
+        const margin = 10;
+        const qrSize = 78;
+        const photoWidth = 72;
+        const textX = margin + photoWidth + 10;
+        const textWidth = width - textX - margin;
+
+        this.drawHeader(doc, badge, margin, margin, width - margin * 2, 26, 'left');
+        this.drawPhoto(doc, badge.photo, margin, 44, photoWidth, 88);
+
+        doc.font('Helvetica-Bold').fontSize(15).fillColor('#000000')
+            .text(badge.visitorName, textX, 44, { width: textWidth, height: 36, ellipsis: true });
+        doc.font('Helvetica').fontSize(10)
+            .text(badge.visitorCompany, textX, 82, { width: textWidth, lineBreak: false, ellipsis: true });
+        doc.fontSize(9)
+            .text(`Host: ${badge.hostName}`, textX, 98, { width: textWidth - qrSize, lineBreak: false, ellipsis: true })
+            .text(validUntil, textX, 111, { width: textWidth - qrSize, lineBreak: false, ellipsis: true });
+
+        doc.image(badge.qrCode, width - margin - qrSize, height - margin - qrSize, { width: qrSize, height: qrSize });
+        doc.font('Helvetica-Bold').fontSize(13)
+            .text(badge.badgeNumber, margin, height - margin - 15, { width: width - qrSize - margin * 3, lineBreak: false });
+    }
+
+    /**
+     * The company logo, or its name when there is no logo to show
+     */
+    private static drawHeader(
+        doc: PDFKit.PDFDocument,
+        badge: IBadgeContent,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        align: 'left' | 'center'
+    ): void {
+        if (badge.logo) {
+            try {
+                doc.image(badge.logo, x, y, { fit: [width, height], align: align === 'center' ? 'center' : undefined, valign: 'center' });
+                return;
+            } catch (error) {
+                console.error('Failed to draw company logo on badge:', error);
+            }
+        }
+        doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000')
+            .text(badge.companyName, x, y + (height - 11) / 2, { width, align, lineBreak: false, ellipsis: true });
+    }
+
+    private static drawPhoto(doc: PDFKit.PDFDocument, photo: Buffer | undefined, x: number, y: number, width: number, height: number): void {
+        if (photo) {
+            try {
+                doc.image(photo, x, y, { fit: [width, height], align: 'center', valign: 'center' });
+                return;
+            } catch (error) {
+                console.error('Failed to draw visitor photo on badge:', error);
+            }
+        }
+        doc.lineWidth(0.5).strokeColor('#999999').rect(x, y, width, height).stroke();
+        doc.font('Helvetica').fontSize(7).fillColor('#999999')
+            .text('No photo', x, y + height / 2 - 4, { width, align: 'center', lineBreak: false });
+        doc.fillColor('#000000');
+    }
+
+    /**
+     * Download a photo or logo for the badge. Only files uploaded to the app's own storage are
+     * fetched: photo URLs can come from public forms. PDF badges can only embed PNG and JPEG;
+     * anything else, or a download that fails, leaves the image out.
+     */
+    private static async loadImage(url?: string): Promise<Buffer | undefined> {
+        if (!url || !isCloudinaryUrl(url)) {
+            return undefined;
+        }
+
+        try {
+            const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+            const contentType = response.headers.get('content-type') || '';
+            if (!response.ok || !/^image\/(png|jpe?g)/.test(contentType)) {
+                return undefined;
+            }
+            return Buffer.from(await response.arrayBuffer());
+        } catch (error) {
+            console.error(`Failed to load badge image ${url}:`, error);
+            return undefined;
+        }
+    }
+
+    private static collect(doc: PDFKit.PDFDocument): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+        });
+    }
+}
@@ -0,0 +1,288 @@
+import { Broadcast, IBroadcast, IBroadcastRecipient } from '../../models/broadcast/broadcast.model';
+import { Employee } from '../../models/employee/employee.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { OnSiteService } from '../onSite/onSite.service';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+    ISendBroadcastDTO,
+    IGetBroadcastsQuery,
+    IBroadcastResponse,
+    IBroadcastListResponse,
+    IBroadcastAcknowledgementResponse,
+    IBroadcastDelivery,
+    IBroadcastStats,
+    BroadcastChannel,
+    BroadcastRecipientType
+} from '../../types/broadcast/broadcast.types';
+import { ERROR_CODES, BROADCAST_SEND_BATCH_SIZE } from '../../utils/constants';
+import { TokenUtil } from '../../utils/token.util';
+import { AppError } from '../../middlewares/errorHandler';
+
+interface IPendingRecipient {
+    type: BroadcastRecipientType;
+    refId: string;
+    name: string;
+    email?: string;
+    phone?: string;
+}
+
+/**
+ * Emergency broadcasts: one message to every visitor on site, their hosts and optionally
+ * every employee, on each enabled channel. Each recipient acknowledges it from their own link.
+ */
+export class BroadcastService {
+    /**
+     * Send a broadcast and record, per recipient, which channels reached them
+     */
+    static async sendBroadcast(broadcastData: ISendBroadcastDTO, userId: string): Promise<IBroadcastResponse> {
+        const channels: BroadcastChannel[] = [];
+        if (await SettingsService.isEmailEnabled(userId)) {
+            channels.push('email');
+        }
+        if (await SettingsService.isWhatsAppEnabled(userId)) {
+            channels.push('whatsapp');
+        }
+        if (channels.length === 0) {
+            throw new AppError('Email and WhatsApp notifications are both turned off in settings', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const pending = await this.collectRecipients(userId, broadcastData.site, !!broadcastData.includeEmployees);
+        if (pending.length === 0) {
+            throw new AppError('There is nobody to send this broadcast to', ERROR_CODES.BAD_REQUEST);
+        }
+
+        // The record is kept before anything is sent, so an interrupted broadcast still shows who it was for
+        const tokens = pending.map(() => TokenUtil.generateToken());
+        const broadcast = await Broadcast.create({
+            subject: broadcastData.subject,
+            message: broadcastData.message,
+            site: broadcastData.site || null,
+            includeEmployees: !!broadcastData.includeEmployees,
+            channels,
+            recipients: pending.map((recipient, index) => ({ ...recipient, tokenHash: TokenUtil.hashToken(tokens[index]) })),
+            createdBy: userId
+        });
+
+        for (let start = 0; start < broadcast.recipients.length; start += BROADCAST_SEND_BATCH_SIZE) {
+            const batch = broadcast.recipients.slice(start, start + BROADCAST_SEND_BATCH_SIZE);
+            const results = await Promise.all(batch.map((recipient, offset) =>
+                this.deliver(broadcast, recipient, tokens[start + offset], channels)
+            ));
+
+            // Pushed one by one so acknowledgements arriving meanwhile are kept
+            await Broadcast.bulkWrite(batch.map((recipient, offset) => ({
+                updateOne: {
+                    filter: { _id: broadcast._id, 'recipients._id': recipient._id },
+                    update: { $push: { 'recipients.$.deliveries': { $each: results[offset] } } }
+                }
+            })));
+        }
+
+        return this.getBroadcast((broadcast._id as any).toString(), userId);
+    }
+
+    /**
+     * Broadcast history, latest first, without the recipient lists
+     */
+    static async getBroadcasts(query: IGetBroadcastsQuery = {}, userId: string): Promise<IBroadcastListResponse> {
+        const { page = 1, limit = 10 } = query;
+
+        const filter = { createdBy: userId };
+        const skip = (page - 1) * limit;
+        const [broadcasts, totalBroadcasts] = await Promise.all([
+            Broadcast.find(filter)
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .lean(),
+            Broadcast.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalBroadcasts / limit);
+
+        return {
+            broadcasts: broadcasts.map(broadcast => {
+                const { recipients, ...rest } = this.toResponse(broadcast);
+                return rest;
+            }),
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalBroadcasts,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    /**
+     * A broadcast with the delivery and acknowledgement of each recipient
+     */
+    static async getBroadcast(broadcastId: string, userId: string): Promise<IBroadcastResponse> {
+        const broadcast = await Broadcast.findOne({ _id: broadcastId, createdBy: userId }).lean();
+        if (!broadcast) {
+            throw new AppError('Broadcast not found', ERROR_CODES.NOT_FOUND);
+        }
+        return this.toResponse(broadcast);
+    }
+
+    /**
+     * Record an acknowledgement given some other way, e.g. in person or over the phone
+     */
+    static async acknowledgeRecipient(broadcastId: string, recipientId: string, userId: string): Promise<IBroadcastResponse> {
+        const updated = await Broadcast.findOneAndUpdate(
+            {
+                _id: broadcastId,
+                createdBy: userId,
+                recipients: { $elemMatch: { _id: recipientId, acknowledgedAt: null } }
+            },
+            {
+                $set: {
+                    'recipients.$.acknowledgedAt': new Date(),
+                    'recipients.$.acknowledgedVia': 'manual',
+                    'recipients.$.acknowledgedBy': userId
+                }
+            },
+            { new: true }
+        ).lean();
+        if (updated) {
+            return this.toResponse(updated);
+        }
+
+        // Nothing was updated: say why
+        const existing = await this.getBroadcast(broadcastId, userId);
+        if (!existing.recipients.some(recipient => recipient._id === recipientId)) {
+            throw new AppError('Recipient not found on this broadcast', ERROR_CODES.NOT_FOUND);
+        }
+        throw new AppError('This recipient has already acknowledged the broadcast', ERROR_CODES.CONFLICT);
+    }
+
+    /**
+     * The broadcast as its recipient sees it from their link
+     */
+    static async getAcknowledgement(token: string): Promise<IBroadcastAcknowledgementResponse> {
+        const broadcast = await Broadcast.findOne({ 'recipients.tokenHash': TokenUtil.hashToken(token) }).lean();
+        if (!broadcast) {
+            throw new AppError('Broadcast not found', ERROR_CODES.NOT_FOUND);
+        }
+        return this.toAcknowledgement(broadcast, token);
+    }
+
+    /**
+     * Record that the recipient of the link received the broadcast. Acknowledging twice is harmless.
+     */
+    static async acknowledge(token: string): Promise<IBroadcastAcknowledgementResponse> {
+        const tokenHash = TokenUtil.hashToken(token);
+        const updated = await Broadcast.findOneAndUpdate(
+            { recipients: { $elemMatch: { tokenHash, acknowledgedAt: null } } },
+            {
+                $set: {
+                    'recipients.$.acknowledgedAt': new Date(),
+                    'recipients.$.acknowledgedVia': 'link'
+                }
+            },
+            { new: true }
+        ).lean();
+
+        return updated ? this.toAcknowledgement(updated, token) : this.getAcknowledgement(token);
+    }
+
+    /**
+     * Visitors on site (or at the site), their hosts and, when asked, every active employee.
+     * Everyone is listed once; an employee hosting a visitor is listed as a host.
+     */
+    private static async collectRecipients(userId: string, site: string | undefined, includeEmployees: boolean): Promise<IPendingRecipient[]> {
+        const onSite = await OnSiteService.listOnSite(userId, site);
+        const visitorIds = [...new Set(onSite.map(entry => entry.visitor._id.toString()))];
+        const hostIds = [...new Set(onSite.filter(entry => entry.host).map(entry => entry.host!._id.toString()))];
+
+        const [visitors, hosts, employees] = await Promise.all([
+            Visitor.find({ _id: { $in: visitorIds } }).select('name email phone').lean(),
+            Employee.find({ _id: { $in: hostIds }, isDeleted: false }).select('name email phone').lean(),
+            includeEmployees
+                ? Employee.find({ createdBy: userId, status: 'Active', isDeleted: false, _id: { $nin: hostIds } }).select('name email phone').lean()
+                : Promise.resolve([])
+        ]);
+
+        const toRecipient = (type: BroadcastRecipientType) => (contact: any): IPendingRecipient => ({
+            type,
+            refId: contact._id.toString(),
+            name: contact.name,
+            email: contact.email || undefined,
+            phone: contact.phone || undefined
+        });
+
+        return [
+            ...visitors.map(toRecipient('visitor')),
+            ...hosts.map(toRecipient('host')),
+            ...employees.map(toRecipient('employee'))
+        ];
+    }
+
+    private static async deliver(
+        broadcast: IBroadcast,
+        recipient: IBroadcastRecipient,
+        token: string,
+        channels: BroadcastChannel[]
+    ): Promise<IBroadcastDelivery[]> {
+        const acknowledgeUrl = TokenUtil.buildUrl(`acknowledge/${token}`);
+        const deliveries: IBroadcastDelivery[] = [];
+
+        if (channels.includes('email') && recipient.email) {
+            const success = await EmailService.sendEmergencyBroadcastEmail(
+                recipient.email,
+                recipient.name,
+                broadcast.subject,
+                broadcast.message,
+                acknowledgeUrl
+            );
+            deliveries.push({ channel: 'email', success, sentAt: new Date() });
+        }
+        if (channels.includes('whatsapp') && recipient.phone) {
+            const success = await WhatsAppService.sendEmergencyBroadcast(
+                recipient.phone,
+                recipient.name,
+                broadcast.subject,
+                broadcast.message,
+                acknowledgeUrl
+            );
+            deliveries.push({ channel: 'whatsapp', success, sentAt: new Date() });
+        }
+
+        return deliveries;
+    }
+
+    private static toResponse(broadcast: any): IBroadcastResponse {
+        const recipients = (broadcast.recipients as IBroadcastRecipient[]).map(({ tokenHash, acknowledgedBy, ...recipient }) => ({
+            ...recipient,
+            _id: recipient._id!.toString(),
+            refId: recipient.refId.toString()
+        }));
+
+        const delivered = recipients.filter(recipient => recipient.deliveries.some(delivery => delivery.success)).length;
+        const stats: IBroadcastStats = {
+            totalRecipients: recipients.length,
+            delivered,
+            undelivered: recipients.length - delivered,
+            acknowledged: recipients.filter(recipient => recipient.acknowledgedAt).length
+        };
+
+        return { ...broadcast, _id: broadcast._id.toString(), createdBy: broadcast.createdBy.toString(), recipients, stats };
+    }
+
+    private static toAcknowledgement(broadcast: any, token: string): IBroadcastAcknowledgementResponse {
+        const tokenHash = TokenUtil.hashToken(token);
+        const recipient = (broadcast.recipients as IBroadcastRecipient[]).find(entry => entry.tokenHash === tokenHash)!;
+
+        return {
+            subject: broadcast.subject,
+            message: broadcast.message,
+            sentAt: broadcast.createdAt,
+            recipientName: recipient.name,
+            acknowledgedAt: recipient.acknowledgedAt ?? null
+        };
+    }
+
+}
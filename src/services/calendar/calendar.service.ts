@@ -0,0 +1,200 @@
+import { Appointment } from '../../models/appointment/appointment.model';
+import { Employee, IEmployee } from '../../models/employee/employee.model';
+import { User } from '../../models/user/user.model';
+import { EmailService, IEmailAttachment } from '../email/email.service';
+import { SettingsService } from '../settings/settings.service';
+import { IEmployeeCalendarFeed } from '../../types/employee/employee.types';
+import { CONSTANTS, ERROR_MESSAGES, ERROR_CODES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { TransactionUtil } from '../../utils/transaction.util';
+import { TokenUtil } from '../../utils/token.util';
+import { ICalUtil, ICalendarEvent, CalendarMethod } from '../../utils/ical.util';
+import { AppError } from '../../middlewares/errorHandler';
+
+// Window of approved appointments published in the feed
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+
+export class CalendarService {
+    /**
+     * Get the iCalendar feed URL of an employee, creating its token on first use
+     */
+    static async getFeedLink(employeeId: string, userId: string): Promise<IEmployeeCalendarFeed> {
+        const employee = await this.findOwnedEmployee(employeeId, userId);
+
+        if (!employee.calendarToken) {
+            employee.calendarToken = TokenUtil.generateToken();
+            await employee.save();
+        }
+
+        return { feedUrl: this.buildFeedUrl(employee) };
+    }
+
+    /**
+     * Replace the feed token; subscriptions using the old URL stop working
+     */
+    static async rotateFeedToken(employeeId: string, userId: string): Promise<IEmployeeCalendarFeed> {
+        const employee = await this.findOwnedEmployee(employeeId, userId);
+
+        employee.calendarToken = TokenUtil.generateToken();
+        await employee.save();
+
+        return { feedUrl: this.buildFeedUrl(employee) };
+    }
+
+    /**
+     * iCalendar feed of an employee's approved appointments, authorised by the feed token
+     */
+    static async getEmployeeFeed(employeeId: string, token: string): Promise<string> {
+        const employee = await Employee.findOne({ _id: employeeId, calendarToken: token, isDeleted: false });
+        if (!employee) {
+            throw new AppError('Calendar feed not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        const today = AppointmentTimeUtil.startOfDay(new Date());
+        const rangeStart = new Date(today);
+        rangeStart.setDate(rangeStart.getDate() - FEED_PAST_DAYS);
+        const rangeEnd = new Date(today);
+        rangeEnd.setDate(rangeEnd.getDate() + FEED_FUTURE_DAYS);
+
+        const appointments = await Appointment.find({
+            employeeId,
+            status: 'approved',
+            isDeleted: false,
+            'appointmentDetails.scheduledDate': { $gte: rangeStart, $lt: rangeEnd }
+        })
+            .populate('visitorId', 'name email phone company')
+            .sort({ 'appointmentDetails.scheduledDate': 1, 'appointmentDetails.scheduledTime': 1 })
+            .lean();
+
+        return ICalUtil.build(
+            appointments.map(appointment => this.toCalendarEvent(appointment)),
+            { name: `${employee.name} - Visitors` }
+        );
+    }
+
+    /**
+     * Map an appointment (with populated visitor) to a calendar event
+     */
+    static toCalendarEvent(appointment: any): ICalendarEvent {
+        const { scheduledDate, scheduledTime, duration, purpose, meetingRoom, notes } = appointment.appointmentDetails;
+        const visitor = appointment.visitorId || {};
+        const host = appointment.employeeId?.name;
+        const window = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
+
+        const description = [
+            `Purpose: ${purpose}`,
+            `Visitor: ${visitor.name || 'Unknown'}${visitor.company ? ` (${visitor.company})` : ''}`,
+            host ? `Host: ${host}` : null,
+            visitor.phone ? `Phone: ${visitor.phone}` : null,
+            visitor.email ? `Email: ${visitor.email}` : null,
+            meetingRoom ? `Room: ${meetingRoom}` : null,
+            notes ? `Notes: ${notes}` : null,
+            `Appointment ID: ${appointment.appointmentId}`
+        ].filter(Boolean).join('\n');
+
+        return {
+            uid: `${appointment._id.toString()}@safein`,
+            start: window.start,
+            end: window.end,
+            summary: `Visitor: ${visitor.name || 'Unknown'} - ${purpose}`,
+            description,
+            location: meetingRoom || undefined,
+            sequence: appointment.calendarSequence || 0,
+            lastModified: appointment.updatedAt ? new Date(appointment.updatedAt) : undefined
+        };
+    }
+
+    /**
+     * Build the calendar invite (METHOD:REQUEST) or its cancellation (METHOD:CANCEL) of an
+     * appointment with populated employee and visitor
+     */
+    static async buildInviteAttachment(appointment: any, method: Exclude<CalendarMethod, 'PUBLISH'>): Promise<IEmailAttachment> {
+        const company = await User.findById(appointment.createdBy).select('companyName').lean();
+        const employee = appointment.employeeId;
+        const visitor = appointment.visitorId;
+        const event = this.toCalendarEvent(appointment);
+
+        event.summary = `${appointment.appointmentDetails.purpose} - ${visitor.name} with ${employee.name}`;
+        event.location = [appointment.appointmentDetails.meetingRoom, company?.companyName].filter(Boolean).join(', ') || undefined;
+        event.status = method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED';
+        event.organizer = {
+            name: company?.companyName || 'SafeIn',
+            email: process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER || 'no-reply@safein.app'
+        };
+        event.attendees = [
+            { name: employee.name, email: employee.email, role: 'CHAIR' },
+            ...(visitor.email ? [{ name: visitor.name, email: visitor.email }] : [])
+        ];
+
+        return {
+            filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+            content: ICalUtil.build([event], { method }),
+            contentType: `text/calendar; charset=utf-8; method=${method}`
+        };
+    }
+
+    /**
+     * Send visitor and host the updated invite (next SEQUENCE) or the cancellation of an
+     * appointment once the session's transaction commits, so nothing goes out for changes
+     * that are rolled back. Does nothing unless an invite was sent on approval.
+     * Failures are logged, not thrown.
+     */
+    static async sendInviteUpdate(appointmentId: string, method: Exclude<CalendarMethod, 'PUBLISH'>, session?: any): Promise<void> {
+        try {
+            const appointment: any = await Appointment.findOneAndUpdate(
+                { _id: appointmentId, 'notifications.calendarInviteSent': true },
+                { $inc: { calendarSequence: 1 } },
+                { new: true, session }
+            )
+                .populate('employeeId', 'name email')
+                .populate('visitorId', 'name email phone company');
+
+            if (appointment) {
+                await TransactionUtil.afterCommit(session, () => this.deliverInviteUpdate(appointment, method));
+            }
+        } catch (error) {
+            console.error('Failed to send calendar update:', error);
+        }
+    }
+
+    /**
+     * Email the invite update of an appointment with populated employee and visitor
+     */
+    private static async deliverInviteUpdate(appointment: any, method: Exclude<CalendarMethod, 'PUBLISH'>): Promise<void> {
+        try {
+            if (!(await SettingsService.isEmailEnabled(appointment.createdBy.toString()))) {
+                return;
+            }
+
+            const attachment = await this.buildInviteAttachment(appointment, method);
+            const { scheduledDate, scheduledTime, meetingRoom } = appointment.appointmentDetails;
+            const cancelled = method === 'CANCEL';
+            const employee = appointment.employeeId;
+            const visitor = appointment.visitorId;
+
+            if (visitor.email) {
+                await EmailService.sendAppointmentCalendarUpdateEmail(
+                    visitor.email, visitor.name, employee.name, scheduledDate, scheduledTime, cancelled, meetingRoom, [attachment]
+                );
+            }
+            await EmailService.sendAppointmentCalendarUpdateEmail(
+                employee.email, employee.name, visitor.name, scheduledDate, scheduledTime, cancelled, meetingRoom, [attachment]
+            );
+        } catch (error) {
+            console.error('Failed to send calendar update:', error);
+        }
+    }
+
+    private static buildFeedUrl(employee: IEmployee): string {
+        return TokenUtil.buildUrl(`employees/${employee._id}/calendar.ics?token=${employee.calendarToken}`, CONSTANTS.API_BASE_URL);
+    }
+
+    private static async findOwnedEmployee(employeeId: string, userId: string): Promise<IEmployee> {
+        const employee = await Employee.findOne({ _id: employeeId, createdBy: userId, isDeleted: false }).select('+calendarToken');
+        if (!employee) {
+            throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        return employee;
+    }
+}
@@ -0,0 +1,224 @@
+import { Employee, IEmployee } from '../../models/employee/employee.model';
+import { Appointment, IAppointment } from '../../models/appointment/appointment.model';
+import { BlockedTime } from '../../models/blockedTime/blockedTime.model';
+import { ApprovalLinkService } from '../approvalLink/approvalLink.service';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { IEmployeeResponse, ISetDelegationDTO } from '../../types/employee/employee.types';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { TransactionUtil } from '../../utils/transaction.util';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+interface IStandInApprover {
+    employee: IEmployee;
+    asDelegate: boolean; // False for department fallback approvers
+}
+
+/**
+ * Approval delegation: employees hand their approvals to a colleague while away,
+ * and department fallback approvers step in for hosts who are away without one.
+ */
+export class DelegationService {
+    /**
+     * Set the employee's delegate. If the delegation is already in effect, the delegate
+     * also gets links for the requests still waiting on the employee.
+     */
+    @Transaction('Failed to set delegation')
+    static async setDelegation(employeeId: string, delegationData: ISetDelegationDTO, userId: string, options: { session?: any } = {}): Promise<IEmployeeResponse> {
+        const { session } = options;
+
+        const employee = await Employee.findOne({ _id: employeeId, createdBy: userId, isDeleted: false }).session(session);
+        if (!employee) {
+            throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        if ((employee._id as any).toString() === delegationData.delegateId) {
+            throw new AppError('An employee cannot delegate to themselves', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const delegate = await Employee.findOne({ _id: delegationData.delegateId, createdBy: userId, isDeleted: false }).session(session);
+        if (!delegate) {
+            throw new AppError('Delegate not found', ERROR_CODES.NOT_FOUND);
+        }
+        if (delegate.status === 'Inactive') {
+            throw new AppError('Delegate is inactive. Please select an active employee.', ERROR_CODES.BAD_REQUEST);
+        }
+
+        employee.set('delegation', {
+            delegateId: delegate._id,
+            startDate: delegationData.startDate ? new Date(delegationData.startDate) : null,
+            endDate: delegationData.endDate ? new Date(delegationData.endDate) : null,
+            reason: delegationData.reason
+        });
+        await employee.save({ session });
+
+        if (this.isDelegationActive(employee)) {
+            await this.forwardPendingApprovals(employee, userId, session);
+        }
+
+        return employee.toObject() as unknown as IEmployeeResponse;
+    }
+
+    /**
+     * Remove the employee's delegate. Links already sent to the delegate keep working
+     * until the request is decided.
+     */
+    static async clearDelegation(employeeId: string, userId: string): Promise<IEmployeeResponse> {
+        const employee = await Employee.findOneAndUpdate(
+            { _id: employeeId, createdBy: userId, isDeleted: false },
+            { $set: { delegation: null } },
+            { new: true }
+        );
+        if (!employee) {
+            throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        return employee.toObject() as unknown as IEmployeeResponse;
+    }
+
+    /**
+     * Send an approval link to whoever stands in for the host of a pending appointment:
+     * their active delegate, or else the department fallback approvers if the host is away.
+     * Pass the host when the caller already holds it with unsaved or uncommitted changes.
+     * The links are sent once the session's transaction commits. Returns the number of people notified.
+     */
+    static async notifyStandInApprovers(appointmentId: string, companyId: string, session?: any, host?: IEmployee): Promise<number> {
+        const appointment = await Appointment.findOne({ _id: appointmentId, status: 'pending', isDeleted: false })
+            .populate('visitorId', 'name')
+            .session(session);
+        // Stand-ins only act for the host, so not once an approval chain has moved past the host's step
+        if (!appointment || appointment.approvalChain?.currentStep) {
+            return 0;
+        }
+
+        const appointmentHost = host || await Employee.findById(appointment.employeeId).session(session);
+        if (!appointmentHost) {
+            return 0;
+        }
+
+        const approvers = await this.resolveStandInApprovers(appointmentHost, companyId, new Date(), session);
+        let notified = 0;
+        for (const { employee, asDelegate } of approvers) {
+            try {
+                const approvalLink = await ApprovalLinkService.createApprovalLink(
+                    appointmentId,
+                    { approverId: (employee._id as any).toString(), onBehalfOf: (appointmentHost._id as any).toString() },
+                    session
+                );
+                // Stand-ins who already hold a working link are not asked again
+                if (approvalLink) {
+                    await TransactionUtil.afterCommit(session, () => this.sendStandInRequest(appointment, appointmentHost, employee, asDelegate, approvalLink.link));
+                    notified++;
+                }
+            } catch (error) {
+                console.error(`Failed to notify stand-in approver ${employee._id} for appointment ${appointmentId}:`, error);
+            }
+        }
+
+        return notified;
+    }
+
+    /**
+     * Email and WhatsApp a stand-in approver their link, as the company's settings allow.
+     * The appointment must have its visitor populated.
+     */
+    static async sendStandInRequest(
+        appointment: IAppointment,
+        host: IEmployee,
+        approver: IEmployee,
+        asDelegate: boolean,
+        link: string
+    ): Promise<void> {
+        const companyId = appointment.createdBy.toString();
+        const visitorName = (appointment.visitorId as any)?.name || 'A visitor';
+        const { scheduledDate, scheduledTime, purpose } = appointment.appointmentDetails;
+
+        if (approver.email && await SettingsService.isEmailEnabled(companyId)) {
+            await EmailService.sendDelegatedApprovalRequestEmail(
+                approver.email,
+                approver.name,
+                host.name,
+                visitorName,
+                scheduledDate,
+                scheduledTime,
+                purpose,
+                link,
+                asDelegate
+            );
+        }
+        if (approver.phone && await SettingsService.isWhatsAppEnabled(companyId)) {
+            await WhatsAppService.sendDelegatedApprovalRequest(
+                approver.phone,
+                approver.name,
+                host.name,
+                visitorName,
+                scheduledDate,
+                scheduledTime,
+                link
+            );
+        }
+    }
+
+    /**
+     * The host's delegate while the delegation is in effect; otherwise, if the host is away
+     * (inactive or in blocked time), the fallback approvers of their department
+     */
+    private static async resolveStandInApprovers(host: IEmployee, companyId: string, at: Date, session?: any): Promise<IStandInApprover[]> {
+        if (host.delegation && this.isDelegationActive(host, at)) {
+            const delegate = await Employee.findOne({ _id: host.delegation.delegateId, isDeleted: false, status: 'Active' }).session(session);
+            if (delegate) {
+                return [{ employee: delegate, asDelegate: true }];
+            }
+        }
+
+        const away = host.status === 'Inactive'
+            || await BlockedTime.exists({ employeeId: host._id, start: { $lte: at }, end: { $gt: at } }).session(session);
+        if (!away) {
+            return [];
+        }
+
+        const { fallbackApprovers } = await SettingsService.getApprovalSettings(companyId);
+        const department = host.department.toLowerCase();
+        const entry = fallbackApprovers.find(approver => approver.department.toLowerCase() === department);
+        if (!entry) {
+            return [];
+        }
+
+        const employees = await Employee.find({
+            _id: { $in: entry.employeeIds, $ne: host._id },
+            createdBy: companyId,
+            isDeleted: false,
+            status: 'Active'
+        }).session(session);
+
+        return employees.map(employee => ({ employee, asDelegate: false }));
+    }
+
+    private static isDelegationActive(employee: IEmployee, at: Date = new Date()): boolean {
+        const { delegation } = employee;
+        if (!delegation?.delegateId) {
+            return false;
+        }
+        return (!delegation.startDate || delegation.startDate <= at) && (!delegation.endDate || delegation.endDate > at);
+    }
+
+    /**
+     * Send the delegate links for the employee's upcoming requests that are still pending
+     */
+    private static async forwardPendingApprovals(employee: IEmployee, companyId: string, session?: any): Promise<void> {
+        const pending = await Appointment.find({
+            employeeId: employee._id,
+            status: 'pending',
+            isDeleted: false,
+            'appointmentDetails.scheduledDate': { $gte: AppointmentTimeUtil.startOfDay(new Date()) }
+        })
+            .select('_id')
+            .session(session)
+            .lean();
+
+        for (const appointment of pending) {
+            await this.notifyStandInApprovers(appointment._id.toString(), companyId, session, employee);
+        }
+    }
+}
@@ -19,6 +19,57 @@ import {
   getPasswordResetEmailTemplate, 
   getPasswordResetEmailText 
 } from '../../templates/email/password-reset-email.template';
+import {
+  getAppointmentCalendarUpdateEmailTemplate,
+  getAppointmentCalendarUpdateEmailText
+} from '../../templates/email/appointment-calendar-update-email.template';
+import {
+  getRescheduleProposalEmailTemplate,
+  getRescheduleProposalEmailText,
+  getRescheduleResponseEmailTemplate,
+  getRescheduleResponseEmailText
+} from '../../templates/email/appointment-reschedule-email.template';
+import {
+  getAppointmentReminderEmailTemplate,
+  getAppointmentReminderEmailText
+} from '../../templates/email/appointment-reminder-email.template';
+import {
+  getVisitorArrivalEmailTemplate,
+  getVisitorArrivalEmailText
+} from '../../templates/email/visitor-arrival-email.template';
+import {
+  getVisitorInvitationEmailTemplate,
+  getVisitorInvitationEmailText
+} from '../../templates/email/visitor-invitation-email.template';
+import {
+  getDelegatedApprovalRequestEmailTemplate,
+  getDelegatedApprovalRequestEmailText
+} from '../../templates/email/delegated-approval-request-email.template';
+import {
+  getApprovalStepRequestEmailTemplate,
+  getApprovalStepRequestEmailText
+} from '../../templates/email/approval-step-request-email.template';
+import { getVisitorPassEmailTemplate, getVisitorPassEmailText } from '../../templates/email/visitor-pass-email.template';
+import {
+  getEmergencyBroadcastEmailTemplate,
+  getEmergencyBroadcastEmailText
+} from '../../templates/email/emergency-broadcast-email.template';
+import {
+  getWatchlistAlertEmailTemplate,
+  getWatchlistAlertEmailText
+} from '../../templates/email/watchlist-alert-email.template';
+import {
+  getOverstayAlertEmailTemplate,
+  getOverstayAlertEmailText
+} from '../../templates/email/overstay-alert-email.template';
+import { IAppointmentReminderDetails } from '../../types/appointment/appointment.types';
+import { IOverstayAlertDetails } from '../../types/onSite/onSite.types';
+
+export interface IEmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType: string;
+}
 
 export class EmailService {
   private static transporter: nodemailer.Transporter;
@@ -115,7 +166,7 @@ export class EmailService {
   /**
    * Send email using Brevo API
    */
-  private static async sendWithBrevo(mail: { to: string; subject: string; html: string; from?: string; text?: string; fromName?: string }) {
+  private static async sendWithBrevo(mail: { to: string; subject: string; html: string; from?: string; text?: string; fromName?: string; attachments?: IEmailAttachment[] }) {
     if (!process.env.BREVO_API_KEY) throw new Error('BREVO_API_KEY not set');
     
     const fromEmail = mail.from || process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER || 'no-reply@safein.app';
@@ -140,6 +191,12 @@ export class EmailService {
         subject: mail.subject,
         htmlContent: mail.html,
         textContent: mail.text || mail.html.replace(/<[^>]*>/g, ''), // Fallback to plain text from HTML
+        ...(mail.attachments?.length && {
+          attachment: mail.attachments.map(attachment => ({
+            name: attachment.filename,
+            content: Buffer.from(attachment.content).toString('base64'),
+          })),
+        }),
       }),
     });
     
@@ -164,8 +221,9 @@ export class EmailService {
     from?: string;
     fromName?: string;
     logMessage?: string;
+    attachments?: IEmailAttachment[];
   }): Promise<void> {
-    const { to, subject, html, text, from, fromName, logMessage } = options;
+    const { to, subject, html, text, from, fromName, logMessage, attachments } = options;
 
     // Priority 1: Use Brevo API if BREVO_API_KEY is set and not disabled
     if (process.env.BREVO_API_KEY && !this.brevoApiDisabled) {
@@ -177,6 +235,7 @@ export class EmailService {
           text,
           from,
           fromName: fromName || process.env.SMTP_FROM_NAME || 'SafeIn Security Management',
+          attachments,
         });
         console.log(`✓ ${logMessage || 'Email'} sent via Brevo API`);
         return;
@@ -201,6 +260,7 @@ export class EmailService {
           html,
           text,
           from,
+          attachments,
         });
         console.log(`✓ ${logMessage || 'Email'} sent via Resend API`);
         return;
@@ -224,6 +284,11 @@ export class EmailService {
       subject,
       html,
       text: text || html.replace(/<[^>]*>/g, ''),
+      attachments: attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        contentType: attachment.contentType,
+      })),
     };
 
     try {
@@ -248,7 +313,7 @@ export class EmailService {
     }
   }
 
-  private static async sendWithResend(mail: { to: string; subject: string; html: string; from?: string; text?: string }) {
+  private static async sendWithResend(mail: { to: string; subject: string; html: string; from?: string; text?: string; attachments?: IEmailAttachment[] }) {
     if (!process.env.RESEND_API_KEY) throw new Error('RESEND_API_KEY not set');
     const res = await fetch('https://api.resend.com/emails', {
       method: 'POST',
@@ -262,6 +327,12 @@ export class EmailService {
         subject: mail.subject,
         html: mail.html,
         text: mail.text,
+        ...(mail.attachments?.length && {
+          attachments: mail.attachments.map(attachment => ({
+            filename: attachment.filename,
+            content: Buffer.from(attachment.content).toString('base64'),
+          })),
+        }),
       }),
     });
     if (!res.ok) {
@@ -319,15 +390,19 @@ export class EmailService {
     visitorName: string,
     employeeName: string,
     scheduledDate: Date,
-    scheduledTime: string
+    scheduledTime: string,
+    attachments?: IEmailAttachment[],
+    manageUrl?: string,
+    passUrl?: string
   ): Promise<void> {
     try {
       await this.sendEmail({
         to: visitorEmail,
         subject: 'Appointment Approved - SafeIn',
-        html: getAppointmentApprovalEmailTemplate(visitorName, employeeName, scheduledDate, scheduledTime),
-        text: getAppointmentApprovalEmailText(visitorName, employeeName, scheduledDate, scheduledTime),
+        html: getAppointmentApprovalEmailTemplate(visitorName, employeeName, scheduledDate, scheduledTime, manageUrl, passUrl),
+        text: getAppointmentApprovalEmailText(visitorName, employeeName, scheduledDate, scheduledTime, manageUrl, passUrl),
         fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        attachments,
         logMessage: 'Appointment approval email',
       });
     } catch (error: any) {
@@ -343,14 +418,15 @@ export class EmailService {
     visitorName: string,
     employeeName: string,
     scheduledDate: Date,
-    scheduledTime: string
+    scheduledTime: string,
+    reason?: string
   ): Promise<void> {
     try {
       await this.sendEmail({
         to: visitorEmail,
         subject: 'Appointment Update - SafeIn',
-        html: getAppointmentRejectionEmailTemplate(visitorName, employeeName, scheduledDate, scheduledTime),
-        text: getAppointmentRejectionEmailText(visitorName, employeeName, scheduledDate, scheduledTime),
+        html: getAppointmentRejectionEmailTemplate(visitorName, employeeName, scheduledDate, scheduledTime, reason),
+        text: getAppointmentRejectionEmailText(visitorName, employeeName, scheduledDate, scheduledTime, reason),
         fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
         logMessage: 'Appointment rejection email',
       });
@@ -367,7 +443,8 @@ export class EmailService {
     employeeName: string,
     visitorName: string,
     scheduledDate: Date,
-    scheduledTime: string
+    scheduledTime: string,
+    attachments?: IEmailAttachment[]
   ): Promise<void> {
     try {
       await this.sendEmail({
@@ -376,6 +453,7 @@ export class EmailService {
         html: getEmployeeAppointmentApprovalEmailTemplate(employeeName, visitorName, scheduledDate, scheduledTime),
         text: getEmployeeAppointmentApprovalEmailText(employeeName, visitorName, scheduledDate, scheduledTime),
         fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        attachments,
         logMessage: 'Employee appointment approval email',
       });
     } catch (error: any) {
@@ -392,14 +470,15 @@ export class EmailService {
     employeeName: string,
     visitorName: string,
     scheduledDate: Date,
-    scheduledTime: string
+    scheduledTime: string,
+    reason?: string
   ): Promise<void> {
     try {
       await this.sendEmail({
         to: employeeEmail,
         subject: 'Appointment Rejected - SafeIn',
-        html: getEmployeeAppointmentRejectionEmailTemplate(employeeName, visitorName, scheduledDate, scheduledTime),
-        text: getEmployeeAppointmentRejectionEmailText(employeeName, visitorName, scheduledDate, scheduledTime),
+        html: getEmployeeAppointmentRejectionEmailTemplate(employeeName, visitorName, scheduledDate, scheduledTime, reason),
+        text: getEmployeeAppointmentRejectionEmailText(employeeName, visitorName, scheduledDate, scheduledTime, reason),
         fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
         logMessage: 'Employee appointment rejection email',
       });
@@ -409,6 +488,327 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send the updated or cancelling calendar invite of an approved appointment
+   */
+  static async sendAppointmentCalendarUpdateEmail(
+    recipientEmail: string,
+    recipientName: string,
+    counterpartName: string,
+    scheduledDate: Date,
+    scheduledTime: string,
+    cancelled: boolean,
+    meetingRoom: string | undefined,
+    attachments: IEmailAttachment[]
+  ): Promise<void> {
+    try {
+      await this.sendEmail({
+        to: recipientEmail,
+        subject: cancelled ? 'Appointment Cancelled - SafeIn' : 'Appointment Updated - SafeIn',
+        html: getAppointmentCalendarUpdateEmailTemplate(recipientName, counterpartName, scheduledDate, scheduledTime, cancelled, meetingRoom),
+        text: getAppointmentCalendarUpdateEmailText(recipientName, counterpartName, scheduledDate, scheduledTime, cancelled, meetingRoom),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        attachments,
+        logMessage: 'Appointment calendar update email',
+      });
+    } catch (error: any) {
+      console.error('Failed to send appointment calendar update email:', error.message);
+    }
+  }
+
+  /**
+   * Send a proposed new appointment time to the other party
+   */
+  static async sendRescheduleProposalEmail(
+    recipientEmail: string,
+    recipientName: string,
+    proposerName: string,
+    currentDate: Date,
+    currentTime: string,
+    proposedDate: Date,
+    proposedTime: string,
+    reason?: string,
+    actionUrl?: string
+  ): Promise<void> {
+    try {
+      await this.sendEmail({
+        to: recipientEmail,
+        subject: 'New Appointment Time Proposed - SafeIn',
+        html: getRescheduleProposalEmailTemplate(recipientName, proposerName, currentDate, currentTime, proposedDate, proposedTime, reason, actionUrl),
+        text: getRescheduleProposalEmailText(recipientName, proposerName, currentDate, currentTime, proposedDate, proposedTime, reason, actionUrl),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Reschedule proposal email',
+      });
+    } catch (error: any) {
+      console.error('Failed to send reschedule proposal email:', error.message);
+    }
+  }
+
+  /**
+   * Tell the proposing party whether the new time was accepted
+   */
+  static async sendRescheduleResponseEmail(
+    recipientEmail: string,
+    recipientName: string,
+    responderName: string,
+    accepted: boolean,
+    scheduledDate: Date,
+    scheduledTime: string,
+    reason?: string
+  ): Promise<void> {
+    try {
+      await this.sendEmail({
+        to: recipientEmail,
+        subject: accepted ? 'New Appointment Time Accepted - SafeIn' : 'New Appointment Time Declined - SafeIn',
+        html: getRescheduleResponseEmailTemplate(recipientName, responderName, accepted, scheduledDate, scheduledTime, reason),
+        text: getRescheduleResponseEmailText(recipientName, responderName, accepted, scheduledDate, scheduledTime, reason),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Reschedule response email',
+      });
+    } catch (error: any) {
+      console.error('Failed to send reschedule response email:', error.message);
+    }
+  }
+
+  /**
+   * Send an appointment reminder to the visitor or the host.
+   * Returns whether the email went out so the send can be recorded.
+   */
+  static async sendAppointmentReminderEmail(recipientEmail: string, details: IAppointmentReminderDetails): Promise<boolean> {
+    try {
+      await this.sendEmail({
+        to: recipientEmail,
+        subject: 'Appointment Reminder - SafeIn',
+        html: getAppointmentReminderEmailTemplate(details),
+        text: getAppointmentReminderEmailText(details),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Appointment reminder email',
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send appointment reminder email:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Tell the host a walk-in visitor is waiting at reception.
+   * Returns whether the email went out.
+   */
+  static async sendVisitorArrivalEmail(
+    employeeEmail: string,
+    employeeName: string,
+    visitorName: string,
+    purpose: string,
+    checkedIn: boolean,
+    actionUrl?: string
+  ): Promise<boolean> {
+    try {
+      await this.sendEmail({
+        to: employeeEmail,
+        subject: `${visitorName} is waiting at reception - SafeIn`,
+        html: getVisitorArrivalEmailTemplate(employeeName, visitorName, purpose, checkedIn, actionUrl),
+        text: getVisitorArrivalEmailText(employeeName, visitorName, purpose, checkedIn, actionUrl),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Visitor arrival email',
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send visitor arrival email:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Invite a guest to complete their details for a visit arranged by a host.
+   * Returns whether the email went out so the host can be told.
+   */
+  static async sendVisitorInvitationEmail(
+    visitorEmail: string,
+    visitorName: string,
+    employeeName: string,
+    companyName: string,
+    scheduledDate: Date,
+    scheduledTime: string,
+    purpose: string,
+    inviteUrl: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    try {
+      await this.sendEmail({
+        to: visitorEmail,
+        subject: `${employeeName} has invited you to visit ${companyName} - SafeIn`,
+        html: getVisitorInvitationEmailTemplate(visitorName, employeeName, companyName, scheduledDate, scheduledTime, purpose, inviteUrl, expiresAt),
+        text: getVisitorInvitationEmailText(visitorName, employeeName, companyName, scheduledDate, scheduledTime, purpose, inviteUrl, expiresAt),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Visitor invitation email',
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send visitor invitation email:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Send a visitor their QR pass for an approved appointment
+   */
+  static async sendVisitorPassEmail(
+    visitorEmail: string,
+    visitorName: string,
+    employeeName: string,
+    scheduledDate: Date,
+    scheduledTime: string,
+    passUrl: string,
+    attachments?: IEmailAttachment[]
+  ): Promise<boolean> {
+    try {
+      await this.sendEmail({
+        to: visitorEmail,
+        subject: 'Your Visitor Pass - SafeIn',
+        html: getVisitorPassEmailTemplate(visitorName, employeeName, scheduledDate, scheduledTime, passUrl),
+        text: getVisitorPassEmailText(visitorName, employeeName, scheduledDate, scheduledTime, passUrl),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        attachments,
+        logMessage: 'Visitor pass email',
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send visitor pass email:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Send an emergency broadcast with the recipient's acknowledgement link
+   */
+  static async sendEmergencyBroadcastEmail(
+    recipientEmail: string,
+    recipientName: string,
+    subject: string,
+    message: string,
+    acknowledgeUrl: string
+  ): Promise<boolean> {
+    try {
+      await this.sendEmail({
+        to: recipientEmail,
+        subject: `URGENT: ${subject}`,
+        html: getEmergencyBroadcastEmailTemplate(recipientName, subject, message, acknowledgeUrl),
+        text: getEmergencyBroadcastEmailText(recipientName, subject, message, acknowledgeUrl),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Emergency broadcast email',
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send emergency broadcast email:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Alert security that a visitor matched the watchlist
+   */
+  static async sendWatchlistAlertEmail(
+    securityEmail: string,
+    visitorName: string,
+    outcome: string,
+    context: string,
+    reason: string,
+    matchedOn: string,
+    occurredAt: Date
+  ): Promise<boolean> {
+    try {
+      await this.sendEmail({
+        to: securityEmail,
+        subject: `Watchlist Alert: ${visitorName} - SafeIn`,
+        html: getWatchlistAlertEmailTemplate(visitorName, outcome, context, reason, matchedOn, occurredAt),
+        text: getWatchlistAlertEmailText(visitorName, outcome, context, reason, matchedOn, occurredAt),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Watchlist alert email',
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send watchlist alert email:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Tell the host or security that a visitor is still on site past the end of the visit
+   */
+  static async sendOverstayAlertEmail(recipientEmail: string, details: IOverstayAlertDetails): Promise<boolean> {
+    try {
+      await this.sendEmail({
+        to: recipientEmail,
+        subject: `Visit Running Over: ${details.visitorNames} - SafeIn`,
+        html: getOverstayAlertEmailTemplate(details),
+        text: getOverstayAlertEmailText(details),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Overstay alert email',
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to send overstay alert email:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Ask a delegate or fallback approver to decide on a request in place of the host
+   */
+  static async sendDelegatedApprovalRequestEmail(
+    approverEmail: string,
+    approverName: string,
+    hostName: string,
+    visitorName: string,
+    scheduledDate: Date,
+    scheduledTime: string,
+    purpose: string,
+    approvalUrl: string,
+    asDelegate: boolean
+  ): Promise<void> {
+    try {
+      await this.sendEmail({
+        to: approverEmail,
+        subject: `Approval needed for ${hostName}'s visitor - SafeIn`,
+        html: getDelegatedApprovalRequestEmailTemplate(approverName, hostName, visitorName, scheduledDate, scheduledTime, purpose, approvalUrl, asDelegate),
+        text: getDelegatedApprovalRequestEmailText(approverName, hostName, visitorName, scheduledDate, scheduledTime, purpose, approvalUrl, asDelegate),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Delegated approval request email',
+      });
+    } catch (error: any) {
+      console.error('Failed to send delegated approval request email:', error.message);
+    }
+  }
+
+  /**
+   * Ask the approvers of the next approval chain step to decide on a request
+   */
+  static async sendApprovalStepRequestEmail(
+    approverEmail: string,
+    approverName: string,
+    stepName: string,
+    hostName: string,
+    visitorName: string,
+    scheduledDate: Date,
+    scheduledTime: string,
+    purpose: string,
+    approvalUrl: string
+  ): Promise<void> {
+    try {
+      await this.sendEmail({
+        to: approverEmail,
+        subject: `${stepName} approval needed for ${visitorName}'s visit - SafeIn`,
+        html: getApprovalStepRequestEmailTemplate(approverName, stepName, hostName, visitorName, scheduledDate, scheduledTime, purpose, approvalUrl),
+        text: getApprovalStepRequestEmailText(approverName, stepName, hostName, visitorName, scheduledDate, scheduledTime, purpose, approvalUrl),
+        fromName: process.env.SMTP_FROM_NAME || 'SafeIn',
+        logMessage: 'Approval step request email',
+      });
+    } catch (error: any) {
+      console.error('Failed to send approval step request email:', error.message);
+    }
+  }
+
   /**
    * Send new appointment request email to employee
    */
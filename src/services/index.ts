@@ -6,3 +6,23 @@ export * from './subscription/subscription.service';
 export * from './userSubscription/userSubscription.service';
 export * from './upload/upload.service';
 export * from './whatsapp/whatsapp.service';
+export * from './appointmentSeries/appointmentSeries.service';
+export * from './availability/availability.service';
+export * from './meetingRoom/meetingRoom.service';
+export * from './calendar/calendar.service';
+export * from './reschedule/reschedule.service';
+export * from './attendance/attendance.service';
+export * from './reminder/reminder.service';
+export * from './preRegistration/preRegistration.service';
+export * from './invitation/invitation.service';
+export * from './delegation/delegation.service';
+export * from './approvalChain/approvalChain.service';
+export * from './attendee/attendee.service';
+export * from './visitorPass/visitorPass.service';
+export * from './badge/badge.service';
+export * from './onSite/onSite.service';
+export * from './rollCall/rollCall.service';
+export * from './broadcast/broadcast.service';
+export * from './watchlist/watchlist.service';
+export * from './overstay/overstay.service';
+export * from './visitorType/visitorType.service';
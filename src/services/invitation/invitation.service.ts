@@ -0,0 +1,407 @@
+import { Invitation, IInvitation } from '../../models/invitation/invitation.model';
+import { Employee } from '../../models/employee/employee.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { User } from '../../models/user/user.model';
+import { AppointmentService } from '../appointment/appointment.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { VisitorService } from '../visitor/visitor.service';
+import { RescheduleService } from '../reschedule/reschedule.service';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { UploadService } from '../upload/upload.service';
+import { WatchlistService } from '../watchlist/watchlist.service';
+import {
+    ICreateInvitationDTO,
+    IInvitationResponse,
+    IGetInvitationsQuery,
+    IInvitationListResponse,
+    IInvitationForm,
+    ICompleteInvitationDTO,
+    ICompleteInvitationResult,
+    InvitationStatus
+} from '../../types/invitation/invitation.types';
+import { ICreateVisitorDTO } from '../../types/visitor/visitor.types';
+import {
+    ERROR_MESSAGES,
+    ERROR_CODES,
+    DEFAULT_INVITATION_EXPIRY_HOURS
+} from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { TokenUtil } from '../../utils/token.util';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+/**
+ * Host-initiated invitations: the host enters the guest and the time, the guest
+ * completes their details through a magic link and gets an approved appointment.
+ */
+export class InvitationService {
+    /**
+     * Invite a guest and send them the link to complete their details.
+     * The slot is checked now so the host hears about clashes before the guest does;
+     * it is checked again when the guest completes the invitation.
+     */
+    @Transaction('Failed to create invitation')
+    static async createInvitation(invitationData: ICreateInvitationDTO, createdBy: string, options: { session?: any } = {}): Promise<IInvitationResponse> {
+        const { session } = options;
+
+        const employee = await Employee.findOne({ _id: invitationData.employeeId, createdBy, isDeleted: false }).session(session);
+        if (!employee) {
+            throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        if (employee.status === 'Inactive') {
+            throw new AppError('Employee is inactive. Please select an active employee.', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const { scheduledDate, scheduledTime, duration, meetingRoomId } = invitationData.appointmentDetails;
+        const unavailable = await AvailabilityService.checkAvailability(employee, scheduledDate, scheduledTime, duration, createdBy, session);
+        if (unavailable) {
+            throw new AppError(unavailable.message, ERROR_CODES.BAD_REQUEST, { reason: unavailable.reason });
+        }
+        await AppointmentService.assertNoConflicts(invitationData.employeeId, scheduledDate, scheduledTime, duration, createdBy, { session });
+        if (meetingRoomId) {
+            await AppointmentService.assertRoomAvailable(meetingRoomId, scheduledDate, scheduledTime, duration, 0, createdBy, { session });
+        }
+
+        const invitation = new Invitation({
+            employeeId: invitationData.employeeId,
+            guest: invitationData.visitor,
+            appointmentDetails: invitationData.appointmentDetails,
+            createdBy
+        });
+        const token = TokenUtil.generateToken();
+        invitation.tokenHash = TokenUtil.hashToken(token);
+        invitation.expiresAt = this.getExpiry(invitation, invitationData.expiresInHours);
+        await invitation.save({ session });
+
+        const inviteLink = await this.sendInvitation(invitation, token, employee.name, session);
+        return { ...this.toResponse(invitation.toObject()), inviteLink };
+    }
+
+    /**
+     * Get the company's invitations with pagination and filtering
+     */
+    static async getInvitations(query: IGetInvitationsQuery = {}, userId: string): Promise<IInvitationListResponse> {
+        const { status, employeeId, search = '' } = query;
+        const page = Number(query.page) || 1;
+        const limit = Number(query.limit) || 10;
+
+        const filter: any = { createdBy: userId };
+        const now = new Date();
+
+        // Expired is derived from the expiry, so it is stored as pending
+        if (status === 'expired') {
+            filter.status = 'pending';
+            filter.expiresAt = { $lte: now };
+        } else if (status === 'pending') {
+            filter.status = 'pending';
+            filter.expiresAt = { $gt: now };
+        } else if (status) {
+            filter.status = status;
+        }
+
+        if (employeeId) {
+            filter.employeeId = employeeId;
+        }
+
+        if (search) {
+            const pattern = { $regex: search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+            filter.$or = [{ 'guest.name': pattern }, { 'guest.email': pattern }, { 'guest.phone': pattern }];
+        }
+
+        const skip = (page - 1) * limit;
+
+        const [invitations, totalInvitations] = await Promise.all([
+            Invitation.find(filter)
+                .populate('employeeId', 'name email department')
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .lean(),
+            Invitation.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalInvitations / limit);
+
+        return {
+            invitations: invitations.map(invitation => this.toResponse(invitation)),
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalInvitations,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    /**
+     * Send the invitation again with a fresh link and expiry; the previous link stops working
+     */
+    @Transaction('Failed to resend invitation')
+    static async resendInvitation(
+        invitationId: string,
+        userId: string,
+        options: { session?: any; expiresInHours?: number } = {}
+    ): Promise<IInvitationResponse> {
+        const { session, expiresInHours } = options;
+
+        const invitation = await Invitation.findOne({ _id: invitationId, createdBy: userId }).session(session);
+        if (!invitation) {
+            throw new AppError('Invitation not found', ERROR_CODES.NOT_FOUND);
+        }
+        if (invitation.status !== 'pending') {
+            throw new AppError(`A ${invitation.status} invitation cannot be resent`, ERROR_CODES.BAD_REQUEST);
+        }
+        if (this.getVisitStart(invitation) <= new Date()) {
+            throw new AppError('The visit time has already passed. Please send a new invitation.', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const employee = await Employee.findById(invitation.employeeId).select('name').session(session);
+
+        const token = TokenUtil.generateToken();
+        invitation.tokenHash = TokenUtil.hashToken(token);
+        invitation.expiresAt = this.getExpiry(invitation, expiresInHours);
+        await invitation.save({ session });
+
+        const inviteLink = await this.sendInvitation(invitation, token, employee?.name || 'Your host', session);
+        return { ...this.toResponse(invitation.toObject()), inviteLink };
+    }
+
+    /**
+     * Revoke a pending invitation; its link stops working straight away
+     */
+    @Transaction('Failed to revoke invitation')
+    static async revokeInvitation(invitationId: string, userId: string, options: { session?: any } = {}): Promise<IInvitationResponse> {
+        const { session } = options;
+
+        const invitation = await Invitation.findOne({ _id: invitationId, createdBy: userId }).session(session);
+        if (!invitation) {
+            throw new AppError('Invitation not found', ERROR_CODES.NOT_FOUND);
+        }
+        if (invitation.status !== 'pending') {
+            throw new AppError(`A ${invitation.status} invitation cannot be revoked`, ERROR_CODES.BAD_REQUEST);
+        }
+
+        invitation.status = 'revoked';
+        invitation.revokedAt = new Date();
+        invitation.revokedBy = userId as any;
+        invitation.tokenHash = undefined;
+        await invitation.save({ session });
+
+        return this.toResponse(invitation.toObject());
+    }
+
+    /**
+     * What the guest sees behind the magic link
+     */
+    static async getInvitationForm(token: string): Promise<IInvitationForm> {
+        const invitation = await this.findByToken(token);
+
+        const [company, employee] = await Promise.all([
+            User.findById(invitation.createdBy).select('companyName').lean(),
+            Employee.findById(invitation.employeeId).select('name').lean()
+        ]);
+
+        return {
+            status: this.getStatus(invitation),
+            companyName: company?.companyName || '',
+            hostName: employee?.name || '',
+            guest: invitation.guest,
+            purpose: invitation.appointmentDetails.purpose,
+            scheduledDate: invitation.appointmentDetails.scheduledDate,
+            scheduledTime: invitation.appointmentDetails.scheduledTime,
+            duration: invitation.appointmentDetails.duration,
+            expiresAt: invitation.expiresAt
+        };
+    }
+
+    /**
+     * Upload the guest's photo or ID proof image from the invitation page
+     */
+    static async uploadFile(token: string, file: Express.Multer.File): Promise<{ url: string; filename: string; size: number }> {
+        const invitation = await this.findByToken(token);
+        this.assertOpen(invitation);
+        return UploadService.uploadFile(file, `invitations/${invitation.createdBy}`);
+    }
+
+    /**
+     * Complete the invitation: creates the visitor (or reuses the one with the same email)
+     * and an appointment that is approved straight away because the host arranged it: no
+     * approval policy applies. The approval sends the visitor their pass.
+     */
+    @Transaction('Failed to complete invitation')
+    static async completeInvitation(token: string, details: ICompleteInvitationDTO, options: { session?: any } = {}): Promise<ICompleteInvitationResult> {
+        const { session } = options;
+
+        const invitation = await Invitation.findOne({ tokenHash: TokenUtil.hashToken(token) }).session(session);
+        if (!invitation) {
+            throw new AppError('Invalid or expired link', ERROR_CODES.NOT_FOUND);
+        }
+        this.assertOpen(invitation);
+
+        const companyId = invitation.createdBy.toString();
+
+        // The contact the host invited stays fixed; the guest only fills in what is missing
+        const visitorData: ICreateVisitorDTO = {
+            ...details,
+            name: details.name || invitation.guest.name,
+            email: invitation.guest.email || details.email || '',
+            phone: invitation.guest.phone || details.phone || ''
+        };
+        if (!visitorData.email || !visitorData.phone) {
+            throw new AppError('Email and phone number are required', ERROR_CODES.BAD_REQUEST);
+        }
+
+        // Existing visitor records are linked as they are; a public page must not overwrite them.
+        // New ones are screened against the watchlist with the appointment below.
+        const existingVisitor = await Visitor.findOne({ email: visitorData.email.toLowerCase(), createdBy: companyId, isDeleted: false })
+            .session(session);
+        const visitorId = existingVisitor
+            ? (existingVisitor._id as any).toString()
+            : (await VisitorService.createVisitor(visitorData, companyId, { session, skipWatchlist: true }))._id.toString();
+
+        const { purpose, scheduledDate, scheduledTime, duration, meetingRoomId, notes } = invitation.appointmentDetails;
+        let appointment;
+        try {
+            appointment = await AppointmentService.createAppointment(
+                {
+                    employeeId: invitation.employeeId.toString(),
+                    visitorId,
+                    appointmentDetails: {
+                        purpose,
+                        scheduledDate,
+                        scheduledTime,
+                        duration,
+                        meetingRoomId: meetingRoomId?.toString(),
+                        notes
+                    }
+                },
+                companyId,
+                // No approval request: the host arranged the visit
+                {
+                    session,
+                    notify: false,
+                    approvedBy: {
+                        userId: companyId,
+                        source: 'system',
+                        onBehalfOf: invitation.employeeId.toString(),
+                        note: 'Arranged by the host with an invitation'
+                    }
+                }
+            );
+        } catch (error) {
+            // Security has the hit; the guest is not told about the watchlist
+            if (WatchlistService.isScreeningError(error)) {
+                throw new AppError('Your details could not be confirmed. Please contact your host.', ERROR_CODES.BAD_REQUEST);
+            }
+            throw error;
+        }
+
+        invitation.status = 'completed';
+        invitation.completedAt = new Date();
+        invitation.visitorId = visitorId;
+        invitation.appointmentId = appointment._id as any;
+        await invitation.save({ session });
+
+        const employee = await Employee.findById(invitation.employeeId).select('name').session(session);
+
+        return {
+            appointmentId: appointment.appointmentId,
+            status: appointment.status,
+            hostName: employee?.name || '',
+            scheduledDate: appointment.appointmentDetails.scheduledDate,
+            scheduledTime: appointment.appointmentDetails.scheduledTime,
+            manageUrl: await RescheduleService.getVisitorLink(appointment._id.toString(), session)
+        };
+    }
+
+    /**
+     * Email and WhatsApp the link to the guest, as the company's settings allow.
+     * Returns the link so the host can also share it themselves.
+     */
+    private static async sendInvitation(invitation: IInvitation, token: string, employeeName: string, session?: any): Promise<string> {
+        const inviteLink = TokenUtil.buildUrl(`invite/${token}`);
+        const companyId = invitation.createdBy.toString();
+        const { guest, appointmentDetails, expiresAt } = invitation;
+
+        const company = await User.findById(companyId).select('companyName').lean();
+        const companyName = company?.companyName || 'our office';
+
+        if (guest.email && await SettingsService.isEmailEnabled(companyId)) {
+            await EmailService.sendVisitorInvitationEmail(
+                guest.email,
+                guest.name,
+                employeeName,
+                companyName,
+                appointmentDetails.scheduledDate,
+                appointmentDetails.scheduledTime,
+                appointmentDetails.purpose,
+                inviteLink,
+                expiresAt
+            );
+        }
+
+        if (guest.phone && await SettingsService.isWhatsAppEnabled(companyId)) {
+            await WhatsAppService.sendVisitorInvitation(
+                guest.phone,
+                guest.name,
+                employeeName,
+                companyName,
+                appointmentDetails.scheduledDate,
+                appointmentDetails.scheduledTime,
+                inviteLink
+            );
+        }
+
+        invitation.sendCount += 1;
+        invitation.lastSentAt = new Date();
+        await invitation.save({ session });
+
+        return inviteLink;
+    }
+
+    private static async findByToken(token: string): Promise<IInvitation> {
+        const invitation = await Invitation.findOne({ tokenHash: TokenUtil.hashToken(token) });
+        if (!invitation) {
+            throw new AppError('Invalid or expired link', ERROR_CODES.NOT_FOUND);
+        }
+        return invitation;
+    }
+
+    private static assertOpen(invitation: IInvitation): void {
+        const status = this.getStatus(invitation);
+        if (status === 'completed') {
+            throw new AppError('This invitation has already been completed', ERROR_CODES.BAD_REQUEST);
+        }
+        if (status !== 'pending') {
+            throw new AppError('This invitation has expired. Please ask your host to send it again.', ERROR_CODES.BAD_REQUEST);
+        }
+    }
+
+    private static getStatus(invitation: Pick<IInvitation, 'status' | 'expiresAt'>): InvitationStatus {
+        if (invitation.status === 'pending' && invitation.expiresAt <= new Date()) {
+            return 'expired';
+        }
+        return invitation.status;
+    }
+
+    private static getVisitStart(invitation: IInvitation): Date {
+        return AppointmentTimeUtil.getStartTime(invitation.appointmentDetails.scheduledDate, invitation.appointmentDetails.scheduledTime);
+    }
+
+    /**
+     * The link runs out after the requested number of hours, and never after the visit starts
+     */
+    private static getExpiry(invitation: IInvitation, expiresInHours: number = DEFAULT_INVITATION_EXPIRY_HOURS): Date {
+        const expiresAt = AppointmentTimeUtil.addMinutes(new Date(), expiresInHours * 60);
+        const visitStart = this.getVisitStart(invitation);
+        return expiresAt < visitStart ? expiresAt : visitStart;
+    }
+
+    private static toResponse(invitation: any): IInvitationResponse {
+        const { tokenHash, ...rest } = invitation;
+        return { ...rest, status: this.getStatus(invitation) } as IInvitationResponse;
+    }
+}
@@ -0,0 +1,258 @@
+import { MeetingRoom } from '../../models/meetingRoom/meetingRoom.model';
+import { Appointment } from '../../models/appointment/appointment.model';
+import { SettingsService } from '../settings/settings.service';
+import { AvailabilityService } from '../availability/availability.service';
+import {
+    ICreateMeetingRoomDTO,
+    IUpdateMeetingRoomDTO,
+    IMeetingRoomResponse,
+    IGetMeetingRoomsQuery,
+    IMeetingRoomListResponse,
+    IRoomUtilizationQuery,
+    IRoomUtilizationResponse,
+    IRoomUtilization
+} from '../../types/meetingRoom/meetingRoom.types';
+import { AppointmentStatus } from '../../types/appointment/appointment.types';
+import { ERROR_MESSAGES, ERROR_CODES, ACTIVE_APPOINTMENT_STATUSES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+// Bookings that occupied (or will occupy) the room
+const UTILIZED_STATUSES: AppointmentStatus[] = [...ACTIVE_APPOINTMENT_STATUSES, 'completed'];
+
+const MAX_UTILIZATION_RANGE_DAYS = 366;
+
+export class MeetingRoomService {
+    /**
+     * Create a new meeting room
+     */
+    @Transaction('Failed to create meeting room')
+    static async createMeetingRoom(roomData: ICreateMeetingRoomDTO, createdBy: string, options: { session?: any } = {}): Promise<IMeetingRoomResponse> {
+        const { session } = options;
+
+        const existingRoom = await MeetingRoom.findOne({ name: roomData.name, createdBy, isDeleted: false }).session(session);
+        if (existingRoom) {
+            throw new AppError(ERROR_MESSAGES.MEETING_ROOM_NAME_EXISTS, ERROR_CODES.CONFLICT);
+        }
+
+        const room = new MeetingRoom({ ...roomData, createdBy });
+        await room.save({ session });
+
+        return room.toObject() as unknown as IMeetingRoomResponse;
+    }
+
+    /**
+     * Get all meeting rooms with pagination and filtering (user-specific)
+     */
+    static async getAllMeetingRooms(query: IGetMeetingRoomsQuery = {}, userId: string): Promise<IMeetingRoomListResponse> {
+        const { page = 1, limit = 10, search = '', floor = '', site = '', status = '', minCapacity, amenity = '' } = query;
+
+        const filter: any = { createdBy: userId, isDeleted: false };
+
+        if (search) {
+            filter.name = { $regex: search, $options: 'i' };
+        }
+
+        if (floor) {
+            filter.floor = floor;
+        }
+
+        if (site) {
+            filter.site = { $regex: `^${site.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' };
+        }
+
+        if (status) {
+            filter.status = status;
+        }
+
+        if (minCapacity) {
+            filter.capacity = { $gte: Number(minCapacity) };
+        }
+
+        if (amenity) {
+            filter.amenities = { $regex: `^${amenity.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' };
+        }
+
+        const skip = (page - 1) * limit;
+
+        const [meetingRooms, totalMeetingRooms] = await Promise.all([
+            MeetingRoom.find(filter)
+                .sort({ name: 1 })
+                .skip(skip)
+                .limit(limit)
+                .lean(),
+            MeetingRoom.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalMeetingRooms / limit);
+
+        return {
+            meetingRooms: meetingRooms as unknown as IMeetingRoomResponse[],
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalMeetingRooms,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    /**
+     * Get meeting room by ID (user-specific)
+     */
+    static async getMeetingRoomById(roomId: string, userId: string): Promise<IMeetingRoomResponse> {
+        const room = await MeetingRoom.findOne({ _id: roomId, createdBy: userId, isDeleted: false });
+        if (!room) {
+            throw new AppError(ERROR_MESSAGES.MEETING_ROOM_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        return room.toObject() as unknown as IMeetingRoomResponse;
+    }
+
+    /**
+     * Update meeting room. Existing bookings are kept even if the capacity is lowered.
+     */
+    @Transaction('Failed to update meeting room')
+    static async updateMeetingRoom(roomId: string, updateData: IUpdateMeetingRoomDTO, userId: string, options: { session?: any } = {}): Promise<IMeetingRoomResponse> {
+        const { session } = options;
+
+        if (updateData.name) {
+            const existingRoom = await MeetingRoom.findOne({
+                name: updateData.name,
+                createdBy: userId,
+                isDeleted: false,
+                _id: { $ne: roomId }
+            }).session(session);
+
+            if (existingRoom) {
+                throw new AppError(ERROR_MESSAGES.MEETING_ROOM_NAME_EXISTS, ERROR_CODES.CONFLICT);
+            }
+        }
+
+        const room = await MeetingRoom.findOneAndUpdate(
+            { _id: roomId, createdBy: userId, isDeleted: false },
+            {
+                name: updateData.name,
+                floor: updateData.floor,
+                site: updateData.site,
+                capacity: updateData.capacity,
+                amenities: updateData.amenities,
+                status: updateData.status
+            },
+            { new: true, runValidators: true, omitUndefined: true, session }
+        );
+
+        if (!room) {
+            throw new AppError(ERROR_MESSAGES.MEETING_ROOM_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+
+        return room.toObject() as unknown as IMeetingRoomResponse;
+    }
+
+    /**
+     * Soft delete meeting room. Rooms with upcoming bookings must be freed first.
+     */
+    @Transaction('Failed to delete meeting room')
+    static async deleteMeetingRoom(roomId: string, deletedBy: string, options: { session?: any } = {}): Promise<void> {
+        const { session } = options;
+
+        const room = await MeetingRoom.findOne({ _id: roomId, createdBy: deletedBy, isDeleted: false }).session(session);
+        if (!room) {
+            throw new AppError(ERROR_MESSAGES.MEETING_ROOM_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+
+        const upcomingBookings = await Appointment.countDocuments({
+            'appointmentDetails.meetingRoomId': room._id,
+            'appointmentDetails.scheduledDate': { $gte: AppointmentTimeUtil.startOfDay(new Date()) },
+            status: { $in: ACTIVE_APPOINTMENT_STATUSES },
+            isDeleted: false
+        }).session(session);
+
+        if (upcomingBookings > 0) {
+            throw new AppError(
+                `Meeting room has ${upcomingBookings} upcoming booking(s). Move or cancel them before deleting the room.`,
+                ERROR_CODES.CONFLICT
+            );
+        }
+
+        room.isDeleted = true;
+        room.deletedAt = new Date();
+        room.set('deletedBy', deletedBy);
+        await room.save({ session });
+    }
+
+    /**
+     * Booked time per room against the company working hours (minus holidays) in a date range
+     */
+    static async getUtilization(query: IRoomUtilizationQuery, userId: string): Promise<IRoomUtilizationResponse> {
+        const startDate = AppointmentTimeUtil.startOfDay(query.startDate);
+        const endDate = AppointmentTimeUtil.startOfDay(query.endDate);
+        const endExclusive = new Date(endDate);
+        endExclusive.setDate(endExclusive.getDate() + 1);
+
+        const rangeDays = Math.round((endExclusive.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
+        if (rangeDays < 1 || rangeDays > MAX_UTILIZATION_RANGE_DAYS) {
+            throw new AppError(`Date range must be between 1 and ${MAX_UTILIZATION_RANGE_DAYS} days`, ERROR_CODES.BAD_REQUEST);
+        }
+
+        const roomFilter: any = { createdBy: userId, isDeleted: false };
+        if (query.meetingRoomId) {
+            roomFilter._id = query.meetingRoomId;
+        }
+        const rooms = await MeetingRoom.find(roomFilter).sort({ name: 1 }).lean();
+
+        // Rooms are available during the company working hours on non-holiday days
+        const { workingHours, holidays } = await SettingsService.getAvailabilitySettings(userId);
+        let availableMinutes = 0;
+        for (const day = new Date(startDate); day < endExclusive; day.setDate(day.getDate() + 1)) {
+            if (AvailabilityService.findHoliday(holidays, day)) {
+                continue;
+            }
+            for (const window of AvailabilityService.getWorkingWindows(workingHours, day)) {
+                availableMinutes += (window.end.getTime() - window.start.getTime()) / (1000 * 60);
+            }
+        }
+
+        const bookings = await Appointment.find({
+            'appointmentDetails.meetingRoomId': { $in: rooms.map(room => room._id) },
+            'appointmentDetails.scheduledDate': { $gte: startDate, $lt: endExclusive },
+            status: { $in: UTILIZED_STATUSES },
+            isDeleted: false
+        })
+            .select('accompanyingCount attendees appointmentDetails.meetingRoomId appointmentDetails.duration')
+            .lean();
+
+        const totals = new Map<string, { bookings: number; bookedMinutes: number; people: number }>();
+        for (const booking of bookings as any[]) {
+            const roomId = booking.appointmentDetails.meetingRoomId.toString();
+            const total = totals.get(roomId) || { bookings: 0, bookedMinutes: 0, people: 0 };
+            total.bookings += 1;
+            total.bookedMinutes += booking.appointmentDetails.duration;
+            total.people += (booking.accompanyingCount || 0) + Math.max(booking.attendees?.length || 0, 1);
+            totals.set(roomId, total);
+        }
+
+        const utilization: IRoomUtilization[] = rooms.map(room => {
+            const total = totals.get(room._id.toString()) || { bookings: 0, bookedMinutes: 0, people: 0 };
+            return {
+                meetingRoomId: room._id.toString(),
+                name: room.name,
+                floor: room.floor,
+                site: room.site,
+                capacity: room.capacity,
+                bookings: total.bookings,
+                bookedMinutes: total.bookedMinutes,
+                availableMinutes,
+                utilization: availableMinutes > 0 ? Math.round((total.bookedMinutes / availableMinutes) * 1000) / 10 : 0,
+                averageOccupancy: total.bookings > 0 ? Math.round((total.people / total.bookings) * 10) / 10 : 0
+            };
+        });
+
+        return {
+            startDate,
+            endDate,
+            rooms: utilization
+        };
+    }
+}
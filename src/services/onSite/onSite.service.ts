@@ -0,0 +1,112 @@
+import { Appointment } from '../../models/appointment/appointment.model';
+import { MeetingRoom } from '../../models/meetingRoom/meetingRoom.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { IOnSiteQuery, IOnSiteResponse, IOnSiteVisitor } from '../../types/onSite/onSite.types';
+import { ON_SITE_STATUSES } from '../../utils/constants';
+
+/**
+ * Who is on the premises right now: every visitor checked in and not yet checked out
+ */
+export class OnSiteService {
+    /**
+     * Visitors on site, earliest arrival first, optionally only those at one site
+     */
+    static async getOnSite(userId: string, query: IOnSiteQuery = {}): Promise<IOnSiteResponse> {
+        const visitors = await this.listOnSite(userId, query.site);
+
+        return {
+            generatedAt: new Date(),
+            site: query.site,
+            visitors,
+            totalVisitors: visitors.length,
+            totalPeople: visitors.reduce((total, entry) => total + 1 + entry.accompanyingCount, 0)
+        };
+    }
+
+    /**
+     * Visitors on site. A site matches the site of the visit's meeting room. Visits without
+     * a room, or in a room without a site, could be anywhere, so they are listed for every
+     * site with their site unknown rather than left off an evacuation list.
+     */
+    static async listOnSite(userId: string, site?: string): Promise<IOnSiteVisitor[]> {
+        const filter: any = { createdBy: userId, status: { $in: ON_SITE_STATUSES }, isDeleted: false };
+        if (site) {
+            // Deleted rooms too: visits booked in them before the deletion are still there
+            const rooms = await MeetingRoom.find({
+                createdBy: userId,
+                $or: [
+                    { site: { $regex: `^${site.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' } },
+                    { site: { $in: [null, ''] } }
+                ]
+            })
+                .select('_id')
+                .lean();
+            filter.$or = [
+                { 'appointmentDetails.meetingRoomId': { $in: rooms.map(room => room._id) } },
+                { 'appointmentDetails.meetingRoomId': null }
+            ];
+        }
+
+        const appointments = await Appointment.find(filter)
+            .populate('employeeId', 'name department phone')
+            .populate('appointmentDetails.meetingRoomId', 'name floor site')
+            .sort({ checkInTime: 1 })
+            .lean();
+
+        const visitorIds = appointments.flatMap(appointment => [
+            appointment.visitorId,
+            ...(appointment.attendees ?? []).map(attendee => attendee.visitorId)
+        ]);
+        const visitors = await Visitor.find({ _id: { $in: visitorIds } }).select('name company phone photo').lean();
+        const visitorsById = new Map(visitors.map(visitor => [visitor._id.toString(), visitor]));
+
+        const onSite: IOnSiteVisitor[] = [];
+        for (const appointment of appointments) {
+            // Appointments booked before group visits only have the lead
+            const attendees = appointment.attendees?.length
+                ? appointment.attendees
+                : [{
+                    visitorId: appointment.visitorId,
+                    isLead: true,
+                    badgeNumber: appointment.securityDetails?.badgeNumber,
+                    checkInTime: appointment.checkInTime,
+                    checkOutTime: null
+                }];
+            const present = attendees
+                .filter(attendee => attendee.checkInTime && !attendee.checkOutTime)
+                .sort((a, b) => Number(b.isLead) - Number(a.isLead));
+            if (present.length === 0) {
+                continue;
+            }
+
+            const host = appointment.employeeId as any;
+            const room = appointment.appointmentDetails.meetingRoomId as any;
+            const roomName = room?.name || appointment.appointmentDetails.meetingRoom;
+
+            present.forEach((attendee, index) => {
+                const visitor = visitorsById.get(attendee.visitorId.toString());
+                onSite.push({
+                    appointmentId: appointment._id.toString(),
+                    appointmentCode: appointment.appointmentId,
+                    visitor: {
+                        _id: attendee.visitorId.toString(),
+                        name: visitor?.name || '',
+                        company: visitor?.company,
+                        phone: visitor?.phone,
+                        photo: visitor?.photo
+                    },
+                    isLead: attendee.isLead,
+                    badgeNumber: attendee.badgeNumber,
+                    host: host ? { _id: host._id.toString(), name: host.name, department: host.department, phone: host.phone } : null,
+                    meetingRoom: roomName ? { _id: room?._id?.toString(), name: roomName, floor: room?.floor, site: room?.site } : null,
+                    siteUnknown: !room?.site,
+                    checkInTime: attendee.checkInTime as Date,
+                    // People without a visitor record of their own stay with whoever of the group is still here
+                    accompanyingCount: index === 0 ? appointment.accompanyingCount || 0 : 0
+                });
+            });
+        }
+
+        return onSite.sort((a, b) => a.checkInTime.getTime() - b.checkInTime.getTime());
+    }
+}
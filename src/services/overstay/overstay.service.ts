@@ -0,0 +1,215 @@
+import { Appointment } from '../../models/appointment/appointment.model';
+import { Settings } from '../../models/settings/settings.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { OnSiteService } from '../onSite/onSite.service';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { IAttendanceSettings } from '../../types/settings/settings.types';
+import { IOnSiteQuery, IOverstayResponse, IOverstayingVisit, IOverstayAlertDetails } from '../../types/onSite/onSite.types';
+import { DEFAULT_ATTENDANCE_SETTINGS, ON_SITE_STATUSES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+interface ICompanyOverstayConfig {
+    attendance: IAttendanceSettings;
+    emailEnabled: boolean;
+    whatsappEnabled: boolean;
+    security: { emails: string[]; phones: string[] };
+}
+
+/**
+ * Visits running past their scheduled duration: a visit is expected to end its duration
+ * after check-in, and overstays once the company's grace period after that has passed.
+ * Alerts are sent by the overstay job.
+ */
+export class OverstayService {
+    /**
+     * Visits overstaying right now, longest overdue first, optionally only those at one site
+     */
+    static async getOverstaying(userId: string, query: IOnSiteQuery = {}, now: Date = new Date()): Promise<IOverstayResponse> {
+        const { overstayGraceMinutes } = await SettingsService.getAttendanceSettings(userId);
+        const onSite = await OnSiteService.listOnSite(userId, query.site);
+
+        const appointmentIds = [...new Set(onSite.map(entry => entry.appointmentId))];
+        const appointments = await Appointment.find({ _id: { $in: appointmentIds } })
+            .select('checkInTime appointmentDetails.duration overstayAlertedAt')
+            .lean();
+
+        const visits: IOverstayingVisit[] = [];
+        for (const appointment of appointments) {
+            const checkInTime = appointment.checkInTime as Date;
+            const expectedEndTime = AppointmentTimeUtil.addMinutes(checkInTime, appointment.appointmentDetails.duration);
+            if (AppointmentTimeUtil.addMinutes(expectedEndTime, overstayGraceMinutes) > now) {
+                continue;
+            }
+
+            const present = onSite
+                .filter(entry => entry.appointmentId === appointment._id.toString())
+                .sort((a, b) => Number(b.isLead) - Number(a.isLead));
+            visits.push({
+                appointmentId: present[0].appointmentId,
+                appointmentCode: present[0].appointmentCode,
+                visitors: present.map(entry => entry.visitor),
+                host: present[0].host,
+                meetingRoom: present[0].meetingRoom,
+                checkInTime,
+                scheduledDuration: appointment.appointmentDetails.duration,
+                expectedEndTime,
+                overdueMinutes: Math.floor((now.getTime() - expectedEndTime.getTime()) / MS_PER_MINUTE),
+                alertedAt: appointment.overstayAlertedAt ?? null
+            });
+        }
+
+        visits.sort((a, b) => b.overdueMinutes - a.overdueMinutes);
+
+        return {
+            generatedAt: now,
+            site: query.site,
+            graceMinutes: overstayGraceMinutes,
+            visits,
+            totalVisits: visits.length
+        };
+    }
+
+    /**
+     * Visits overstaying now and completed visits that overstayed, for the appointment stats.
+     * Visits closed by the end-of-day auto-checkout are left out: when they ended is not known.
+     */
+    static async countOverstays(userId?: string, now: Date = new Date()): Promise<{ overstaying: number; overstayed: number }> {
+        const baseFilter: any = { isDeleted: false };
+        let graceMinutes = DEFAULT_ATTENDANCE_SETTINGS.overstayGraceMinutes;
+        if (userId) {
+            baseFilter.createdBy = userId;
+            graceMinutes = (await SettingsService.getAttendanceSettings(userId)).overstayGraceMinutes;
+        }
+
+        const allowedMinutes = { $add: ['$appointmentDetails.duration', graceMinutes] };
+        const [overstaying, overstayed] = await Promise.all([
+            Appointment.countDocuments({
+                ...baseFilter,
+                status: { $in: ON_SITE_STATUSES },
+                checkInTime: { $ne: null },
+                $expr: { $lt: [{ $add: ['$checkInTime', { $multiply: [allowedMinutes, MS_PER_MINUTE] }] }, now] }
+            }),
+            Appointment.countDocuments({
+                ...baseFilter,
+                status: 'completed',
+                autoCheckedOut: { $ne: true },
+                actualDuration: { $ne: null },
+                $expr: { $gt: ['$actualDuration', allowedMinutes] }
+            })
+        ]);
+
+        return { overstaying, overstayed };
+    }
+
+    /**
+     * Alert the host and security of every visit that has started overstaying. Each visit is
+     * claimed with a conditional update before anything is sent, so it is alerted once.
+     * Returns the number of visits alerted.
+     */
+    static async sendOverstayAlerts(now: Date = new Date()): Promise<number> {
+        const disabledCompanies = await Settings.distinct('userId', { 'attendance.overstayAlertsEnabled': false });
+        const configCache = new Map<string, ICompanyOverstayConfig>();
+        let alerted = 0;
+
+        const cursor = Appointment.find({
+            status: { $in: ON_SITE_STATUSES },
+            isDeleted: false,
+            createdBy: { $nin: disabledCompanies },
+            checkInTime: { $lte: now },
+            overstayAlertedAt: null
+        })
+            .select('createdBy checkInTime appointmentDetails.duration')
+            .lean()
+            .cursor();
+
+        for await (const appointment of cursor) {
+            const config = await this.getCompanyConfig(appointment.createdBy.toString(), configCache);
+            const expectedEndTime = AppointmentTimeUtil.addMinutes(appointment.checkInTime as Date, appointment.appointmentDetails.duration);
+            if (AppointmentTimeUtil.addMinutes(expectedEndTime, config.attendance.overstayGraceMinutes) > now) {
+                continue;
+            }
+
+            const claimed = await Appointment.updateOne(
+                { _id: appointment._id, status: { $in: ON_SITE_STATUSES }, overstayAlertedAt: null },
+                { $set: { overstayAlertedAt: now } }
+            );
+            if (claimed.modifiedCount === 0) {
+                continue;
+            }
+
+            try {
+                await this.sendAlert(appointment._id.toString(), expectedEndTime, config, now);
+                alerted++;
+            } catch (error) {
+                console.error(`Failed to send overstay alert for appointment ${appointment._id}:`, error);
+            }
+        }
+
+        return alerted;
+    }
+
+    private static async sendAlert(appointmentId: string, expectedEndTime: Date, config: ICompanyOverstayConfig, now: Date): Promise<void> {
+        const appointment: any = await Appointment.findById(appointmentId)
+            .populate('employeeId', 'name email phone')
+            .populate('appointmentDetails.meetingRoomId', 'name')
+            .lean();
+        if (!appointment) {
+            return;
+        }
+
+        // Appointments booked before group visits only have the lead
+        const presentIds = appointment.attendees?.length
+            ? appointment.attendees.filter((attendee: any) => attendee.checkInTime && !attendee.checkOutTime).map((attendee: any) => attendee.visitorId)
+            : [appointment.visitorId];
+        const visitors = await Visitor.find({ _id: { $in: presentIds } }).select('name').lean();
+
+        const host = appointment.employeeId;
+        const shared: Omit<IOverstayAlertDetails, 'recipientName'> = {
+            visitorNames: visitors.map(visitor => visitor.name).join(', ') || 'A visitor',
+            hostName: host?.name || 'No host',
+            meetingRoom: appointment.appointmentDetails.meetingRoomId?.name || appointment.appointmentDetails.meetingRoom || undefined,
+            checkInTime: appointment.checkInTime,
+            expectedEndTime,
+            overdueMinutes: Math.floor((now.getTime() - expectedEndTime.getTime()) / MS_PER_MINUTE)
+        };
+
+        const send = async (email: string | undefined, phone: string | undefined, recipientName: string) => {
+            if (config.emailEnabled && email) {
+                await EmailService.sendOverstayAlertEmail(email, { ...shared, recipientName });
+            }
+            if (config.whatsappEnabled && phone) {
+                await WhatsAppService.sendOverstayAlert(phone, { ...shared, recipientName });
+            }
+        };
+
+        if (config.attendance.overstayNotifyHost && host) {
+            await send(host.email, host.phone, host.name);
+        }
+        if (config.attendance.overstayNotifySecurity) {
+            for (const email of config.security.emails) {
+                await send(email, undefined, 'Security');
+            }
+            for (const phone of config.security.phones) {
+                await send(undefined, phone, 'Security');
+            }
+        }
+    }
+
+    private static async getCompanyConfig(userId: string, cache: Map<string, ICompanyOverstayConfig>): Promise<ICompanyOverstayConfig> {
+        let config = cache.get(userId);
+        if (!config) {
+            config = {
+                attendance: await SettingsService.getAttendanceSettings(userId),
+                emailEnabled: await SettingsService.isEmailEnabled(userId),
+                whatsappEnabled: await SettingsService.isWhatsAppEnabled(userId),
+                security: await SettingsService.getSecurityContacts(userId)
+            };
+            cache.set(userId, config);
+        }
+        return config;
+    }
+}
@@ -0,0 +1,207 @@
+import { Settings } from '../../models/settings/settings.model';
+import { User } from '../../models/user/user.model';
+import { Employee } from '../../models/employee/employee.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { SettingsService } from '../settings/settings.service';
+import { VisitorService } from '../visitor/visitor.service';
+import { AppointmentService } from '../appointment/appointment.service';
+import { RescheduleService } from '../reschedule/reschedule.service';
+import { UserSubscriptionService } from '../userSubscription/userSubscription.service';
+import { UploadService } from '../upload/upload.service';
+import { WatchlistService } from '../watchlist/watchlist.service';
+import {
+    IPreRegistrationLink,
+    IPreRegistrationForm,
+    IPreRegistrationDTO,
+    IPreRegistrationResult,
+    IPreRegistrationHost
+} from '../../types/preRegistration/preRegistration.types';
+import { IPreRegistrationSettings } from '../../types/settings/settings.types';
+import { ERROR_CODES, TRIAL_LIMITS } from '../../utils/constants';
+import { JwtUtil } from '../../utils/jwt.util';
+import { TokenUtil } from '../../utils/token.util';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+const DEFAULT_VISIT_DURATION = 60;
+
+export class PreRegistrationService {
+    /**
+     * Shareable link of the company's public pre-registration page
+     */
+    static async getLink(userId: string): Promise<IPreRegistrationLink> {
+        const settings = await SettingsService.getPreRegistrationSettings(userId);
+        return {
+            enabled: settings.enabled,
+            url: this.buildUrl(userId, settings.tokenVersion)
+        };
+    }
+
+    /**
+     * Issue a new link; every link handed out before stops working
+     */
+    static async rotateLink(userId: string): Promise<IPreRegistrationLink> {
+        await SettingsService.getSettings(userId);
+        const settings = await Settings.findOneAndUpdate(
+            { userId },
+            { $inc: { 'preRegistration.tokenVersion': 1 } },
+            { new: true }
+        ).lean();
+
+        return {
+            enabled: settings?.preRegistration?.enabled ?? false,
+            url: this.buildUrl(userId, settings?.preRegistration?.tokenVersion ?? 0)
+        };
+    }
+
+    /**
+     * Company details, hosts and purposes for the public form
+     */
+    static async getForm(token: string): Promise<IPreRegistrationForm> {
+        const { companyId, settings } = await this.resolveLink(token);
+
+        const [company, employees] = await Promise.all([
+            User.findById(companyId).select('companyName profilePicture').lean(),
+            Employee.find({ createdBy: companyId, isDeleted: false, status: 'Active' })
+                .select('name department designation')
+                .sort({ name: 1 })
+                .lean()
+        ]);
+
+        return {
+            companyName: company?.companyName || '',
+            logo: company?.profilePicture || undefined,
+            hosts: employees.map(employee => ({
+                _id: employee._id.toString(),
+                name: employee.name,
+                department: employee.department,
+                designation: employee.designation
+            })) as IPreRegistrationHost[],
+            purposes: settings.purposes,
+            hostRequired: !settings.defaultEmployeeId
+        };
+    }
+
+    /**
+     * Upload the visitor's photo or ID proof image from the public form
+     */
+    static async uploadFile(token: string, file: Express.Multer.File): Promise<{ url: string; filename: string; size: number }> {
+        const { companyId } = await this.resolveLink(token);
+        return UploadService.uploadFile(file, `pre-registrations/${companyId}`);
+    }
+
+    /**
+     * Register a visitor from the public form: creates the visitor (or reuses the one
+     * with the same email) and a pending appointment that goes through the normal approval flow
+     */
+    @Transaction('Failed to submit registration')
+    static async register(token: string, registration: IPreRegistrationDTO, options: { session?: any } = {}): Promise<IPreRegistrationResult> {
+        const { session } = options;
+        const { companyId, settings } = await this.resolveLink(token);
+
+        await this.assertWithinTrialLimits(companyId);
+
+        const scheduledDate = new Date(registration.scheduledDate);
+        if (AppointmentTimeUtil.getStartTime(scheduledDate, registration.scheduledTime) <= new Date()) {
+            throw new AppError('Please choose a time in the future', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const employeeId = registration.employeeId || settings.defaultEmployeeId?.toString();
+        if (!employeeId) {
+            throw new AppError('Please choose who you are visiting', ERROR_CODES.BAD_REQUEST);
+        }
+        const employee = await Employee.findOne({ _id: employeeId, createdBy: companyId, isDeleted: false, status: 'Active' })
+            .select('name')
+            .session(session);
+        if (!employee) {
+            throw new AppError('The selected host is not available', ERROR_CODES.BAD_REQUEST);
+        }
+
+        // Existing visitor records are linked as they are; a public form must not overwrite them.
+        // New ones are screened against the watchlist with the appointment below.
+        const existingVisitor = await Visitor.findOne({ email: registration.visitor.email, createdBy: companyId, isDeleted: false })
+            .session(session);
+        const visitorId = existingVisitor
+            ? (existingVisitor._id as any).toString()
+            : (await VisitorService.createVisitor(registration.visitor, companyId, { session, skipWatchlist: true }))._id.toString();
+
+        let appointment;
+        try {
+            appointment = await AppointmentService.createAppointment(
+                {
+                    employeeId,
+                    visitorId,
+                    appointmentDetails: {
+                        purpose: registration.purpose,
+                        scheduledDate,
+                        scheduledTime: registration.scheduledTime,
+                        duration: registration.duration ?? DEFAULT_VISIT_DURATION,
+                        notes: registration.notes
+                    }
+                },
+                companyId,
+                { session }
+            );
+        } catch (error) {
+            // Security has the hit; the submitter is not told about the watchlist
+            if (WatchlistService.isScreeningError(error)) {
+                throw new AppError('Your registration could not be completed. Please contact the company.', ERROR_CODES.BAD_REQUEST);
+            }
+            throw error;
+        }
+
+        return {
+            appointmentId: appointment.appointmentId,
+            status: appointment.status,
+            hostName: employee.name,
+            scheduledDate: appointment.appointmentDetails.scheduledDate,
+            scheduledTime: appointment.appointmentDetails.scheduledTime,
+            manageUrl: await RescheduleService.getVisitorLink(appointment._id.toString(), session)
+        };
+    }
+
+    /**
+     * Check the link signature and that it is the company's current, enabled link
+     */
+    private static async resolveLink(token: string): Promise<{ companyId: string; settings: IPreRegistrationSettings }> {
+        let payload;
+        try {
+            payload = JwtUtil.verifyPreRegistrationToken(token);
+        } catch (error) {
+            throw new AppError('Invalid or expired link', ERROR_CODES.NOT_FOUND);
+        }
+
+        const company = await User.findOne({ _id: payload.companyId, isDeleted: false, isActive: true }).select('_id').lean();
+        if (!company) {
+            throw new AppError('Invalid or expired link', ERROR_CODES.NOT_FOUND);
+        }
+
+        const settings = await SettingsService.getPreRegistrationSettings(payload.companyId);
+        if (!settings.enabled || settings.tokenVersion !== payload.version) {
+            throw new AppError('This registration link is no longer active', ERROR_CODES.NOT_FOUND);
+        }
+
+        return { companyId: payload.companyId, settings };
+    }
+
+    /**
+     * Public registrations are held to the same trial limits as bookings made from the dashboard
+     */
+    private static async assertWithinTrialLimits(companyId: string): Promise<void> {
+        const activeSubscription = await UserSubscriptionService.getUserActiveSubscription(companyId);
+        if (activeSubscription && !activeSubscription.isTrialing) {
+            return;
+        }
+
+        const counts = await UserSubscriptionService.getTrialLimitsCounts(companyId);
+        if (counts.appointments >= TRIAL_LIMITS.appointments) {
+            throw new AppError('This company cannot accept registrations right now', ERROR_CODES.PAYMENT_REQUIRED);
+        }
+    }
+
+    private static buildUrl(companyId: string, version: number): string {
+        const token = JwtUtil.generatePreRegistrationToken({ companyId, version });
+        return TokenUtil.buildUrl(`register/${token}`);
+    }
+}
@@ -0,0 +1,15 @@
+import { getRedisClient } from '../../config/redis.config';
+
+const LOCK_PREFIX = 'lock:';
+
+export class RedisLockService {
+  /**
+   * Try to take a lock for the given time. Returns false if another process holds it.
+   * Throws when Redis is unavailable so callers can decide whether to go ahead without it.
+   */
+  static async acquire(name: string, ttlMs: number): Promise<boolean> {
+    const redis = getRedisClient();
+    const result = await redis.set(`${LOCK_PREFIX}${name}`, process.pid.toString(), 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  }
+}
@@ -0,0 +1,193 @@
+import { Appointment, IAppointment } from '../../models/appointment/appointment.model';
+import { Settings } from '../../models/settings/settings.model';
+import { User } from '../../models/user/user.model';
+import { SettingsService } from '../settings/settings.service';
+import { RescheduleService } from '../reschedule/reschedule.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+    AppointmentStatus,
+    IAppointmentReminderDetails,
+    IReminderLogEntry,
+    ReminderRecipient
+} from '../../types/appointment/appointment.types';
+import { IReminderSettings } from '../../types/settings/settings.types';
+import { CONSTANTS, MAX_REMINDER_OFFSET_MINUTES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+
+const REMINDABLE_STATUSES: AppointmentStatus[] = ['pending', 'approved'];
+
+interface ICompanyReminderConfig {
+    reminders: IReminderSettings;
+    emailEnabled: boolean;
+    whatsappEnabled: boolean;
+    companyName: string;
+}
+
+/**
+ * Sends the configured reminders ahead of upcoming appointments. Run by the reminder job.
+ */
+export class ReminderService {
+    /**
+     * Send every reminder that has fallen due. The offset is claimed on the appointment with
+     * a conditional update before anything is sent, so restarts and parallel instances never
+     * send the same reminder twice, and released again when nothing could be sent so the next
+     * run retries it. Returns the number of appointments reminded.
+     */
+    static async sendDueReminders(now: Date = new Date()): Promise<number> {
+        const disabledCompanies = await Settings.distinct('userId', { 'reminders.enabled': false });
+        const configCache = new Map<string, ICompanyReminderConfig>();
+        let reminded = 0;
+
+        const cursor = Appointment.find({
+            status: { $in: REMINDABLE_STATUSES },
+            isDeleted: false,
+            createdBy: { $nin: disabledCompanies },
+            'appointmentDetails.scheduledDate': {
+                $gte: AppointmentTimeUtil.startOfDay(now),
+                $lte: AppointmentTimeUtil.addMinutes(now, MAX_REMINDER_OFFSET_MINUTES)
+            }
+        })
+            .select('createdBy appointmentDetails reminderOffsetsSent')
+            .lean()
+            .cursor();
+
+        for await (const appointment of cursor) {
+            const config = await this.getCompanyConfig(appointment.createdBy.toString(), configCache);
+            const { scheduledDate, scheduledTime } = appointment.appointmentDetails;
+            const start = AppointmentTimeUtil.getStartTime(scheduledDate, scheduledTime);
+            if (start <= now) {
+                continue;
+            }
+
+            // Reminders only move closer to the visit: once one is sent, the earlier offsets are
+            // past, and of those missed while the job was down only the latest is sent
+            const sent = appointment.reminderOffsetsSent ?? [];
+            const due = config.reminders.offsets.filter(offset =>
+                sent.every(sentOffset => sentOffset > offset) && AppointmentTimeUtil.addMinutes(start, -offset) <= now
+            );
+            if (due.length === 0) {
+                continue;
+            }
+            const offset = Math.min(...due);
+
+            const claimed = await Appointment.updateOne(
+                {
+                    _id: appointment._id,
+                    status: { $in: REMINDABLE_STATUSES },
+                    isDeleted: false,
+                    reminderOffsetsSent: { $not: { $lte: offset } }
+                },
+                { $addToSet: { reminderOffsetsSent: offset } }
+            );
+            if (claimed.modifiedCount === 0) {
+                continue;
+            }
+
+            let delivered = false;
+            try {
+                delivered = await this.sendReminder(appointment._id.toString(), offset, config);
+            } catch (error) {
+                console.error(`Failed to send reminder for appointment ${appointment._id}:`, error);
+            }
+
+            if (delivered) {
+                await Appointment.updateOne({ _id: appointment._id }, { $set: { 'notifications.reminderSent': true } });
+                reminded++;
+            } else {
+                await Appointment.updateOne({ _id: appointment._id }, { $pull: { reminderOffsetsSent: offset } });
+            }
+        }
+
+        return reminded;
+    }
+
+    /**
+     * Forget the reminders sent for the old time after an appointment moves.
+     * Does not save the document.
+     */
+    static resetReminders(appointment: IAppointment): void {
+        appointment.reminderOffsetsSent = [];
+        appointment.notifications.reminderSent = false;
+    }
+
+    /**
+     * Send one reminder to visitor and host and log each message. Returns false when every
+     * message failed, true when at least one went out or there was nothing to send.
+     */
+    private static async sendReminder(appointmentId: string, offsetMinutes: number, config: ICompanyReminderConfig): Promise<boolean> {
+        const appointment: any = await Appointment.findById(appointmentId)
+            .populate('employeeId', 'name email phone')
+            .populate('visitorId', 'name email phone');
+        if (!appointment) {
+            return true;
+        }
+
+        const employee = appointment.employeeId;
+        const visitor = appointment.visitorId;
+        const { scheduledDate, scheduledTime, meetingRoom } = appointment.appointmentDetails;
+        const log: IReminderLogEntry[] = [];
+
+        const send = async (recipient: ReminderRecipient, contact: any, details: IAppointmentReminderDetails) => {
+            if (config.emailEnabled && contact?.email) {
+                const success = await EmailService.sendAppointmentReminderEmail(contact.email, details);
+                log.push({ offsetMinutes, recipient, channel: 'email', success, sentAt: new Date() });
+            }
+            if (config.whatsappEnabled && contact?.phone) {
+                const success = await WhatsAppService.sendAppointmentReminder(contact.phone, details);
+                log.push({ offsetMinutes, recipient, channel: 'whatsapp', success, sentAt: new Date() });
+            }
+        };
+
+        const shared = {
+            companyName: config.companyName,
+            status: appointment.status,
+            scheduledDate,
+            scheduledTime,
+            meetingRoom
+        };
+
+        if (config.reminders.notifyVisitor && visitor) {
+            await send('visitor', visitor, {
+                ...shared,
+                recipient: 'visitor',
+                recipientName: visitor.name,
+                counterpartName: employee?.name || 'your host',
+                directions: config.reminders.directions || undefined,
+                manageUrl: await RescheduleService.getVisitorLink(appointmentId)
+            });
+        }
+
+        if (config.reminders.notifyHost && employee) {
+            const baseUrl = (CONSTANTS.FRONTEND_URL || '').replace(/\/$/, '');
+            await send('host', employee, {
+                ...shared,
+                recipient: 'host',
+                recipientName: employee.name,
+                counterpartName: visitor?.name || 'Your visitor',
+                manageUrl: `${baseUrl}/dashboard/notifications`
+            });
+        }
+
+        if (log.length === 0) {
+            return true;
+        }
+        await Appointment.updateOne({ _id: appointmentId }, { $push: { reminderLog: { $each: log } } });
+        return log.some(entry => entry.success);
+    }
+
+    private static async getCompanyConfig(userId: string, cache: Map<string, ICompanyReminderConfig>): Promise<ICompanyReminderConfig> {
+        let config = cache.get(userId);
+        if (!config) {
+            const company = await User.findById(userId).select('companyName').lean();
+            config = {
+                reminders: await SettingsService.getReminderSettings(userId),
+                emailEnabled: await SettingsService.isEmailEnabled(userId),
+                whatsappEnabled: await SettingsService.isWhatsAppEnabled(userId),
+                companyName: company?.companyName || 'our office'
+            };
+            cache.set(userId, config);
+        }
+        return config;
+    }
+}
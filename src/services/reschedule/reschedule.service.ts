@@ -0,0 +1,471 @@
+import { Appointment, IAppointment, IRescheduleHistoryEntry } from '../../models/appointment/appointment.model';
+import { Employee } from '../../models/employee/employee.model';
+import { AppointmentService } from '../appointment/appointment.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { SettingsService } from '../settings/settings.service';
+import { ReminderService } from '../reminder/reminder.service';
+import { VisitorTypeService } from '../visitorType/visitorType.service';
+import {
+    AppointmentStatus,
+    IAppointmentResponse,
+    IAppointmentSlot,
+    IProposeRescheduleDTO,
+    IRespondRescheduleDTO,
+    IRescheduleEntry,
+    IVisitorAppointmentView,
+    RescheduleParty
+} from '../../types/appointment/appointment.types';
+import { ERROR_MESSAGES, ERROR_CODES, VISITOR_CANCELLATION_REASON } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { TokenUtil } from '../../utils/token.util';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+const RESCHEDULABLE_STATUSES: AppointmentStatus[] = ['pending', 'approved'];
+
+export class RescheduleService {
+    /**
+     * Host side proposes a new time; the visitor responds through their link
+     */
+    @Transaction('Failed to propose new time')
+    static async proposeByHost(
+        appointmentId: string,
+        proposal: IProposeRescheduleDTO,
+        userId: string,
+        options: { session?: any } = {}
+    ): Promise<IAppointmentResponse> {
+        const { session } = options;
+
+        const appointment = await Appointment.findOne({ _id: appointmentId, createdBy: userId, isDeleted: false })
+            .select('+visitorToken')
+            .session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        const entry = await this.propose(appointment, proposal, 'host', userId, session);
+        await this.notifyProposal(appointment, entry, session);
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Visitor proposes a new time through their link; the host responds from the dashboard
+     */
+    @Transaction('Failed to propose new time')
+    static async proposeByVisitor(token: string, proposal: IProposeRescheduleDTO, options: { session?: any } = {}): Promise<IVisitorAppointmentView> {
+        const { session } = options;
+
+        const appointment = await this.findByVisitorToken(token, session);
+        const entry = await this.propose(appointment, proposal, 'visitor', undefined, session);
+        await this.notifyProposal(appointment, entry, session);
+
+        return this.getVisitorView(token, session);
+    }
+
+    /**
+     * Host side accepts or declines the visitor's proposal
+     */
+    @Transaction('Failed to respond to new time')
+    static async respondByHost(
+        appointmentId: string,
+        response: IRespondRescheduleDTO,
+        userId: string,
+        options: { session?: any } = {}
+    ): Promise<IAppointmentResponse> {
+        const { session } = options;
+
+        const appointment = await Appointment.findOne({ _id: appointmentId, createdBy: userId, isDeleted: false }).session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        const entry = await this.respond(appointment, response, 'host', userId, session);
+        await this.notifyResponse(appointment, entry, session);
+
+        return appointment.toObject() as unknown as IAppointmentResponse;
+    }
+
+    /**
+     * Visitor accepts or declines the host's proposal through their link
+     */
+    @Transaction('Failed to respond to new time')
+    static async respondByVisitor(token: string, response: IRespondRescheduleDTO, options: { session?: any } = {}): Promise<IVisitorAppointmentView> {
+        const { session } = options;
+
+        const appointment = await this.findByVisitorToken(token, session);
+        const entry = await this.respond(appointment, response, 'visitor', undefined, session);
+        await this.notifyResponse(appointment, entry, session);
+
+        return this.getVisitorView(token, session);
+    }
+
+    /**
+     * Visitor cancels the appointment through their link
+     */
+    @Transaction('Failed to cancel appointment')
+    static async cancelByVisitor(token: string, reason: string | undefined, options: { session?: any } = {}): Promise<IVisitorAppointmentView> {
+        const { session } = options;
+
+        const appointment = await this.findByVisitorToken(token, session);
+        if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+            throw new AppError('Only pending or approved appointments can be cancelled', ERROR_CODES.BAD_REQUEST);
+        }
+
+        this.supersedePending(appointment);
+        appointment.transitionTo('cancelled', { source: 'visitor_link', reason: VISITOR_CANCELLATION_REASON, note: reason || undefined });
+        await appointment.save({ session });
+
+        await CalendarService.sendInviteUpdate((appointment._id as any).toString(), 'CANCEL', session);
+
+        return this.getVisitorView(token, session);
+    }
+
+    /**
+     * Minimal view of an appointment for the visitor holding its link
+     */
+    static async getVisitorView(token: string, session?: any): Promise<IVisitorAppointmentView> {
+        const appointment: any = await Appointment.findOne({ visitorToken: token, isDeleted: false })
+            .populate('employeeId', 'name')
+            .populate('visitorId', 'name')
+            .session(session);
+        if (!appointment) {
+            throw new AppError('Invalid or expired link', ERROR_CODES.NOT_FOUND);
+        }
+        this.assertLinkOpen(appointment);
+
+        const { purpose, scheduledDate, scheduledTime, duration, meetingRoom } = appointment.appointmentDetails;
+        const pending = this.findPendingEntry(appointment);
+
+        return {
+            appointmentId: appointment.appointmentId,
+            status: appointment.status,
+            visitorName: appointment.visitorId?.name || '',
+            employeeName: appointment.employeeId?.name || '',
+            purpose,
+            scheduledDate,
+            scheduledTime,
+            duration,
+            meetingRoom,
+            pendingReschedule: pending ? pending.toObject() as IRescheduleEntry : null
+        };
+    }
+
+    /**
+     * Link the visitor uses to view the appointment and propose or answer a new time.
+     * The token is created on first use.
+     */
+    static async getVisitorLink(appointmentId: string, session?: any): Promise<string> {
+        const appointment = await Appointment.findById(appointmentId).select('+visitorToken').session(session);
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+
+        if (!appointment.visitorToken) {
+            appointment.visitorToken = TokenUtil.generateToken();
+            await appointment.save({ session });
+        }
+
+        return TokenUtil.buildUrl(`visit/${appointment.visitorToken}`);
+    }
+
+    /**
+     * Record a time change made directly from the dashboard so the history keeps
+     * the original slot. Any open proposal is superseded.
+     */
+    static async recordDirectChange(appointment: IAppointment, newSlot: IAppointmentSlot, userId: string, session?: any): Promise<void> {
+        const previousSlot = this.getSlot(appointment);
+        if (this.isSameSlot(previousSlot, newSlot)) {
+            return;
+        }
+
+        this.supersedePending(appointment);
+        appointment.rescheduleHistory.push({
+            previousSlot,
+            proposedSlot: newSlot,
+            proposedBy: 'host',
+            proposedByUser: userId as any,
+            status: 'applied',
+            proposedAt: new Date(),
+            respondedAt: new Date()
+        });
+        ReminderService.resetReminders(appointment);
+        await appointment.save({ session });
+    }
+
+    static getSlot(appointment: IAppointment): IAppointmentSlot {
+        const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+        return { scheduledDate, scheduledTime, duration };
+    }
+
+    private static async propose(
+        appointment: IAppointment,
+        proposal: IProposeRescheduleDTO,
+        proposedBy: RescheduleParty,
+        userId: string | undefined,
+        session?: any
+    ): Promise<IRescheduleHistoryEntry> {
+        if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+            throw new AppError('Only pending or approved appointments can be rescheduled', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const previousSlot = this.getSlot(appointment);
+        const proposedSlot: IAppointmentSlot = {
+            scheduledDate: new Date(proposal.scheduledDate),
+            scheduledTime: proposal.scheduledTime,
+            duration: proposal.duration ?? previousSlot.duration
+        };
+
+        if (this.isSameSlot(previousSlot, proposedSlot)) {
+            throw new AppError('The proposed time is the same as the current time', ERROR_CODES.BAD_REQUEST);
+        }
+        if (AppointmentTimeUtil.getStartTime(proposedSlot.scheduledDate, proposedSlot.scheduledTime) <= new Date()) {
+            throw new AppError('The proposed time must be in the future', ERROR_CODES.BAD_REQUEST);
+        }
+
+        await this.assertSlotBookable(appointment, proposedSlot, session);
+
+        // A counter-proposal replaces the one awaiting a response
+        this.supersedePending(appointment);
+        appointment.rescheduleHistory.push({
+            previousSlot,
+            proposedSlot,
+            proposedBy,
+            proposedByUser: userId as any,
+            reason: proposal.reason,
+            status: 'pending',
+            proposedAt: new Date()
+        });
+        await appointment.save({ session });
+
+        return appointment.rescheduleHistory[appointment.rescheduleHistory.length - 1];
+    }
+
+    private static async respond(
+        appointment: IAppointment,
+        response: IRespondRescheduleDTO,
+        respondedBy: RescheduleParty,
+        userId: string | undefined,
+        session?: any
+    ): Promise<IRescheduleHistoryEntry> {
+        const entry = this.findPendingEntry(appointment);
+        if (!entry) {
+            throw new AppError('No new time is awaiting a response', ERROR_CODES.NOT_FOUND);
+        }
+        if (entry.proposedBy === respondedBy) {
+            throw new AppError('A proposed time must be answered by the other party', ERROR_CODES.FORBIDDEN);
+        }
+        if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+            throw new AppError('Only pending or approved appointments can be rescheduled', ERROR_CODES.BAD_REQUEST);
+        }
+
+        if (response.accept) {
+            // The calendar may have filled up since the proposal was made
+            await this.assertSlotBookable(appointment, entry.proposedSlot, session);
+
+            appointment.set('appointmentDetails.scheduledDate', entry.proposedSlot.scheduledDate);
+            appointment.set('appointmentDetails.scheduledTime', entry.proposedSlot.scheduledTime);
+            appointment.set('appointmentDetails.duration', entry.proposedSlot.duration);
+            ReminderService.resetReminders(appointment);
+            if (appointment.seriesId) {
+                appointment.isSeriesException = true;
+            }
+        }
+
+        entry.status = response.accept ? 'accepted' : 'declined';
+        entry.responseReason = response.reason;
+        entry.respondedByUser = userId as any;
+        entry.respondedAt = new Date();
+        await appointment.save({ session });
+
+        if (response.accept && appointment.status === 'approved') {
+            await CalendarService.sendInviteUpdate((appointment._id as any).toString(), 'REQUEST', session);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Run the same checks as a new booking: the visitor type's longest visit, employee
+     * conflicts, availability and the room
+     */
+    private static async assertSlotBookable(appointment: IAppointment, slot: IAppointmentSlot, session?: any): Promise<void> {
+        const appointmentId = (appointment._id as any).toString();
+        const companyUserId = appointment.createdBy.toString();
+
+        await VisitorTypeService.assertAppointmentDuration(appointment, slot.duration, session);
+
+        await AppointmentService.assertNoConflicts(
+            appointment.employeeId.toString(),
+            slot.scheduledDate,
+            slot.scheduledTime,
+            slot.duration,
+            companyUserId,
+            { excludeAppointmentIds: [appointmentId], session }
+        );
+
+        const employee = await Employee.findOne({ _id: appointment.employeeId, isDeleted: false }).session(session);
+        if (!employee) {
+            throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        const unavailable = await AvailabilityService.checkAvailability(
+            employee,
+            slot.scheduledDate,
+            slot.scheduledTime,
+            slot.duration,
+            companyUserId,
+            session
+        );
+        if (unavailable) {
+            throw new AppError(unavailable.message, ERROR_CODES.BAD_REQUEST, { reason: unavailable.reason });
+        }
+
+        const meetingRoomId = appointment.appointmentDetails.meetingRoomId?.toString();
+        if (meetingRoomId) {
+            await AppointmentService.assertRoomAvailable(
+                meetingRoomId,
+                slot.scheduledDate,
+                slot.scheduledTime,
+                slot.duration,
+                AppointmentService.countCompanions(appointment),
+                companyUserId,
+                { excludeAppointmentIds: [appointmentId], session }
+            );
+        }
+    }
+
+    private static async notifyProposal(appointment: IAppointment, entry: IRescheduleHistoryEntry, session?: any): Promise<void> {
+        try {
+            const { employee, visitor, emailEnabled, whatsappEnabled } = await this.loadParties(appointment, session);
+            const byHost = entry.proposedBy === 'host';
+            const recipient = byHost ? visitor : employee;
+            const proposerName = byHost ? employee.name : visitor.name;
+            // Visitors answer through their link; hosts answer from the dashboard
+            const actionUrl = byHost ? await this.getVisitorLink((appointment._id as any).toString(), session) : undefined;
+
+            if (emailEnabled && recipient.email) {
+                await EmailService.sendRescheduleProposalEmail(
+                    recipient.email,
+                    recipient.name,
+                    proposerName,
+                    entry.previousSlot.scheduledDate,
+                    entry.previousSlot.scheduledTime,
+                    entry.proposedSlot.scheduledDate,
+                    entry.proposedSlot.scheduledTime,
+                    entry.reason,
+                    actionUrl
+                );
+            }
+            if (whatsappEnabled && recipient.phone) {
+                await WhatsAppService.sendRescheduleProposal(
+                    recipient.phone,
+                    recipient.name,
+                    proposerName,
+                    entry.proposedSlot.scheduledDate,
+                    entry.proposedSlot.scheduledTime,
+                    actionUrl
+                );
+            }
+        } catch (error) {
+            console.error('Failed to send reschedule proposal notifications:', error);
+        }
+    }
+
+    private static async notifyResponse(appointment: IAppointment, entry: IRescheduleHistoryEntry, session?: any): Promise<void> {
+        try {
+            const { employee, visitor, emailEnabled, whatsappEnabled } = await this.loadParties(appointment, session);
+            const byHost = entry.proposedBy === 'host';
+            const recipient = byHost ? employee : visitor;
+            const responderName = byHost ? visitor.name : employee.name;
+            const accepted = entry.status === 'accepted';
+            const { scheduledDate, scheduledTime } = appointment.appointmentDetails;
+
+            if (emailEnabled && recipient.email) {
+                await EmailService.sendRescheduleResponseEmail(
+                    recipient.email,
+                    recipient.name,
+                    responderName,
+                    accepted,
+                    scheduledDate,
+                    scheduledTime,
+                    entry.responseReason
+                );
+            }
+            if (whatsappEnabled && recipient.phone) {
+                await WhatsAppService.sendRescheduleResponse(
+                    recipient.phone,
+                    recipient.name,
+                    responderName,
+                    accepted,
+                    scheduledDate,
+                    scheduledTime
+                );
+            }
+        } catch (error) {
+            console.error('Failed to send reschedule response notifications:', error);
+        }
+    }
+
+    private static async loadParties(appointment: IAppointment, session?: any): Promise<{
+        employee: any;
+        visitor: any;
+        emailEnabled: boolean;
+        whatsappEnabled: boolean;
+    }> {
+        const populated: any = await Appointment.findById(appointment._id)
+            .populate('employeeId', 'name email phone')
+            .populate('visitorId', 'name email phone')
+            .session(session);
+        const userId = appointment.createdBy.toString();
+
+        return {
+            employee: populated.employeeId,
+            visitor: populated.visitorId,
+            emailEnabled: await SettingsService.isEmailEnabled(userId),
+            whatsappEnabled: await SettingsService.isWhatsAppEnabled(userId)
+        };
+    }
+
+    private static async findByVisitorToken(token: string, session?: any): Promise<IAppointment> {
+        const appointment = await Appointment.findOne({ visitorToken: token, isDeleted: false })
+            .select('+visitorToken')
+            .session(session);
+        if (!appointment) {
+            throw new AppError('Invalid or expired link', ERROR_CODES.NOT_FOUND);
+        }
+        this.assertLinkOpen(appointment);
+        return appointment;
+    }
+
+    /**
+     * The visitor's link works until the end of the visit
+     */
+    private static assertLinkOpen(appointment: IAppointment): void {
+        const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+        if (AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration).end <= new Date()) {
+            throw new AppError('This link has expired', ERROR_CODES.BAD_REQUEST);
+        }
+    }
+
+    private static findPendingEntry(appointment: IAppointment): (IRescheduleHistoryEntry & { toObject(): any }) | undefined {
+        return appointment.rescheduleHistory.find(entry => entry.status === 'pending') as any;
+    }
+
+    private static supersedePending(appointment: IAppointment): void {
+        for (const entry of appointment.rescheduleHistory) {
+            if (entry.status === 'pending') {
+                entry.status = 'superseded';
+                entry.respondedAt = new Date();
+            }
+        }
+    }
+
+    private static isSameSlot(a: IAppointmentSlot, b: IAppointmentSlot): boolean {
+        return new Date(a.scheduledDate).getTime() === new Date(b.scheduledDate).getTime()
+            && a.scheduledTime === b.scheduledTime
+            && a.duration === b.duration;
+    }
+}
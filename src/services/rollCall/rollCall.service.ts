@@ -0,0 +1,334 @@
+import PDFDocument from 'pdfkit';
+import { RollCall, IRollCall, IRollCallEntry } from '../../models/rollCall/rollCall.model';
+import { OnSiteService } from '../onSite/onSite.service';
+import { IOnSiteVisitor } from '../../types/onSite/onSite.types';
+import {
+    IStartRollCallDTO,
+    IMarkSafeDTO,
+    ICloseRollCallDTO,
+    IGetRollCallsQuery,
+    IRollCallResponse,
+    IRollCallListResponse,
+    IRollCallSummary,
+    IRollCallExport,
+    RollCallExportFormat
+} from '../../types/rollCall/rollCall.types';
+import { ERROR_CODES } from '../../utils/constants';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Site shown for visits without a room, or in a room without a site
+const UNKNOWN_SITE = 'Unknown';
+
+const CSV_COLUMNS = [
+    'Status', 'Visitor', 'Company', 'Phone', 'Badge', 'Host', 'Host phone',
+    'Room', 'Site', 'Checked in', 'Accompanying', 'Marked safe at', 'Note'
+];
+
+/**
+ * Emergency roll call: the visitors on site when a drill or incident starts are listed,
+ * marked safe one by one at the assembly point, and summarised when it is closed
+ */
+export class RollCallService {
+    /**
+     * Start a roll call with everyone on site, or at the given site, right now
+     */
+    @Transaction('Failed to start roll call')
+    static async startRollCall(rollCallData: IStartRollCallDTO, userId: string, options: { session?: any } = {}): Promise<IRollCallResponse> {
+        const { session } = options;
+
+        const open = await RollCall.exists({ createdBy: userId, status: 'open' }).session(session);
+        if (open) {
+            throw new AppError('A roll call is already open. Close it before starting another.', ERROR_CODES.CONFLICT);
+        }
+
+        const onSite = await OnSiteService.listOnSite(userId, rollCallData.site);
+        const rollCall = new RollCall({
+            type: rollCallData.type,
+            site: rollCallData.site || null,
+            notes: rollCallData.notes,
+            startedAt: new Date(),
+            entries: onSite.map(visitor => this.toEntry(visitor)),
+            createdBy: userId
+        });
+        await rollCall.save({ session });
+
+        return rollCall.toObject() as unknown as IRollCallResponse;
+    }
+
+    /**
+     * Roll calls of the company, latest first, without their lists
+     */
+    static async getRollCalls(query: IGetRollCallsQuery = {}, userId: string): Promise<IRollCallListResponse> {
+        const { page = 1, limit = 10, type, status } = query;
+
+        const filter: any = { createdBy: userId };
+        if (type) {
+            filter.type = type;
+        }
+        if (status) {
+            filter.status = status;
+        }
+
+        const skip = (page - 1) * limit;
+        const [rollCalls, totalRollCalls] = await Promise.all([
+            RollCall.find(filter)
+                .select('-entries')
+                .sort({ startedAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .lean(),
+            RollCall.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalRollCalls / limit);
+
+        return {
+            rollCalls: rollCalls as unknown as IRollCallListResponse['rollCalls'],
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalRollCalls,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    /**
+     * A roll call with its list
+     */
+    static async getRollCall(rollCallId: string, userId: string): Promise<IRollCallResponse> {
+        const rollCall = await this.findOwnedRollCall(rollCallId, userId);
+        return rollCall.toObject() as unknown as IRollCallResponse;
+    }
+
+    /**
+     * Record that a visitor, and the people with them, reached the assembly point
+     */
+    static async markSafe(rollCallId: string, entryId: string, markData: IMarkSafeDTO, userId: string): Promise<IRollCallResponse> {
+        // Several marshals mark people at once, so only the one entry is updated
+        const rollCall = await RollCall.findOneAndUpdate(
+            {
+                _id: rollCallId,
+                createdBy: userId,
+                status: 'open',
+                entries: { $elemMatch: { _id: entryId, status: 'unaccounted' } }
+            },
+            {
+                $set: {
+                    'entries.$.status': 'safe',
+                    'entries.$.markedSafeAt': new Date(),
+                    'entries.$.markedSafeBy': userId,
+                    'entries.$.note': markData.note
+                }
+            },
+            { new: true }
+        );
+        if (rollCall) {
+            return rollCall.toObject() as unknown as IRollCallResponse;
+        }
+
+        // Nothing was updated: say why
+        const existing = await this.findOwnedRollCall(rollCallId, userId);
+        if (existing.status === 'closed') {
+            throw new AppError('This roll call is closed', ERROR_CODES.BAD_REQUEST);
+        }
+        const entry = existing.entries.find(candidate => candidate._id?.toString() === entryId);
+        if (!entry) {
+            throw new AppError('Person not found on this roll call', ERROR_CODES.NOT_FOUND);
+        }
+        throw new AppError('This person has already been marked safe', ERROR_CODES.CONFLICT);
+    }
+
+    /**
+     * Close the roll call and produce its summary report
+     */
+    static async closeRollCall(rollCallId: string, closeData: ICloseRollCallDTO, userId: string): Promise<IRollCallResponse> {
+        const existing = await this.findOwnedRollCall(rollCallId, userId);
+        if (existing.status === 'closed') {
+            throw new AppError('This roll call is already closed', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const closedAt = new Date();
+        const update: any = {
+            status: 'closed',
+            closedAt,
+            closedBy: userId,
+            summary: this.summarise(existing, closedAt)
+        };
+        if (closeData.notes) {
+            update.notes = existing.notes ? `${existing.notes}\n${closeData.notes}` : closeData.notes;
+        }
+
+        const rollCall = await RollCall.findOneAndUpdate(
+            { _id: rollCallId, createdBy: userId, status: 'open' },
+            { $set: update },
+            { new: true }
+        );
+        if (!rollCall) {
+            throw new AppError('This roll call is already closed', ERROR_CODES.BAD_REQUEST);
+        }
+
+        return rollCall.toObject() as unknown as IRollCallResponse;
+    }
+
+    /**
+     * The list as CSV for spreadsheets, or as a PDF to print and tick off at the assembly point
+     */
+    static async exportRollCall(rollCallId: string, userId: string, format: RollCallExportFormat = 'csv'): Promise<IRollCallExport> {
+        const rollCall = await this.findOwnedRollCall(rollCallId, userId);
+        const entries = [...rollCall.entries].sort((a, b) => a.visitorName.localeCompare(b.visitorName));
+        const filename = `roll-call-${AppointmentTimeUtil.formatDate(rollCall.startedAt)}`;
+
+        if (format === 'pdf') {
+            return { content: await this.renderPdf(rollCall, entries), contentType: 'application/pdf', filename: `${filename}.pdf` };
+        }
+
+        const rows = entries.map(entry => [
+            entry.status,
+            entry.visitorName,
+            entry.visitorCompany,
+            entry.visitorPhone,
+            entry.badgeNumber,
+            entry.hostName,
+            entry.hostPhone,
+            entry.meetingRoomName,
+            entry.site,
+            this.formatDateTime(entry.checkInTime),
+            entry.accompanyingCount,
+            entry.markedSafeAt ? this.formatDateTime(entry.markedSafeAt) : '',
+            entry.note
+        ]);
+        const csv = [CSV_COLUMNS, ...rows].map(row => row.map(value => this.toCsvValue(value)).join(',')).join('\r\n');
+
+        return { content: Buffer.from(csv, 'utf8'), contentType: 'text/csv; charset=utf-8', filename: `${filename}.csv` };
+    }
+
+    private static summarise(rollCall: IRollCall, closedAt: Date): IRollCallSummary {
+        const people = (entry: IRollCallEntry): number => 1 + (entry.accompanyingCount || 0);
+        const safe = rollCall.entries.filter(entry => entry.status === 'safe');
+        const unaccounted = rollCall.entries.filter(entry => entry.status !== 'safe');
+
+        let allAccountedForMinutes: number | null = null;
+        if (unaccounted.length === 0) {
+            const lastMarked = Math.max(rollCall.startedAt.getTime(), ...safe.map(entry => entry.markedSafeAt?.getTime() ?? 0));
+            allAccountedForMinutes = Math.round((lastMarked - rollCall.startedAt.getTime()) / MS_PER_MINUTE);
+        }
+
+        return {
+            totalVisitors: rollCall.entries.length,
+            totalPeople: rollCall.entries.reduce((total, entry) => total + people(entry), 0),
+            safeVisitors: safe.length,
+            safePeople: safe.reduce((total, entry) => total + people(entry), 0),
+            unaccountedVisitors: unaccounted.length,
+            unaccountedPeople: unaccounted.reduce((total, entry) => total + people(entry), 0),
+            durationMinutes: Math.round((closedAt.getTime() - rollCall.startedAt.getTime()) / MS_PER_MINUTE),
+            allAccountedForMinutes,
+            unaccounted: unaccounted.map(entry => ({
+                visitorName: entry.visitorName,
+                hostName: entry.hostName,
+                meetingRoomName: entry.meetingRoomName,
+                badgeNumber: entry.badgeNumber
+            }))
+        };
+    }
+
+    private static toEntry(visitor: IOnSiteVisitor): Partial<IRollCallEntry> {
+        return {
+            appointmentId: visitor.appointmentId as any,
+            visitorId: visitor.visitor._id as any,
+            visitorName: visitor.visitor.name,
+            visitorCompany: visitor.visitor.company,
+            visitorPhone: visitor.visitor.phone,
+            badgeNumber: visitor.badgeNumber,
+            hostName: visitor.host?.name,
+            hostPhone: visitor.host?.phone,
+            meetingRoomName: visitor.meetingRoom?.name,
+            site: visitor.siteUnknown ? UNKNOWN_SITE : visitor.meetingRoom?.site,
+            checkInTime: visitor.checkInTime,
+            accompanyingCount: visitor.accompanyingCount,
+            status: 'unaccounted'
+        };
+    }
+
+    private static async renderPdf(rollCall: IRollCall, entries: IRollCallEntry[]): Promise<Buffer> {
+        const doc = new PDFDocument({ size: 'A4', margin: 40 });
+        const output = new Promise<Buffer>((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+        });
+
+        const title = `${rollCall.type === 'drill' ? 'Drill' : 'Incident'} roll call${rollCall.site ? ` - ${rollCall.site}` : ''}`;
+        doc.font('Helvetica-Bold').fontSize(16).text(title);
+        doc.font('Helvetica').fontSize(10)
+            .text(`Started ${this.formatDateTime(rollCall.startedAt)}${rollCall.closedAt ? `, closed ${this.formatDateTime(rollCall.closedAt)}` : ''}`);
+
+        const summary = rollCall.summary;
+        if (summary) {
+            doc.moveDown(0.5).text(
+                `${summary.safePeople} of ${summary.totalPeople} people accounted for; ${summary.unaccountedPeople} unaccounted. ` +
+                `Roll call took ${summary.durationMinutes} minutes.`
+            );
+        } else {
+            const people = entries.reduce((total, entry) => total + 1 + (entry.accompanyingCount || 0), 0);
+            doc.moveDown(0.5).text(`${entries.length} visitors, ${people} people in all`);
+        }
+        if (rollCall.notes) {
+            doc.moveDown(0.5).text(rollCall.notes);
+        }
+        doc.moveDown();
+
+        for (const entry of entries) {
+            const details = [
+                entry.visitorCompany,
+                entry.badgeNumber && `Badge ${entry.badgeNumber}`,
+                entry.hostName && `Host ${entry.hostName}`,
+                entry.meetingRoomName,
+                entry.accompanyingCount ? `+${entry.accompanyingCount} with them` : ''
+            ].filter(Boolean).join(' | ');
+
+            doc.font('Helvetica-Bold').fontSize(11)
+                .text(`${entry.status === 'safe' ? '[x]' : '[  ]'}  ${entry.visitorName}`, { continued: !!details });
+            if (details) {
+                doc.font('Helvetica').fontSize(9).text(`   ${details}`);
+            }
+            if (entry.markedSafeAt) {
+                doc.font('Helvetica').fontSize(8).fillColor('#555555')
+                    .text(`      Safe at ${AppointmentTimeUtil.formatTime(entry.markedSafeAt)}${entry.note ? ` - ${entry.note}` : ''}`)
+                    .fillColor('#000000');
+            }
+            doc.moveDown(0.3);
+        }
+
+        doc.end();
+        return output;
+    }
+
+    private static formatDateTime(date: Date): string {
+        return `${AppointmentTimeUtil.formatDate(date)} ${AppointmentTimeUtil.formatTime(date)}`;
+    }
+
+    private static toCsvValue(value: unknown): string {
+        let text = value === undefined || value === null ? '' : String(value);
+        // Visitors type their own names; keep spreadsheets from reading them as formulas.
+        // Phone numbers such as +91 98765 43210 are left as they are.
+        if (/^[=+\-@]/.test(text) && !/^\+?\d[\d\s\-()]*$/.test(text)) {
+            text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+
+    private static async findOwnedRollCall(rollCallId: string, userId: string): Promise<IRollCall> {
+        const rollCall = await RollCall.findOne({ _id: rollCallId, createdBy: userId });
+        if (!rollCall) {
+            throw new AppError('Roll call not found', ERROR_CODES.NOT_FOUND);
+        }
+        return rollCall;
+    }
+}
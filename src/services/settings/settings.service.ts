@@ -1,5 +1,35 @@
 import { Settings } from '../../models/settings/settings.model';
-import { IUpdateSettingsDTO, ISettingsResponse } from '../../types/settings/settings.types';
+import { Employee } from '../../models/employee/employee.model';
+import { MeetingRoom } from '../../models/meetingRoom/meetingRoom.model';
+import { User } from '../../models/user/user.model';
+import {
+    IUpdateSettingsDTO,
+    ISettingsResponse,
+    IHoliday,
+    IAttendanceSettings,
+    IReminderSettings,
+    IPreRegistrationSettings,
+    IApprovalSettings,
+    IStatusReasonSettings,
+    IBadgeSettings,
+    IWatchlistSettings
+} from '../../types/settings/settings.types';
+import { ReasonedStatus, IStatusReasonOption } from '../../types/appointment/appointment.types';
+import { IWorkingHours } from '../../types/employee/employee.types';
+import {
+    DEFAULT_WORKING_HOURS,
+    DEFAULT_ATTENDANCE_SETTINGS,
+    DEFAULT_REMINDER_SETTINGS,
+    DEFAULT_PRE_REGISTRATION_SETTINGS,
+    DEFAULT_APPROVAL_SETTINGS,
+    DEFAULT_STATUS_REASON_SETTINGS,
+    DEFAULT_BADGE_SETTINGS,
+    DEFAULT_WATCHLIST_SETTINGS,
+    ERROR_MESSAGES,
+    ERROR_CODES
+} from '../../utils/constants';
+import { SeriesApprovalMode } from '../../types/appointmentSeries/appointmentSeries.types';
+import { AppError } from '../../middlewares/errorHandler';
 import mongoose from 'mongoose';
 
 export class SettingsService {
@@ -20,6 +50,10 @@ export class SettingsService {
                 },
                 whatsapp: {
                     senderNumber: ''
+                },
+                scheduling: {
+                    bufferMinutes: 0,
+                    seriesApprovalMode: 'series'
                 }
             });
         }
@@ -31,6 +65,34 @@ export class SettingsService {
      * Update settings for a user
      */
     static async updateSettings(userId: string, updateData: IUpdateSettingsDTO): Promise<ISettingsResponse> {
+        const defaultEmployeeId = updateData.preRegistration?.defaultEmployeeId;
+        if (defaultEmployeeId) {
+            const employee = await Employee.findOne({ _id: defaultEmployeeId, createdBy: userId, isDeleted: false });
+            if (!employee) {
+                throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+            }
+        }
+
+        const approverIds = [
+            ...(updateData.approvals?.fallbackApprovers?.flatMap(approver => approver.employeeIds) ?? []),
+            ...(updateData.approvals?.policies?.flatMap(policy => policy.steps.flatMap(step => step.employeeIds)) ?? [])
+        ];
+        if (approverIds.length > 0) {
+            const uniqueIds = [...new Set(approverIds)];
+            const found = await Employee.countDocuments({ _id: { $in: uniqueIds }, createdBy: userId, isDeleted: false });
+            if (found !== uniqueIds.length) {
+                throw new AppError(ERROR_MESSAGES.EMPLOYEE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+            }
+        }
+
+        const roomIds = [...new Set(updateData.approvals?.policies?.flatMap(policy => policy.conditions?.meetingRoomIds ?? []) ?? [])];
+        if (roomIds.length > 0) {
+            const found = await MeetingRoom.countDocuments({ _id: { $in: roomIds }, createdBy: userId, isDeleted: false });
+            if (found !== roomIds.length) {
+                throw new AppError(ERROR_MESSAGES.MEETING_ROOM_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+            }
+        }
+
         let settings = await Settings.findOne({ userId });
 
         if (!settings) {
@@ -44,6 +106,42 @@ export class SettingsService {
                 },
                 whatsapp: {
                     senderNumber: updateData.whatsapp?.senderNumber || ''
+                },
+                scheduling: {
+                    bufferMinutes: updateData.scheduling?.bufferMinutes ?? 0,
+                    seriesApprovalMode: updateData.scheduling?.seriesApprovalMode ?? 'series'
+                },
+                availability: {
+                    workingHours: updateData.availability?.workingHours ?? DEFAULT_WORKING_HOURS,
+                    holidays: updateData.availability?.holidays ?? []
+                },
+                attendance: {
+                    ...DEFAULT_ATTENDANCE_SETTINGS,
+                    ...updateData.attendance
+                },
+                reminders: {
+                    ...DEFAULT_REMINDER_SETTINGS,
+                    ...updateData.reminders
+                },
+                preRegistration: {
+                    ...DEFAULT_PRE_REGISTRATION_SETTINGS,
+                    ...updateData.preRegistration
+                },
+                approvals: {
+                    ...DEFAULT_APPROVAL_SETTINGS,
+                    ...updateData.approvals
+                },
+                statusReasons: {
+                    ...DEFAULT_STATUS_REASON_SETTINGS,
+                    ...updateData.statusReasons
+                },
+                badges: {
+                    ...DEFAULT_BADGE_SETTINGS,
+                    ...updateData.badges
+                },
+                watchlist: {
+                    ...DEFAULT_WATCHLIST_SETTINGS,
+                    ...updateData.watchlist
                 }
             });
         } else {
@@ -66,6 +164,80 @@ export class SettingsService {
                 }
             }
 
+            if (updateData.scheduling) {
+                if (updateData.scheduling.bufferMinutes !== undefined) {
+                    settings.scheduling.bufferMinutes = updateData.scheduling.bufferMinutes;
+                }
+                if (updateData.scheduling.seriesApprovalMode !== undefined) {
+                    settings.scheduling.seriesApprovalMode = updateData.scheduling.seriesApprovalMode;
+                }
+            }
+
+            if (updateData.availability) {
+                if (updateData.availability.workingHours !== undefined) {
+                    settings.set('availability.workingHours', updateData.availability.workingHours);
+                }
+                if (updateData.availability.holidays !== undefined) {
+                    settings.set('availability.holidays', updateData.availability.holidays);
+                }
+            }
+
+            if (updateData.attendance) {
+                for (const [key, value] of Object.entries(updateData.attendance)) {
+                    if (value !== undefined) {
+                        settings.set(`attendance.${key}`, value);
+                    }
+                }
+            }
+
+            if (updateData.reminders) {
+                for (const [key, value] of Object.entries(updateData.reminders)) {
+                    if (value !== undefined) {
+                        settings.set(`reminders.${key}`, value);
+                    }
+                }
+            }
+
+            if (updateData.preRegistration) {
+                for (const [key, value] of Object.entries(updateData.preRegistration)) {
+                    if (value !== undefined) {
+                        settings.set(`preRegistration.${key}`, value);
+                    }
+                }
+            }
+
+            if (updateData.approvals) {
+                for (const [key, value] of Object.entries(updateData.approvals)) {
+                    if (value !== undefined) {
+                        settings.set(`approvals.${key}`, value);
+                    }
+                }
+            }
+
+            if (updateData.statusReasons) {
+                for (const [key, value] of Object.entries(updateData.statusReasons)) {
+                    if (value !== undefined) {
+                        settings.set(`statusReasons.${key}`, value);
+                    }
+                }
+            }
+
+            if (updateData.badges) {
+                for (const [key, value] of Object.entries(updateData.badges)) {
+                    if (value !== undefined) {
+                        settings.set(`badges.${key}`, value);
+                    }
+                }
+            }
+
+            if (updateData.watchlist) {
+                for (const [key, value] of Object.entries(updateData.watchlist)) {
+                    if (value !== undefined) {
+                        settings.set(`watchlist.${key}`, value);
+                    }
+                }
+            }
+
             await settings.save();
         }
 
@@ -96,6 +268,118 @@ export class SettingsService {
         return settings?.notifications.smsEnabled ?? false; // Default to false
     }
 
+    /**
+     * Get the buffer (minutes) required between two appointments of the same employee
+     */
+    static async getBufferMinutes(userId: string): Promise<number> {
+        const settings = await Settings.findOne({ userId });
+        return settings?.scheduling?.bufferMinutes ?? 0; // Default to no buffer
+    }
+
+    /**
+     * Get the default approval mode for recurring appointment series
+     */
+    static async getSeriesApprovalMode(userId: string): Promise<SeriesApprovalMode> {
+        const settings = await Settings.findOne({ userId });
+        return settings?.scheduling?.seriesApprovalMode ?? 'series'; // Default to one approval per series
+    }
+
+    /**
+     * Get the no-show and auto-checkout settings
+     */
+    static async getAttendanceSettings(userId: string): Promise<IAttendanceSettings> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return { ...DEFAULT_ATTENDANCE_SETTINGS, ...settings?.attendance };
+    }
+
+    /**
+     * Get the appointment reminder settings
+     */
+    static async getReminderSettings(userId: string): Promise<IReminderSettings> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return { ...DEFAULT_REMINDER_SETTINGS, ...settings?.reminders };
+    }
+
+    /**
+     * Get the public pre-registration link settings
+     */
+    static async getPreRegistrationSettings(userId: string): Promise<IPreRegistrationSettings> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return { ...DEFAULT_PRE_REGISTRATION_SETTINGS, ...settings?.preRegistration };
+    }
+
+    /**
+     * Get the approval settings (department fallback approvers and approval policies)
+     */
+    static async getApprovalSettings(userId: string): Promise<IApprovalSettings> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return { ...DEFAULT_APPROVAL_SETTINGS, ...settings?.approvals };
+    }
+
+    /**
+     * Get the reason lists for rejections, cancellations and no-shows
+     */
+    static async getStatusReasonSettings(userId: string): Promise<IStatusReasonSettings> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return { ...DEFAULT_STATUS_REASON_SETTINGS, ...settings?.statusReasons };
+    }
+
+    /**
+     * Get the badge numbering and printing settings
+     */
+    static async getBadgeSettings(userId: string): Promise<IBadgeSettings> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return { ...DEFAULT_BADGE_SETTINGS, ...settings?.badges };
+    }
+
+    /**
+     * Get who security alerts for watchlist hits go to
+     */
+    static async getWatchlistSettings(userId: string): Promise<IWatchlistSettings> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return { ...DEFAULT_WATCHLIST_SETTINGS, ...settings?.watchlist };
+    }
+
+    /**
+     * Where security alerts go: the watchlist alert contacts, or the company account email when none are set
+     */
+    static async getSecurityContacts(userId: string): Promise<{ emails: string[]; phones: string[] }> {
+        const { alertEmails, alertPhones } = await this.getWatchlistSettings(userId);
+        if (alertEmails.length > 0 || alertPhones.length > 0) {
+            return { emails: alertEmails, phones: alertPhones };
+        }
+
+        const company = await User.findById(userId).select('email').lean();
+        return { emails: company?.email ? [company.email] : [], phones: [] };
+    }
+
+    /**
+     * Look up a reason code in the company's list for the status; no code means no reason
+     */
+    static async resolveStatusReason(userId: string, status: ReasonedStatus, code?: string): Promise<IStatusReasonOption | undefined> {
+        if (!code) {
+            return undefined;
+        }
+
+        const reasons = await this.getStatusReasonSettings(userId);
+        const reason = reasons[status].find(option => option.code === code);
+        if (!reason) {
+            throw new AppError(`Unknown reason code "${code}" for ${status.replace('_', '-')} appointments`, ERROR_CODES.BAD_REQUEST);
+        }
+        return { code: reason.code, label: reason.label };
+    }
+
+    /**
+     * Get the company working hours and holiday calendar
+     */
+    static async getAvailabilitySettings(userId: string): Promise<{ workingHours: IWorkingHours[]; holidays: IHoliday[] }> {
+        const settings = await Settings.findOne({ userId }).lean();
+        return {
+            workingHours: settings?.availability?.workingHours ?? DEFAULT_WORKING_HOURS,
+            holidays: settings?.availability?.holidays ?? []
+        };
+    }
+
 }
 
 
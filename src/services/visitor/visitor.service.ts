@@ -1,4 +1,6 @@
 import { Visitor } from '../../models/visitor/visitor.model';
+import { WatchlistService } from '../watchlist/watchlist.service';
+import { VisitorTypeService } from '../visitorType/visitorType.service';
 import {
     ICreateVisitorDTO,
     IUpdateVisitorDTO,
@@ -16,17 +18,42 @@ import { Transaction } from '../../decorators';
 
 export class VisitorService {
     /**
-     * Create a new visitor
+     * Create a new visitor. What must be given beyond name, email and phone comes from the
+     * visitor's type. The visitor is screened against the watchlist unless the caller
+     * books them straight away, which screens them with the appointment (skipWatchlist: true).
      */
     @Transaction('Failed to create visitor')
-    static async createVisitor(visitorData: ICreateVisitorDTO, createdBy: string, options: { session?: any } = {}): Promise<IVisitorResponse> {
-        const { session } = options;
+    static async createVisitor(
+        visitorData: ICreateVisitorDTO,
+        createdBy: string,
+        options: { session?: any; skipWatchlist?: boolean; watchlistOverrideReason?: string } = {}
+    ): Promise<IVisitorResponse> {
+        const { session, skipWatchlist = false, watchlistOverrideReason } = options;
+
+        const visitorType = await VisitorTypeService.resolveType(createdBy, visitorData.visitorTypeId, session);
+        VisitorTypeService.assertMeetsRequirements(visitorData, visitorType);
 
         const existingVisitor = await Visitor.findOne({
             email: visitorData.email,
             createdBy: createdBy
         }).session(session);
 
+        if (!skipWatchlist) {
+            await WatchlistService.screen(
+                createdBy,
+                [{
+                    visitorId: existingVisitor ? (existingVisitor._id as any).toString() : undefined,
+                    name: visitorData.name,
+                    phone: visitorData.phone,
+                    email: visitorData.email,
+                    idProofNumber: visitorData.idProof?.number
+                }],
+                'visitor_registration',
+                createdBy,
+                { overrideReason: watchlistOverrideReason, session }
+            );
+        }
+
         // If a visitor exists with the same email but is soft-deleted, restore it instead of blocking.
         // This matches the expected behavior: deleted records should not prevent re-creation.
         if (existingVisitor) {
@@ -189,6 +216,14 @@ export class VisitorService {
             }
         }
 
+        // The visitor as updated must still give what its type asks for. A newly picked type
+        // must be active; the type the visitor had only counts while it still is.
+        const companyId = existingVisitor.createdBy.toString();
+        const visitorType = safeUpdateData.visitorTypeId !== undefined
+            ? await VisitorTypeService.resolveType(companyId, safeUpdateData.visitorTypeId, session)
+            : await VisitorTypeService.findActiveType(companyId, existingVisitor.visitorTypeId?.toString(), session);
+        VisitorTypeService.assertMeetsRequirements({ ...existingVisitor.toObject(), ...safeUpdateData }, visitorType);
+
         const visitor = await Visitor.findByIdAndUpdate(
             visitorId,
             safeUpdateData,
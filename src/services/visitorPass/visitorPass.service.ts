@@ -0,0 +1,279 @@
+import QRCode from 'qrcode';
+import { Appointment, IAppointment } from '../../models/appointment/appointment.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { AttendeeService } from '../attendee/attendee.service';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService, IEmailAttachment } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { AppointmentStatus } from '../../types/appointment/appointment.types';
+import {
+    IVisitorPass,
+    IVisitorPassScanDTO,
+    IVisitorPassScanResult,
+    VisitorPassRejection
+} from '../../types/visitorPass/visitorPass.types';
+import { CONSTANTS, ERROR_CODES, VISITOR_PASS_EARLY_CHECK_IN_MINUTES, VISITOR_PASS_GRACE_MINUTES, ON_SITE_STATUSES } from '../../utils/constants';
+import { JwtUtil, VisitorPassTokenPayload } from '../../utils/jwt.util';
+import { AppointmentTimeUtil } from '../../utils/appointmentTime.util';
+import { TokenUtil } from '../../utils/token.util';
+import { AppError } from '../../middlewares/errorHandler';
+
+const PASS_STATUSES: AppointmentStatus[] = ['approved', 'checked_in', 'in_meeting'];
+
+const REJECTION_MESSAGES: Record<VisitorPassRejection, string> = {
+    invalid: 'This visitor pass is not valid',
+    revoked: 'This visitor pass has been revoked. Please use the latest pass sent to you.',
+    not_yet_valid: 'This visitor pass is not valid yet',
+    expired: 'This visitor pass has expired',
+    used: 'This visitor pass has already been used',
+    not_approved: 'This visit has not been approved yet',
+    rejected: 'This visit was rejected',
+    cancelled: 'This visit was cancelled',
+    no_show: 'This visit was marked as a no-show'
+};
+
+/**
+ * QR visitor passes: every visitor of an approved appointment gets a signed pass that
+ * checks them in on arrival and out when they leave, with one scan each time.
+ */
+export class VisitorPassService {
+    /**
+     * Passes of everyone on an approved appointment, so reception can show or print them again
+     */
+    static async getPasses(appointmentId: string, userId: string): Promise<IVisitorPass[]> {
+        const appointment = await Appointment.findOne({ _id: appointmentId, createdBy: userId, isDeleted: false });
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+        if (!PASS_STATUSES.includes(appointment.status)) {
+            throw new AppError('Passes are only issued for approved appointments', ERROR_CODES.BAD_REQUEST);
+        }
+
+        return this.getVisitorIds(appointment).map(visitorId => this.issuePass(appointment, visitorId));
+    }
+
+    /**
+     * The pass of one visitor of an appointment. It expires a grace period after the visit
+     * ends. Signing is deterministic, so the same visitor always gets the same pass until the
+     * visit moves or its passes are revoked.
+     */
+    static issuePass(appointment: IAppointment, visitorId: string): IVisitorPass {
+        const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+        const { end } = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
+        const token = JwtUtil.generateVisitorPassToken(
+            {
+                appointmentId: (appointment._id as any).toString(),
+                visitorId: visitorId.toString(),
+                version: appointment.passVersion ?? 0
+            },
+            AppointmentTimeUtil.addMinutes(end, VISITOR_PASS_GRACE_MINUTES)
+        );
+
+        return { visitorId: visitorId.toString(), token, url: TokenUtil.buildUrl(`passes/${token}/qr.png`, CONSTANTS.API_BASE_URL) };
+    }
+
+    /**
+     * PNG of the QR code for a pass. Only passes we signed that have not expired or been
+     * revoked are rendered.
+     */
+    static async renderQrCode(token: string): Promise<Buffer> {
+        const { appointmentId, version } = this.verifyToken(token);
+
+        const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false }).select('passVersion').lean();
+        if (!appointment) {
+            throw this.rejection('invalid');
+        }
+        this.assertCurrentVersion(appointment, version);
+
+        return this.toQrCode(token);
+    }
+
+    /**
+     * The pass's QR code as an email attachment
+     */
+    static async buildAttachment(pass: IVisitorPass): Promise<IEmailAttachment> {
+        return {
+            filename: 'visitor-pass.png',
+            content: await this.toQrCode(pass.token),
+            contentType: 'image/png'
+        };
+    }
+
+    /**
+     * Revoke every pass of an appointment, e.g. when one is lost, and send the visitors
+     * new ones while the visit can still use them. Returns the new passes.
+     */
+    static async revokePasses(appointmentId: string, userId: string): Promise<IVisitorPass[]> {
+        const appointment = await Appointment.findOneAndUpdate(
+            { _id: appointmentId, createdBy: userId, isDeleted: false },
+            { $inc: { passVersion: 1 } },
+            { new: true }
+        );
+        if (!appointment) {
+            throw new AppError('Appointment not found', ERROR_CODES.NOT_FOUND);
+        }
+        if (!PASS_STATUSES.includes(appointment.status)) {
+            return [];
+        }
+
+        await this.deliverPasses(appointmentId);
+        return this.getVisitorIds(appointment).map(visitorId => this.issuePass(appointment, visitorId));
+    }
+
+    /**
+     * Email and WhatsApp each visitor of an approved appointment their pass, as the company's
+     * settings allow. Leave the lead out when their approval message already carried it.
+     */
+    static async deliverPasses(appointmentId: string, options: { includeLead?: boolean; session?: any } = {}): Promise<void> {
+        const { includeLead = true, session } = options;
+
+        const appointment = await Appointment.findOne({ _id: appointmentId, isDeleted: false })
+            .populate('employeeId', 'name')
+            .session(session);
+        if (!appointment || !PASS_STATUSES.includes(appointment.status)) {
+            return;
+        }
+
+        const leadId = appointment.visitorId.toString();
+        const visitorIds = this.getVisitorIds(appointment).filter(visitorId => includeLead || visitorId !== leadId);
+        if (visitorIds.length === 0) {
+            return;
+        }
+
+        const companyId = appointment.createdBy.toString();
+        const emailEnabled = await SettingsService.isEmailEnabled(companyId);
+        const whatsappEnabled = await SettingsService.isWhatsAppEnabled(companyId);
+        const hostName = (appointment.employeeId as any)?.name || 'your host';
+        const { scheduledDate, scheduledTime } = appointment.appointmentDetails;
+
+        const visitors = await Visitor.find({ _id: { $in: visitorIds } }).select('name email phone').session(session);
+        for (const visitor of visitors) {
+            try {
+                const pass = this.issuePass(appointment, (visitor._id as any).toString());
+                if (emailEnabled && visitor.email) {
+                    await EmailService.sendVisitorPassEmail(
+                        visitor.email,
+                        visitor.name,
+                        hostName,
+                        scheduledDate,
+                        scheduledTime,
+                        pass.url,
+                        [await this.buildAttachment(pass)]
+                    );
+                }
+                if (whatsappEnabled && visitor.phone) {
+                    await WhatsAppService.sendVisitorPass(visitor.phone, visitor.name, hostName, scheduledDate, scheduledTime, pass.url);
+                }
+            } catch (error) {
+                console.error(`Failed to send visitor pass to ${visitor._id} for appointment ${appointmentId}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Check the pass's signature, the visit's status and time window, then check its visitor
+     * in, or out if they are already on site
+     */
+    static async scanPass(scanData: IVisitorPassScanDTO, userId: string): Promise<IVisitorPassScanResult> {
+        const { appointmentId, visitorId, version } = this.verifyToken(scanData.token);
+
+        // Passes of another company's visits are as good as forged here
+        const appointment = await Appointment.findOne({ _id: appointmentId, createdBy: userId, isDeleted: false });
+        if (!appointment) {
+            throw this.rejection('invalid');
+        }
+        this.assertCurrentVersion(appointment, version);
+
+        AttendeeService.ensureLead(appointment);
+        const attendee = appointment.attendees.find(entry => entry.visitorId.toString() === visitorId);
+        if (!attendee) {
+            // Taken off the group after the pass was sent
+            throw this.rejection('invalid');
+        }
+
+        const visitor = await Visitor.findById(visitorId).select('name company photo').lean();
+        const visitorSummary = {
+            _id: visitorId,
+            name: visitor?.name || '',
+            company: visitor?.company,
+            photo: visitor?.photo
+        };
+
+        if (ON_SITE_STATUSES.includes(appointment.status) && attendee.checkInTime && !attendee.checkOutTime) {
+            const updated = await AttendeeService.checkOutAttendee(appointmentId, visitorId, userId);
+            return { action: 'checked_out', visitor: visitorSummary, appointment: updated };
+        }
+
+        this.assertCanCheckIn(appointment, !!attendee.checkOutTime);
+
+        const updated = await AttendeeService.checkInAttendee(appointmentId, visitorId, { badgeNumber: scanData.badgeNumber }, userId);
+        return { action: 'checked_in', visitor: visitorSummary, appointment: updated };
+    }
+
+    /**
+     * A pass checks its visitor in once, from a little before the visit starts until it ends
+     */
+    private static assertCanCheckIn(appointment: IAppointment, alreadyLeft: boolean): void {
+        if (alreadyLeft || appointment.status === 'completed') {
+            throw this.rejection('used');
+        }
+
+        switch (appointment.status) {
+            case 'pending':
+                throw this.rejection('not_approved');
+            case 'rejected':
+            case 'cancelled':
+            case 'no_show':
+                throw this.rejection(appointment.status);
+        }
+
+        const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+        const window = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration);
+        const validFrom = AppointmentTimeUtil.addMinutes(window.start, -VISITOR_PASS_EARLY_CHECK_IN_MINUTES);
+        const now = new Date();
+
+        if (now < validFrom) {
+            throw this.rejection(
+                'not_yet_valid',
+                `This visitor pass can be used from ${AppointmentTimeUtil.formatTime(validFrom)} on ${AppointmentTimeUtil.formatDate(validFrom)}`
+            );
+        }
+        if (now > window.end) {
+            throw this.rejection('expired');
+        }
+    }
+
+    private static assertCurrentVersion(appointment: Pick<IAppointment, 'passVersion'>, version: number): void {
+        if ((appointment.passVersion ?? 0) !== version) {
+            throw this.rejection('revoked');
+        }
+    }
+
+    private static toQrCode(token: string): Promise<Buffer> {
+        return QRCode.toBuffer(token, { type: 'png', width: 400, margin: 2, errorCorrectionLevel: 'M' });
+    }
+
+    private static verifyToken(token: string): VisitorPassTokenPayload {
+        try {
+            return JwtUtil.verifyVisitorPassToken(token);
+        } catch (error) {
+            throw this.rejection('invalid');
+        }
+    }
+
+    /**
+     * Visitors on the appointment; appointments booked before group visits only have the lead
+     */
+    private static getVisitorIds(appointment: IAppointment): string[] {
+        return appointment.attendees.length > 0
+            ? appointment.attendees.map(attendee => attendee.visitorId.toString())
+            : [appointment.visitorId.toString()];
+    }
+
+    private static rejection(reason: VisitorPassRejection, message: string = REJECTION_MESSAGES[reason]): AppError {
+        const statusCode = reason === 'used' ? ERROR_CODES.CONFLICT
+            : reason === 'invalid' ? ERROR_CODES.NOT_FOUND
+                : ERROR_CODES.BAD_REQUEST;
+        return new AppError(message, statusCode, { reason });
+    }
+}
@@ -0,0 +1,332 @@
+import { VisitorType, IVisitorType } from '../../models/visitorType/visitorType.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { IAppointment } from '../../models/appointment/appointment.model';
+import { SettingsService } from '../settings/settings.service';
+import {
+    ICreateVisitorTypeDTO,
+    IUpdateVisitorTypeDTO,
+    IVisitorTypeResponse,
+    IGetVisitorTypesQuery,
+    IVisitorTypeListResponse,
+    IVisitorRequirements,
+    VisitorTypeApprovalMode,
+    VisitorTypeField
+} from '../../types/visitorType/visitorType.types';
+import { ERROR_MESSAGES, ERROR_CODES, DEFAULT_VISITOR_REQUIREMENTS } from '../../utils/constants';
+import { AppError } from '../../middlewares/errorHandler';
+import { Transaction } from '../../decorators';
+
+const FIELD_LABELS: Record<VisitorTypeField, string> = {
+    address: 'Address',
+    company: 'Company',
+    designation: 'Designation'
+};
+
+/**
+ * The parts of a visitor record a type can ask for
+ */
+interface IVisitorDetails {
+    name?: string;
+    company?: string;
+    designation?: string;
+    address?: object | null;
+    idProof?: { number?: string } | null;
+    photo?: string;
+}
+
+/**
+ * Company-defined kinds of visitor (candidates, contractors, deliveries...). A type decides
+ * what a visitor record must include and how that visitor's appointments are approved,
+ * how long they can be and the colour of their badge.
+ */
+export class VisitorTypeService {
+    /**
+     * Create a new visitor type
+     */
+    @Transaction('Failed to create visitor type')
+    static async createVisitorType(typeData: ICreateVisitorTypeDTO, createdBy: string, options: { session?: any } = {}): Promise<IVisitorTypeResponse> {
+        const { session } = options;
+
+        const existingType = await VisitorType.findOne({ name: typeData.name, createdBy, isDeleted: false }).session(session);
+        if (existingType) {
+            throw new AppError(ERROR_MESSAGES.VISITOR_TYPE_NAME_EXISTS, ERROR_CODES.CONFLICT);
+        }
+
+        const approvalMode = typeData.approvalMode ?? 'default';
+        await this.assertApprovalPolicy(createdBy, approvalMode, typeData.approvalPolicyName);
+
+        const visitorType = new VisitorType({
+            ...typeData,
+            approvalPolicyName: approvalMode === 'policy' ? typeData.approvalPolicyName : null,
+            createdBy
+        });
+        await visitorType.save({ session });
+
+        return visitorType.toObject() as unknown as IVisitorTypeResponse;
+    }
+
+    /**
+     * Get all visitor types with pagination and filtering (user-specific)
+     */
+    static async getAllVisitorTypes(query: IGetVisitorTypesQuery = {}, userId: string): Promise<IVisitorTypeListResponse> {
+        const { page = 1, limit = 10, search = '', isActive } = query;
+
+        const filter: any = { createdBy: userId, isDeleted: false };
+
+        if (search) {
+            filter.name = { $regex: search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+        }
+
+        if (isActive !== undefined) {
+            filter.isActive = isActive === true || isActive === 'true';
+        }
+
+        const skip = (page - 1) * limit;
+
+        const [visitorTypes, totalVisitorTypes] = await Promise.all([
+            VisitorType.find(filter)
+                .sort({ name: 1 })
+                .skip(skip)
+                .limit(limit)
+                .lean(),
+            VisitorType.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalVisitorTypes / limit);
+
+        return {
+            visitorTypes: visitorTypes as unknown as IVisitorTypeResponse[],
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalVisitorTypes,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    /**
+     * Get visitor type by ID (user-specific)
+     */
+    static async getVisitorTypeById(typeId: string, userId: string): Promise<IVisitorTypeResponse> {
+        const visitorType = await VisitorType.findOne({ _id: typeId, createdBy: userId, isDeleted: false });
+        if (!visitorType) {
+            throw new AppError(ERROR_MESSAGES.VISITOR_TYPE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        return visitorType.toObject() as unknown as IVisitorTypeResponse;
+    }
+
+    /**
+     * Update visitor type. Visitors and appointments already recorded are not checked again.
+     */
+    @Transaction('Failed to update visitor type')
+    static async updateVisitorType(typeId: string, updateData: IUpdateVisitorTypeDTO, userId: string, options: { session?: any } = {}): Promise<IVisitorTypeResponse> {
+        const { session } = options;
+
+        const visitorType = await VisitorType.findOne({ _id: typeId, createdBy: userId, isDeleted: false }).session(session);
+        if (!visitorType) {
+            throw new AppError(ERROR_MESSAGES.VISITOR_TYPE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+
+        if (updateData.name && updateData.name !== visitorType.name) {
+            const existingType = await VisitorType.findOne({
+                name: updateData.name,
+                createdBy: userId,
+                isDeleted: false,
+                _id: { $ne: typeId }
+            }).session(session);
+
+            if (existingType) {
+                throw new AppError(ERROR_MESSAGES.VISITOR_TYPE_NAME_EXISTS, ERROR_CODES.CONFLICT);
+            }
+        }
+
+        const fields: IUpdateVisitorTypeDTO = {
+            name: updateData.name,
+            description: updateData.description,
+            requiredFields: updateData.requiredFields,
+            idProofRequired: updateData.idProofRequired,
+            photoRequired: updateData.photoRequired,
+            approvalMode: updateData.approvalMode,
+            approvalPolicyName: updateData.approvalPolicyName,
+            badgeColor: updateData.badgeColor,
+            maxDurationMinutes: updateData.maxDurationMinutes,
+            isActive: updateData.isActive
+        };
+        for (const [key, value] of Object.entries(fields)) {
+            if (value !== undefined) {
+                visitorType.set(key, value);
+            }
+        }
+        if (visitorType.approvalMode !== 'policy') {
+            visitorType.approvalPolicyName = null;
+        }
+        await this.assertApprovalPolicy(userId, visitorType.approvalMode, visitorType.approvalPolicyName);
+        await visitorType.save({ session });
+
+        return visitorType.toObject() as unknown as IVisitorTypeResponse;
+    }
+
+    /**
+     * Soft delete visitor type. Visitors of the type are kept and give what visitors
+     * without a type give from then on.
+     */
+    @Transaction('Failed to delete visitor type')
+    static async deleteVisitorType(typeId: string, deletedBy: string, options: { session?: any } = {}): Promise<void> {
+        const { session } = options;
+
+        const visitorType = await VisitorType.findOne({ _id: typeId, createdBy: deletedBy, isDeleted: false }).session(session);
+        if (!visitorType) {
+            throw new AppError(ERROR_MESSAGES.VISITOR_TYPE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+
+        visitorType.isDeleted = true;
+        visitorType.deletedAt = new Date();
+        visitorType.set('deletedBy', deletedBy);
+        await visitorType.save({ session });
+    }
+
+    /**
+     * The active visitor type picked for a visitor or appointment, or null when none was picked
+     */
+    static async resolveType(companyId: string, typeId?: string | null, session?: any): Promise<IVisitorType | null> {
+        if (!typeId) {
+            return null;
+        }
+
+        const visitorType = await VisitorType.findOne({ _id: typeId, createdBy: companyId, isDeleted: false }).session(session);
+        if (!visitorType) {
+            throw new AppError(ERROR_MESSAGES.VISITOR_TYPE_NOT_FOUND, ERROR_CODES.NOT_FOUND);
+        }
+        if (!visitorType.isActive) {
+            throw new AppError(`The ${visitorType.name} visitor type is inactive`, ERROR_CODES.BAD_REQUEST);
+        }
+        return visitorType;
+    }
+
+    /**
+     * The type an appointment is booked as: the one picked for it, or else the lead visitor's
+     * own type while that is still active
+     */
+    static async resolveAppointmentType(
+        companyId: string,
+        typeId: string | undefined,
+        leadVisitorId: string,
+        session?: any
+    ): Promise<IVisitorType | null> {
+        if (typeId) {
+            return this.resolveType(companyId, typeId, session);
+        }
+
+        const lead = await Visitor.findById(leadVisitorId).select('visitorTypeId').session(session).lean();
+        return this.findActiveType(companyId, lead?.visitorTypeId?.toString(), session);
+    }
+
+    /**
+     * The visitor type if it still exists and is active, otherwise null
+     */
+    static async findActiveType(companyId: string, typeId?: string | null, session?: any): Promise<IVisitorType | null> {
+        if (!typeId) {
+            return null;
+        }
+        return VisitorType.findOne({ _id: typeId, createdBy: companyId, isDeleted: false, isActive: true }).session(session);
+    }
+
+    static getRequirements(visitorType: IVisitorType | null): IVisitorRequirements {
+        if (!visitorType) {
+            return DEFAULT_VISITOR_REQUIREMENTS;
+        }
+        return {
+            requiredFields: visitorType.requiredFields,
+            idProofRequired: visitorType.idProofRequired,
+            photoRequired: visitorType.photoRequired
+        };
+    }
+
+    /**
+     * Check a visitor record gives everything its type asks for
+     */
+    static assertMeetsRequirements(visitor: IVisitorDetails, visitorType: IVisitorType | null): void {
+        const requirements = this.getRequirements(visitorType);
+
+        const missing = requirements.requiredFields.filter(field => !visitor[field]).map(field => FIELD_LABELS[field]);
+        if (requirements.idProofRequired && !visitor.idProof?.number) {
+            missing.push('ID proof');
+        }
+        if (requirements.photoRequired && !visitor.photo) {
+            missing.push('Photo');
+        }
+        if (missing.length === 0) {
+            return;
+        }
+
+        const list = missing.length > 1 ? `${missing.slice(0, -1).join(', ')} and ${missing[missing.length - 1]}` : missing[0];
+        const verb = missing.length > 1 ? 'are' : 'is';
+        throw new AppError(
+            visitorType
+                ? `${list} ${verb} required for ${visitorType.name} visitors`
+                : `${list} ${verb} required`,
+            ERROR_CODES.BAD_REQUEST
+        );
+    }
+
+    /**
+     * Check every visitor of an appointment gives what the appointment's type asks for
+     */
+    static async assertVisitorsMeetRequirements(visitorIds: string[], visitorType: IVisitorType | null, session?: any): Promise<void> {
+        const visitors = await Visitor.find({ _id: { $in: visitorIds } })
+            .select('name company designation address idProof photo')
+            .session(session)
+            .lean();
+
+        for (const visitor of visitors) {
+            try {
+                this.assertMeetsRequirements(visitor, visitorType);
+            } catch (error: any) {
+                throw new AppError(`${visitor.name}: ${error.message}. Update the visitor before booking.`, ERROR_CODES.BAD_REQUEST);
+            }
+        }
+    }
+
+    static assertDuration(visitorType: IVisitorType | null, duration: number): void {
+        if (visitorType?.maxDurationMinutes && duration > visitorType.maxDurationMinutes) {
+            throw new AppError(
+                `${visitorType.name} visits cannot be longer than ${visitorType.maxDurationMinutes} minutes`,
+                ERROR_CODES.BAD_REQUEST
+            );
+        }
+    }
+
+    /**
+     * Check a new duration of a booked appointment against its type, while the type is active
+     */
+    static async assertAppointmentDuration(
+        appointment: Pick<IAppointment, 'createdBy' | 'visitorTypeId'>,
+        duration: number,
+        session?: any
+    ): Promise<void> {
+        if (!appointment.visitorTypeId) {
+            return;
+        }
+        const visitorType = await this.findActiveType(appointment.createdBy.toString(), appointment.visitorTypeId.toString(), session);
+        this.assertDuration(visitorType, duration);
+    }
+
+    /**
+     * A type approved through a named policy needs that policy in the company's approval settings
+     */
+    private static async assertApprovalPolicy(companyId: string, approvalMode: VisitorTypeApprovalMode, policyName?: string | null): Promise<void> {
+        if (approvalMode !== 'policy') {
+            return;
+        }
+        if (!policyName) {
+            throw new AppError('An approval policy name is required when the approval mode is policy', ERROR_CODES.BAD_REQUEST);
+        }
+
+        const { policies } = await SettingsService.getApprovalSettings(companyId);
+        if (!policies.some(policy => policy.name.toLowerCase() === policyName.toLowerCase())) {
+            throw new AppError(`No approval policy named ${policyName} in the approval settings`, ERROR_CODES.BAD_REQUEST);
+        }
+    }
+}
@@ -0,0 +1,471 @@
+import { WatchlistEntry, IWatchlistEntry } from '../../models/watchlist/watchlistEntry.model';
+import { WatchlistHit } from '../../models/watchlist/watchlistHit.model';
+import { Visitor } from '../../models/visitor/visitor.model';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService } from '../email/email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+    ICreateWatchlistEntryDTO,
+    IUpdateWatchlistEntryDTO,
+    IGetWatchlistQuery,
+    IWatchlistEntryResponse,
+    IWatchlistListResponse,
+    IGetWatchlistHitsQuery,
+    IWatchlistHitListResponse,
+    IWatchlistHitResponse,
+    IWatchlistSubject,
+    IWatchlistMatch,
+    IWatchlistScreeningOptions,
+    WatchlistAction,
+    WatchlistContext,
+    WatchlistField,
+    WatchlistHitOutcome
+} from '../../types/watchlist/watchlist.types';
+import {
+    ERROR_CODES,
+    WATCHLIST_SEVERITY_ACTIONS,
+    WATCHLIST_NAME_MATCH_THRESHOLD
+} from '../../utils/constants';
+import { TransactionUtil } from '../../utils/transaction.util';
+import { AppError } from '../../middlewares/errorHandler';
+
+const ENTRY_FIELDS: WatchlistField[] = ['name', 'phone', 'email', 'idProofNumber', 'vehicleNumber'];
+
+const FIELD_LABELS: Record<WatchlistField, string> = {
+    name: 'name',
+    phone: 'phone',
+    email: 'email',
+    idProofNumber: 'ID proof number',
+    vehicleNumber: 'vehicle number'
+};
+
+const CONTEXT_LABELS: Record<WatchlistContext, string> = {
+    visitor_registration: 'visitor registration',
+    appointment_booking: 'appointment booking',
+    check_in: 'check-in'
+};
+
+const OUTCOME_LABELS: Record<WatchlistHitOutcome, string> = {
+    blocked: 'Blocked',
+    held: 'Held for a security override',
+    overridden: 'Let through by a security override',
+    alerted: 'Allowed; security alerted'
+};
+
+interface IPendingHit {
+    entry: IWatchlistEntry;
+    subject: IWatchlistSubject;
+    matches: IWatchlistMatch[];
+    action: WatchlistAction;
+}
+
+/**
+ * Company watchlist: people to stop, to hold for security, or to quietly tell security about.
+ * Visitor registration, appointment booking and check-in are screened against it.
+ */
+export class WatchlistService {
+    static async createEntry(entryData: ICreateWatchlistEntryDTO, createdBy: string): Promise<IWatchlistEntryResponse> {
+        const entry = await WatchlistEntry.create({ ...entryData, createdBy });
+        return entry.toObject() as unknown as IWatchlistEntryResponse;
+    }
+
+    /**
+     * Watchlist entries with pagination and filtering, newest first
+     */
+    static async getEntries(query: IGetWatchlistQuery = {}, userId: string): Promise<IWatchlistListResponse> {
+        const { page = 1, limit = 10, search = '', severity, isActive } = query;
+
+        const filter: any = { createdBy: userId, isDeleted: false };
+        if (search) {
+            const pattern = { $regex: search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+            filter.$or = [...ENTRY_FIELDS, 'reason'].map(field => ({ [field]: pattern }));
+        }
+        if (severity) {
+            filter.severity = severity;
+        }
+        if (isActive !== undefined) {
+            filter.isActive = String(isActive) === 'true';
+        }
+
+        const skip = (page - 1) * limit;
+        const [entries, totalEntries] = await Promise.all([
+            WatchlistEntry.find(filter)
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .lean(),
+            WatchlistEntry.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalEntries / limit);
+
+        return {
+            entries: entries as unknown as IWatchlistEntryResponse[],
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalEntries,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    static async getEntry(entryId: string, userId: string): Promise<IWatchlistEntryResponse> {
+        const entry = await this.findOwnedEntry(entryId, userId);
+        return entry.toObject() as unknown as IWatchlistEntryResponse;
+    }
+
+    static async updateEntry(entryId: string, updateData: IUpdateWatchlistEntryDTO, userId: string): Promise<IWatchlistEntryResponse> {
+        const entry = await this.findOwnedEntry(entryId, userId);
+        entry.set(updateData);
+
+        if (!ENTRY_FIELDS.some(field => entry.get(field))) {
+            throw new AppError('A watchlist entry needs a name, phone, email, ID proof number or vehicle number', ERROR_CODES.BAD_REQUEST);
+        }
+
+        await entry.save();
+        return entry.toObject() as unknown as IWatchlistEntryResponse;
+    }
+
+    /**
+     * Remove an entry from the watchlist. Its past hits are kept.
+     */
+    static async deleteEntry(entryId: string, deletedBy: string): Promise<void> {
+        const entry = await this.findOwnedEntry(entryId, deletedBy);
+        entry.isDeleted = true;
+        entry.deletedAt = new Date();
+        entry.set('deletedBy', deletedBy);
+        await entry.save();
+    }
+
+    /**
+     * Every hit and the decision taken on it, newest first
+     */
+    static async getHits(query: IGetWatchlistHitsQuery = {}, userId: string): Promise<IWatchlistHitListResponse> {
+        const { page = 1, limit = 10, entryId, visitorId, context, outcome } = query;
+
+        const filter: any = { createdBy: userId };
+        if (entryId) {
+            filter.entryId = entryId;
+        }
+        if (visitorId) {
+            filter['subject.visitorId'] = visitorId;
+        }
+        if (context) {
+            filter.context = context;
+        }
+        if (outcome) {
+            filter.outcome = outcome;
+        }
+
+        const skip = (page - 1) * limit;
+        const [hits, totalHits] = await Promise.all([
+            WatchlistHit.find(filter)
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .lean(),
+            WatchlistHit.countDocuments(filter)
+        ]);
+
+        const totalPages = Math.ceil(totalHits / limit);
+
+        return {
+            hits: hits as unknown as IWatchlistHitResponse[],
+            pagination: {
+                currentPage: page,
+                totalPages,
+                totalHits,
+                hasNextPage: page < totalPages,
+                hasPrevPage: page > 1
+            }
+        };
+    }
+
+    /**
+     * Screen people against the company's watchlist before an action goes ahead. Every hit is
+     * recorded and security is alerted. A high-severity hit blocks the action; a medium one holds
+     * it until security gives an override reason; a low one lets it through.
+     *
+     * When a hit stops the action, the hits are written outside the caller's transaction so they
+     * are kept after it rolls back. Otherwise they are written in it and security is alerted once
+     * it commits, so overrides and alerts are only recorded for actions that went ahead.
+     */
+    static async screen(
+        companyId: string,
+        subjects: IWatchlistSubject[],
+        context: WatchlistContext,
+        decidedBy: string,
+        options: IWatchlistScreeningOptions = {}
+    ): Promise<void> {
+        const { overrideReason, session } = options;
+        const now = new Date();
+
+        const entries = await WatchlistEntry.find({
+            createdBy: companyId,
+            isActive: true,
+            isDeleted: false,
+            $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }]
+        }).session(session);
+        if (entries.length === 0) {
+            return;
+        }
+
+        const pending: IPendingHit[] = [];
+        for (const subject of subjects) {
+            for (const entry of entries) {
+                const matches = this.matchEntry(entry, subject);
+                if (matches.length === 0) {
+                    continue;
+                }
+
+                // A name alone does not identify anyone, so it holds rather than blocks
+                let action = WATCHLIST_SEVERITY_ACTIONS[entry.severity];
+                if (action === 'block' && matches.every(match => match.field === 'name')) {
+                    action = 'override';
+                }
+                pending.push({ entry, subject, matches, action });
+            }
+        }
+        if (pending.length === 0) {
+            return;
+        }
+
+        const outcomeOf = (action: WatchlistAction): WatchlistHitOutcome => {
+            if (action === 'block') {
+                return 'blocked';
+            }
+            if (action === 'override') {
+                return overrideReason ? 'overridden' : 'held';
+            }
+            return 'alerted';
+        };
+
+        const stopped = pending.some(hit => outcomeOf(hit.action) === 'blocked' || outcomeOf(hit.action) === 'held');
+        const hits = await WatchlistHit.insertMany(pending.map(hit => {
+            const outcome = outcomeOf(hit.action);
+            return {
+                entryId: hit.entry._id,
+                severity: hit.entry.severity,
+                action: hit.action,
+                outcome,
+                context,
+                subject: hit.subject,
+                matches: hit.matches,
+                reason: hit.entry.reason,
+                overrideReason: outcome === 'overridden' ? overrideReason : undefined,
+                decidedBy: outcome === 'overridden' ? decidedBy : null,
+                createdBy: companyId
+            };
+        }), { session: stopped ? undefined : session });
+
+        if (!stopped) {
+            await TransactionUtil.afterCommit(session, () => this.alertSecurity(companyId, hits as any[], context));
+            return;
+        }
+
+        await this.alertSecurity(companyId, hits as any[], context);
+
+        const blocked = hits.filter(hit => hit.outcome === 'blocked');
+        if (blocked.length > 0) {
+            throw new AppError(
+                'This visitor is on the company watchlist and cannot be let in',
+                ERROR_CODES.FORBIDDEN,
+                { watchlist: { action: 'block', hitIds: blocked.map(hit => hit._id) } }
+            );
+        }
+
+        const held = hits.filter(hit => hit.outcome === 'held');
+        if (held.length > 0) {
+            throw new AppError(
+                'This visitor matches the company watchlist. Security must override the hold to continue.',
+                ERROR_CODES.FORBIDDEN,
+                { watchlist: { action: 'override', hitIds: held.map(hit => hit._id) } }
+            );
+        }
+    }
+
+    /**
+     * Whether an error is a watchlist block or hold raised by screen. Public forms swap these
+     * for a generic message: the hit is for security, not for the person submitting.
+     */
+    static isScreeningError(error: unknown): boolean {
+        return error instanceof AppError && Boolean((error.details as any)?.watchlist);
+    }
+
+    /**
+     * Screen visitors by their records. The vehicle number, if any, is the first visitor's.
+     */
+    static async screenVisitors(
+        companyId: string,
+        visitorIds: string[],
+        context: WatchlistContext,
+        decidedBy: string,
+        options: IWatchlistScreeningOptions & { appointmentId?: string; vehicleNumber?: string } = {}
+    ): Promise<void> {
+        const { appointmentId, vehicleNumber, ...screeningOptions } = options;
+        if (visitorIds.length === 0) {
+            return;
+        }
+
+        const visitors = await Visitor.find({ _id: { $in: visitorIds } })
+            .select('name email phone idProof.number')
+            .session(screeningOptions.session)
+            .lean();
+        const leadId = visitorIds[0].toString();
+
+        const subjects: IWatchlistSubject[] = visitors.map(visitor => ({
+            visitorId: visitor._id.toString(),
+            appointmentId,
+            name: visitor.name,
+            phone: visitor.phone,
+            email: visitor.email,
+            idProofNumber: visitor.idProof?.number,
+            vehicleNumber: visitor._id.toString() === leadId ? vehicleNumber : undefined
+        }));
+
+        await this.screen(companyId, subjects, context, decidedBy, screeningOptions);
+    }
+
+    /**
+     * Identifiers are compared after normalising (digits of phones, case and dots of emails,
+     * letters that look alike in ID and vehicle numbers); names are compared fuzzily
+     */
+    private static matchEntry(entry: IWatchlistEntry, subject: IWatchlistSubject): IWatchlistMatch[] {
+        const matches: IWatchlistMatch[] = [];
+
+        if (entry.phone && subject.phone) {
+            const entryPhone = this.normalizePhone(entry.phone);
+            if (entryPhone.length >= 7 && entryPhone === this.normalizePhone(subject.phone)) {
+                matches.push({ field: 'phone', value: subject.phone, score: 1 });
+            }
+        }
+        if (entry.email && subject.email && this.normalizeEmail(entry.email) === this.normalizeEmail(subject.email)) {
+            matches.push({ field: 'email', value: subject.email, score: 1 });
+        }
+        if (entry.idProofNumber && subject.idProofNumber
+            && this.normalizeCode(entry.idProofNumber) === this.normalizeCode(subject.idProofNumber)) {
+            matches.push({ field: 'idProofNumber', value: subject.idProofNumber, score: 1 });
+        }
+        if (entry.vehicleNumber && subject.vehicleNumber
+            && this.normalizeCode(entry.vehicleNumber) === this.normalizeCode(subject.vehicleNumber)) {
+            matches.push({ field: 'vehicleNumber', value: subject.vehicleNumber, score: 1 });
+        }
+        if (entry.name && subject.name) {
+            const score = this.nameSimilarity(entry.name, subject.name);
+            if (score >= WATCHLIST_NAME_MATCH_THRESHOLD) {
+                matches.push({ field: 'name', value: subject.name, score: Math.round(score * 100) / 100 });
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * The last ten digits, so country codes and formatting do not matter
+     */
+    private static normalizePhone(phone: string): string {
+        return phone.replace(/\D/g, '').slice(-10);
+    }
+
+    /**
+     * Lower case, without "+tags", and without dots for Gmail addresses
+     */
+    private static normalizeEmail(email: string): string {
+        const [local, domain = ''] = email.trim().toLowerCase().split('@');
+        let name = local.split('+')[0];
+        if (domain === 'gmail.com' || domain === 'googlemail.com') {
+            name = name.replace(/\./g, '');
+        }
+        return `${name}@${domain}`;
+    }
+
+    /**
+     * Letters and digits only, with O and I read as 0 and 1
+     */
+    private static normalizeCode(code: string): string {
+        return code.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/O/g, '0').replace(/I/g, '1');
+    }
+
+    /**
+     * Similarity from 0 to 1 of two names, ignoring case, accents, punctuation and word order
+     */
+    private static nameSimilarity(a: string, b: string): number {
+        const normalize = (name: string) => name
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z\s]/g, ' ')
+            .split(/\s+/)
+            .filter(Boolean);
+
+        const wordsA = normalize(a);
+        const wordsB = normalize(b);
+        if (wordsA.length === 0 || wordsB.length === 0) {
+            return 0;
+        }
+
+        const ratio = (x: string, y: string) => 1 - this.levenshtein(x, y) / Math.max(x.length, y.length);
+        return Math.max(
+            ratio(wordsA.join(' '), wordsB.join(' ')),
+            ratio([...wordsA].sort().join(' '), [...wordsB].sort().join(' '))
+        );
+    }
+
+    private static levenshtein(a: string, b: string): number {
+        let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            for (let j = 1; j <= b.length; j++) {
+                current[j] = Math.min(
+                    previous[j] + 1,
+                    current[j - 1] + 1,
+                    previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+                );
+            }
+            previous = current;
+        }
+        return previous[b.length];
+    }
+
+    /**
+     * Email and WhatsApp the company's security contacts about each hit, as the company's
+     * settings allow. A failed alert never stops the screening.
+     */
+    private static async alertSecurity(companyId: string, hits: IWatchlistHitResponse[], context: WatchlistContext): Promise<void> {
+        try {
+            const { emails, phones } = await SettingsService.getSecurityContacts(companyId);
+            const emailEnabled = await SettingsService.isEmailEnabled(companyId);
+            const whatsappEnabled = await SettingsService.isWhatsAppEnabled(companyId);
+
+            for (const hit of hits) {
+                const visitorName = hit.subject.name || hit.subject.email || hit.subject.phone || 'Unknown visitor';
+                const matchedOn = hit.matches.map(match => FIELD_LABELS[match.field]).join(', ');
+                const outcome = OUTCOME_LABELS[hit.outcome];
+                const occasion = CONTEXT_LABELS[context];
+
+                if (emailEnabled) {
+                    for (const email of emails) {
+                        await EmailService.sendWatchlistAlertEmail(email, visitorName, outcome, occasion, hit.reason, matchedOn, hit.createdAt);
+                    }
+                }
+                if (whatsappEnabled) {
+                    for (const phone of phones) {
+                        await WhatsAppService.sendWatchlistAlert(phone, visitorName, outcome, occasion, hit.reason, matchedOn);
+                    }
+                }
+            }
+        } catch (error) {
+            console.error(`Failed to alert security of watchlist hits for company ${companyId}:`, error);
+        }
+    }
+
+    private static async findOwnedEntry(entryId: string, userId: string): Promise<IWatchlistEntry> {
+        const entry = await WatchlistEntry.findOne({ _id: entryId, createdBy: userId, isDeleted: false });
+        if (!entry) {
+            throw new AppError('Watchlist entry not found', ERROR_CODES.NOT_FOUND);
+        }
+        return entry;
+    }
+}
@@ -1,4 +1,6 @@
 // Using fetch instead of axios for better compatibility
+import { IAppointmentReminderDetails } from '../../types/appointment/appointment.types';
+import { IOverstayAlertDetails } from '../../types/onSite/onSite.types';
 
 /**
  * WhatsApp Service
@@ -282,6 +284,8 @@ SafeIn Security Team`;
      * @param scheduledDate - Scheduled date
      * @param scheduledTime - Scheduled time
      * @param status - Appointment status ('approved' or 'rejected')
+     * @param reason - Why the appointment was rejected, if given
+     * @param passUrl - The visitor's QR pass, once approved
      * @returns Promise<boolean> - Success status
      */
     static async sendAppointmentStatusUpdate(
@@ -290,7 +294,9 @@ SafeIn Security Team`;
         employeeName: string,
         scheduledDate: Date,
         scheduledTime: string,
-        status: 'approved' | 'rejected'
+        status: 'approved' | 'rejected',
+        reason?: string,
+        passUrl?: string
     ): Promise<boolean> {
         try {
             const formattedDate = scheduledDate.toLocaleDateString('en-US', {
@@ -317,11 +323,11 @@ ${actionText}
 📅 Date: ${formattedDate}
 🕐 Time: ${scheduledTime}
 👤 Meeting With: ${employeeName}
-
+${status === 'rejected' && reason ? `📝 Reason: ${reason}\n` : ''}
 ${status === 'approved' 
     ? `✅ Your appointment is confirmed. Please arrive on time and bring a valid ID.`
     : `❌ Your appointment request has been rejected. Please contact ${employeeName} for more information.`}
-
+${status === 'approved' && passUrl ? `\n🎫 Your QR pass, to show at reception when you arrive and leave:\n${passUrl}\n` : ''}
 Visit your dashboard: ${baseUrl}/dashboard/notifications
 
 Best regards,
@@ -333,7 +339,495 @@ SafeIn Security Team`;
             return false;
         }
     }
-}
 
+    /**
+     * Send a proposed new appointment time to the other party
+     * @param phone - Recipient phone number
+     * @param recipientName - Recipient name
+     * @param proposerName - Name of the party proposing the new time
+     * @param proposedDate - Proposed date
+     * @param proposedTime - Proposed time
+     * @param actionUrl - Link to respond (visitors); hosts respond from the dashboard
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendRescheduleProposal(
+        phone: string,
+        recipientName: string,
+        proposerName: string,
+        proposedDate: Date,
+        proposedTime: string,
+        actionUrl?: string
+    ): Promise<boolean> {
+        try {
+            const formattedDate = proposedDate.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            });
+
+            const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+            const message = `🔄 *New Time Proposed*
+
+Hello ${recipientName},
+
+${proposerName} has asked to move your appointment.
+
+*Proposed Time:*
+📅 Date: ${formattedDate}
+🕐 Time: ${proposedTime}
+
+Respond here: ${actionUrl || `${baseUrl}/dashboard/notifications`}
+
+Your appointment stays at the current time until the new time is accepted.
+
+Best regards,
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, message);
+        } catch (error: any) {
+            console.error('Failed to send reschedule proposal via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Tell the proposing party whether the new time was accepted
+     * @param phone - Recipient phone number
+     * @param recipientName - Recipient name
+     * @param responderName - Name of the party that responded
+     * @param accepted - Whether the new time was accepted
+     * @param scheduledDate - Appointment date after the response
+     * @param scheduledTime - Appointment time after the response
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendRescheduleResponse(
+        phone: string,
+        recipientName: string,
+        responderName: string,
+        accepted: boolean,
+        scheduledDate: Date,
+        scheduledTime: string
+    ): Promise<boolean> {
+        try {
+            const formattedDate = scheduledDate.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            });
+
+            const message = `${accepted ? '✅ *New Time Accepted*' : '❌ *New Time Declined*'}
+
+Hello ${recipientName},
+
+${accepted
+    ? `${responderName} has accepted the new time. Your appointment has been moved.`
+    : `${responderName} has declined the new time. Your appointment keeps its current time.`}
+
+*Appointment Time:*
+📅 Date: ${formattedDate}
+🕐 Time: ${scheduledTime}
+
+Best regards,
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, message);
+        } catch (error: any) {
+            console.error('Failed to send reschedule response via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Tell the host a walk-in visitor is waiting at reception
+     * @param employeePhone - Host phone number
+     * @param employeeName - Host name
+     * @param visitorName - Visitor name
+     * @param purpose - Purpose of the visit
+     * @param checkedIn - Whether the visitor was checked in straight away
+     * @param actionUrl - Approval link when the visit still needs approval
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendVisitorArrival(
+        employeePhone: string,
+        employeeName: string,
+        visitorName: string,
+        purpose: string,
+        checkedIn: boolean,
+        actionUrl?: string
+    ): Promise<boolean> {
+        try {
+            const message = `🛎️ *Visitor Waiting at Reception*
+
+Hello ${employeeName},
+
+${checkedIn
+    ? `${visitorName} has arrived without an appointment and has been checked in at reception.`
+    : `${visitorName} has arrived without an appointment and is waiting at reception for your approval.`}
+
+*Visitor Details:*
+👤 Visitor: ${visitorName}
+📝 Purpose: ${purpose}
+${!checkedIn && actionUrl ? `\nApprove or reject: ${actionUrl}\n` : ''}
+Best regards,
+SafeIn Security Team`;
+
+            return await this.sendMessage(employeePhone, message);
+        } catch (error: any) {
+            console.error('Failed to send visitor arrival via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Send an appointment reminder to the visitor or the host
+     * @param phone - Recipient phone number
+     * @param details - Reminder content
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendAppointmentReminder(phone: string, details: IAppointmentReminderDetails): Promise<boolean> {
+        try {
+            const formattedDate = details.scheduledDate.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            });
+            const isVisitor = details.recipient === 'visitor';
+
+            const message = `⏰ *Appointment Reminder*
+
+Hello ${details.recipientName},
+
+${isVisitor
+    ? `This is a reminder of your appointment with ${details.counterpartName} at ${details.companyName}.`
+    : `This is a reminder that ${details.counterpartName} is visiting you.`}
+
+*Appointment Details:*
+📅 Date: ${formattedDate}
+🕐 Time: ${details.scheduledTime}
+👤 ${isVisitor ? 'Meeting With' : 'Visitor'}: ${details.counterpartName}${details.meetingRoom ? `\n🚪 Room: ${details.meetingRoom}` : ''}
+📋 Status: ${details.status === 'approved' ? 'Confirmed' : 'Awaiting approval'}
+${isVisitor && details.directions ? `\n*Getting Here:*\n${details.directions}\n` : ''}
+Reschedule or cancel: ${details.manageUrl}
+
+Best regards,
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, message);
+        } catch (error: any) {
+            console.error('Failed to send appointment reminder via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Invite a guest to complete their details for a visit arranged by a host
+     * @param phone - Visitor phone number
+     * @param visitorName - Visitor name
+     * @param employeeName - Host name
+     * @param companyName - Company being visited
+     * @param scheduledDate - Visit date
+     * @param scheduledTime - Visit time
+     * @param inviteUrl - Link to complete the visitor's details
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendVisitorInvitation(
+        phone: string,
+        visitorName: string,
+        employeeName: string,
+        companyName: string,
+        scheduledDate: Date,
+        scheduledTime: string,
+        inviteUrl: string
+    ): Promise<boolean> {
+        try {
+            const formattedDate = scheduledDate.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            });
+
+            const message = `✉️ *You're Invited*
+
+Hello ${visitorName},
+
+${employeeName} has invited you to visit ${companyName}.
+
+*Visit Details:*
+📅 Date: ${formattedDate}
+🕐 Time: ${scheduledTime}
+👤 Host: ${employeeName}
+
+Please complete your details so your pass can be issued:
+${inviteUrl}
+
+Best regards,
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, message);
+        } catch (error: any) {
+            console.error('Failed to send visitor invitation via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Ask a delegate or fallback approver to decide on a request in place of the host
+     * @param approverPhone - Approver phone number
+     * @param approverName - Approver name
+     * @param hostName - Host the approver acts for
+     * @param visitorName - Visitor name
+     * @param scheduledDate - Scheduled date
+     * @param scheduledTime - Scheduled time
+     * @param approvalUrl - The approver's own approval link
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendDelegatedApprovalRequest(
+        approverPhone: string,
+        approverName: string,
+        hostName: string,
+        visitorName: string,
+        scheduledDate: Date,
+        scheduledTime: string,
+        approvalUrl: string
+    ): Promise<boolean> {
+        try {
+            const formattedDate = scheduledDate.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            });
+
+            const message = `🔔 *Approval Needed for ${hostName}*
+
+Hello ${approverName},
+
+${visitorName} would like to visit ${hostName}, who is away. You can approve or reject the request on their behalf.
+
+*Appointment Details:*
+📅 Date: ${formattedDate}
+🕐 Time: ${scheduledTime}
+
+Approve or reject: ${approvalUrl}
+
+Best regards,
+SafeIn Security Team`;
+
+            return await this.sendMessage(approverPhone, message);
+        } catch (error: any) {
+            console.error('Failed to send delegated approval request via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Ask an approver of the next approval chain step to decide on a request
+     * @param approverPhone - Approver phone number
+     * @param approverName - Approver name
+     * @param stepName - Name of the approval step, e.g. Security
+     * @param hostName - Host who approved the visit
+     * @param visitorName - Visitor name
+     * @param scheduledDate - Scheduled date
+     * @param scheduledTime - Scheduled time
+     * @param approvalUrl - The approver's own approval link
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendApprovalStepRequest(
+        approverPhone: string,
+        approverName: string,
+        stepName: string,
+        hostName: string,
+        visitorName: string,
+        scheduledDate: Date,
+        scheduledTime: string,
+        approvalUrl: string
+    ): Promise<boolean> {
+        try {
+            const formattedDate = scheduledDate.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            });
+
+            const message = `🔔 *${stepName} Approval Needed*
+
+Hello ${approverName},
+
+${hostName} has approved a visit from ${visitorName}. The visit also needs ${stepName} approval before it is confirmed.
+
+*Appointment Details:*
+📅 Date: ${formattedDate}
+🕐 Time: ${scheduledTime}
+
+Approve or reject: ${approvalUrl}
 
+Best regards,
+SafeIn Security Team`;
 
+            return await this.sendMessage(approverPhone, message);
+        } catch (error: any) {
+            console.error('Failed to send approval step request via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Send a visitor their QR pass for an approved appointment
+     * @param phone - Visitor phone number
+     * @param visitorName - Visitor name
+     * @param employeeName - Host name
+     * @param scheduledDate - Visit date
+     * @param scheduledTime - Visit time
+     * @param passUrl - Link to the visitor's QR pass
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendVisitorPass(
+        phone: string,
+        visitorName: string,
+        employeeName: string,
+        scheduledDate: Date,
+        scheduledTime: string,
+        passUrl: string
+    ): Promise<boolean> {
+        try {
+            const formattedDate = scheduledDate.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+            });
+
+            const message = `🎫 *Your Visitor Pass*
+
+Hello ${visitorName},
+
+Your visit with ${employeeName} has been approved.
+
+*Visit Details:*
+📅 Date: ${formattedDate}
+🕐 Time: ${scheduledTime}
+👤 Host: ${employeeName}
+
+Show this QR pass at reception when you arrive and when you leave:
+${passUrl}
+
+Best regards,
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, message);
+        } catch (error: any) {
+            console.error('Failed to send visitor pass via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Send an emergency broadcast with the recipient's acknowledgement link
+     * @param phone - Recipient phone number
+     * @param recipientName - Recipient name
+     * @param subject - Broadcast subject
+     * @param message - Broadcast message
+     * @param acknowledgeUrl - Link that records the recipient received the message
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendEmergencyBroadcast(
+        phone: string,
+        recipientName: string,
+        subject: string,
+        message: string,
+        acknowledgeUrl: string
+    ): Promise<boolean> {
+        try {
+            const text = `🚨 *${subject}*
+
+Hello ${recipientName},
+
+${message}
+
+Please confirm you received this message:
+${acknowledgeUrl}
+
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, text);
+        } catch (error: any) {
+            console.error('Failed to send emergency broadcast via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Alert security that a visitor matched the watchlist
+     * @param phone - Security phone number
+     * @param visitorName - Name of the visitor who matched
+     * @param outcome - What was done, e.g. "Blocked"
+     * @param context - When it happened, e.g. "check-in"
+     * @param reason - The watchlist entry's reason
+     * @param matchedOn - Identifiers that matched
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendWatchlistAlert(
+        phone: string,
+        visitorName: string,
+        outcome: string,
+        context: string,
+        reason: string,
+        matchedOn: string
+    ): Promise<boolean> {
+        try {
+            const message = `🔒 *Watchlist Alert*
+
+A visitor matched your watchlist during ${context}.
+
+👤 Visitor: ${visitorName}
+🔎 Matched on: ${matchedOn}
+📋 Reason: ${reason}
+🛡️ Outcome: ${outcome}
+
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, message);
+        } catch (error: any) {
+            console.error('Failed to send watchlist alert via WhatsApp:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Tell the host or security that a visitor is still on site past the end of the visit
+     * @param phone - Host or security phone number
+     * @param details - Alert content
+     * @returns Promise<boolean> - Success status
+     */
+    static async sendOverstayAlert(phone: string, details: IOverstayAlertDetails): Promise<boolean> {
+        try {
+            const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+            const message = `⏱️ *Visit Running Over*
+
+Hello ${details.recipientName},
+
+${details.visitorNames} is still on site ${details.overdueMinutes} minutes after the visit was due to end.
+
+👤 Visitor: ${details.visitorNames}
+🧑‍💼 Host: ${details.hostName}${details.meetingRoom ? `\n🚪 Room: ${details.meetingRoom}` : ''}
+🕐 Checked in: ${formatTime(details.checkInTime)}
+⏱️ Expected to leave: ${formatTime(details.expectedEndTime)}
+
+Please check on the visitor, or check them out if they have already left.
+
+SafeIn Security Team`;
+
+            return await this.sendMessage(phone, message);
+        } catch (error: any) {
+            console.error('Failed to send overstay alert via WhatsApp:', error.message);
+            return false;
+        }
+    }
+}
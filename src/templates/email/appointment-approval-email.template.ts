@@ -8,7 +8,9 @@ export function getAppointmentApprovalEmailTemplate(
   visitorName: string,
   employeeName: string,
   scheduledDate: Date,
-  scheduledTime: string
+  scheduledTime: string,
+  manageUrl?: string,
+  passUrl?: string
 ): string {
   const formattedDate = scheduledDate.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -33,17 +35,23 @@ export function getAppointmentApprovalEmailTemplate(
                 <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
                 <p><strong>👤 Meeting With:</strong> ${employeeName}</p>
             </div>
-            
+            ${passUrl ? `
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${passUrl}" class="action-button">View My Visitor Pass</a>
+            </div>
+            ` : ''}
             <div class="message">
                 <strong>Important Reminders:</strong><br><br>
                 • Please arrive <strong>10 minutes early</strong> to allow time for security check-in<br>
                 • Bring a <strong>valid government-issued photo ID</strong> (driver's license, passport, etc.)<br>
-                • Check in at the reception desk upon arrival<br>
+                • ${passUrl ? 'Show your QR pass (attached) at the reception desk to check in and out' : 'Check in at the reception desk upon arrival'}<br>
                 • If you're running late, please notify us as soon as possible
             </div>
             
             <div class="security-note security-success">
-                <strong>💡 Need to Reschedule?</strong> If you need to change your appointment time, please contact us at least 24 hours in advance. You can also reach out to ${employeeName} directly if you have any questions about the meeting.
+                <strong>💡 Need to Reschedule?</strong> ${manageUrl
+                  ? `You can <a href="${manageUrl}">propose a new time</a> and ${employeeName} will be asked to confirm it.`
+                  : 'If you need to change your appointment time, please contact us at least 24 hours in advance.'} You can also reach out to ${employeeName} directly if you have any questions about the meeting.
             </div>
   `;
   
@@ -54,7 +62,9 @@ export function getAppointmentApprovalEmailText(
   visitorName: string,
   employeeName: string,
   scheduledDate: Date,
-  scheduledTime: string
+  scheduledTime: string,
+  manageUrl?: string,
+  passUrl?: string
 ): string {
   const formattedDate = scheduledDate.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -76,8 +86,8 @@ Appointment Details:
 - Employee: ${employeeName}
 
 Please arrive 10 minutes before your scheduled time and bring a valid ID for security clearance.
-
-If you need to reschedule or have any questions, please contact us in advance.
+${passUrl ? `\nYour QR visitor pass is attached. Show it at reception to check in and out: ${passUrl}\n` : ''}
+${manageUrl ? `Need to reschedule? Propose a new time here: ${manageUrl}` : 'If you need to reschedule or have any questions, please contact us in advance.'}
 
 Best regards,
 SafeIn Security Team
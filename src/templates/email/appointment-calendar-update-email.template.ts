@@ -0,0 +1,106 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+/**
+ * Appointment Calendar Update Email Template
+ * Sent to visitor and employee when an approved appointment is rescheduled or cancelled.
+ * Carries the updated (or cancelling) calendar invite as an attachment.
+ */
+export function getAppointmentCalendarUpdateEmailTemplate(
+  recipientName: string,
+  counterpartName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  cancelled: boolean,
+  meetingRoom?: string
+): string {
+  const formattedDate = scheduledDate.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  const content = cancelled
+    ? `
+            <div class="greeting">
+                Appointment Cancelled
+            </div>
+            
+            <div class="message">
+                Hello ${recipientName},<br><br>
+                Your appointment with ${counterpartName} has been cancelled. The attached calendar update removes it from your calendar.
+            </div>
+            
+            <div class="highlight-box">
+                <h3>Cancelled Appointment</h3>
+                <p><strong>📅 Date:</strong> ${formattedDate}</p>
+                <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
+                <p><strong>👤 Meeting With:</strong> ${counterpartName}</p>
+            </div>
+  `
+    : `
+            <div class="greeting">
+                Appointment Updated
+            </div>
+            
+            <div class="message">
+                Hello ${recipientName},<br><br>
+                Your appointment with ${counterpartName} has been updated. The attached calendar invite replaces the previous one.
+            </div>
+            
+            <div class="highlight-box">
+                <h3>Updated Appointment Details</h3>
+                <p><strong>📅 Date:</strong> ${formattedDate}</p>
+                <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
+                <p><strong>👤 Meeting With:</strong> ${counterpartName}</p>
+                ${meetingRoom ? `<p><strong>📍 Room:</strong> ${meetingRoom}</p>` : ''}
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, cancelled ? 'Appointment Cancelled - SafeIn' : 'Appointment Updated - SafeIn');
+}
+
+export function getAppointmentCalendarUpdateEmailText(
+  recipientName: string,
+  counterpartName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  cancelled: boolean,
+  meetingRoom?: string
+): string {
+  const formattedDate = scheduledDate.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  if (cancelled) {
+    return `
+Appointment Cancelled
+
+Hello ${recipientName},
+
+Your appointment with ${counterpartName} on ${formattedDate} at ${scheduledTime} has been cancelled.
+
+Best regards,
+SafeIn Security Team
+  `;
+  }
+
+  return `
+Appointment Updated
+
+Hello ${recipientName},
+
+Your appointment with ${counterpartName} has been updated.
+
+Appointment Details:
+- Date: ${formattedDate}
+- Time: ${scheduledTime}
+- Meeting With: ${counterpartName}${meetingRoom ? `\n- Room: ${meetingRoom}` : ''}
+
+Best regards,
+SafeIn Security Team
+  `;
+}
@@ -8,7 +8,8 @@ export function getAppointmentRejectionEmailTemplate(
   visitorName: string,
   employeeName: string,
   scheduledDate: Date,
-  scheduledTime: string
+  scheduledTime: string,
+  reason?: string
 ): string {
   const formattedDate = scheduledDate.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -32,6 +33,7 @@ export function getAppointmentRejectionEmailTemplate(
                 <p><strong>📅 Date:</strong> ${formattedDate}</p>
                 <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
                 <p><strong>👤 Employee:</strong> ${employeeName}</p>
+                ${reason ? `<p><strong>📝 Reason:</strong> ${reason}</p>` : ''}
             </div>
             
             <div class="message">
@@ -55,7 +57,8 @@ export function getAppointmentRejectionEmailText(
   visitorName: string,
   employeeName: string,
   scheduledDate: Date,
-  scheduledTime: string
+  scheduledTime: string,
+  reason?: string
 ): string {
   const formattedDate = scheduledDate.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -75,7 +78,7 @@ Original Appointment Details:
 - Date: ${formattedDate}
 - Time: ${scheduledTime}
 - Employee: ${employeeName}
-
+${reason ? `- Reason: ${reason}\n` : ''}
 We apologize for any inconvenience this may cause. Please feel free to schedule a new appointment at a more convenient time.
 
 If you have any questions or need assistance, please don't hesitate to contact us.
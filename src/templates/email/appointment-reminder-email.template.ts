@@ -0,0 +1,87 @@
+import { getBaseEmailTemplate } from './base-email.template';
+import { IAppointmentReminderDetails } from '../../types/appointment/appointment.types';
+
+const formatDate = (date: Date): string => date.toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+const getStatusText = (details: IAppointmentReminderDetails): string => details.status === 'approved'
+  ? 'Confirmed'
+  : 'Awaiting approval';
+
+/**
+ * Appointment Reminder Email Template
+ * Sent to visitor and host ahead of an upcoming appointment
+ */
+export function getAppointmentReminderEmailTemplate(details: IAppointmentReminderDetails): string {
+  const isVisitor = details.recipient === 'visitor';
+
+  const content = `
+            <div class="greeting">
+                Upcoming Appointment
+            </div>
+
+            <div class="message">
+                Hello ${details.recipientName},<br><br>
+                ${isVisitor
+                  ? `This is a reminder of your appointment with ${details.counterpartName} at ${details.companyName}.`
+                  : `This is a reminder that ${details.counterpartName} is visiting you.`}
+            </div>
+
+            <div class="highlight-box">
+                <h3>Appointment Details</h3>
+                <p><strong>📅 Date:</strong> ${formatDate(details.scheduledDate)}</p>
+                <p><strong>🕐 Time:</strong> ${details.scheduledTime}</p>
+                <p><strong>👤 ${isVisitor ? 'Meeting With' : 'Visitor'}:</strong> ${details.counterpartName}</p>
+                ${details.meetingRoom ? `<p><strong>🚪 Room:</strong> ${details.meetingRoom}</p>` : ''}
+                <p><strong>📋 Status:</strong> ${getStatusText(details)}</p>
+            </div>
+
+            ${isVisitor && details.directions
+              ? `<div class="message">
+                <strong>Getting Here:</strong><br><br>
+                ${details.directions}
+            </div>`
+              : ''}
+
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${details.manageUrl}" class="action-button">Reschedule or Cancel</a>
+            </div>
+
+            ${isVisitor
+              ? `<div class="security-note">
+                <strong>💡 Reminder:</strong> Please arrive 10 minutes early and bring a valid photo ID for check-in at reception.
+            </div>`
+              : ''}
+  `;
+
+  return getBaseEmailTemplate(content, 'Appointment Reminder - SafeIn');
+}
+
+export function getAppointmentReminderEmailText(details: IAppointmentReminderDetails): string {
+  const isVisitor = details.recipient === 'visitor';
+
+  return `
+Upcoming Appointment
+
+Hello ${details.recipientName},
+
+${isVisitor
+  ? `This is a reminder of your appointment with ${details.counterpartName} at ${details.companyName}.`
+  : `This is a reminder that ${details.counterpartName} is visiting you.`}
+
+Appointment Details:
+- Date: ${formatDate(details.scheduledDate)}
+- Time: ${details.scheduledTime}
+- ${isVisitor ? 'Meeting With' : 'Visitor'}: ${details.counterpartName}${details.meetingRoom ? `\n- Room: ${details.meetingRoom}` : ''}
+- Status: ${getStatusText(details)}
+${isVisitor && details.directions ? `\nGetting Here:\n${details.directions}\n` : ''}
+Reschedule or cancel: ${details.manageUrl}
+
+Best regards,
+SafeIn Security Team
+  `;
+}
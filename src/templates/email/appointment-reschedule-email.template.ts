@@ -0,0 +1,144 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+const formatDate = (date: Date): string => date.toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+/**
+ * Reschedule Proposal Email Template
+ * Sent to the other party when the host or the visitor proposes a new time
+ */
+export function getRescheduleProposalEmailTemplate(
+  recipientName: string,
+  proposerName: string,
+  currentDate: Date,
+  currentTime: string,
+  proposedDate: Date,
+  proposedTime: string,
+  reason?: string,
+  actionUrl?: string
+): string {
+  const content = `
+            <div class="greeting">
+                New Time Proposed
+            </div>
+            
+            <div class="message">
+                Hello ${recipientName},<br><br>
+                ${proposerName} has asked to move your appointment to a new time. Please accept or decline the proposal.
+            </div>
+            
+            <div class="highlight-box">
+                <h3>Proposed Change</h3>
+                <p><strong>📅 Current:</strong> ${formatDate(currentDate)} at ${currentTime}</p>
+                <p><strong>🕐 Proposed:</strong> ${formatDate(proposedDate)} at ${proposedTime}</p>
+                ${reason ? `<p><strong>💬 Reason:</strong> ${reason}</p>` : ''}
+            </div>
+            
+            ${actionUrl
+              ? `<div style="text-align: center; margin: 30px 0;">
+                <a href="${actionUrl}" class="action-button">Respond to Proposal</a>
+            </div>`
+              : `<div class="message">
+                Log in to your SafeIn dashboard to respond.
+            </div>`}
+            
+            <div class="security-note">
+                <strong>💡 Note:</strong> Your appointment stays at the current time until the new time is accepted.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'New Time Proposed - SafeIn');
+}
+
+export function getRescheduleProposalEmailText(
+  recipientName: string,
+  proposerName: string,
+  currentDate: Date,
+  currentTime: string,
+  proposedDate: Date,
+  proposedTime: string,
+  reason?: string,
+  actionUrl?: string
+): string {
+  return `
+New Time Proposed
+
+Hello ${recipientName},
+
+${proposerName} has asked to move your appointment to a new time.
+
+- Current: ${formatDate(currentDate)} at ${currentTime}
+- Proposed: ${formatDate(proposedDate)} at ${proposedTime}${reason ? `\n- Reason: ${reason}` : ''}
+
+${actionUrl ? `Respond here: ${actionUrl}` : 'Log in to your SafeIn dashboard to respond.'}
+
+Your appointment stays at the current time until the new time is accepted.
+
+Best regards,
+SafeIn Security Team
+  `;
+}
+
+/**
+ * Reschedule Response Email Template
+ * Sent to the party that proposed a new time once the other party responds
+ */
+export function getRescheduleResponseEmailTemplate(
+  recipientName: string,
+  responderName: string,
+  accepted: boolean,
+  scheduledDate: Date,
+  scheduledTime: string,
+  reason?: string
+): string {
+  const content = `
+            <div class="greeting">
+                ${accepted ? 'New Time Accepted' : 'New Time Declined'}
+            </div>
+            
+            <div class="message">
+                Hello ${recipientName},<br><br>
+                ${accepted
+                  ? `${responderName} has accepted the new time. Your appointment has been moved.`
+                  : `${responderName} has declined the new time. Your appointment keeps its current time.`}
+            </div>
+            
+            <div class="highlight-box">
+                <h3>${accepted ? 'New Appointment Time' : 'Appointment Time'}</h3>
+                <p><strong>📅 Date:</strong> ${formatDate(scheduledDate)}</p>
+                <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
+                ${reason ? `<p><strong>💬 Reason:</strong> ${reason}</p>` : ''}
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, accepted ? 'New Time Accepted - SafeIn' : 'New Time Declined - SafeIn');
+}
+
+export function getRescheduleResponseEmailText(
+  recipientName: string,
+  responderName: string,
+  accepted: boolean,
+  scheduledDate: Date,
+  scheduledTime: string,
+  reason?: string
+): string {
+  return `
+${accepted ? 'New Time Accepted' : 'New Time Declined'}
+
+Hello ${recipientName},
+
+${accepted
+    ? `${responderName} has accepted the new time. Your appointment has been moved.`
+    : `${responderName} has declined the new time. Your appointment keeps its current time.`}
+
+- Date: ${formatDate(scheduledDate)}
+- Time: ${scheduledTime}${reason ? `\n- Reason: ${reason}` : ''}
+
+Best regards,
+SafeIn Security Team
+  `;
+}
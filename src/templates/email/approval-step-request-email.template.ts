@@ -0,0 +1,86 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+const formatDate = (date: Date): string => date.toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+/**
+ * Approval Step Request Email Template
+ * Sent to the approvers of the next step of an approval chain, e.g. security after the host
+ */
+export function getApprovalStepRequestEmailTemplate(
+  approverName: string,
+  stepName: string,
+  hostName: string,
+  visitorName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  purpose: string,
+  approvalUrl: string
+): string {
+  const content = `
+            <div class="greeting">
+                ${stepName} Approval Needed
+            </div>
+
+            <div class="message">
+                Hello ${approverName},<br><br>
+                ${hostName} has approved a visit from ${visitorName}. The visit also needs ${stepName} approval before it is confirmed.
+            </div>
+
+            <div class="highlight-box">
+                <h3>Appointment Details</h3>
+                <p><strong>👤 Visitor:</strong> ${visitorName}</p>
+                <p><strong>🤝 Host:</strong> ${hostName}</p>
+                <p><strong>📅 Date:</strong> ${formatDate(scheduledDate)}</p>
+                <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
+                <p><strong>📋 Purpose:</strong> ${purpose}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${approvalUrl}" class="action-button">Approve or Reject</a>
+            </div>
+
+            <div class="security-note">
+                <strong>💡 Note:</strong> Any ${stepName} approver can decide. Once someone does, this link stops working.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'Approval Needed - SafeIn');
+}
+
+export function getApprovalStepRequestEmailText(
+  approverName: string,
+  stepName: string,
+  hostName: string,
+  visitorName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  purpose: string,
+  approvalUrl: string
+): string {
+  return `
+${stepName} Approval Needed
+
+Hello ${approverName},
+
+${hostName} has approved a visit from ${visitorName}. The visit also needs ${stepName} approval before it is confirmed.
+
+Appointment Details:
+- Visitor: ${visitorName}
+- Host: ${hostName}
+- Date: ${formatDate(scheduledDate)}
+- Time: ${scheduledTime}
+- Purpose: ${purpose}
+
+Approve or reject: ${approvalUrl}
+
+Any ${stepName} approver can decide. Once someone does, this link stops working.
+
+Best regards,
+SafeIn Security Team
+  `;
+}
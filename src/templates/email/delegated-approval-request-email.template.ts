@@ -0,0 +1,90 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+const formatDate = (date: Date): string => date.toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+const getIntro = (hostName: string, asDelegate: boolean): string => asDelegate
+  ? `${hostName} has asked you to handle their visitor approvals.`
+  : `${hostName} is away, and you are a backup approver for their department.`;
+
+/**
+ * Delegated Approval Request Email Template
+ * Sent to a delegate or fallback approver who can decide in place of the host
+ */
+export function getDelegatedApprovalRequestEmailTemplate(
+  approverName: string,
+  hostName: string,
+  visitorName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  purpose: string,
+  approvalUrl: string,
+  asDelegate: boolean
+): string {
+  const content = `
+            <div class="greeting">
+                Approval Needed for ${hostName}
+            </div>
+
+            <div class="message">
+                Hello ${approverName},<br><br>
+                ${getIntro(hostName, asDelegate)} ${visitorName} would like to visit ${hostName}, and you can approve or reject the request on their behalf.
+            </div>
+
+            <div class="highlight-box">
+                <h3>Appointment Details</h3>
+                <p><strong>👤 Visitor:</strong> ${visitorName}</p>
+                <p><strong>🤝 Host:</strong> ${hostName}</p>
+                <p><strong>📅 Date:</strong> ${formatDate(scheduledDate)}</p>
+                <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
+                <p><strong>📋 Purpose:</strong> ${purpose}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${approvalUrl}" class="action-button">Approve or Reject</a>
+            </div>
+
+            <div class="security-note">
+                <strong>💡 Note:</strong> Your decision is recorded as made on behalf of ${hostName}. Once anyone decides, this link stops working.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'Approval Needed - SafeIn');
+}
+
+export function getDelegatedApprovalRequestEmailText(
+  approverName: string,
+  hostName: string,
+  visitorName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  purpose: string,
+  approvalUrl: string,
+  asDelegate: boolean
+): string {
+  return `
+Approval Needed for ${hostName}
+
+Hello ${approverName},
+
+${getIntro(hostName, asDelegate)} ${visitorName} would like to visit ${hostName}, and you can approve or reject the request on their behalf.
+
+Appointment Details:
+- Visitor: ${visitorName}
+- Host: ${hostName}
+- Date: ${formatDate(scheduledDate)}
+- Time: ${scheduledTime}
+- Purpose: ${purpose}
+
+Approve or reject: ${approvalUrl}
+
+Your decision is recorded as made on behalf of ${hostName}. Once anyone decides, this link stops working.
+
+Best regards,
+SafeIn Security Team
+  `;
+}
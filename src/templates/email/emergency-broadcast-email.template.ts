@@ -0,0 +1,55 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+/**
+ * Emergency Broadcast Email Template
+ * Sent to everyone on site, and optionally every employee, during a drill or incident
+ */
+export function getEmergencyBroadcastEmailTemplate(
+  recipientName: string,
+  subject: string,
+  message: string,
+  acknowledgeUrl: string
+): string {
+  const content = `
+            <div class="greeting">
+                ⚠️ ${subject}
+            </div>
+
+            <div class="message">
+                Hello ${recipientName},
+            </div>
+
+            <div class="highlight-box">
+                <p>${message.replace(/\n/g, '<br>')}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${acknowledgeUrl}" class="action-button action-button-danger">I Have Received This</a>
+            </div>
+
+            <div class="security-note security-warning">
+                <strong>🚨 Please acknowledge:</strong> Let the site team know you received this message by using the button above.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, `${subject} - SafeIn`);
+}
+
+export function getEmergencyBroadcastEmailText(
+  recipientName: string,
+  subject: string,
+  message: string,
+  acknowledgeUrl: string
+): string {
+  return `
+${subject}
+
+Hello ${recipientName},
+
+${message}
+
+Please let the site team know you received this message: ${acknowledgeUrl}
+
+SafeIn Security Team
+  `;
+}
@@ -95,7 +95,8 @@ export function getEmployeeAppointmentRejectionEmailTemplate(
   employeeName: string,
   visitorName: string,
   scheduledDate: Date,
-  scheduledTime: string
+  scheduledTime: string,
+  reason?: string
 ): string {
   const formattedDate = scheduledDate.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -119,6 +120,7 @@ export function getEmployeeAppointmentRejectionEmailTemplate(
                 <p><strong>📅 Date:</strong> ${formattedDate}</p>
                 <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
                 <p><strong>👤 Visitor:</strong> ${visitorName}</p>
+                ${reason ? `<p><strong>📝 Reason:</strong> ${reason}</p>` : ''}
             </div>
             
             <div class="message">
@@ -141,7 +143,8 @@ export function getEmployeeAppointmentRejectionEmailText(
   employeeName: string,
   visitorName: string,
   scheduledDate: Date,
-  scheduledTime: string
+  scheduledTime: string,
+  reason?: string
 ): string {
   const formattedDate = scheduledDate.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -161,7 +164,7 @@ Original Appointment Details:
 - Date: ${formattedDate}
 - Time: ${scheduledTime}
 - Visitor: ${visitorName}
-
+${reason ? `- Reason: ${reason}\n` : ''}
 The visitor has been informed of the rejection and may contact you to reschedule.
 
 If you need to provide any feedback or alternative meeting times, please contact the visitor directly.
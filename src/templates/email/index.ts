@@ -15,4 +15,19 @@ export {
   getEmployeeAppointmentRejectionEmailText
 } from './employee-appointment-email.template';
 export { getNewAppointmentRequestEmailTemplate, getNewAppointmentRequestEmailText } from './new-appointment-request-email.template';
-
+export { getAppointmentCalendarUpdateEmailTemplate, getAppointmentCalendarUpdateEmailText } from './appointment-calendar-update-email.template';
+export {
+  getRescheduleProposalEmailTemplate,
+  getRescheduleProposalEmailText,
+  getRescheduleResponseEmailTemplate,
+  getRescheduleResponseEmailText
+} from './appointment-reschedule-email.template';
+export { getAppointmentReminderEmailTemplate, getAppointmentReminderEmailText } from './appointment-reminder-email.template';
+export { getVisitorArrivalEmailTemplate, getVisitorArrivalEmailText } from './visitor-arrival-email.template';
+export { getVisitorInvitationEmailTemplate, getVisitorInvitationEmailText } from './visitor-invitation-email.template';
+export { getDelegatedApprovalRequestEmailTemplate, getDelegatedApprovalRequestEmailText } from './delegated-approval-request-email.template';
+export { getApprovalStepRequestEmailTemplate, getApprovalStepRequestEmailText } from './approval-step-request-email.template';
+export { getVisitorPassEmailTemplate, getVisitorPassEmailText } from './visitor-pass-email.template';
+export { getEmergencyBroadcastEmailTemplate, getEmergencyBroadcastEmailText } from './emergency-broadcast-email.template';
+export { getWatchlistAlertEmailTemplate, getWatchlistAlertEmailText } from './watchlist-alert-email.template';
+export { getOverstayAlertEmailTemplate, getOverstayAlertEmailText } from './overstay-alert-email.template';
@@ -0,0 +1,59 @@
+import { getBaseEmailTemplate } from './base-email.template';
+import { IOverstayAlertDetails } from '../../types/onSite/onSite.types';
+
+const formatTime = (date: Date): string => date.toLocaleTimeString('en-US', {
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+/**
+ * Overstay Alert Email Template
+ * Sent to the host and security when a visit runs past its scheduled duration
+ */
+export function getOverstayAlertEmailTemplate(details: IOverstayAlertDetails): string {
+  const content = `
+            <div class="greeting">
+                Visit Running Over
+            </div>
+
+            <div class="message">
+                Hello ${details.recipientName},<br><br>
+                ${details.visitorNames} is still on site ${details.overdueMinutes} minutes after the visit was due to end.
+            </div>
+
+            <div class="highlight-box">
+                <h3>Visit Details</h3>
+                <p><strong>👤 Visitor:</strong> ${details.visitorNames}</p>
+                <p><strong>🧑‍💼 Host:</strong> ${details.hostName}</p>
+                ${details.meetingRoom ? `<p><strong>🚪 Room:</strong> ${details.meetingRoom}</p>` : ''}
+                <p><strong>🕐 Checked in:</strong> ${formatTime(details.checkInTime)}</p>
+                <p><strong>⏱️ Expected to leave:</strong> ${formatTime(details.expectedEndTime)}</p>
+            </div>
+
+            <div class="security-note">
+                <strong>🔒 Note:</strong> Please check on the visitor, or check them out if they have already left.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'Visit Running Over - SafeIn');
+}
+
+export function getOverstayAlertEmailText(details: IOverstayAlertDetails): string {
+  return `
+Visit Running Over
+
+Hello ${details.recipientName},
+
+${details.visitorNames} is still on site ${details.overdueMinutes} minutes after the visit was due to end.
+
+Visit Details:
+- Visitor: ${details.visitorNames}
+- Host: ${details.hostName}${details.meetingRoom ? `\n- Room: ${details.meetingRoom}` : ''}
+- Checked in: ${formatTime(details.checkInTime)}
+- Expected to leave: ${formatTime(details.expectedEndTime)}
+
+Please check on the visitor, or check them out if they have already left.
+
+SafeIn Security Team
+  `;
+}
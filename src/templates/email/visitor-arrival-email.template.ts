@@ -0,0 +1,73 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+/**
+ * Visitor Arrival Email Template
+ * Sent to the host when a walk-in visitor is registered at reception
+ */
+export function getVisitorArrivalEmailTemplate(
+  employeeName: string,
+  visitorName: string,
+  purpose: string,
+  checkedIn: boolean,
+  actionUrl?: string
+): string {
+  const arrivedAt = new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+  const content = `
+            <div class="greeting">
+                Visitor Waiting at Reception
+            </div>
+
+            <div class="message">
+                Hello ${employeeName},<br><br>
+                ${checkedIn
+                  ? `${visitorName} has arrived without an appointment and has been checked in at reception.`
+                  : `${visitorName} has arrived without an appointment and is waiting at reception for your approval.`}
+            </div>
+
+            <div class="highlight-box">
+                <h3>Visitor Details</h3>
+                <p><strong>👤 Visitor:</strong> ${visitorName}</p>
+                <p><strong>📝 Purpose:</strong> ${purpose}</p>
+                <p><strong>🕐 Arrived:</strong> ${arrivedAt}</p>
+            </div>
+
+            ${!checkedIn && actionUrl
+              ? `<div style="text-align: center; margin: 30px 0;">
+                <a href="${actionUrl}" class="action-button">Approve or Reject</a>
+            </div>`
+              : ''}
+
+            <div class="security-note">
+                <strong>💡 Note:</strong> Please meet your visitor at reception or let the front desk know if you are unavailable.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'Visitor Waiting - SafeIn');
+}
+
+export function getVisitorArrivalEmailText(
+  employeeName: string,
+  visitorName: string,
+  purpose: string,
+  checkedIn: boolean,
+  actionUrl?: string
+): string {
+  return `
+Visitor Waiting at Reception
+
+Hello ${employeeName},
+
+${checkedIn
+  ? `${visitorName} has arrived without an appointment and has been checked in at reception.`
+  : `${visitorName} has arrived without an appointment and is waiting at reception for your approval.`}
+
+- Visitor: ${visitorName}
+- Purpose: ${purpose}
+${!checkedIn && actionUrl ? `\nApprove or reject: ${actionUrl}\n` : ''}
+Please meet your visitor at reception or let the front desk know if you are unavailable.
+
+Best regards,
+SafeIn Security Team
+  `;
+}
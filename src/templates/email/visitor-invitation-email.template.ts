@@ -0,0 +1,84 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+const formatDate = (date: Date): string => date.toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+/**
+ * Visitor Invitation Email Template
+ * Sent to a guest invited by a host, with the link to complete their details
+ */
+export function getVisitorInvitationEmailTemplate(
+  visitorName: string,
+  employeeName: string,
+  companyName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  purpose: string,
+  inviteUrl: string,
+  expiresAt: Date
+): string {
+  const content = `
+            <div class="greeting">
+                You're Invited
+            </div>
+
+            <div class="message">
+                Hello ${visitorName},<br><br>
+                ${employeeName} has invited you to visit ${companyName}. Please complete your details before the visit so your pass can be issued.
+            </div>
+
+            <div class="highlight-box">
+                <h3>Visit Details</h3>
+                <p><strong>📅 Date:</strong> ${formatDate(scheduledDate)}</p>
+                <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
+                <p><strong>👤 Host:</strong> ${employeeName}</p>
+                <p><strong>📝 Purpose:</strong> ${purpose}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${inviteUrl}" class="action-button">Complete My Details</a>
+            </div>
+
+            <div class="security-note">
+                <strong>⏰ Note:</strong> This link expires on ${formatDate(expiresAt)}. Keep your ID proof handy; you will be asked for it.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'Visit Invitation - SafeIn');
+}
+
+export function getVisitorInvitationEmailText(
+  visitorName: string,
+  employeeName: string,
+  companyName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  purpose: string,
+  inviteUrl: string,
+  expiresAt: Date
+): string {
+  return `
+You're Invited
+
+Hello ${visitorName},
+
+${employeeName} has invited you to visit ${companyName}. Please complete your details before the visit so your pass can be issued.
+
+Visit Details:
+- Date: ${formatDate(scheduledDate)}
+- Time: ${scheduledTime}
+- Host: ${employeeName}
+- Purpose: ${purpose}
+
+Complete your details: ${inviteUrl}
+
+This link expires on ${formatDate(expiresAt)}. Keep your ID proof handy; you will be asked for it.
+
+Best regards,
+SafeIn Security Team
+  `;
+}
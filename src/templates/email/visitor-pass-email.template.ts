@@ -0,0 +1,76 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+const formatDate = (date: Date): string => date.toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+/**
+ * Visitor Pass Email Template
+ * Sent to each visitor of an approved appointment with their QR pass attached
+ */
+export function getVisitorPassEmailTemplate(
+  visitorName: string,
+  employeeName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  passUrl: string
+): string {
+  const content = `
+            <div class="greeting">
+                Your Visitor Pass
+            </div>
+
+            <div class="message">
+                Hello ${visitorName},<br><br>
+                Your visit with ${employeeName} has been approved. Your personal QR pass is attached to this email.
+            </div>
+
+            <div class="highlight-box">
+                <h3>Visit Details</h3>
+                <p><strong>📅 Date:</strong> ${formatDate(scheduledDate)}</p>
+                <p><strong>🕐 Time:</strong> ${scheduledTime}</p>
+                <p><strong>👤 Host:</strong> ${employeeName}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <a href="${passUrl}" class="action-button">View My Pass</a>
+            </div>
+
+            <div class="security-note">
+                <strong>🎫 At reception:</strong> Show the QR code to check in, and again when you leave to check out. The pass is yours alone; please do not share it.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'Visitor Pass - SafeIn');
+}
+
+export function getVisitorPassEmailText(
+  visitorName: string,
+  employeeName: string,
+  scheduledDate: Date,
+  scheduledTime: string,
+  passUrl: string
+): string {
+  return `
+Your Visitor Pass
+
+Hello ${visitorName},
+
+Your visit with ${employeeName} has been approved. Your personal QR pass is attached to this email.
+
+Visit Details:
+- Date: ${formatDate(scheduledDate)}
+- Time: ${scheduledTime}
+- Host: ${employeeName}
+
+View your pass: ${passUrl}
+
+Show the QR code at reception to check in, and again when you leave to check out. The pass is yours alone; please do not share it.
+
+Best regards,
+SafeIn Security Team
+  `;
+}
@@ -0,0 +1,65 @@
+import { getBaseEmailTemplate } from './base-email.template';
+
+/**
+ * Watchlist Alert Email Template
+ * Sent to security when someone being registered, booked or checked in matches the watchlist
+ */
+export function getWatchlistAlertEmailTemplate(
+  visitorName: string,
+  outcome: string,
+  context: string,
+  reason: string,
+  matchedOn: string,
+  occurredAt: Date
+): string {
+  const content = `
+            <div class="greeting">
+                Watchlist Alert
+            </div>
+
+            <div class="message">
+                A visitor matched an entry on your watchlist during ${context}.
+            </div>
+
+            <div class="highlight-box">
+                <h3>Details</h3>
+                <p><strong>👤 Visitor:</strong> ${visitorName}</p>
+                <p><strong>🔎 Matched on:</strong> ${matchedOn}</p>
+                <p><strong>📋 Watchlist reason:</strong> ${reason}</p>
+                <p><strong>🛡️ Outcome:</strong> ${outcome}</p>
+                <p><strong>🕐 Time:</strong> ${occurredAt.toLocaleString('en-US')}</p>
+            </div>
+
+            <div class="security-note security-warning">
+                <strong>🔒 Confidential:</strong> This alert was not shown to the visitor. Every hit is kept in the watchlist history.
+            </div>
+  `;
+
+  return getBaseEmailTemplate(content, 'Watchlist Alert - SafeIn');
+}
+
+export function getWatchlistAlertEmailText(
+  visitorName: string,
+  outcome: string,
+  context: string,
+  reason: string,
+  matchedOn: string,
+  occurredAt: Date
+): string {
+  return `
+Watchlist Alert
+
+A visitor matched an entry on your watchlist during ${context}.
+
+Details:
+- Visitor: ${visitorName}
+- Matched on: ${matchedOn}
+- Watchlist reason: ${reason}
+- Outcome: ${outcome}
+- Time: ${occurredAt.toLocaleString('en-US')}
+
+This alert was not shown to the visitor. Every hit is kept in the watchlist history.
+
+SafeIn Security Team
+  `;
+}
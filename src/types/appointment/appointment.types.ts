@@ -1,5 +1,16 @@
+import { ICreateVisitorDTO, IVisitorResponse } from '../visitor/visitor.types';
 
-export type AppointmentStatus = 'pending' | 'approved' | 'rejected' | 'completed';
+export type AppointmentStatus =
+    | 'pending'
+    | 'approved'
+    | 'rejected'
+    | 'checked_in'
+    | 'in_meeting'
+    | 'completed'
+    | 'cancelled'
+    | 'no_show';
+export type StatusChangeSource = 'dashboard' | 'approval_link' | 'visitor_link' | 'system';
+export type ReasonedStatus = Extract<AppointmentStatus, 'rejected' | 'cancelled' | 'no_show'>; // Visits that did not happen record why
 export type IDProofType = 'aadhaar' | 'pan' | 'driving_license' | 'passport' | 'other';
 
 export interface IVisitorDetails {
@@ -34,12 +45,29 @@ export interface IAccompaniedBy {
     };
 }
 
+/**
+ * One person on the visit, checked in and out on their own
+ */
+export interface IAttendee {
+    visitorId: string | IVisitorResponse; // Populated when the appointment is read on its own
+    isLead: boolean;
+    badgeNumber?: string;
+    checkInTime?: Date | null;
+    checkOutTime?: Date | null;
+}
+
+export interface IAttendeeCheckInDTO {
+    badgeNumber?: string;
+    watchlistOverrideReason?: string; // Security lets a visitor the watchlist holds through
+}
+
 export interface IAppointmentDetails {
     purpose: string;
     scheduledDate: Date;
     scheduledTime: string;
     duration: number; // in minutes
-    meetingRoom?: string;
+    meetingRoomId?: string; // Reference to MeetingRoom
+    meetingRoom?: string; // Room name, filled in from the referenced room
     notes?: string;
     vehicleNumber?: string; // Optional vehicle number
     vehiclePhoto?: string; // Optional vehicle photo URL
@@ -57,19 +85,206 @@ export interface INotifications {
     emailSent: boolean;
     whatsappSent: boolean;
     reminderSent: boolean;
+    calendarInviteSent?: boolean; // Visitor and host hold a calendar invite that must follow changes
+}
+
+export interface IStatusChangeActor {
+    userId?: string; // User who triggered the change (absent for approval and visitor links and system jobs)
+    source: StatusChangeSource;
+    note?: string;
+    approverId?: string; // Employee who approved or rejected through their approval link
+    onBehalfOf?: string; // Host the decision was made for, when someone else made it
+    reason?: IStatusReasonOption; // From the company's reason list, for rejections, cancellations and no-shows
+}
+
+/**
+ * An entry of a company's reason list for rejections, cancellations or no-shows
+ */
+export interface IStatusReasonOption {
+    code: string; // Stable identifier used in reports, e.g. "host_unavailable"
+    label: string;
+}
+
+/**
+ * Why the appointment was rejected, cancelled or marked as a no-show
+ */
+export interface IStatusReason {
+    code?: string | null;
+    label?: string | null; // Label of the code at the time, kept if the company's list changes later
+    comment?: string;
+}
+
+/**
+ * Who approved or rejected the appointment, and for whom
+ */
+export interface IApprovalDecision {
+    decision: 'approved' | 'rejected';
+    decidedBy?: string; // User, for decisions made from the dashboard
+    approverId?: string; // Employee, for decisions made through an approval link
+    onBehalfOf?: string; // Host, when a delegate, fallback approver or the front desk decided
+    source: StatusChangeSource;
+    reason?: string; // Given when rejecting
+    decidedAt: Date;
+}
+
+export type ApprovalStepStatus = 'waiting' | 'pending' | 'approved' | 'rejected';
+
+export interface IApprovalStep {
+    name: string;
+    approverIds: string[]; // Employees who can decide the step
+    status: ApprovalStepStatus;
+    decidedBy?: string; // User, for decisions made from the dashboard
+    approverId?: string; // Employee, for decisions made through an approval link
+    onBehalfOf?: string;
+    reason?: string;
+    decidedAt?: Date;
+}
+
+/**
+ * Ordered approval steps of an appointment that falls under an approval policy.
+ * The first step is always the host's; the appointment is approved once every step is.
+ */
+export interface IApprovalChain {
+    policyName: string;
+    currentStep: number;
+    steps: IApprovalStep[];
+}
+
+export interface IStatusTransition {
+    from: AppointmentStatus;
+    to: AppointmentStatus;
+    changedBy?: string;
+    source: StatusChangeSource;
+    note?: string;
+    reasonCode?: string;
+    changedAt: Date;
+}
+
+export type RescheduleParty = 'host' | 'visitor';
+
+// 'applied' marks a time change made directly from the dashboard, without a proposal
+export type RescheduleStatus = 'pending' | 'accepted' | 'declined' | 'superseded' | 'applied';
+
+export interface IAppointmentSlot {
+    scheduledDate: Date;
+    scheduledTime: string;
+    duration: number;
+}
+
+export interface IRescheduleEntry {
+    _id?: string;
+    previousSlot: IAppointmentSlot;
+    proposedSlot: IAppointmentSlot;
+    proposedBy: RescheduleParty;
+    proposedByUser?: string;
+    reason?: string;
+    status: RescheduleStatus;
+    responseReason?: string;
+    respondedByUser?: string;
+    proposedAt: Date;
+    respondedAt?: Date;
+}
+
+export interface IProposeRescheduleDTO {
+    scheduledDate: Date | string;
+    scheduledTime: string;
+    duration?: number;
+    reason?: string;
+}
+
+export interface IRespondRescheduleDTO {
+    accept: boolean;
+    reason?: string;
+}
+
+/**
+ * What a visitor sees through their appointment link
+ */
+export interface IVisitorAppointmentView {
+    appointmentId: string;
+    status: AppointmentStatus;
+    visitorName: string;
+    employeeName: string;
+    purpose: string;
+    scheduledDate: Date;
+    scheduledTime: string;
+    duration: number;
+    meetingRoom?: string;
+    pendingReschedule: IRescheduleEntry | null;
+}
+
+export type ReminderRecipient = 'visitor' | 'host';
+export type ReminderChannel = 'email' | 'whatsapp';
+
+export interface IReminderLogEntry {
+    offsetMinutes: number; // Reminder setting the send belongs to
+    recipient: ReminderRecipient;
+    channel: ReminderChannel;
+    success: boolean;
+    sentAt: Date;
+}
+
+/**
+ * Content of a reminder, shared by the email and WhatsApp messages
+ */
+export interface IAppointmentReminderDetails {
+    recipient: ReminderRecipient;
+    recipientName: string;
+    counterpartName: string; // Host for the visitor, visitor for the host
+    companyName: string;
+    status: AppointmentStatus;
+    scheduledDate: Date;
+    scheduledTime: string;
+    meetingRoom?: string;
+    directions?: string;
+    manageUrl: string; // Where the appointment can be rescheduled or cancelled
 }
 
 export interface ICreateAppointmentDTO {
     employeeId: string;
-    visitorId: string; // Reference to Visitor
+    visitorId: string; // Reference to Visitor; leads the group on group visits
+    attendees?: string[]; // Visitors coming along with the lead, each with their own Visitor record
     accompaniedBy?: IAccompaniedBy;
     accompanyingCount?: number;
     appointmentDetails: IAppointmentDetails;
     securityDetails?: ISecurityDetails;
     notifications?: INotifications;
+    visitorTypeId?: string; // Defaults to the lead visitor's type
+    seriesId?: string; // Set when generated by a recurring series
+    occurrenceDate?: Date;
+}
+
+/**
+ * Front-desk registration of a visitor who arrives without an appointment.
+ * The visitor is matched by phone or email; the other details are only needed
+ * when no visitor matches and a new one is registered.
+ */
+export interface IWalkInAppointmentDTO {
+    visitor: Partial<ICreateVisitorDTO> & { name: string; phone: string };
+    employeeId: string;
+    accompaniedBy?: IAccompaniedBy;
+    accompanyingCount?: number;
+    appointmentDetails: Omit<IAppointmentDetails, 'scheduledDate' | 'scheduledTime' | 'duration'> & { duration?: number };
+    checkIn?: boolean; // Approve and check the visitor in straight away
+    badgeNumber?: string;
+    securityNotes?: string;
 }
 
-export interface IUpdateAppointmentDTO {
+export interface IWalkInAppointmentResponse {
+    appointment: IAppointmentResponse;
+    visitor: IVisitorResponse;
+    visitorCreated: boolean; // False when an existing visitor was matched
+}
+
+/**
+ * Reason given when rejecting, cancelling or marking a no-show
+ */
+export interface IStatusReasonDTO {
+    reasonCode?: string; // From the company's reason list for the status
+    reason?: string; // Free-text comment
+}
+
+export interface IUpdateAppointmentDTO extends IStatusReasonDTO {
     employeeId?: string;
     visitorId?: string; // Reference to Visitor
     accompaniedBy?: Partial<IAccompaniedBy>;
@@ -90,13 +305,33 @@ export interface IAppointmentResponse {
     visitorId: string; // Reference to Visitor
     visitor?: IVisitorDetails; // Populated visitor details
     accompaniedBy?: IAccompaniedBy;
+    attendees?: IAttendee[];
     appointmentDetails: IAppointmentDetails;
     status: AppointmentStatus;
+    statusHistory: IStatusTransition[];
+    rescheduleHistory?: IRescheduleEntry[];
+    reminderLog?: IReminderLogEntry[];
     checkInTime?: Date;
     checkOutTime?: Date;
     actualDuration?: number;
+    autoCheckedOut?: boolean;
+    overstayAlertedAt?: Date | null;
+    approval?: IApprovalDecision | null;
+    approvalChain?: IApprovalChain | null;
+    statusReason?: IStatusReason | null;
     securityDetails: ISecurityDetails;
     notifications: INotifications;
+    visitorTypeId?: string | null;
+    seriesId?: string;
+    occurrenceDate?: Date;
+    isSeriesException?: boolean;
+    availabilityOverride?: {
+        overriddenBy: string;
+        reason: string;
+        overriddenAt: Date;
+    } | null;
+    calendarSequence?: number;
+    passVersion?: number;
     createdBy: string;
     isDeleted: boolean;
     deletedAt?: Date;
@@ -115,6 +350,7 @@ export interface IGetAppointmentsQuery {
     scheduledDate?: string; // YYYY-MM-DD format
     startDate?: string; // YYYY-MM-DD format
     endDate?: string; // YYYY-MM-DD format
+    autoCheckedOut?: boolean; // Only visits closed by the end-of-day auto-checkout
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
     searchType?: 'visitor_name' | 'visitor_phone' | 'visitor_email' | 'appointment_id' | 'employee_name';
@@ -136,6 +372,7 @@ export interface ICheckInRequest {
     appointmentId: string;  // Custom appointmentId (e.g., "APT1760335163234DWU4Z") - NOT MongoDB _id
     badgeNumber?: string;
     securityNotes?: string;
+    watchlistOverrideReason?: string; // Security lets a visitor the watchlist holds through
 }
 
 export interface ICheckOutRequest {
@@ -145,11 +382,16 @@ export interface ICheckOutRequest {
 
 export interface IAppointmentStats {
     totalAppointments: number;
-    scheduledAppointments: number;
+    pendingAppointments: number;
+    scheduledAppointments: number; // approved and not yet checked in
+    rejectedAppointments: number;
     checkedInAppointments: number;
+    inMeetingAppointments: number;
     completedAppointments: number;
     cancelledAppointments: number;
     noShowAppointments: number;
+    overstayingAppointments: number; // On site now, past the scheduled duration and grace period
+    overstayedAppointments: number; // Completed visits that ran past the scheduled duration and grace period
     appointmentsByStatus: Array<{
         status: string;
         count: number;
@@ -163,28 +405,62 @@ export interface IAppointmentStats {
         date: string;
         count: number;
     }>;
+    reasonBreakdown: Record<ReasonedStatus, Array<{
+        code: string | null; // null for those recorded without a reason code
+        label: string;
+        count: number;
+    }>>;
 }
 
-export interface IBulkUpdateAppointmentsDTO {
+export interface IBulkUpdateAppointmentsDTO extends IStatusReasonDTO {
     appointmentIds: string[];
     status?: AppointmentStatus;
     employeeId?: string;
-    meetingRoom?: string;
+    meetingRoomId?: string;
+}
+
+export interface IAppointmentCalendarQuery {
+    startDate: string;
+    endDate: string;
+    employeeId?: string;
+    status?: AppointmentStatus;
 }
 
 export interface IAppointmentCalendarResponse {
     date: string;
     appointments: Array<{
+        _id: string;
         appointmentId: string;
         visitorName: string;
+        employeeId: string;
         employeeName: string;
         scheduledTime: string;
         duration: number;
+        startsAt: Date;
+        endsAt: Date;
         status: AppointmentStatus;
         purpose: string;
+        meetingRoom?: string;
     }>;
 }
 
+export interface IAppointmentConflict {
+    _id: string;
+    appointmentId: string;
+    status: AppointmentStatus;
+    scheduledDate: Date;
+    scheduledTime: string;
+    duration: number;
+    startsAt: Date;
+    endsAt: Date;
+}
+
+export interface IConflictCheckOptions {
+    excludeAppointmentIds?: string[];
+    bufferMinutes?: number;
+    session?: any;
+}
+
 export interface IAppointmentSearchRequest {
     query: string;
     type: 'visitor_name' | 'visitor_phone' | 'visitor_email' | 'appointment_id' | 'employee_name';
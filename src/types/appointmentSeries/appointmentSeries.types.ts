@@ -0,0 +1,95 @@
+import { IAppointmentResponse } from '../appointment/appointment.types';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type SeriesApprovalMode = 'series' | 'occurrence';
+export type SeriesStatus = 'active' | 'cancelled';
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+export interface IRecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number; // Repeat every N days/weeks/months
+    byWeekday?: number[]; // 0 (Sunday) - 6 (Saturday), weekly only
+    startDate: Date;
+    endDate?: Date;
+    count?: number;
+}
+
+export interface ISeriesAppointmentDetails {
+    purpose: string;
+    scheduledTime: string;
+    duration: number; // in minutes
+    meetingRoomId?: string; // Reference to MeetingRoom
+    meetingRoom?: string;
+    notes?: string;
+    vehicleNumber?: string;
+}
+
+export interface ICreateAppointmentSeriesDTO {
+    employeeId: string;
+    visitorId: string;
+    accompanyingCount?: number;
+    appointmentDetails: ISeriesAppointmentDetails;
+    recurrence: IRecurrenceRule;
+    exceptions?: Date[];
+    approvalMode?: SeriesApprovalMode;
+}
+
+export interface IUpdateSeriesOccurrenceDTO {
+    scope: SeriesEditScope;
+    employeeId?: string;
+    scheduledDate?: Date; // Only allowed when scope is 'this'
+    scheduledTime?: string;
+    duration?: number;
+    purpose?: string;
+    meetingRoomId?: string;
+    meetingRoom?: string;
+    notes?: string;
+}
+
+export interface ICancelSeriesOccurrenceDTO {
+    scope: SeriesEditScope;
+}
+
+export interface IAppointmentSeriesResponse {
+    _id: string;
+    seriesId: string;
+    employeeId: string;
+    visitorId: string;
+    accompanyingCount?: number;
+    appointmentDetails: ISeriesAppointmentDetails;
+    recurrence: IRecurrenceRule;
+    rrule: string;
+    exceptions: Date[];
+    approvalMode: SeriesApprovalMode;
+    status: SeriesStatus;
+    parentSeriesId?: string;
+    createdBy: string;
+    isDeleted: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+    occurrences?: IAppointmentResponse[];
+}
+
+export interface IGetAppointmentSeriesQuery {
+    page?: number;
+    limit?: number;
+    employeeId?: string;
+    visitorId?: string;
+    status?: SeriesStatus;
+}
+
+export interface IAppointmentSeriesListResponse {
+    series: IAppointmentSeriesResponse[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalSeries: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
+
+export interface ISeriesOccurrenceResult {
+    series: IAppointmentSeriesResponse;
+    updatedCount: number;
+}
@@ -0,0 +1,54 @@
+import { AppointmentStatus } from '../appointment/appointment.types';
+
+/**
+ * State of an approval link. Only 'active' links can approve or reject; 'past' links
+ * belong to a visit that is already over.
+ */
+export type ApprovalLinkState = 'active' | 'used' | 'expired' | 'revoked' | 'past';
+
+export type ApprovalLinkAction = 'view' | 'approve' | 'reject';
+
+export type ApprovalLinkAccessOutcome = ApprovalLinkState | 'invalid';
+
+/**
+ * Who opened the link, for the access log
+ */
+export interface IApprovalLinkAccessContext {
+    ip?: string;
+    userAgent?: string;
+}
+
+/**
+ * What an expired, revoked, used or past link still shows: nothing about the visitor
+ */
+export interface IApprovalLinkSummary {
+    appointmentId: string;
+    status: AppointmentStatus;
+    scheduledDate: Date;
+    scheduledTime: string;
+    hostName: string;
+}
+
+export interface IApprovalLinkAccessResponse {
+    action: ApprovalLinkAction;
+    outcome: ApprovalLinkAccessOutcome;
+    ip?: string;
+    userAgent?: string;
+    createdAt: Date;
+}
+
+export interface IApprovalLinkResponse {
+    _id: string;
+    approver: any; // Employee the link was sent to; the host for their own link
+    onBehalfOf?: any;
+    step: number;
+    state: ApprovalLinkState;
+    expiresAt: Date;
+    sendCount: number;
+    lastSentAt?: Date;
+    revokedAt?: Date;
+    revokedBy?: string;
+    createdAt: Date;
+    accessLog: IApprovalLinkAccessResponse[]; // Most recent first
+    link?: string; // Only returned when a token is issued
+}
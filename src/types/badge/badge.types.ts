@@ -0,0 +1,13 @@
+/**
+ * Label sizes badges are laid out for: 62mm continuous rolls (cut at 100mm) and 4x3in labels
+ */
+export type BadgeSize = '62mm' | '4x3in';
+
+export interface IBadgePrintQuery {
+    size?: BadgeSize; // The company's default size when not given
+}
+
+export interface IBadgeBatchQuery extends IBadgePrintQuery {
+    date?: Date | string; // Day to print for; tomorrow when not given
+    until?: string; // HH:MM; visits starting before this time are printed
+}
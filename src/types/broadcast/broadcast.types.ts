@@ -0,0 +1,76 @@
+export type BroadcastChannel = 'email' | 'whatsapp';
+export type BroadcastRecipientType = 'visitor' | 'host' | 'employee';
+export type BroadcastAcknowledgementSource = 'link' | 'manual';
+
+export interface ISendBroadcastDTO {
+    subject: string;
+    message: string;
+    site?: string; // Only the visitors at this site and their hosts; everyone on the premises when not given
+    includeEmployees?: boolean; // Also every active employee, on site or not
+}
+
+export interface IGetBroadcastsQuery {
+    page?: number;
+    limit?: number;
+}
+
+export interface IBroadcastDelivery {
+    channel: BroadcastChannel;
+    success: boolean;
+    sentAt: Date;
+}
+
+export interface IBroadcastRecipientResponse {
+    _id: string;
+    type: BroadcastRecipientType;
+    refId: string; // Visitor or Employee
+    name: string;
+    email?: string;
+    phone?: string;
+    deliveries: IBroadcastDelivery[];
+    acknowledgedAt?: Date | null;
+    acknowledgedVia?: BroadcastAcknowledgementSource | null;
+}
+
+export interface IBroadcastStats {
+    totalRecipients: number;
+    delivered: number; // Reached on at least one channel
+    undelivered: number;
+    acknowledged: number;
+}
+
+export interface IBroadcastResponse {
+    _id: string;
+    subject: string;
+    message: string;
+    site?: string | null;
+    includeEmployees: boolean;
+    channels: BroadcastChannel[]; // Channels enabled when the broadcast was sent
+    recipients: IBroadcastRecipientResponse[];
+    stats: IBroadcastStats;
+    createdBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IBroadcastListResponse {
+    broadcasts: Omit<IBroadcastResponse, 'recipients'>[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalBroadcasts: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
+
+/**
+ * What a recipient sees when they open their acknowledgement link
+ */
+export interface IBroadcastAcknowledgementResponse {
+    subject: string;
+    message: string;
+    sentAt: Date;
+    recipientName: string;
+    acknowledgedAt: Date | null;
+}
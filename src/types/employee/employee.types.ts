@@ -1,3 +1,27 @@
+export interface IWorkingHours {
+    dayOfWeek: number; // 0 (Sunday) - 6 (Saturday)
+    start: string; // HH:MM
+    end: string; // HH:MM
+}
+
+/**
+ * Colleague who receives the employee's approval requests and can act on them,
+ * optionally only between two dates
+ */
+export interface IEmployeeDelegation {
+    delegateId: string;
+    startDate?: Date | null;
+    endDate?: Date | null;
+    reason?: string;
+}
+
+export interface ISetDelegationDTO {
+    delegateId: string;
+    startDate?: Date | string | null;
+    endDate?: Date | string | null;
+    reason?: string;
+}
+
 export interface ICreateEmployeeDTO {
     name: string;
     email: string;
@@ -5,6 +29,7 @@ export interface ICreateEmployeeDTO {
     department: string;
     designation?: string;
     status?: 'Active' | 'Inactive';
+    workingHours?: IWorkingHours[];
 }
 
 export interface IUpdateEmployeeDTO {
@@ -14,6 +39,7 @@ export interface IUpdateEmployeeDTO {
     department?: string;
     designation?: string;
     status?: 'Active' | 'Inactive';
+    workingHours?: IWorkingHours[] | null; // null falls back to the company working hours
 }
 
 export interface IEmployeeResponse {
@@ -24,6 +50,8 @@ export interface IEmployeeResponse {
     department: string;
     designation?: string;
     status: 'Active' | 'Inactive';
+    workingHours?: IWorkingHours[];
+    delegation?: IEmployeeDelegation | null;
     createdBy: string;
     isDeleted: boolean;
     deletedAt?: Date;
@@ -79,3 +107,60 @@ export interface IEmployeeStats {
         count: number;
     }>;
 }
+
+export interface ICreateBlockedTimeDTO {
+    start: Date;
+    end: Date;
+    reason?: string;
+}
+
+export interface IBlockedTimeResponse {
+    _id: string;
+    employeeId: string;
+    start: Date;
+    end: Date;
+    reason?: string;
+    createdBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IGetBlockedTimesQuery {
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface IAvailabilityQuery {
+    date: string;
+    duration?: number; // Only return free slots at least this long (minutes)
+}
+
+export interface IBusyPeriod {
+    source: 'appointment' | 'blocked';
+    referenceId: string;
+    label?: string;
+    startsAt: Date;
+    endsAt: Date;
+}
+
+export interface IFreeSlot {
+    start: string; // HH:MM
+    end: string; // HH:MM
+    startsAt: Date;
+    endsAt: Date;
+    minutes: number;
+}
+
+export interface IEmployeeAvailability {
+    employeeId: string;
+    date: Date;
+    holiday: string | null;
+    bufferMinutes: number;
+    workingHours: Array<{ start: string; end: string }>;
+    busy: IBusyPeriod[];
+    freeSlots: IFreeSlot[];
+}
+
+export interface IEmployeeCalendarFeed {
+    feedUrl: string;
+}
@@ -4,3 +4,15 @@ export * from './appointment/appointment.types';
 export * from './visitor/visitor.types';
 export * from './subscription/subscription.types';
 export * from './userSubscription/userSubscription.types';
+export * from './appointmentSeries/appointmentSeries.types';
+export * from './meetingRoom/meetingRoom.types';
+export * from './preRegistration/preRegistration.types';
+export * from './invitation/invitation.types';
+export * from './approvalLink/approvalLink.types';
+export * from './visitorPass/visitorPass.types';
+export * from './badge/badge.types';
+export * from './onSite/onSite.types';
+export * from './rollCall/rollCall.types';
+export * from './broadcast/broadcast.types';
+export * from './watchlist/watchlist.types';
+export * from './visitorType/visitorType.types';
@@ -0,0 +1,98 @@
+import { AppointmentStatus } from '../appointment/appointment.types';
+import { ICreateVisitorDTO } from '../visitor/visitor.types';
+
+/**
+ * Lifecycle of an invitation. 'expired' is not stored: it is a pending
+ * invitation whose link has run out.
+ */
+export type InvitationStatus = 'pending' | 'completed' | 'revoked' | 'expired';
+
+export interface IInvitationGuest {
+    name: string;
+    email?: string;
+    phone?: string;
+}
+
+export interface IInvitationDetails {
+    purpose: string;
+    scheduledDate: Date;
+    scheduledTime: string;
+    duration: number;
+    meetingRoomId?: string;
+    notes?: string;
+}
+
+export interface ICreateInvitationDTO {
+    employeeId: string;
+    visitor: IInvitationGuest;
+    appointmentDetails: IInvitationDetails;
+    expiresInHours?: number;
+}
+
+export interface IInvitationResponse {
+    _id: string;
+    employeeId: any;
+    guest: IInvitationGuest;
+    appointmentDetails: IInvitationDetails;
+    status: InvitationStatus;
+    expiresAt: Date;
+    sendCount: number;
+    lastSentAt?: Date;
+    visitorId?: string;
+    appointmentId?: string;
+    completedAt?: Date;
+    revokedAt?: Date;
+    revokedBy?: string;
+    createdBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+    inviteLink?: string; // Only returned when a link is issued, so the host can share it themselves
+}
+
+export interface IGetInvitationsQuery {
+    page?: number;
+    limit?: number;
+    status?: InvitationStatus;
+    employeeId?: string;
+    search?: string;
+}
+
+export interface IInvitationListResponse {
+    invitations: IInvitationResponse[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalInvitations: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
+
+/**
+ * What the visitor sees behind the magic link
+ */
+export interface IInvitationForm {
+    status: InvitationStatus;
+    companyName: string;
+    hostName: string;
+    guest: IInvitationGuest;
+    purpose: string;
+    scheduledDate: Date;
+    scheduledTime: string;
+    duration: number;
+    expiresAt: Date;
+}
+
+/**
+ * Details the visitor fills in; name, email and phone default to what the host entered
+ */
+export type ICompleteInvitationDTO = Omit<ICreateVisitorDTO, 'name' | 'email' | 'phone'> & Partial<Pick<ICreateVisitorDTO, 'name' | 'email' | 'phone'>>;
+
+export interface ICompleteInvitationResult {
+    appointmentId: string;
+    status: AppointmentStatus;
+    hostName: string;
+    scheduledDate: Date;
+    scheduledTime: string;
+    manageUrl: string; // Visitor link to follow, reschedule or cancel the appointment
+}
@@ -0,0 +1,82 @@
+export type MeetingRoomStatus = 'Active' | 'Inactive';
+
+export interface ICreateMeetingRoomDTO {
+    name: string;
+    floor?: string;
+    site?: string;
+    capacity: number;
+    amenities?: string[];
+    status?: MeetingRoomStatus;
+}
+
+export interface IUpdateMeetingRoomDTO {
+    name?: string;
+    floor?: string;
+    site?: string;
+    capacity?: number;
+    amenities?: string[];
+    status?: MeetingRoomStatus;
+}
+
+export interface IMeetingRoomResponse {
+    _id: string;
+    name: string;
+    floor?: string;
+    site?: string;
+    capacity: number;
+    amenities: string[];
+    status: MeetingRoomStatus;
+    createdBy: string;
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IGetMeetingRoomsQuery {
+    page?: number;
+    limit?: number;
+    search?: string;
+    floor?: string;
+    site?: string;
+    status?: MeetingRoomStatus;
+    minCapacity?: number;
+    amenity?: string;
+}
+
+export interface IMeetingRoomListResponse {
+    meetingRooms: IMeetingRoomResponse[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalMeetingRooms: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
+
+export interface IRoomUtilizationQuery {
+    startDate: string;
+    endDate: string;
+    meetingRoomId?: string;
+}
+
+export interface IRoomUtilization {
+    meetingRoomId: string;
+    name: string;
+    floor?: string;
+    site?: string;
+    capacity: number;
+    bookings: number;
+    bookedMinutes: number;
+    availableMinutes: number; // Company working hours in the range, excluding holidays
+    utilization: number; // Percentage of available minutes that were booked
+    averageOccupancy: number; // Average visitors per booking (visitor + accompanying people)
+}
+
+export interface IRoomUtilizationResponse {
+    startDate: Date;
+    endDate: Date;
+    rooms: IRoomUtilization[];
+}
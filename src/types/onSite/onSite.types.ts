@@ -0,0 +1,77 @@
+export interface IOnSiteQuery {
+    site?: string; // Site of the meeting room; visits whose site is unknown are listed for every site
+}
+
+/**
+ * A visitor checked in and not yet checked out
+ */
+export interface IOnSiteVisitor {
+    appointmentId: string;
+    appointmentCode: string; // Human-readable appointment ID, e.g. APT...
+    visitor: {
+        _id: string;
+        name: string;
+        company?: string;
+        phone?: string;
+        photo?: string;
+    };
+    isLead: boolean;
+    badgeNumber?: string;
+    host: {
+        _id: string;
+        name: string;
+        department?: string;
+        phone?: string;
+    } | null;
+    meetingRoom: {
+        _id?: string; // Unset for rooms typed in as free text
+        name: string;
+        floor?: string;
+        site?: string;
+    } | null;
+    siteUnknown: boolean; // No room, or a room without a site
+    checkInTime: Date;
+    accompanyingCount: number; // People with the lead who have no visitor record of their own
+}
+
+export interface IOnSiteResponse {
+    generatedAt: Date;
+    site?: string;
+    visitors: IOnSiteVisitor[];
+    totalVisitors: number;
+    totalPeople: number; // Visitors and the people accompanying them
+}
+
+/**
+ * A visit still on site past its scheduled duration and the company's grace period
+ */
+export interface IOverstayingVisit {
+    appointmentId: string;
+    appointmentCode: string;
+    visitors: IOnSiteVisitor['visitor'][]; // Those of the group still on site, lead first
+    host: IOnSiteVisitor['host'];
+    meetingRoom: IOnSiteVisitor['meetingRoom'];
+    checkInTime: Date;
+    scheduledDuration: number; // in minutes
+    expectedEndTime: Date; // Check-in time plus the scheduled duration
+    overdueMinutes: number; // Minutes past the expected end
+    alertedAt: Date | null; // When the host and security were alerted
+}
+
+export interface IOverstayResponse {
+    generatedAt: Date;
+    site?: string;
+    graceMinutes: number;
+    visits: IOverstayingVisit[];
+    totalVisits: number;
+}
+
+export interface IOverstayAlertDetails {
+    recipientName: string;
+    visitorNames: string;
+    hostName: string;
+    meetingRoom?: string;
+    checkInTime: Date;
+    expectedEndTime: Date;
+    overdueMinutes: number;
+}
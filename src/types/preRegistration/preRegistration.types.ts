@@ -0,0 +1,44 @@
+import { AppointmentStatus } from '../appointment/appointment.types';
+import { ICreateVisitorDTO } from '../visitor/visitor.types';
+
+export interface IPreRegistrationLink {
+    enabled: boolean;
+    url: string;
+}
+
+export interface IPreRegistrationHost {
+    _id: string;
+    name: string;
+    department: string;
+    designation: string;
+}
+
+/**
+ * What the public registration page needs to render the form
+ */
+export interface IPreRegistrationForm {
+    companyName: string;
+    logo?: string;
+    hosts: IPreRegistrationHost[];
+    purposes: string[];
+    hostRequired: boolean; // False when the company routes visitors without a host to a default one
+}
+
+export interface IPreRegistrationDTO {
+    visitor: ICreateVisitorDTO;
+    employeeId?: string; // Host picked by the visitor
+    purpose: string;
+    scheduledDate: Date | string;
+    scheduledTime: string;
+    duration?: number;
+    notes?: string;
+}
+
+export interface IPreRegistrationResult {
+    appointmentId: string;
+    status: AppointmentStatus;
+    hostName: string;
+    scheduledDate: Date;
+    scheduledTime: string;
+    manageUrl: string; // Visitor link to follow, reschedule or cancel the appointment
+}
@@ -0,0 +1,98 @@
+export type RollCallType = 'drill' | 'incident';
+export type RollCallStatus = 'open' | 'closed';
+export type RollCallEntryStatus = 'unaccounted' | 'safe';
+export type RollCallExportFormat = 'csv' | 'pdf';
+
+export interface IStartRollCallDTO {
+    type: RollCallType;
+    site?: string; // Only the visitors at this site; everyone on the premises when not given
+    notes?: string;
+}
+
+export interface IMarkSafeDTO {
+    note?: string;
+}
+
+export interface ICloseRollCallDTO {
+    notes?: string;
+}
+
+export interface IGetRollCallsQuery {
+    page?: number;
+    limit?: number;
+    type?: RollCallType;
+    status?: RollCallStatus;
+}
+
+/**
+ * Report produced when a roll call is closed
+ */
+export interface IRollCallSummary {
+    totalVisitors: number;
+    totalPeople: number; // Visitors and the people accompanying them
+    safeVisitors: number;
+    safePeople: number;
+    unaccountedVisitors: number;
+    unaccountedPeople: number;
+    durationMinutes: number; // From the start of the roll call to its close
+    allAccountedForMinutes?: number | null; // Until the last visitor was marked safe, if everyone was
+    unaccounted: {
+        visitorName: string;
+        hostName?: string;
+        meetingRoomName?: string;
+        badgeNumber?: string;
+    }[];
+}
+
+export interface IRollCallEntryResponse {
+    _id: string;
+    appointmentId: string;
+    visitorId: string;
+    visitorName: string;
+    visitorCompany?: string;
+    visitorPhone?: string;
+    badgeNumber?: string;
+    hostName?: string;
+    hostPhone?: string;
+    meetingRoomName?: string;
+    site?: string;
+    checkInTime: Date;
+    accompanyingCount: number;
+    status: RollCallEntryStatus;
+    markedSafeAt?: Date | null;
+    markedSafeBy?: string | null;
+    note?: string;
+}
+
+export interface IRollCallResponse {
+    _id: string;
+    type: RollCallType;
+    status: RollCallStatus;
+    site?: string | null;
+    notes?: string;
+    entries: IRollCallEntryResponse[];
+    startedAt: Date;
+    closedBy?: string | null;
+    closedAt?: Date | null;
+    summary?: IRollCallSummary | null;
+    createdBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IRollCallExport {
+    content: Buffer;
+    contentType: string;
+    filename: string;
+}
+
+export interface IRollCallListResponse {
+    rollCalls: Omit<IRollCallResponse, 'entries'>[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalRollCalls: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
@@ -1,4 +1,98 @@
 import mongoose, { Document } from 'mongoose';
+import { SeriesApprovalMode } from '../appointmentSeries/appointmentSeries.types';
+import { IWorkingHours } from '../employee/employee.types';
+import { IStatusReasonOption } from '../appointment/appointment.types';
+import { BadgeSize } from '../badge/badge.types';
+
+export interface IHoliday {
+    date: Date;
+    name: string;
+    recurring: boolean; // Repeats on the same day every year
+}
+
+export interface IAttendanceSettings {
+    noShowEnabled: boolean; // Mark approved appointments nobody checked in for as no-show
+    noShowGraceMinutes: number; // Minutes after the scheduled end before an appointment counts as a no-show
+    autoCheckoutEnabled: boolean; // Check out visitors still on site at the end of the day
+    autoCheckoutTime: string; // End-of-day cutoff (HH:MM)
+    overstayAlertsEnabled: boolean; // Alert when a visit runs past its scheduled duration
+    overstayGraceMinutes: number; // Minutes past the scheduled duration before a visit counts as an overstay
+    overstayNotifyHost: boolean;
+    overstayNotifySecurity: boolean; // Security contacts are those of the watchlist settings
+}
+
+export interface IReminderSettings {
+    enabled: boolean; // Send appointment reminders
+    offsets: number[]; // Minutes before the start at which reminders go out (e.g. 1440 and 60)
+    notifyVisitor: boolean;
+    notifyHost: boolean;
+    directions: string; // How to get to the office, included in visitor reminders
+}
+
+export interface IPreRegistrationSettings {
+    enabled: boolean; // Accept registrations through the public link
+    tokenVersion: number; // Bumped to revoke every link handed out so far
+    defaultEmployeeId?: mongoose.Types.ObjectId | null; // Host for visitors who only pick a purpose
+    purposes: string[]; // Purposes the visitor can pick from
+}
+
+export interface IFallbackApprover {
+    department: string; // Matches the employee's department, case-insensitively
+    employeeIds: mongoose.Types.ObjectId[]; // Approvers for hosts in the department who are away without a delegate
+}
+
+export interface IApprovalPolicyStep {
+    name: string; // Shown to approvers and in the appointment's approval progress, e.g. "Security"
+    employeeIds: mongoose.Types.ObjectId[]; // Any one of them can decide the step
+}
+
+/**
+ * Extra approval steps, in order, that follow the host's approval. A policy without
+ * conditions applies to every appointment; otherwise any matching condition applies it.
+ */
+export interface IApprovalPolicy {
+    name: string;
+    isActive: boolean;
+    conditions: {
+        meetingRoomIds: mongoose.Types.ObjectId[]; // Restricted areas
+        departments: string[]; // Host departments, matched case-insensitively
+        visitorsOutsideCountry?: string | null; // Visitors whose address is in another country
+    };
+    steps: IApprovalPolicyStep[];
+}
+
+export interface IApprovalSettings {
+    fallbackApprovers: IFallbackApprover[];
+    policies: IApprovalPolicy[]; // The first active policy that matches an appointment is used
+    linkExpiryHours: number; // Approval links stop working after this long, or when the visit is over
+}
+
+/**
+ * Reasons staff pick from when rejecting, cancelling or marking a no-show
+ */
+export interface IStatusReasonSettings {
+    rejected: IStatusReasonOption[];
+    cancelled: IStatusReasonOption[];
+    no_show: IStatusReasonOption[];
+}
+
+/**
+ * Printed badges and the company's badge number sequence
+ */
+export interface IBadgeSettings {
+    prefix: string; // Put before the sequence number, e.g. "V" for V00042
+    digits: number; // Sequence numbers are padded with zeros to this length
+    defaultSize: BadgeSize;
+    assignOnCheckIn: boolean; // Visitors checked in without a badge number get the next one
+}
+
+/**
+ * Who security alerts for watchlist hits go to
+ */
+export interface IWatchlistSettings {
+    alertEmails: string[]; // The company account's email when none are set
+    alertPhones: string[]; // WhatsApp numbers
+}
 
 export interface ISettings extends Document {
     userId: mongoose.Types.ObjectId;
@@ -12,6 +106,21 @@ export interface ISettings extends Document {
         verified: boolean; // Whether the WhatsApp number is verified
         verifiedAt?: Date | null; // When the number was verified
     };
+    scheduling: {
+        bufferMinutes: number; // Minimum gap between two appointments of the same employee
+        seriesApprovalMode: SeriesApprovalMode; // Default approval for recurring series: once per series or per occurrence
+    };
+    availability: {
+        workingHours: IWorkingHours[]; // Company working hours for employees without their own schedule
+        holidays: IHoliday[]; // Company holiday calendar
+    };
+    attendance: IAttendanceSettings;
+    reminders: IReminderSettings;
+    preRegistration: IPreRegistrationSettings;
+    approvals: IApprovalSettings;
+    statusReasons: IStatusReasonSettings;
+    badges: IBadgeSettings;
+    watchlist: IWatchlistSettings;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -27,6 +136,32 @@ export interface IUpdateSettingsDTO {
         verified?: boolean;
         verifiedAt?: Date | null;
     };
+    scheduling?: {
+        bufferMinutes?: number;
+        seriesApprovalMode?: SeriesApprovalMode;
+    };
+    availability?: {
+        workingHours?: IWorkingHours[];
+        holidays?: IHoliday[];
+    };
+    attendance?: Partial<IAttendanceSettings>;
+    reminders?: Partial<IReminderSettings>;
+    preRegistration?: Partial<Omit<IPreRegistrationSettings, 'tokenVersion' | 'defaultEmployeeId'>> & {
+        defaultEmployeeId?: string | null;
+    };
+    approvals?: {
+        fallbackApprovers?: { department: string; employeeIds: string[] }[];
+        policies?: {
+            name: string;
+            isActive?: boolean;
+            conditions?: { meetingRoomIds?: string[]; departments?: string[]; visitorsOutsideCountry?: string | null };
+            steps: { name: string; employeeIds: string[] }[];
+        }[];
+        linkExpiryHours?: number;
+    };
+    statusReasons?: Partial<IStatusReasonSettings>;
+    badges?: Partial<IBadgeSettings>;
+    watchlist?: Partial<IWatchlistSettings>;
 }
 
 export interface ISettingsResponse {
@@ -42,6 +177,21 @@ export interface ISettingsResponse {
         verified: boolean;
         verifiedAt?: Date | null;
     };
+    scheduling: {
+        bufferMinutes: number;
+        seriesApprovalMode: SeriesApprovalMode;
+    };
+    availability: {
+        workingHours: IWorkingHours[];
+        holidays: IHoliday[];
+    };
+    attendance: IAttendanceSettings;
+    reminders: IReminderSettings;
+    preRegistration: IPreRegistrationSettings;
+    approvals: IApprovalSettings;
+    statusReasons: IStatusReasonSettings;
+    badges: IBadgeSettings;
+    watchlist: IWatchlistSettings;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -5,18 +5,24 @@ export interface ICreateVisitorDTO {
     name: string;
     email: string;
     phone: string;
-    address: IAddress;
-    idProof: IIdProof;
+    company?: string;
+    designation?: string;
+    address?: IAddress;
+    idProof?: IIdProof;
     photo?: string;
+    visitorTypeId?: string; // What else must be given comes from the type
 }
 
 export interface IUpdateVisitorDTO {
     name?: string;
     email?: string;
     phone?: string;
+    company?: string;
+    designation?: string;
     address?: IAddress;
     idProof?: IIdProof;
     photo?: string;
+    visitorTypeId?: string | null;
 }
 
 export interface IVisitorResponse {
@@ -25,9 +31,12 @@ export interface IVisitorResponse {
     name: string;
     email: string;
     phone: string;
-    address: IAddress;
-    idProof: IIdProof;
+    company?: string;
+    designation?: string;
+    address?: IAddress;
+    idProof?: IIdProof;
     photo?: string;
+    visitorTypeId?: string | null;
     createdBy: string;
     isDeleted: boolean;
     deletedAt?: Date;
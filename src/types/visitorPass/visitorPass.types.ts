@@ -0,0 +1,40 @@
+import { IAppointmentResponse } from '../appointment/appointment.types';
+
+export type VisitorPassScanAction = 'checked_in' | 'checked_out';
+
+/**
+ * Why a pass was turned away, sent as `details.reason` with the error so the
+ * scanner can tell the visitor what to do
+ */
+export type VisitorPassRejection =
+    | 'invalid'
+    | 'revoked'
+    | 'not_yet_valid'
+    | 'expired'
+    | 'used'
+    | 'not_approved'
+    | 'rejected'
+    | 'cancelled'
+    | 'no_show';
+
+export interface IVisitorPass {
+    visitorId: string;
+    token: string;
+    url: string; // Public URL of the QR image
+}
+
+export interface IVisitorPassScanDTO {
+    token: string;
+    badgeNumber?: string; // Badge handed over on check-in
+}
+
+export interface IVisitorPassScanResult {
+    action: VisitorPassScanAction;
+    visitor: {
+        _id: string;
+        name: string;
+        company?: string;
+        photo?: string;
+    };
+    appointment: IAppointmentResponse;
+}
@@ -0,0 +1,80 @@
+export type VisitorTypeField = 'address' | 'company' | 'designation';
+
+/**
+ * How appointments of the type are approved:
+ * default - the host, then any company approval policy that matches
+ * host - the host alone; company approval policies are not applied
+ * policy - the host, then the named company approval policy, whatever its conditions
+ * auto - approved as soon as they are booked
+ */
+export type VisitorTypeApprovalMode = 'default' | 'host' | 'policy' | 'auto';
+
+/**
+ * What a visitor record must include
+ */
+export interface IVisitorRequirements {
+    requiredFields: VisitorTypeField[];
+    idProofRequired: boolean;
+    photoRequired: boolean;
+}
+
+export interface ICreateVisitorTypeDTO {
+    name: string;
+    description?: string;
+    requiredFields?: VisitorTypeField[];
+    idProofRequired?: boolean;
+    photoRequired?: boolean;
+    approvalMode?: VisitorTypeApprovalMode;
+    approvalPolicyName?: string | null; // Required when approvalMode is 'policy'
+    badgeColor?: string | null; // Hex colour of the stripe on printed badges
+    maxDurationMinutes?: number | null;
+    isActive?: boolean;
+}
+
+export interface IUpdateVisitorTypeDTO {
+    name?: string;
+    description?: string;
+    requiredFields?: VisitorTypeField[];
+    idProofRequired?: boolean;
+    photoRequired?: boolean;
+    approvalMode?: VisitorTypeApprovalMode;
+    approvalPolicyName?: string | null;
+    badgeColor?: string | null;
+    maxDurationMinutes?: number | null;
+    isActive?: boolean;
+}
+
+export interface IVisitorTypeResponse extends IVisitorRequirements {
+    _id: string;
+    name: string;
+    description?: string;
+    approvalMode: VisitorTypeApprovalMode;
+    approvalPolicyName?: string | null;
+    badgeColor?: string | null;
+    maxDurationMinutes?: number | null;
+    isActive: boolean;
+    createdBy: string;
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IGetVisitorTypesQuery {
+    page?: number;
+    limit?: number;
+    search?: string;
+    isActive?: boolean | string; // Query strings are not converted
+}
+
+export interface IVisitorTypeListResponse {
+    visitorTypes: IVisitorTypeResponse[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalVisitorTypes: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
@@ -0,0 +1,120 @@
+export type WatchlistSeverity = 'high' | 'medium' | 'low';
+export type WatchlistAction = 'block' | 'override' | 'alert';
+export type WatchlistField = 'name' | 'phone' | 'email' | 'idProofNumber' | 'vehicleNumber';
+export type WatchlistContext = 'visitor_registration' | 'appointment_booking' | 'check_in';
+export type WatchlistHitOutcome = 'blocked' | 'held' | 'overridden' | 'alerted';
+
+export interface ICreateWatchlistEntryDTO {
+    name?: string;
+    phone?: string;
+    email?: string;
+    idProofNumber?: string;
+    vehicleNumber?: string;
+    severity: WatchlistSeverity;
+    reason: string;
+    notes?: string;
+    expiresAt?: Date | null; // Unset: until removed
+}
+
+export interface IUpdateWatchlistEntryDTO extends Partial<ICreateWatchlistEntryDTO> {
+    isActive?: boolean;
+}
+
+export interface IGetWatchlistQuery {
+    page?: number;
+    limit?: number;
+    search?: string;
+    severity?: WatchlistSeverity;
+    isActive?: boolean;
+}
+
+export interface IWatchlistEntryResponse {
+    _id: string;
+    name?: string;
+    phone?: string;
+    email?: string;
+    idProofNumber?: string;
+    vehicleNumber?: string;
+    severity: WatchlistSeverity;
+    reason: string;
+    notes?: string;
+    expiresAt?: Date | null;
+    isActive: boolean;
+    createdBy: string;
+    isDeleted: boolean;
+    deletedAt?: Date;
+    deletedBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IWatchlistListResponse {
+    entries: IWatchlistEntryResponse[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalEntries: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
+
+/**
+ * The person being screened, as far as they are known at that point
+ */
+export interface IWatchlistSubject {
+    visitorId?: string;
+    appointmentId?: string;
+    name?: string;
+    phone?: string;
+    email?: string;
+    idProofNumber?: string;
+    vehicleNumber?: string;
+}
+
+export interface IWatchlistMatch {
+    field: WatchlistField;
+    value: string; // The subject's value that matched
+    score: number; // 1 for an exact match after normalising; names can match less closely
+}
+
+export interface IWatchlistScreeningOptions {
+    overrideReason?: string; // Given by security to let a held visitor through
+    session?: any;
+}
+
+export interface IGetWatchlistHitsQuery {
+    page?: number;
+    limit?: number;
+    entryId?: string;
+    visitorId?: string;
+    context?: WatchlistContext;
+    outcome?: WatchlistHitOutcome;
+}
+
+export interface IWatchlistHitResponse {
+    _id: string;
+    entryId: string;
+    severity: WatchlistSeverity;
+    action: WatchlistAction;
+    outcome: WatchlistHitOutcome;
+    context: WatchlistContext;
+    subject: IWatchlistSubject;
+    matches: IWatchlistMatch[];
+    reason: string; // The entry's reason at the time of the hit
+    overrideReason?: string;
+    decidedBy?: string | null; // User who overrode the hold
+    createdBy: string;
+    createdAt: Date;
+}
+
+export interface IWatchlistHitListResponse {
+    hits: IWatchlistHitResponse[];
+    pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalHits: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+    };
+}
@@ -0,0 +1,86 @@
+const MS_PER_MINUTE = 60 * 1000;
+
+export interface ITimeWindow {
+    start: Date;
+    end: Date;
+}
+
+export class AppointmentTimeUtil {
+    /**
+     * Combine the scheduled date with the HH:MM scheduled time
+     */
+    static getStartTime(scheduledDate: Date | string, scheduledTime: string): Date {
+        const [hours, minutes] = scheduledTime.split(':').map(Number);
+        const start = new Date(scheduledDate);
+        start.setHours(hours, minutes, 0, 0);
+        return start;
+    }
+
+    /**
+     * Get the start and end of an appointment from its scheduled date, time and duration (minutes)
+     */
+    static getWindow(scheduledDate: Date | string, scheduledTime: string, duration: number): ITimeWindow {
+        const start = this.getStartTime(scheduledDate, scheduledTime);
+        return { start, end: this.addMinutes(start, duration) };
+    }
+
+    /**
+     * Check whether two windows overlap once each is padded by the buffer (minutes)
+     */
+    static overlaps(a: ITimeWindow, b: ITimeWindow, bufferMinutes: number = 0): boolean {
+        const bufferMs = bufferMinutes * MS_PER_MINUTE;
+        return a.start.getTime() < b.end.getTime() + bufferMs && b.start.getTime() < a.end.getTime() + bufferMs;
+    }
+
+    /**
+     * Remove the busy windows from the given windows, returning what is left in start order
+     */
+    static subtractWindows(windows: ITimeWindow[], busy: ITimeWindow[]): ITimeWindow[] {
+        let remaining = windows.map(window => ({ ...window }));
+
+        for (const block of busy) {
+            remaining = remaining.flatMap(window => {
+                if (block.end <= window.start || block.start >= window.end) {
+                    return [window];
+                }
+                const pieces: ITimeWindow[] = [];
+                if (block.start > window.start) {
+                    pieces.push({ start: window.start, end: block.start });
+                }
+                if (block.end < window.end) {
+                    pieces.push({ start: block.end, end: window.end });
+                }
+                return pieces;
+            });
+        }
+
+        return remaining.sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+
+    static addMinutes(date: Date, minutes: number): Date {
+        return new Date(date.getTime() + minutes * MS_PER_MINUTE);
+    }
+
+    /**
+     * Start of the calendar day that contains the given date
+     */
+    static startOfDay(date: Date | string): Date {
+        const day = new Date(date);
+        day.setHours(0, 0, 0, 0);
+        return day;
+    }
+
+    /**
+     * Format a date as YYYY-MM-DD (calendar day in server time)
+     */
+    static formatDate(date: Date): string {
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    }
+
+    /**
+     * Format a date as HH:MM
+     */
+    static formatTime(date: Date): string {
+        return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+    }
+}
@@ -137,6 +137,23 @@ export const uploadToCloudinary = async (
   }
 };
 
+/**
+ * Whether a URL is a file delivered from this app's Cloudinary account
+ * @param url - URL to check
+ */
+export const isCloudinaryUrl = (url: string): boolean => {
+  if (!cloudName) {
+    return false;
+  }
+
+  try {
+    const { protocol, hostname, pathname } = new URL(url);
+    return protocol === 'https:' && hostname === 'res.cloudinary.com' && pathname.startsWith(`/${cloudName}/`);
+  } catch {
+    return false;
+  }
+};
+
 /**
  * Delete a file from Cloudinary
  * @param publicId - Cloudinary public ID or URL
@@ -1,3 +1,18 @@
+import { AppointmentStatus, ReasonedStatus, IStatusReasonOption } from '../types/appointment/appointment.types';
+import { IWorkingHours } from '../types/employee/employee.types';
+import {
+    IAttendanceSettings,
+    IReminderSettings,
+    IPreRegistrationSettings,
+    IApprovalSettings,
+    IStatusReasonSettings,
+    IBadgeSettings,
+    IWatchlistSettings
+} from '../types/settings/settings.types';
+import { BadgeSize } from '../types/badge/badge.types';
+import { IVisitorRequirements, VisitorTypeApprovalMode, VisitorTypeField } from '../types/visitorType/visitorType.types';
+import { WatchlistSeverity, WatchlistAction } from '../types/watchlist/watchlist.types';
+
 const CONSTANTS = {
     JWT_SECRET: process.env.JWT_SECRET || "your-secret-key",
     JWT_EXPIRATION: process.env.JWT_EXPIRATION || "1d",
@@ -5,7 +20,9 @@ const CONSTANTS = {
     NODE_ENV: process.env.NODE_ENV || "development",
     FRONTEND_URL: process.env.FRONTEND_URL || "http://localhost:3000",
     FRONTEND_URLS: process.env.FRONTEND_URLS ? process.env.FRONTEND_URLS.split(',') : [],
+    API_BASE_URL: process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 3000}/api/v1`,
     APPROVAL_LINK_BASE_URL: process.env.APPROVAL_LINK_BASE_URL || process.env.FRONTEND_URL,
+    JOBS_ENABLED: process.env.JOBS_ENABLED !== "false",
     STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
     STRIPE_PUBLISHABLE_KEY: process.env.STRIPE_PUBLISHABLE_KEY,
     STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
@@ -35,6 +52,10 @@ const ERROR_MESSAGES = {
     VISITOR_ALREADY_DELETED: "Visitor is already deleted",
     VISITOR_NOT_DELETED: "Visitor is not deleted",
     NO_VISITORS_FOUND: "No visitors found for bulk update",
+    MEETING_ROOM_NOT_FOUND: "Meeting room not found",
+    MEETING_ROOM_NAME_EXISTS: "A meeting room with this name already exists",
+    VISITOR_TYPE_NOT_FOUND: "Visitor type not found",
+    VISITOR_TYPE_NAME_EXISTS: "A visitor type with this name already exists",
 };
 
 const ERROR_CODES = {
@@ -57,4 +78,169 @@ export const TRIAL_LIMITS = {
     appointments: 5,
 } as const;
 
+/**
+ * Appointment lifecycle transition table.
+ * Every status change must be listed here; anything else is rejected.
+ */
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+    pending: ['approved', 'rejected', 'cancelled'],
+    approved: ['checked_in', 'cancelled', 'no_show'],
+    checked_in: ['in_meeting', 'completed'],
+    in_meeting: ['completed'],
+    rejected: [],
+    completed: [],
+    cancelled: [],
+    no_show: [],
+};
+
+export const APPOINTMENT_STATUSES = Object.keys(APPOINTMENT_STATUS_TRANSITIONS) as AppointmentStatus[];
+
+// Largest group that can come on one appointment, the lead included
+export const MAX_APPOINTMENT_ATTENDEES = 50;
+
+// How long before the scheduled start a visitor pass can be used to check in
+export const VISITOR_PASS_EARLY_CHECK_IN_MINUTES = 60;
+
+// How long after the scheduled end a visitor pass keeps working, so visitors who stay late can check out
+export const VISITOR_PASS_GRACE_MINUTES = 12 * 60;
+
+// Statuses that record why the visit did not happen
+export const REASONED_STATUSES: ReasonedStatus[] = ['rejected', 'cancelled', 'no_show'];
+
+// Statuses an appointment edit or bulk update can set; each is applied through its own action
+export const EDITABLE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['approved', 'rejected', 'cancelled', 'no_show'];
+
+// Statuses that occupy the employee's time and therefore block overlapping bookings
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['pending', 'approved', 'checked_in', 'in_meeting'];
+
+// Statuses in which the visitor is on the premises
+export const ON_SITE_STATUSES: AppointmentStatus[] = ['checked_in', 'in_meeting'];
+
+// Company working hours used for employees without their own schedule: Monday to Friday, 09:00-18:00
+export const DEFAULT_WORKING_HOURS: IWorkingHours[] = [1, 2, 3, 4, 5].map(dayOfWeek => ({
+    dayOfWeek,
+    start: '09:00',
+    end: '18:00'
+}));
+
+// No-show detection and end-of-day auto-checkout for companies that have not changed them
+export const DEFAULT_ATTENDANCE_SETTINGS: IAttendanceSettings = {
+    noShowEnabled: true,
+    noShowGraceMinutes: 30,
+    autoCheckoutEnabled: true,
+    autoCheckoutTime: '23:00',
+    overstayAlertsEnabled: true,
+    overstayGraceMinutes: 15,
+    overstayNotifyHost: true,
+    overstayNotifySecurity: true
+};
+
+// Appointment reminders for companies that have not changed them
+export const DEFAULT_REMINDER_SETTINGS: IReminderSettings = {
+    enabled: true,
+    offsets: [1440, 60],
+    notifyVisitor: true,
+    notifyHost: true,
+    directions: ''
+};
+
+// The public pre-registration link is off until a company turns it on
+export const DEFAULT_PRE_REGISTRATION_SETTINGS: IPreRegistrationSettings = {
+    enabled: false,
+    tokenVersion: 0,
+    defaultEmployeeId: null,
+    purposes: []
+};
+
+// No department has fallback approvers and only the host approves until a company adds policies
+export const DEFAULT_APPROVAL_SETTINGS: IApprovalSettings = {
+    fallbackApprovers: [],
+    policies: [],
+    linkExpiryHours: 72
+};
+
+// Reasons recorded when the visitor cancels through their link and by the no-show job
+export const VISITOR_CANCELLATION_REASON: IStatusReasonOption = { code: 'visitor_cancelled', label: 'Cancelled by the visitor' };
+export const AUTO_NO_SHOW_REASON: IStatusReasonOption = { code: 'did_not_arrive', label: 'Visitor did not arrive' };
+
+// Reason lists for companies that have not changed them
+export const DEFAULT_STATUS_REASON_SETTINGS: IStatusReasonSettings = {
+    rejected: [
+        { code: 'host_unavailable', label: 'Host is not available' },
+        { code: 'purpose_unclear', label: 'Purpose of the visit is unclear' },
+        { code: 'incomplete_details', label: 'Visitor details are incomplete' },
+        { code: 'security_concern', label: 'Security concern' },
+        { code: 'other', label: 'Other' }
+    ],
+    cancelled: [
+        VISITOR_CANCELLATION_REASON,
+        { code: 'host_cancelled', label: 'Cancelled by the host' },
+        { code: 'rescheduled', label: 'Booked again for another time' },
+        { code: 'duplicate', label: 'Duplicate booking' },
+        { code: 'other', label: 'Other' }
+    ],
+    no_show: [
+        AUTO_NO_SHOW_REASON,
+        { code: 'arrived_too_late', label: 'Visitor arrived too late' },
+        { code: 'other', label: 'Other' }
+    ]
+};
+
+export const BADGE_SIZES: BadgeSize[] = ['62mm', '4x3in'];
+
+// Badges are numbered V00001, V00002, ... and printed on 62mm labels until a company changes it
+export const DEFAULT_BADGE_SETTINGS: IBadgeSettings = {
+    prefix: 'V',
+    digits: 5,
+    defaultSize: '62mm',
+    assignOnCheckIn: true
+};
+
+export const WATCHLIST_SEVERITIES: WatchlistSeverity[] = ['high', 'medium', 'low'];
+
+// What a watchlist hit does to the action that was screened
+export const WATCHLIST_SEVERITY_ACTIONS: Record<WatchlistSeverity, WatchlistAction> = {
+    high: 'block',
+    medium: 'override',
+    low: 'alert'
+};
+
+// Names at least this similar (0 to 1) to a watchlist entry's name are a hit
+export const WATCHLIST_NAME_MATCH_THRESHOLD = 0.85;
+
+// Security alerts go to the company account until a company lists its own contacts
+export const DEFAULT_WATCHLIST_SETTINGS: IWatchlistSettings = {
+    alertEmails: [],
+    alertPhones: []
+};
+
+// Approval links cannot be given more than two weeks
+export const MAX_APPROVAL_LINK_EXPIRY_HOURS = 14 * 24;
+
+// Reminders cannot be scheduled more than a week ahead
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+// Invitation links last three days unless the host asks otherwise, and never more than two weeks
+export const DEFAULT_INVITATION_EXPIRY_HOURS = 72;
+export const MAX_INVITATION_EXPIRY_HOURS = 14 * 24;
+
+// Roles allowed to book outside an employee's availability
+export const AVAILABILITY_OVERRIDE_ROLES = ['admin', 'safein'];
+
+// Roles allowed to manage the watchlist and let a held visitor through
+export const WATCHLIST_ROLES = ['admin', 'safein'];
+
+// Emergency broadcasts go out to this many recipients at a time
+export const BROADCAST_SEND_BATCH_SIZE = 10;
+
+export const VISITOR_TYPE_FIELDS: VisitorTypeField[] = ['address', 'company', 'designation'];
+export const VISITOR_TYPE_APPROVAL_MODES: VisitorTypeApprovalMode[] = ['default', 'host', 'policy', 'auto'];
+
+// What visitors without a type must give, as before visitor types existed
+export const DEFAULT_VISITOR_REQUIREMENTS: IVisitorRequirements = {
+    requiredFields: ['address'],
+    idProofRequired: true,
+    photoRequired: false
+};
+
 export { CONSTANTS, ERROR_MESSAGES, ERROR_CODES };
@@ -5,6 +5,7 @@ export interface ErrorResponse {
     message: string;
     statusCode: number;
     error?: string;
+    details?: unknown;
 }
 
 /**
@@ -14,12 +15,14 @@ export const sendErrorResponse = (
     res: Response,
     message: string,
     statusCode: number,
-    error?: string
+    error?: string,
+    details?: unknown
 ): Response<ErrorResponse> => {
     return res.status(statusCode).json({
         success: false,
         message,
         statusCode,
-        ...(error && { error })
+        ...(error && { error }),
+        ...(details !== undefined && { details })
     });
 };
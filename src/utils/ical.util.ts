@@ -0,0 +1,128 @@
+export type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface ICalendarAttendee {
+    name?: string;
+    email: string;
+    role?: 'CHAIR' | 'REQ-PARTICIPANT';
+}
+
+export interface ICalendarEvent {
+    uid: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    description?: string;
+    location?: string;
+    sequence?: number;
+    status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+    organizer?: ICalendarAttendee;
+    attendees?: ICalendarAttendee[];
+    lastModified?: Date;
+}
+
+export interface ICalendarOptions {
+    name?: string;
+    method?: CalendarMethod;
+}
+
+const PRODUCT_ID = '-//SafeIn//Visitor Management//EN';
+
+// RFC 5545: content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+export class ICalUtil {
+    /**
+     * Build an iCalendar (RFC 5545) document from the given events
+     */
+    static build(events: ICalendarEvent[], options: ICalendarOptions = {}): string {
+        const lines: string[] = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            `PRODID:${PRODUCT_ID}`,
+            'CALSCALE:GREGORIAN',
+            `METHOD:${options.method || 'PUBLISH'}`
+        ];
+
+        if (options.name) {
+            lines.push(`X-WR-CALNAME:${this.escape(options.name)}`);
+        }
+
+        const stamp = this.formatDateTime(new Date());
+        for (const event of events) {
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${event.uid}`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${this.formatDateTime(event.start)}`,
+                `DTEND:${this.formatDateTime(event.end)}`,
+                `SEQUENCE:${event.sequence ?? 0}`,
+                `STATUS:${event.status || 'CONFIRMED'}`,
+                `SUMMARY:${this.escape(event.summary)}`
+            );
+            if (event.description) {
+                lines.push(`DESCRIPTION:${this.escape(event.description)}`);
+            }
+            if (event.location) {
+                lines.push(`LOCATION:${this.escape(event.location)}`);
+            }
+            if (event.organizer) {
+                lines.push(`ORGANIZER${this.formatName(event.organizer)}:mailto:${event.organizer.email}`);
+            }
+            for (const attendee of event.attendees || []) {
+                lines.push(`ATTENDEE;ROLE=${attendee.role || 'REQ-PARTICIPANT'};PARTSTAT=NEEDS-ACTION;RSVP=FALSE${this.formatName(attendee)}:mailto:${attendee.email}`);
+            }
+            if (event.lastModified) {
+                lines.push(`LAST-MODIFIED:${this.formatDateTime(event.lastModified)}`);
+            }
+            lines.push('END:VEVENT');
+        }
+
+        lines.push('END:VCALENDAR');
+
+        return lines.map(line => this.fold(line)).join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Format a date as a UTC date-time, e.g. 20250101T093000Z
+     */
+    static formatDateTime(date: Date): string {
+        return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    }
+
+    /**
+     * Escape a TEXT property value
+     */
+    static escape(text: string): string {
+        return text
+            .replace(/\\/g, '\\\\')
+            .replace(/;/g, '\\;')
+            .replace(/,/g, '\\,')
+            .replace(/\r?\n/g, '\\n');
+    }
+
+    private static formatName(person: ICalendarAttendee): string {
+        return person.name ? `;CN="${person.name.replace(/["\r\n]/g, '')}"` : '';
+    }
+
+    private static fold(line: string): string {
+        const parts: string[] = [];
+        let current = '';
+        let octets = 0;
+
+        for (const char of line) {
+            const size = Buffer.byteLength(char);
+            // Continuation lines start with a space, which counts towards the limit
+            const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+            if (octets + size > limit) {
+                parts.push(current);
+                current = '';
+                octets = 0;
+            }
+            current += char;
+            octets += size;
+        }
+        parts.push(current);
+
+        return parts.join('\r\n ');
+    }
+}
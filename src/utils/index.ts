@@ -5,3 +5,7 @@ export * from './errorResponse.util';
 export * from './asyncHandler.util';
 export * from './tryCatch.util';
 export * from './transaction.util';
+export * from './appointmentTime.util';
+export * from './recurrence.util';
+export * from './ical.util';
+export * from './token.util';
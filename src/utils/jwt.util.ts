@@ -8,6 +8,21 @@ export interface JwtPayload {
     exp?: number;
 }
 
+export interface PreRegistrationTokenPayload {
+    companyId: string;
+    version: number; // Must match the company's current token version
+}
+
+export interface VisitorPassTokenPayload {
+    appointmentId: string;
+    visitorId: string; // Attendee the pass admits
+    version: number; // Must match the appointment's current pass version
+}
+
+// Pre-registration links are signed with their own key so they can never pass as a login token
+const PRE_REGISTRATION_SECRET = `${CONSTANTS.JWT_SECRET}:pre-registration`;
+const VISITOR_PASS_SECRET = `${CONSTANTS.JWT_SECRET}:visitor-pass`;
+
 export class JwtUtil {
     /**
      * Generate JWT token
@@ -50,6 +65,45 @@ export class JwtUtil {
         return jwt.sign(payload, CONSTANTS.JWT_SECRET, options);
     }
 
+    /**
+     * Generate the token of a company's public pre-registration link.
+     * It does not expire; bumping the company's token version revokes it.
+     */
+    static generatePreRegistrationToken(payload: PreRegistrationTokenPayload): string {
+        return jwt.sign(payload, PRE_REGISTRATION_SECRET);
+    }
+
+    /**
+     * Verify a pre-registration link token
+     */
+    static verifyPreRegistrationToken(token: string): PreRegistrationTokenPayload {
+        try {
+            return jwt.verify(token, PRE_REGISTRATION_SECRET) as PreRegistrationTokenPayload;
+        } catch (error) {
+            throw new Error('Invalid or expired token');
+        }
+    }
+
+    /**
+     * Generate the token encoded in a visitor's QR pass, expiring at the given time. A scan
+     * also checks it against the appointment's current time, status and pass version. Signed
+     * without a timestamp, so the same visitor always gets the same token for the same visit.
+     */
+    static generateVisitorPassToken(payload: VisitorPassTokenPayload, expiresAt: Date): string {
+        return jwt.sign({ ...payload, exp: Math.floor(expiresAt.getTime() / 1000) }, VISITOR_PASS_SECRET, { noTimestamp: true });
+    }
+
+    /**
+     * Verify a visitor pass token
+     */
+    static verifyVisitorPassToken(token: string): VisitorPassTokenPayload {
+        try {
+            return jwt.verify(token, VISITOR_PASS_SECRET) as VisitorPassTokenPayload;
+        } catch (error) {
+            throw new Error('Invalid or expired token');
+        }
+    }
+
     /**
      * Extract token from Authorization header
      */
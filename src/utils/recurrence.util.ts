@@ -0,0 +1,86 @@
+import { IRecurrenceRule } from '../types/appointmentSeries/appointmentSeries.types';
+import { AppointmentTimeUtil } from './appointmentTime.util';
+
+// Hard cap so a mistyped rule can never generate an unbounded number of appointments
+export const MAX_SERIES_OCCURRENCES = 100;
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export class RecurrenceUtil {
+    /**
+     * Expand a recurrence rule into occurrence dates (start of day).
+     * COUNT is applied before exceptions are removed, as with RRULE/EXDATE.
+     */
+    static expand(rule: IRecurrenceRule, exceptions: Array<Date | string> = []): Date[] {
+        const start = AppointmentTimeUtil.startOfDay(rule.startDate);
+        const end = rule.endDate ? AppointmentTimeUtil.startOfDay(rule.endDate) : null;
+        const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+        const interval = Math.max(rule.interval || 1, 1);
+
+        const dates: Date[] = [];
+        const accept = (date: Date): boolean => {
+            if (end && date > end) {
+                return false;
+            }
+            if (date >= start) {
+                dates.push(date);
+            }
+            return dates.length < limit;
+        };
+
+        if (rule.frequency === 'daily') {
+            for (let step = 0; ; step++) {
+                const date = new Date(start);
+                date.setDate(start.getDate() + step * interval);
+                if (!accept(date)) break;
+            }
+        } else if (rule.frequency === 'weekly') {
+            const weekdays = [...new Set(rule.byWeekday?.length ? rule.byWeekday : [start.getDay()])].sort((a, b) => a - b);
+            const weekStart = new Date(start);
+            weekStart.setDate(start.getDate() - start.getDay());
+
+            let open = true;
+            for (let step = 0; open; step++) {
+                for (const weekday of weekdays) {
+                    const date = new Date(weekStart);
+                    date.setDate(weekStart.getDate() + step * interval * 7 + weekday);
+                    if (!accept(date)) {
+                        open = false;
+                        break;
+                    }
+                }
+            }
+        } else {
+            const dayOfMonth = start.getDate();
+            // Months without the day (e.g. the 31st) are skipped; bound the loop to avoid spinning on them
+            for (let step = 0; step < MAX_SERIES_OCCURRENCES * 12; step++) {
+                const date = new Date(start.getFullYear(), start.getMonth() + step * interval, dayOfMonth);
+                if (date.getDate() !== dayOfMonth) continue;
+                if (!accept(date)) break;
+            }
+        }
+
+        const excluded = new Set(exceptions.map(date => AppointmentTimeUtil.startOfDay(date).getTime()));
+        return dates.filter(date => !excluded.has(date.getTime()));
+    }
+
+    /**
+     * Render the rule as an RFC 5545 RRULE value (without the "RRULE:" prefix)
+     */
+    static toRRule(rule: IRecurrenceRule): string {
+        const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval || 1}`];
+
+        if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+            parts.push(`BYDAY=${rule.byWeekday.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+        }
+        if (rule.count) {
+            parts.push(`COUNT=${rule.count}`);
+        }
+        if (rule.endDate) {
+            const until = new Date(rule.endDate).toISOString().split('T')[0].replace(/-/g, '');
+            parts.push(`UNTIL=${until}`);
+        }
+
+        return parts.join(';');
+    }
+}
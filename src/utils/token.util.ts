@@ -0,0 +1,25 @@
+import * as crypto from 'crypto';
+import { CONSTANTS } from './constants';
+
+export class TokenUtil {
+    /**
+     * Generate a secure random token for a link
+     */
+    static generateToken(): string {
+        return crypto.randomBytes(32).toString('hex');
+    }
+
+    /**
+     * SHA-256 of a token. Store this rather than the token, so a leaked database does not leak working links.
+     */
+    static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    /**
+     * Join a path onto a base URL, by default the frontend that serves the public links
+     */
+    static buildUrl(path: string, baseUrl: string = CONSTANTS.APPROVAL_LINK_BASE_URL || ''): string {
+        return `${baseUrl.replace(/\/$/, '')}/${path}`;
+    }
+}
@@ -1,5 +1,8 @@
 import mongoose from 'mongoose';
 
+// Work to run once a session's transaction has committed, e.g. notifications about its changes
+const afterCommitTasks = new WeakMap<mongoose.ClientSession, Array<() => Promise<unknown>>>();
+
 export class TransactionUtil {
     /**
      * Execute operations within a database transaction
@@ -17,11 +20,13 @@ export class TransactionUtil {
             const result = await operations(session);
 
             await session.commitTransaction();
+            await this.runAfterCommitTasks(session);
             return result;
         } catch (error) {
             await session.abortTransaction();
             throw error;
         } finally {
+            afterCommitTasks.delete(session);
             session.endSession();
         }
     }
@@ -46,12 +51,44 @@ export class TransactionUtil {
             }
 
             await session.commitTransaction();
+            await this.runAfterCommitTasks(session);
             return results;
         } catch (error) {
             await session.abortTransaction();
             throw error;
         } finally {
+            afterCommitTasks.delete(session);
             session.endSession();
         }
     }
+
+    /**
+     * Run a task once the session's transaction commits, or straight away without one.
+     * Tasks are dropped if the transaction aborts. Failures are logged, not thrown.
+     */
+    static async afterCommit(session: mongoose.ClientSession | null | undefined, task: () => Promise<unknown>): Promise<void> {
+        if (session?.inTransaction()) {
+            const tasks = afterCommitTasks.get(session) || [];
+            tasks.push(task);
+            afterCommitTasks.set(session, tasks);
+            return;
+        }
+        await this.runTask(task);
+    }
+
+    private static async runAfterCommitTasks(session: mongoose.ClientSession): Promise<void> {
+        const tasks = afterCommitTasks.get(session) || [];
+        afterCommitTasks.delete(session);
+        for (const task of tasks) {
+            await this.runTask(task);
+        }
+    }
+
+    private static async runTask(task: () => Promise<unknown>): Promise<void> {
+        try {
+            await task();
+        } catch (error) {
+            console.error('Failed to run after-commit task:', error);
+        }
+    }
 }
@@ -1,4 +1,38 @@
 import Joi from 'joi';
+import { APPOINTMENT_STATUSES, EDITABLE_APPOINTMENT_STATUSES, MAX_APPOINTMENT_ATTENDEES } from '../../utils/constants';
+import { createVisitorValidation } from '../visitor/visitor.validation';
+import { visitorTypeIdValidation } from '../visitorType/visitorType.validation';
+import { watchlistOverrideReasonValidation } from '../watchlist/watchlist.validation';
+
+// Reject, cancel and no-show reasons, also accepted when an edit sets one of those statuses
+const statusReasonFields = {
+    reasonCode: Joi.string()
+        .optional()
+        .trim()
+        .lowercase()
+        .pattern(/^[a-z0-9_]+$/)
+        .max(50)
+        .messages({
+            'string.pattern.base': 'Invalid reason code',
+            'string.max': 'Reason code cannot exceed 50 characters'
+        }),
+    reason: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(500)
+        .messages({
+            'string.max': 'Reason cannot exceed 500 characters'
+        })
+};
+
+// Edits can only set the statuses that have their own action (approve, reject, cancel, no-show)
+const editableStatusValidation = Joi.string()
+    .valid(...EDITABLE_APPOINTMENT_STATUSES)
+    .optional()
+    .messages({
+        'any.only': `Status must be one of: ${EDITABLE_APPOINTMENT_STATUSES.join(', ')}. Use check-in and check-out for the others.`
+    });
 
 const idProofValidation = Joi.object({
     type: Joi.string()
@@ -49,7 +83,7 @@ const accompaniedByValidation = Joi.object({
     idProof: idProofValidation.optional()
 });
 
-const appointmentDetailsValidation = Joi.object({
+export const appointmentDetailsValidation = Joi.object({
     purpose: Joi.string()
         .required()
         .trim()
@@ -133,6 +167,13 @@ const appointmentDetailsValidation = Joi.object({
             'number.max': 'Duration cannot exceed 8 hours',
             'any.required': 'Duration is required'
         }),
+    meetingRoomId: Joi.string()
+        .optional()
+        .allow(null)
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid meeting room ID format'
+        }),
     meetingRoom: Joi.string()
         .optional()
         .trim()
@@ -196,10 +237,75 @@ export const createAppointmentValidation = Joi.object({
             'string.pattern.base': 'Invalid visitor ID format',
             'any.required': 'Visitor ID is required'
         }),
+    // Defaults to the lead visitor's type
+    visitorTypeId: visitorTypeIdValidation,
+    // Group visits: the other visitors coming with the lead (visitorId)
+    attendees: Joi.array()
+        .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+        .max(MAX_APPOINTMENT_ATTENDEES - 1)
+        .unique()
+        .optional()
+        .messages({
+            'string.pattern.base': 'Invalid visitor ID format',
+            'array.max': `A group cannot have more than ${MAX_APPOINTMENT_ATTENDEES} visitors`,
+            'array.unique': 'Each visitor can only be listed once'
+        }),
     accompaniedBy: accompaniedByValidation.optional().allow(null),
     appointmentDetails: appointmentDetailsValidation.required(),
     securityDetails: securityDetailsValidation.optional(),
-    notifications: notificationsValidation.optional()
+    notifications: notificationsValidation.optional(),
+    // Book outside the employee's availability (privileged roles only)
+    overrideAvailability: Joi.boolean()
+        .optional(),
+    // Book a visitor the watchlist holds (security roles only)
+    watchlistOverrideReason: watchlistOverrideReasonValidation
+});
+
+export const walkInAppointmentValidation = Joi.object({
+    // Name and phone identify the visitor; the rest is only needed to register a new one.
+    // The visitor type, if picked, is the new visitor's and the visit's.
+    visitor: createVisitorValidation
+        .fork(['email'], schema => schema.optional())
+        .keys({ visitorTypeId: visitorTypeIdValidation })
+        .required(),
+    employeeId: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format',
+            'any.required': 'Employee ID is required'
+        }),
+    accompaniedBy: accompaniedByValidation.optional().allow(null),
+    accompanyingCount: Joi.number()
+        .integer()
+        .min(0)
+        .max(20)
+        .optional()
+        .messages({
+            'number.min': 'Accompanying people cannot be negative',
+            'number.max': 'Accompanying people cannot exceed 20'
+        }),
+    // The visit starts now, so date and time are not taken from the request
+    appointmentDetails: appointmentDetailsValidation
+        .fork(['scheduledDate', 'scheduledTime'], schema => schema.forbidden())
+        .fork(['duration'], schema => schema.optional())
+        .required(),
+    checkIn: Joi.boolean()
+        .default(false),
+    badgeNumber: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .uppercase(),
+    securityNotes: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(200)
+        .messages({
+            'string.max': 'Security notes cannot exceed 200 characters'
+        }),
+    watchlistOverrideReason: watchlistOverrideReasonValidation
 });
 
 export const updateAppointmentValidation = Joi.object({
@@ -217,12 +323,8 @@ export const updateAppointmentValidation = Joi.object({
         }),
     accompaniedBy: accompaniedByValidation.optional().allow(null),
     appointmentDetails: appointmentDetailsValidation.optional(),
-    status: Joi.string()
-        .valid('pending', 'approved', 'rejected', 'completed')
-        .optional()
-        .messages({
-            'any.only': 'Status must be one of: pending, approved, rejected, completed'
-        }),
+    status: editableStatusValidation,
+    ...statusReasonFields,
     checkInTime: Joi.date()
         .optional(),
     checkOutTime: Joi.date()
@@ -247,6 +349,61 @@ export const appointmentParamsValidation = Joi.object({
         })
 });
 
+// Reject, cancel and no-show: a code from the company's reason list and a comment, both optional
+export const statusReasonValidation = appointmentParamsValidation.keys(statusReasonFields);
+
+export const rescheduleProposalValidation = Joi.object({
+    scheduledDate: Joi.date()
+        .required()
+        .messages({
+            'date.base': 'Scheduled date must be a valid date',
+            'any.required': 'Scheduled date is required'
+        }),
+    scheduledTime: Joi.string()
+        .required()
+        .pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+        .messages({
+            'string.pattern.base': 'Scheduled time must be in HH:MM format',
+            'any.required': 'Scheduled time is required'
+        }),
+    duration: Joi.number()
+        .optional()
+        .min(15)
+        .max(480)
+        .messages({
+            'number.min': 'Duration must be at least 15 minutes',
+            'number.max': 'Duration cannot exceed 8 hours'
+        }),
+    reason: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(500)
+        .messages({
+            'string.max': 'Reason cannot exceed 500 characters'
+        })
+});
+
+export const rescheduleResponseValidation = Joi.object({
+    accept: Joi.boolean()
+        .required()
+        .messages({
+            'any.required': 'Accept is required'
+        }),
+    reason: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(500)
+        .messages({
+            'string.max': 'Reason cannot exceed 500 characters'
+        })
+});
+
+export const proposeRescheduleValidation = appointmentParamsValidation.concat(rescheduleProposalValidation);
+
+export const respondRescheduleValidation = appointmentParamsValidation.concat(rescheduleResponseValidation);
+
 export const appointmentIdParamsValidation = Joi.object({
     appointmentId: Joi.string()
         .required()
@@ -273,7 +430,8 @@ export const checkInValidation = Joi.object({
         .max(200)
         .messages({
             'string.max': 'Security notes cannot exceed 200 characters'
-        })
+        }),
+    watchlistOverrideReason: watchlistOverrideReasonValidation
 });
 
 export const checkOutValidation = Joi.object({
@@ -315,7 +473,7 @@ export const getAppointmentsValidation = Joi.object({
             'string.pattern.base': 'Invalid employee ID format'
         }),
     status: Joi.string()
-        .valid('pending', 'approved', 'rejected', 'completed')
+        .valid(...APPOINTMENT_STATUSES)
         .optional(),
     scheduledDate: Joi.date()
         .optional(),
@@ -323,6 +481,8 @@ export const getAppointmentsValidation = Joi.object({
         .optional(),
     endDate: Joi.date()
         .optional(),
+    autoCheckedOut: Joi.boolean()
+        .optional(),
     sortBy: Joi.string()
         .valid('createdAt', 'appointmentDetails.scheduledDate', 'status')
         .default('createdAt'),
@@ -340,21 +500,19 @@ export const bulkUpdateAppointmentsValidation = Joi.object({
             'array.min': 'At least one appointment ID is required',
             'any.required': 'Appointment IDs are required'
         }),
-    status: Joi.string()
-        .valid('pending', 'approved', 'rejected', 'completed')
-        .optional(),
+    status: editableStatusValidation,
+    ...statusReasonFields,
     employeeId: Joi.string()
         .optional()
         .pattern(/^[0-9a-fA-F]{24}$/)
         .messages({
             'string.pattern.base': 'Invalid employee ID format'
         }),
-    meetingRoom: Joi.string()
+    meetingRoomId: Joi.string()
         .optional()
-        .trim()
-        .max(50)
+        .pattern(/^[0-9a-fA-F]{24}$/)
         .messages({
-            'string.max': 'Meeting room cannot exceed 50 characters'
+            'string.pattern.base': 'Invalid meeting room ID format'
         })
 });
 
@@ -400,6 +558,24 @@ export const calendarValidation = Joi.object({
         })
 });
 
+export const attendeeParamsValidation = appointmentParamsValidation.keys({
+    visitorId: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid visitor ID format',
+            'any.required': 'Visitor ID is required'
+        })
+});
+
+export const attendeeCheckInValidation = attendeeParamsValidation.keys({
+    badgeNumber: Joi.string()
+        .optional()
+        .trim()
+        .uppercase(),
+    watchlistOverrideReason: watchlistOverrideReasonValidation
+});
+
 export const employeeIdParamsValidation = Joi.object({
     employeeId: Joi.string()
         .required()
@@ -410,6 +586,33 @@ export const employeeIdParamsValidation = Joi.object({
         })
 });
 
+export const appointmentCalendarValidation = Joi.object({
+    startDate: Joi.date()
+        .required()
+        .messages({
+            'any.required': 'Start date is required'
+        }),
+    endDate: Joi.date()
+        .required()
+        .min(Joi.ref('startDate'))
+        .messages({
+            'any.required': 'End date is required',
+            'date.min': 'End date must be after start date'
+        }),
+    employeeId: Joi.string()
+        .optional()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    status: Joi.string()
+        .optional()
+        .valid(...APPOINTMENT_STATUSES)
+        .messages({
+            'any.only': 'Invalid appointment status'
+        })
+});
+
 export const dateRangeValidation = Joi.object({
     startDate: Joi.date()
         .required()
@@ -424,3 +627,13 @@ export const dateRangeValidation = Joi.object({
             'date.min': 'End date must be after start date'
         })
 });
+
+export const onSiteValidation = Joi.object({
+    site: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .messages({
+            'string.max': 'Site cannot exceed 100 characters'
+        })
+});
@@ -0,0 +1,299 @@
+import Joi from 'joi';
+import { MAX_SERIES_OCCURRENCES } from '../../utils/recurrence.util';
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+const timePattern = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const scopeValidation = Joi.string()
+    .valid('this', 'following', 'all')
+    .required()
+    .messages({
+        'any.only': 'Scope must be one of: this, following, all',
+        'any.required': 'Scope is required'
+    });
+
+const recurrenceValidation = Joi.object({
+    frequency: Joi.string()
+        .valid('daily', 'weekly', 'monthly')
+        .required()
+        .messages({
+            'any.only': 'Frequency must be one of: daily, weekly, monthly',
+            'any.required': 'Recurrence frequency is required'
+        }),
+    interval: Joi.number()
+        .integer()
+        .min(1)
+        .max(12)
+        .default(1)
+        .messages({
+            'number.min': 'Interval must be at least 1',
+            'number.max': 'Interval cannot exceed 12'
+        }),
+    byWeekday: Joi.array()
+        .items(Joi.number().integer().min(0).max(6))
+        .min(1)
+        .unique()
+        .optional()
+        .when('frequency', {
+            not: 'weekly',
+            then: Joi.forbidden()
+        })
+        .messages({
+            'number.min': 'Weekdays must be between 0 (Sunday) and 6 (Saturday)',
+            'number.max': 'Weekdays must be between 0 (Sunday) and 6 (Saturday)',
+            'any.unknown': 'Weekdays can only be set for weekly recurrence'
+        }),
+    startDate: Joi.date()
+        .required()
+        .custom((value, helpers) => {
+            const now = new Date();
+            const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+            if (value < today) {
+                return helpers.error('date.min');
+            }
+            return value;
+        })
+        .messages({
+            'date.min': 'Start date cannot be in the past',
+            'any.required': 'Start date is required'
+        }),
+    endDate: Joi.date()
+        .min(Joi.ref('startDate'))
+        .optional()
+        .messages({
+            'date.min': 'End date must be on or after the start date'
+        }),
+    count: Joi.number()
+        .integer()
+        .min(1)
+        .max(MAX_SERIES_OCCURRENCES)
+        .optional()
+        .messages({
+            'number.min': 'Count must be at least 1',
+            'number.max': `Count cannot exceed ${MAX_SERIES_OCCURRENCES}`
+        })
+})
+    .or('endDate', 'count')
+    .messages({
+        'object.missing': 'Recurrence must have an end date or a count'
+    });
+
+const seriesDetailsValidation = Joi.object({
+    purpose: Joi.string()
+        .required()
+        .trim()
+        .max(200)
+        .messages({
+            'string.max': 'Purpose cannot exceed 200 characters',
+            'any.required': 'Appointment purpose is required'
+        }),
+    scheduledTime: Joi.string()
+        .required()
+        .pattern(timePattern)
+        .messages({
+            'string.pattern.base': 'Invalid time format (HH:MM)',
+            'any.required': 'Scheduled time is required'
+        }),
+    duration: Joi.number()
+        .required()
+        .min(15)
+        .max(480)
+        .messages({
+            'number.min': 'Duration must be at least 15 minutes',
+            'number.max': 'Duration cannot exceed 8 hours',
+            'any.required': 'Duration is required'
+        }),
+    meetingRoomId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid meeting room ID format'
+        }),
+    meetingRoom: Joi.string()
+        .optional()
+        .trim()
+        .max(50)
+        .messages({
+            'string.max': 'Meeting room cannot exceed 50 characters'
+        }),
+    notes: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(500)
+        .messages({
+            'string.max': 'Notes cannot exceed 500 characters'
+        }),
+    vehicleNumber: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(20)
+        .messages({
+            'string.max': 'Vehicle number cannot exceed 20 characters'
+        })
+});
+
+export const createAppointmentSeriesValidation = Joi.object({
+    employeeId: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format',
+            'any.required': 'Employee ID is required'
+        }),
+    visitorId: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid visitor ID format',
+            'any.required': 'Visitor ID is required'
+        }),
+    accompanyingCount: Joi.number()
+        .integer()
+        .min(0)
+        .max(20)
+        .optional()
+        .messages({
+            'number.min': 'Accompanying people cannot be negative',
+            'number.max': 'Accompanying people cannot exceed 20'
+        }),
+    appointmentDetails: seriesDetailsValidation.required(),
+    recurrence: recurrenceValidation.required(),
+    exceptions: Joi.array()
+        .items(Joi.date())
+        .optional(),
+    approvalMode: Joi.string()
+        .valid('series', 'occurrence')
+        .optional()
+        .messages({
+            'any.only': 'Approval mode must be one of: series, occurrence'
+        }),
+    // Book outside the employee's availability (privileged roles only)
+    overrideAvailability: Joi.boolean()
+        .optional()
+});
+
+export const getAppointmentSeriesValidation = Joi.object({
+    page: Joi.number()
+        .integer()
+        .min(1)
+        .default(1),
+    limit: Joi.number()
+        .integer()
+        .min(1)
+        .max(100)
+        .default(10),
+    employeeId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    visitorId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid visitor ID format'
+        }),
+    status: Joi.string()
+        .valid('active', 'cancelled')
+        .optional()
+});
+
+export const appointmentSeriesParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid series ID format',
+            'any.required': 'Series ID is required'
+        })
+});
+
+const seriesOccurrenceParams = {
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid series ID format',
+            'any.required': 'Series ID is required'
+        }),
+    appointmentId: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid appointment ID format',
+            'any.required': 'Appointment ID is required'
+        })
+};
+
+export const updateSeriesOccurrenceValidation = Joi.object({
+    ...seriesOccurrenceParams,
+    scope: scopeValidation,
+    employeeId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    scheduledDate: Joi.date()
+        .optional()
+        .when('scope', {
+            not: 'this',
+            then: Joi.forbidden()
+        })
+        .messages({
+            'any.unknown': 'Only a single occurrence can be moved to another date'
+        }),
+    scheduledTime: Joi.string()
+        .optional()
+        .pattern(timePattern)
+        .messages({
+            'string.pattern.base': 'Invalid time format (HH:MM)'
+        }),
+    duration: Joi.number()
+        .optional()
+        .min(15)
+        .max(480)
+        .messages({
+            'number.min': 'Duration must be at least 15 minutes',
+            'number.max': 'Duration cannot exceed 8 hours'
+        }),
+    purpose: Joi.string()
+        .optional()
+        .trim()
+        .max(200)
+        .messages({
+            'string.max': 'Purpose cannot exceed 200 characters'
+        }),
+    meetingRoomId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid meeting room ID format'
+        }),
+    meetingRoom: Joi.string()
+        .optional()
+        .trim()
+        .max(50)
+        .messages({
+            'string.max': 'Meeting room cannot exceed 50 characters'
+        }),
+    notes: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(500)
+        .messages({
+            'string.max': 'Notes cannot exceed 500 characters'
+        })
+}).or('employeeId', 'scheduledDate', 'scheduledTime', 'duration', 'purpose', 'meetingRoomId', 'meetingRoom', 'notes')
+    .messages({
+        'object.missing': 'At least one field must be provided for update'
+    });
+
+export const cancelSeriesOccurrenceValidation = Joi.object({
+    ...seriesOccurrenceParams,
+    scope: scopeValidation
+});
@@ -0,0 +1,18 @@
+import Joi from 'joi';
+
+export const approvalLinkParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid appointment ID format',
+            'any.required': 'Appointment ID is required'
+        }),
+    linkId: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid approval link ID format',
+            'any.required': 'Approval link ID is required'
+        })
+});
@@ -0,0 +1,29 @@
+import Joi from 'joi';
+import { appointmentParamsValidation } from '../appointment/appointment.validation';
+import { BADGE_SIZES } from '../../utils/constants';
+
+const badgeSizeValidation = Joi.string()
+    .optional()
+    .valid(...BADGE_SIZES)
+    .messages({
+        'any.only': `Badge size must be one of ${BADGE_SIZES.join(', ')}`
+    });
+
+export const badgePrintValidation = appointmentParamsValidation.keys({
+    size: badgeSizeValidation
+});
+
+export const badgeBatchValidation = Joi.object({
+    date: Joi.date()
+        .optional()
+        .messages({
+            'date.base': 'Date must be a valid date'
+        }),
+    until: Joi.string()
+        .optional()
+        .pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+        .messages({
+            'string.pattern.base': 'Time must be in HH:MM format'
+        }),
+    size: badgeSizeValidation
+});
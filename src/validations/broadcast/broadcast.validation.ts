@@ -0,0 +1,87 @@
+import Joi from 'joi';
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+export const sendBroadcastValidation = Joi.object({
+    subject: Joi.string()
+        .required()
+        .trim()
+        .min(3)
+        .max(150)
+        .messages({
+            'string.min': 'Subject must be at least 3 characters long',
+            'string.max': 'Subject cannot exceed 150 characters',
+            'any.required': 'Subject is required'
+        }),
+    message: Joi.string()
+        .required()
+        .trim()
+        .min(3)
+        .max(1000)
+        .messages({
+            'string.min': 'Message must be at least 3 characters long',
+            'string.max': 'Message cannot exceed 1000 characters',
+            'any.required': 'Message is required'
+        }),
+    site: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .messages({
+            'string.max': 'Site cannot exceed 100 characters'
+        }),
+    includeEmployees: Joi.boolean()
+        .optional()
+        .default(false)
+});
+
+export const getBroadcastsValidation = Joi.object({
+    page: Joi.number()
+        .optional()
+        .min(1)
+        .default(1)
+        .messages({
+            'number.min': 'Page number must be at least 1'
+        }),
+    limit: Joi.number()
+        .optional()
+        .min(1)
+        .max(100)
+        .default(10)
+        .messages({
+            'number.min': 'Limit must be at least 1',
+            'number.max': 'Limit cannot exceed 100'
+        })
+});
+
+export const broadcastParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid broadcast ID format',
+            'any.required': 'Broadcast ID is required'
+        })
+});
+
+export const broadcastRecipientParamsValidation = broadcastParamsValidation.keys({
+    recipientId: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid recipient ID format',
+            'any.required': 'Recipient ID is required'
+        })
+});
+
+export const broadcastTokenValidation = Joi.object({
+    token: Joi.string()
+        .required()
+        .hex()
+        .length(64)
+        .messages({
+            'any.required': 'Token is required',
+            'string.hex': 'Invalid link',
+            'string.length': 'Invalid link'
+        })
+});
@@ -1,5 +1,53 @@
 import Joi from 'joi';
 
+const timePattern = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+export const workingHoursValidation = Joi.array()
+    .items(
+        Joi.object({
+            dayOfWeek: Joi.number()
+                .integer()
+                .min(0)
+                .max(6)
+                .required()
+                .messages({
+                    'number.min': 'Day of week must be between 0 (Sunday) and 6 (Saturday)',
+                    'number.max': 'Day of week must be between 0 (Sunday) and 6 (Saturday)',
+                    'any.required': 'Day of week is required'
+                }),
+            start: Joi.string()
+                .pattern(timePattern)
+                .required()
+                .messages({
+                    'string.pattern.base': 'Invalid start time format (HH:MM)',
+                    'any.required': 'Start time is required'
+                }),
+            end: Joi.string()
+                .pattern(timePattern)
+                .required()
+                .messages({
+                    'string.pattern.base': 'Invalid end time format (HH:MM)',
+                    'any.required': 'End time is required'
+                })
+        }).custom((value, helpers) => {
+            if (toMinutes(value.end) <= toMinutes(value.start)) {
+                return helpers.error('workingHours.range');
+            }
+            return value;
+        }).messages({
+            'workingHours.range': 'Working hours must end after they start'
+        })
+    )
+    .max(21)
+    .messages({
+        'array.max': 'Cannot have more than 21 working hour entries'
+    });
+
 export const createEmployeeValidation = Joi.object({
     name: Joi.string()
         .required()
@@ -44,7 +92,8 @@ export const createEmployeeValidation = Joi.object({
         .default('Active')
         .messages({
             'any.only': 'Status must be either Active or Inactive'
-        })
+        }),
+    workingHours: workingHoursValidation.optional()
 });
 
 export const updateEmployeeValidation = Joi.object({
@@ -86,7 +135,9 @@ export const updateEmployeeValidation = Joi.object({
         .valid('Active', 'Inactive')
         .messages({
             'any.only': 'Status must be either Active or Inactive'
-        })
+        }),
+    // null resets the employee to the company working hours
+    workingHours: workingHoursValidation.optional().allow(null)
 });
 
 export const employeeParamsValidation = Joi.object({
@@ -189,3 +240,139 @@ export const bulkUpdateEmployeesValidation = Joi.object({
             'string.max': 'Department cannot exceed 50 characters'
         })
 });
+
+export const employeeAvailabilityValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    date: Joi.date()
+        .required()
+        .messages({
+            'date.base': 'Invalid date format',
+            'any.required': 'Date is required'
+        }),
+    duration: Joi.number()
+        .integer()
+        .min(15)
+        .max(480)
+        .optional()
+        .messages({
+            'number.min': 'Duration must be at least 15 minutes',
+            'number.max': 'Duration cannot exceed 8 hours'
+        })
+});
+
+export const createBlockedTimeValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    start: Joi.date()
+        .required()
+        .messages({
+            'any.required': 'Start is required'
+        }),
+    end: Joi.date()
+        .greater(Joi.ref('start'))
+        .required()
+        .messages({
+            'date.greater': 'End must be after start',
+            'any.required': 'End is required'
+        }),
+    reason: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(200)
+        .messages({
+            'string.max': 'Reason cannot exceed 200 characters'
+        })
+});
+
+export const getBlockedTimesValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    startDate: Joi.date()
+        .optional(),
+    endDate: Joi.date()
+        .optional()
+});
+
+export const blockedTimeParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    blockId: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid blocked time ID format'
+        })
+});
+
+export const setDelegationValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    delegateId: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'any.required': 'Delegate is required',
+            'string.pattern.base': 'Invalid delegate ID format'
+        }),
+    startDate: Joi.date()
+        .optional()
+        .allow(null),
+    endDate: Joi.date()
+        .optional()
+        .allow(null)
+        .when('startDate', {
+            is: Joi.date().required(),
+            then: Joi.date().greater(Joi.ref('startDate'))
+        })
+        .messages({
+            'date.greater': 'End date must be after start date'
+        }),
+    reason: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(200)
+        .messages({
+            'string.max': 'Reason cannot exceed 200 characters'
+        })
+});
+
+export const calendarFeedValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    token: Joi.string()
+        .required()
+        .hex()
+        .length(64)
+        .messages({
+            'any.required': 'Calendar token is required',
+            'string.hex': 'Invalid calendar token',
+            'string.length': 'Invalid calendar token'
+        })
+});
@@ -4,3 +4,15 @@ export * from './appointment/appointment.validation';
 export * from './visitor/visitor.validation';
 export * from './subscription/subscription.validation';
 export * from './userSubscription/userSubscription.validation';
+export * from './appointmentSeries/appointmentSeries.validation';
+export * from './meetingRoom/meetingRoom.validation';
+export * from './visitorLink/visitorLink.validation';
+export * from './preRegistration/preRegistration.validation';
+export * from './invitation/invitation.validation';
+export * from './approvalLink/approvalLink.validation';
+export * from './visitorPass/visitorPass.validation';
+export * from './badge/badge.validation';
+export * from './rollCall/rollCall.validation';
+export * from './broadcast/broadcast.validation';
+export * from './watchlist/watchlist.validation';
+export * from './visitorType/visitorType.validation';
@@ -0,0 +1,95 @@
+import Joi from 'joi';
+import { appointmentDetailsValidation } from '../appointment/appointment.validation';
+import { createVisitorValidation } from '../visitor/visitor.validation';
+import { MAX_INVITATION_EXPIRY_HOURS } from '../../utils/constants';
+
+const expiresInHoursValidation = Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_INVITATION_EXPIRY_HOURS)
+    .optional()
+    .messages({
+        'number.min': 'Invitation must be valid for at least 1 hour',
+        'number.max': `Invitation cannot be valid for more than ${MAX_INVITATION_EXPIRY_HOURS} hours`
+    });
+
+export const createInvitationValidation = Joi.object({
+    employeeId: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format',
+            'any.required': 'Employee ID is required'
+        }),
+    // The host only knows who is coming and how to reach them; the visitor fills in the rest
+    visitor: Joi.object({
+        name: createVisitorValidation.extract('name'),
+        email: createVisitorValidation.extract('email').optional(),
+        phone: createVisitorValidation.extract('phone').optional()
+    })
+        .or('email', 'phone')
+        .required()
+        .messages({
+            'object.missing': 'Visitor email or phone number is required',
+            'any.required': 'Visitor details are required'
+        }),
+    appointmentDetails: appointmentDetailsValidation
+        .fork(['meetingRoom'], schema => schema.forbidden())
+        .required(),
+    expiresInHours: expiresInHoursValidation
+});
+
+export const invitationParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid invitation ID format',
+            'any.required': 'Invitation ID is required'
+        })
+});
+
+export const resendInvitationValidation = invitationParamsValidation.concat(Joi.object({
+    expiresInHours: expiresInHoursValidation
+}));
+
+export const getInvitationsValidation = Joi.object({
+    page: Joi.number()
+        .integer()
+        .min(1)
+        .default(1),
+    limit: Joi.number()
+        .integer()
+        .min(1)
+        .max(100)
+        .default(10),
+    status: Joi.string()
+        .valid('pending', 'completed', 'revoked', 'expired')
+        .optional(),
+    employeeId: Joi.string()
+        .optional()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid employee ID format'
+        }),
+    search: Joi.string()
+        .optional()
+        .trim()
+});
+
+export const invitationTokenValidation = Joi.object({
+    token: Joi.string()
+        .required()
+        .hex()
+        .length(64)
+        .messages({
+            'any.required': 'Token is required',
+            'string.hex': 'Invalid or expired link',
+            'string.length': 'Invalid or expired link'
+        })
+});
+
+// Name, email and phone were entered by the host and only need to be sent when missing
+export const completeInvitationValidation = invitationTokenValidation.concat(
+    createVisitorValidation.fork(['name', 'email', 'phone'], schema => schema.optional())
+);
@@ -0,0 +1,189 @@
+import Joi from 'joi';
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+const amenitiesValidation = Joi.array()
+    .items(Joi.string().trim().max(50))
+    .max(20)
+    .messages({
+        'array.max': 'Cannot have more than 20 amenities',
+        'string.max': 'Amenity cannot exceed 50 characters'
+    });
+
+export const createMeetingRoomValidation = Joi.object({
+    name: Joi.string()
+        .required()
+        .trim()
+        .min(1)
+        .max(50)
+        .messages({
+            'string.empty': 'Meeting room name is required',
+            'string.max': 'Meeting room name cannot exceed 50 characters'
+        }),
+    floor: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(20)
+        .messages({
+            'string.max': 'Floor cannot exceed 20 characters'
+        }),
+    site: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(100)
+        .messages({
+            'string.max': 'Site cannot exceed 100 characters'
+        }),
+    capacity: Joi.number()
+        .integer()
+        .required()
+        .min(1)
+        .max(500)
+        .messages({
+            'number.min': 'Capacity must be at least 1',
+            'number.max': 'Capacity cannot exceed 500',
+            'any.required': 'Capacity is required'
+        }),
+    amenities: amenitiesValidation.optional(),
+    status: Joi.string()
+        .optional()
+        .valid('Active', 'Inactive')
+        .messages({
+            'any.only': 'Status must be either Active or Inactive'
+        })
+});
+
+export const updateMeetingRoomValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid meeting room ID format'
+        }),
+    name: Joi.string()
+        .optional()
+        .trim()
+        .min(1)
+        .max(50)
+        .messages({
+            'string.max': 'Meeting room name cannot exceed 50 characters'
+        }),
+    floor: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(20)
+        .messages({
+            'string.max': 'Floor cannot exceed 20 characters'
+        }),
+    site: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(100)
+        .messages({
+            'string.max': 'Site cannot exceed 100 characters'
+        }),
+    capacity: Joi.number()
+        .integer()
+        .optional()
+        .min(1)
+        .max(500)
+        .messages({
+            'number.min': 'Capacity must be at least 1',
+            'number.max': 'Capacity cannot exceed 500'
+        }),
+    amenities: amenitiesValidation.optional(),
+    status: Joi.string()
+        .optional()
+        .valid('Active', 'Inactive')
+        .messages({
+            'any.only': 'Status must be either Active or Inactive'
+        })
+}).or('name', 'floor', 'site', 'capacity', 'amenities', 'status');
+
+export const meetingRoomParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.empty': 'Meeting room ID is required',
+            'string.pattern.base': 'Invalid meeting room ID format'
+        })
+});
+
+export const getMeetingRoomsValidation = Joi.object({
+    page: Joi.number()
+        .optional()
+        .min(1)
+        .default(1)
+        .messages({
+            'number.min': 'Page number must be at least 1'
+        }),
+    limit: Joi.number()
+        .optional()
+        .min(1)
+        .max(100)
+        .default(10)
+        .messages({
+            'number.min': 'Limit must be at least 1',
+            'number.max': 'Limit cannot exceed 100'
+        }),
+    search: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .messages({
+            'string.max': 'Search term cannot exceed 100 characters'
+        }),
+    floor: Joi.string()
+        .optional()
+        .trim()
+        .max(20),
+    site: Joi.string()
+        .optional()
+        .trim()
+        .max(100),
+    status: Joi.string()
+        .optional()
+        .valid('Active', 'Inactive')
+        .messages({
+            'any.only': 'Status filter must be either Active or Inactive'
+        }),
+    minCapacity: Joi.number()
+        .integer()
+        .optional()
+        .min(1)
+        .messages({
+            'number.min': 'Minimum capacity must be at least 1'
+        }),
+    amenity: Joi.string()
+        .optional()
+        .trim()
+        .max(50)
+});
+
+export const roomUtilizationValidation = Joi.object({
+    startDate: Joi.date()
+        .required()
+        .messages({
+            'date.base': 'Start date must be a valid date',
+            'any.required': 'Start date is required'
+        }),
+    endDate: Joi.date()
+        .required()
+        .min(Joi.ref('startDate'))
+        .messages({
+            'date.base': 'End date must be a valid date',
+            'date.min': 'End date must be on or after the start date',
+            'any.required': 'End date is required'
+        }),
+    meetingRoomId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid meeting room ID format'
+        })
+});
@@ -0,0 +1,59 @@
+import Joi from 'joi';
+import { createVisitorValidation } from '../visitor/visitor.validation';
+
+export const preRegistrationTokenValidation = Joi.object({
+    token: Joi.string()
+        .required()
+        .max(1000)
+        .messages({
+            'any.required': 'Token is required',
+            'string.max': 'Invalid or expired link'
+        })
+});
+
+export const preRegistrationSubmitValidation = preRegistrationTokenValidation.concat(Joi.object({
+    visitor: createVisitorValidation.required(),
+    employeeId: Joi.string()
+        .optional()
+        .pattern(/^[0-9a-fA-F]{24}$/)
+        .messages({
+            'string.pattern.base': 'Invalid host ID format'
+        }),
+    purpose: Joi.string()
+        .required()
+        .trim()
+        .max(200)
+        .messages({
+            'string.max': 'Purpose cannot exceed 200 characters',
+            'any.required': 'Purpose of the visit is required'
+        }),
+    scheduledDate: Joi.date()
+        .required()
+        .messages({
+            'date.base': 'Scheduled date must be a valid date',
+            'any.required': 'Scheduled date is required'
+        }),
+    scheduledTime: Joi.string()
+        .required()
+        .pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+        .messages({
+            'string.pattern.base': 'Scheduled time must be in HH:MM format',
+            'any.required': 'Scheduled time is required'
+        }),
+    duration: Joi.number()
+        .optional()
+        .min(15)
+        .max(480)
+        .messages({
+            'number.min': 'Duration must be at least 15 minutes',
+            'number.max': 'Duration cannot exceed 8 hours'
+        }),
+    notes: Joi.string()
+        .optional()
+        .allow('')
+        .trim()
+        .max(500)
+        .messages({
+            'string.max': 'Notes cannot exceed 500 characters'
+        })
+}));
@@ -0,0 +1,104 @@
+import Joi from 'joi';
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+export const startRollCallValidation = Joi.object({
+    type: Joi.string()
+        .required()
+        .valid('drill', 'incident')
+        .messages({
+            'any.only': 'Roll call type must be either drill or incident',
+            'any.required': 'Roll call type is required'
+        }),
+    site: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .messages({
+            'string.max': 'Site cannot exceed 100 characters'
+        }),
+    notes: Joi.string()
+        .optional()
+        .trim()
+        .max(1000)
+        .messages({
+            'string.max': 'Notes cannot exceed 1000 characters'
+        })
+});
+
+export const getRollCallsValidation = Joi.object({
+    page: Joi.number()
+        .optional()
+        .min(1)
+        .default(1)
+        .messages({
+            'number.min': 'Page number must be at least 1'
+        }),
+    limit: Joi.number()
+        .optional()
+        .min(1)
+        .max(100)
+        .default(10)
+        .messages({
+            'number.min': 'Limit must be at least 1',
+            'number.max': 'Limit cannot exceed 100'
+        }),
+    type: Joi.string()
+        .optional()
+        .valid('drill', 'incident')
+        .messages({
+            'any.only': 'Roll call type must be either drill or incident'
+        }),
+    status: Joi.string()
+        .optional()
+        .valid('open', 'closed')
+        .messages({
+            'any.only': 'Status filter must be either open or closed'
+        })
+});
+
+export const rollCallParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid roll call ID format',
+            'any.required': 'Roll call ID is required'
+        })
+});
+
+export const rollCallExportValidation = rollCallParamsValidation.keys({
+    format: Joi.string()
+        .optional()
+        .valid('csv', 'pdf')
+        .messages({
+            'any.only': 'Format must be either csv or pdf'
+        })
+});
+
+export const markSafeValidation = rollCallParamsValidation.keys({
+    entryId: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid entry ID format',
+            'any.required': 'Entry ID is required'
+        }),
+    note: Joi.string()
+        .optional()
+        .trim()
+        .max(500)
+        .messages({
+            'string.max': 'Note cannot exceed 500 characters'
+        })
+});
+
+export const closeRollCallValidation = rollCallParamsValidation.keys({
+    notes: Joi.string()
+        .optional()
+        .trim()
+        .max(1000)
+        .messages({
+            'string.max': 'Notes cannot exceed 1000 characters'
+        })
+});
@@ -1,4 +1,36 @@
 import Joi from 'joi';
+import { workingHoursValidation } from '../employee/employee.validation';
+import { MAX_REMINDER_OFFSET_MINUTES, MAX_APPROVAL_LINK_EXPIRY_HOURS, BADGE_SIZES } from '../../utils/constants';
+
+const statusReasonListValidation = Joi.array()
+    .items(Joi.object({
+        code: Joi.string()
+            .required()
+            .trim()
+            .lowercase()
+            .pattern(/^[a-z0-9_]+$/)
+            .max(50)
+            .messages({
+                'string.pattern.base': 'Reason code can only contain letters, numbers and underscores',
+                'string.max': 'Reason code cannot exceed 50 characters',
+                'any.required': 'Reason code is required'
+            }),
+        label: Joi.string()
+            .required()
+            .trim()
+            .max(100)
+            .messages({
+                'string.max': 'Reason label cannot exceed 100 characters',
+                'any.required': 'Reason label is required'
+            })
+    }))
+    .max(30)
+    .unique('code')
+    .optional()
+    .messages({
+        'array.max': 'Cannot have more than 30 reasons per list',
+        'array.unique': 'Reason codes must be different'
+    });
 
 export const updateSettingsValidation = Joi.object({
     notifications: Joi.object({
@@ -15,6 +47,292 @@ export const updateSettingsValidation = Joi.object({
             .messages({
                 'string.pattern.base': 'Please enter a valid phone number'
             })
+    }).optional(),
+    scheduling: Joi.object({
+        bufferMinutes: Joi.number()
+            .integer()
+            .min(0)
+            .max(120)
+            .optional()
+            .messages({
+                'number.min': 'Buffer cannot be negative',
+                'number.max': 'Buffer cannot exceed 120 minutes'
+            }),
+        seriesApprovalMode: Joi.string()
+            .valid('series', 'occurrence')
+            .optional()
+            .messages({
+                'any.only': 'Series approval mode must be one of: series, occurrence'
+            })
+    }).optional(),
+    availability: Joi.object({
+        workingHours: workingHoursValidation.optional(),
+        holidays: Joi.array()
+            .items(
+                Joi.object({
+                    date: Joi.date()
+                        .required()
+                        .messages({
+                            'any.required': 'Holiday date is required'
+                        }),
+                    name: Joi.string()
+                        .required()
+                        .trim()
+                        .max(100)
+                        .messages({
+                            'string.max': 'Holiday name cannot exceed 100 characters',
+                            'any.required': 'Holiday name is required'
+                        }),
+                    recurring: Joi.boolean()
+                        .default(false)
+                })
+            )
+            .max(100)
+            .optional()
+            .messages({
+                'array.max': 'Cannot have more than 100 holidays'
+            })
+    }).optional(),
+    attendance: Joi.object({
+        noShowEnabled: Joi.boolean().optional(),
+        noShowGraceMinutes: Joi.number()
+            .integer()
+            .min(0)
+            .max(1440)
+            .optional()
+            .messages({
+                'number.min': 'Grace period cannot be negative',
+                'number.max': 'Grace period cannot exceed 24 hours'
+            }),
+        autoCheckoutEnabled: Joi.boolean().optional(),
+        autoCheckoutTime: Joi.string()
+            .pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+            .optional()
+            .messages({
+                'string.pattern.base': 'Auto-checkout time must be in HH:MM format'
+            }),
+        overstayAlertsEnabled: Joi.boolean().optional(),
+        overstayGraceMinutes: Joi.number()
+            .integer()
+            .min(0)
+            .max(1440)
+            .optional()
+            .messages({
+                'number.min': 'Overstay grace period cannot be negative',
+                'number.max': 'Overstay grace period cannot exceed 24 hours'
+            }),
+        overstayNotifyHost: Joi.boolean().optional(),
+        overstayNotifySecurity: Joi.boolean().optional()
+    }).optional(),
+    reminders: Joi.object({
+        enabled: Joi.boolean().optional(),
+        offsets: Joi.array()
+            .items(Joi.number().integer().min(1).max(MAX_REMINDER_OFFSET_MINUTES))
+            .max(5)
+            .unique()
+            .optional()
+            .messages({
+                'number.min': 'Reminder offset must be at least 1 minute',
+                'number.max': 'Reminder offset cannot exceed 7 days',
+                'array.max': 'Cannot have more than 5 reminders',
+                'array.unique': 'Reminder offsets must be different'
+            }),
+        notifyVisitor: Joi.boolean().optional(),
+        notifyHost: Joi.boolean().optional(),
+        directions: Joi.string()
+            .trim()
+            .max(1000)
+            .allow('')
+            .optional()
+            .messages({
+                'string.max': 'Directions cannot exceed 1000 characters'
+            })
+    }).optional(),
+    preRegistration: Joi.object({
+        enabled: Joi.boolean().optional(),
+        defaultEmployeeId: Joi.string()
+            .pattern(/^[0-9a-fA-F]{24}$/)
+            .allow(null)
+            .optional()
+            .messages({
+                'string.pattern.base': 'Invalid employee ID format'
+            }),
+        purposes: Joi.array()
+            .items(Joi.string().trim().min(1).max(200))
+            .max(20)
+            .unique()
+            .optional()
+            .messages({
+                'string.max': 'Purpose cannot exceed 200 characters',
+                'array.max': 'Cannot have more than 20 purposes',
+                'array.unique': 'Purposes must be different'
+            })
+    }).optional(),
+    approvals: Joi.object({
+        fallbackApprovers: Joi.array()
+            .items(Joi.object({
+                department: Joi.string()
+                    .required()
+                    .trim()
+                    .max(100)
+                    .messages({
+                        'string.max': 'Department cannot exceed 100 characters',
+                        'any.required': 'Department is required'
+                    }),
+                employeeIds: Joi.array()
+                    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+                    .min(1)
+                    .max(5)
+                    .unique()
+                    .required()
+                    .messages({
+                        'string.pattern.base': 'Invalid employee ID format',
+                        'array.min': 'At least one fallback approver is required',
+                        'array.max': 'Cannot have more than 5 fallback approvers per department',
+                        'array.unique': 'Fallback approvers must be different'
+                    })
+            }))
+            .max(50)
+            .unique((a, b) => a.department.toLowerCase() === b.department.toLowerCase())
+            .optional()
+            .messages({
+                'array.max': 'Cannot have more than 50 departments',
+                'array.unique': 'Each department can only be listed once'
+            }),
+        policies: Joi.array()
+            .items(Joi.object({
+                name: Joi.string()
+                    .required()
+                    .trim()
+                    .max(100)
+                    .messages({
+                        'string.max': 'Policy name cannot exceed 100 characters',
+                        'any.required': 'Policy name is required'
+                    }),
+                isActive: Joi.boolean().optional(),
+                conditions: Joi.object({
+                    meetingRoomIds: Joi.array()
+                        .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+                        .max(50)
+                        .unique()
+                        .optional()
+                        .messages({
+                            'string.pattern.base': 'Invalid meeting room ID format'
+                        }),
+                    departments: Joi.array()
+                        .items(Joi.string().trim().max(100))
+                        .max(50)
+                        .unique()
+                        .optional(),
+                    visitorsOutsideCountry: Joi.string()
+                        .trim()
+                        .max(100)
+                        .optional()
+                        .allow(null, '')
+                }).optional(),
+                steps: Joi.array()
+                    .items(Joi.object({
+                        name: Joi.string()
+                            .required()
+                            .trim()
+                            .max(50)
+                            .messages({
+                                'string.max': 'Step name cannot exceed 50 characters',
+                                'any.required': 'Step name is required'
+                            }),
+                        employeeIds: Joi.array()
+                            .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+                            .min(1)
+                            .max(10)
+                            .unique()
+                            .required()
+                            .messages({
+                                'string.pattern.base': 'Invalid employee ID format',
+                                'array.min': 'Each step needs at least one approver',
+                                'array.max': 'Cannot have more than 10 approvers per step',
+                                'array.unique': 'Step approvers must be different'
+                            })
+                    }))
+                    .min(1)
+                    .max(5)
+                    .required()
+                    .messages({
+                        'array.min': 'A policy needs at least one step after the host',
+                        'array.max': 'Cannot have more than 5 steps after the host'
+                    })
+            }))
+            .max(20)
+            .unique((a, b) => a.name.toLowerCase() === b.name.toLowerCase())
+            .optional()
+            .messages({
+                'array.max': 'Cannot have more than 20 approval policies',
+                'array.unique': 'Policy names must be different'
+            }),
+        linkExpiryHours: Joi.number()
+            .integer()
+            .min(1)
+            .max(MAX_APPROVAL_LINK_EXPIRY_HOURS)
+            .optional()
+            .messages({
+                'number.min': 'Approval links must be valid for at least an hour',
+                'number.max': `Approval links cannot be valid for more than ${MAX_APPROVAL_LINK_EXPIRY_HOURS} hours`
+            })
+    }).optional(),
+    statusReasons: Joi.object({
+        rejected: statusReasonListValidation,
+        cancelled: statusReasonListValidation,
+        no_show: statusReasonListValidation
+    }).optional(),
+    badges: Joi.object({
+        prefix: Joi.string()
+            .trim()
+            .uppercase()
+            .pattern(/^[A-Z0-9-]*$/)
+            .max(10)
+            .allow('')
+            .optional()
+            .messages({
+                'string.pattern.base': 'Badge prefix can only contain letters, digits and dashes',
+                'string.max': 'Badge prefix cannot exceed 10 characters'
+            }),
+        digits: Joi.number()
+            .integer()
+            .min(1)
+            .max(10)
+            .optional()
+            .messages({
+                'number.min': 'Badge numbers need at least one digit',
+                'number.max': 'Badge numbers cannot have more than 10 digits'
+            }),
+        defaultSize: Joi.string()
+            .valid(...BADGE_SIZES)
+            .optional()
+            .messages({
+                'any.only': `Badge size must be one of ${BADGE_SIZES.join(', ')}`
+            }),
+        assignOnCheckIn: Joi.boolean().optional()
+    }).optional(),
+    watchlist: Joi.object({
+        alertEmails: Joi.array()
+            .items(Joi.string().trim().lowercase().email().messages({
+                'string.email': 'Please enter valid alert email addresses'
+            }))
+            .max(10)
+            .unique()
+            .optional()
+            .messages({
+                'array.max': 'Cannot have more than 10 alert email addresses'
+            }),
+        alertPhones: Joi.array()
+            .items(Joi.string().trim().pattern(/^[\+]?[1-9][\d]{0,15}$/).messages({
+                'string.pattern.base': 'Please enter valid alert phone numbers'
+            }))
+            .max(10)
+            .unique()
+            .optional()
+            .messages({
+                'array.max': 'Cannot have more than 10 alert phone numbers'
+            })
     }).optional()
 }).min(1).messages({
     'object.min': 'At least one field must be provided for update'
@@ -1,4 +1,6 @@
 import Joi from 'joi';
+import { watchlistOverrideReasonValidation } from '../watchlist/watchlist.validation';
+import { visitorTypeIdValidation } from '../visitorType/visitorType.validation';
 
 const addressValidation = Joi.object({
     street: Joi.string()
@@ -102,12 +104,25 @@ export const createVisitorValidation = Joi.object({
             'string.empty': 'Phone number is required',
             'string.pattern.base': 'Please enter a valid phone number'
         }),
-    address: addressValidation.required().messages({
-        'any.required': 'Address is required'
-    }),
-    idProof: idProofValidation.required().messages({
-        'any.required': 'ID proof is required'
-    }),
+    company: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .allow('')
+        .messages({
+            'string.max': 'Company cannot exceed 100 characters'
+        }),
+    designation: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .allow('')
+        .messages({
+            'string.max': 'Designation cannot exceed 100 characters'
+        }),
+    // Required or not by the visitor's type
+    address: addressValidation.optional(),
+    idProof: idProofValidation.optional(),
     photo: Joi.string()
         .optional()
         .trim()
@@ -118,6 +133,13 @@ export const createVisitorValidation = Joi.object({
         })
 });
 
+// Registering a visitor from the dashboard, where the visitor type is picked and security
+// can let a visitor the watchlist holds through
+export const registerVisitorValidation = createVisitorValidation.keys({
+    visitorTypeId: visitorTypeIdValidation,
+    watchlistOverrideReason: watchlistOverrideReasonValidation
+});
+
 export const updateVisitorValidation = Joi.object({
     name: Joi.string()
         .optional()
@@ -143,6 +165,22 @@ export const updateVisitorValidation = Joi.object({
         .messages({
             'string.pattern.base': 'Please enter a valid phone number'
         }),
+    company: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .allow('')
+        .messages({
+            'string.max': 'Company cannot exceed 100 characters'
+        }),
+    designation: Joi.string()
+        .optional()
+        .trim()
+        .max(100)
+        .allow('')
+        .messages({
+            'string.max': 'Designation cannot exceed 100 characters'
+        }),
     address: addressValidation.optional(),
     idProof: idProofValidation.optional(),
     photo: Joi.string()
@@ -152,7 +190,8 @@ export const updateVisitorValidation = Joi.object({
         .allow('')
         .messages({
             'string.max': 'Photo URL cannot exceed 500 characters'
-        })
+        }),
+    visitorTypeId: visitorTypeIdValidation.allow(null)
 });
 
 export const visitorParamsValidation = Joi.object({
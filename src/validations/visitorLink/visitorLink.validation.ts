@@ -0,0 +1,28 @@
+import Joi from 'joi';
+import { rescheduleProposalValidation, rescheduleResponseValidation } from '../appointment/appointment.validation';
+
+export const visitorTokenValidation = Joi.object({
+    token: Joi.string()
+        .required()
+        .hex()
+        .length(64)
+        .messages({
+            'any.required': 'Token is required',
+            'string.hex': 'Invalid or expired link',
+            'string.length': 'Invalid or expired link'
+        })
+});
+
+export const visitorProposeRescheduleValidation = visitorTokenValidation.concat(rescheduleProposalValidation);
+
+export const visitorRespondRescheduleValidation = visitorTokenValidation.concat(rescheduleResponseValidation);
+
+export const visitorCancelValidation = visitorTokenValidation.concat(Joi.object({
+    reason: Joi.string()
+        .trim()
+        .max(500)
+        .optional()
+        .messages({
+            'string.max': 'Reason cannot exceed 500 characters'
+        })
+}));
@@ -0,0 +1,18 @@
+import Joi from 'joi';
+
+export const visitorPassTokenValidation = Joi.object({
+    token: Joi.string()
+        .required()
+        .max(1000)
+        .messages({
+            'any.required': 'Pass token is required',
+            'string.max': 'This visitor pass is not valid'
+        })
+});
+
+export const visitorPassScanValidation = visitorPassTokenValidation.keys({
+    badgeNumber: Joi.string()
+        .optional()
+        .trim()
+        .uppercase()
+});
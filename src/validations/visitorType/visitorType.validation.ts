@@ -0,0 +1,115 @@
+import Joi from 'joi';
+import { VISITOR_TYPE_APPROVAL_MODES, VISITOR_TYPE_FIELDS } from '../../utils/constants';
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+// The visitor type picked for a visitor or an appointment
+export const visitorTypeIdValidation = Joi.string()
+    .optional()
+    .pattern(objectIdPattern)
+    .messages({
+        'string.pattern.base': 'Invalid visitor type ID format'
+    });
+
+const typeFields = {
+    name: Joi.string()
+        .trim()
+        .min(1)
+        .max(50)
+        .messages({
+            'string.empty': 'Visitor type name is required',
+            'string.max': 'Visitor type name cannot exceed 50 characters'
+        }),
+    description: Joi.string()
+        .allow('')
+        .trim()
+        .max(300)
+        .messages({
+            'string.max': 'Description cannot exceed 300 characters'
+        }),
+    requiredFields: Joi.array()
+        .items(Joi.string().valid(...VISITOR_TYPE_FIELDS))
+        .unique()
+        .messages({
+            'any.only': `Required fields can only be ${VISITOR_TYPE_FIELDS.join(', ')}`,
+            'array.unique': 'Required fields cannot be listed twice'
+        }),
+    idProofRequired: Joi.boolean(),
+    photoRequired: Joi.boolean(),
+    approvalMode: Joi.string()
+        .valid(...VISITOR_TYPE_APPROVAL_MODES)
+        .messages({
+            'any.only': `Approval mode must be one of: ${VISITOR_TYPE_APPROVAL_MODES.join(', ')}`
+        }),
+    approvalPolicyName: Joi.string()
+        .allow(null)
+        .trim()
+        .max(100)
+        .messages({
+            'string.max': 'Approval policy name cannot exceed 100 characters'
+        }),
+    badgeColor: Joi.string()
+        .allow(null)
+        .pattern(/^#[0-9a-fA-F]{6}$/)
+        .messages({
+            'string.pattern.base': 'Badge colour must be a hex colour such as #D32F2F'
+        }),
+    maxDurationMinutes: Joi.number()
+        .allow(null)
+        .integer()
+        .min(15)
+        .max(480)
+        .messages({
+            'number.min': 'Maximum duration must be at least 15 minutes',
+            'number.max': 'Maximum duration cannot exceed 8 hours'
+        }),
+    isActive: Joi.boolean()
+};
+
+export const createVisitorTypeValidation = Joi.object({
+    ...typeFields,
+    name: typeFields.name.required().messages({
+        'any.required': 'Visitor type name is required'
+    })
+});
+
+export const visitorTypeParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid visitor type ID format',
+            'any.required': 'Visitor type ID is required'
+        })
+});
+
+export const updateVisitorTypeValidation = visitorTypeParamsValidation.keys(typeFields)
+    .or(...Object.keys(typeFields))
+    .messages({
+        'object.missing': 'At least one field must be provided for update'
+    });
+
+export const getVisitorTypesValidation = Joi.object({
+    page: Joi.number()
+        .optional()
+        .min(1)
+        .default(1)
+        .messages({
+            'number.min': 'Page number must be at least 1'
+        }),
+    limit: Joi.number()
+        .optional()
+        .min(1)
+        .max(100)
+        .default(10)
+        .messages({
+            'number.min': 'Limit must be at least 1',
+            'number.max': 'Limit cannot exceed 100'
+        }),
+    search: Joi.string()
+        .optional()
+        .trim()
+        .max(100),
+    isActive: Joi.boolean()
+        .optional()
+});
@@ -0,0 +1,183 @@
+import Joi from 'joi';
+import { WATCHLIST_SEVERITIES } from '../../utils/constants';
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+// Given by security to let a visitor the watchlist holds through
+export const watchlistOverrideReasonValidation = Joi.string()
+    .optional()
+    .trim()
+    .min(3)
+    .max(500)
+    .messages({
+        'string.min': 'Watchlist override reason must be at least 3 characters long',
+        'string.max': 'Watchlist override reason cannot exceed 500 characters'
+    });
+
+const entryFields = {
+    name: Joi.string()
+        .trim()
+        .min(2)
+        .max(100)
+        .messages({
+            'string.min': 'Name must be at least 2 characters long',
+            'string.max': 'Name cannot exceed 100 characters'
+        }),
+    phone: Joi.string()
+        .trim()
+        .pattern(/^[\+]?[1-9][\d]{0,15}$/)
+        .messages({
+            'string.pattern.base': 'Please enter a valid phone number'
+        }),
+    email: Joi.string()
+        .trim()
+        .lowercase()
+        .email()
+        .messages({
+            'string.email': 'Please enter a valid email address'
+        }),
+    idProofNumber: Joi.string()
+        .trim()
+        .min(2)
+        .max(50)
+        .messages({
+            'string.min': 'ID proof number must be at least 2 characters long',
+            'string.max': 'ID proof number cannot exceed 50 characters'
+        }),
+    vehicleNumber: Joi.string()
+        .trim()
+        .uppercase()
+        .max(20)
+        .messages({
+            'string.max': 'Vehicle number cannot exceed 20 characters'
+        }),
+    severity: Joi.string()
+        .valid(...WATCHLIST_SEVERITIES)
+        .messages({
+            'any.only': `Severity must be one of ${WATCHLIST_SEVERITIES.join(', ')}`
+        }),
+    reason: Joi.string()
+        .trim()
+        .min(3)
+        .max(500)
+        .messages({
+            'string.min': 'Reason must be at least 3 characters long',
+            'string.max': 'Reason cannot exceed 500 characters'
+        }),
+    notes: Joi.string()
+        .trim()
+        .max(1000)
+        .allow('')
+        .messages({
+            'string.max': 'Notes cannot exceed 1000 characters'
+        }),
+    expiresAt: Joi.date()
+        .greater('now')
+        .allow(null)
+        .messages({
+            'date.greater': 'Expiry must be in the future'
+        })
+};
+
+export const createWatchlistEntryValidation = Joi.object({
+    ...entryFields,
+    severity: entryFields.severity.required().messages({
+        'any.required': 'Severity is required'
+    }),
+    reason: entryFields.reason.required().messages({
+        'any.required': 'Reason is required'
+    })
+}).or('name', 'phone', 'email', 'idProofNumber', 'vehicleNumber').messages({
+    'object.missing': 'A watchlist entry needs a name, phone, email, ID proof number or vehicle number'
+});
+
+export const watchlistEntryParamsValidation = Joi.object({
+    id: Joi.string()
+        .required()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid watchlist entry ID format',
+            'any.required': 'Watchlist entry ID is required'
+        })
+});
+
+export const updateWatchlistEntryValidation = watchlistEntryParamsValidation.keys({
+    ...entryFields,
+    name: entryFields.name.allow(''),
+    phone: entryFields.phone.allow(''),
+    email: entryFields.email.allow(''),
+    idProofNumber: entryFields.idProofNumber.allow(''),
+    vehicleNumber: entryFields.vehicleNumber.allow(''),
+    isActive: Joi.boolean()
+}).or('name', 'phone', 'email', 'idProofNumber', 'vehicleNumber', 'severity', 'reason', 'notes', 'expiresAt', 'isActive').messages({
+    'object.missing': 'At least one field must be provided for update'
+});
+
+export const getWatchlistValidation = Joi.object({
+    page: Joi.number()
+        .optional()
+        .min(1)
+        .default(1)
+        .messages({
+            'number.min': 'Page number must be at least 1'
+        }),
+    limit: Joi.number()
+        .optional()
+        .min(1)
+        .max(100)
+        .default(10)
+        .messages({
+            'number.min': 'Limit must be at least 1',
+            'number.max': 'Limit cannot exceed 100'
+        }),
+    search: Joi.string()
+        .optional()
+        .trim()
+        .max(100),
+    severity: entryFields.severity.optional(),
+    isActive: Joi.boolean()
+        .optional()
+});
+
+export const getWatchlistHitsValidation = Joi.object({
+    page: Joi.number()
+        .optional()
+        .min(1)
+        .default(1)
+        .messages({
+            'number.min': 'Page number must be at least 1'
+        }),
+    limit: Joi.number()
+        .optional()
+        .min(1)
+        .max(100)
+        .default(10)
+        .messages({
+            'number.min': 'Limit must be at least 1',
+            'number.max': 'Limit cannot exceed 100'
+        }),
+    entryId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid watchlist entry ID format'
+        }),
+    visitorId: Joi.string()
+        .optional()
+        .pattern(objectIdPattern)
+        .messages({
+            'string.pattern.base': 'Invalid visitor ID format'
+        }),
+    context: Joi.string()
+        .optional()
+        .valid('visitor_registration', 'appointment_booking', 'check_in')
+        .messages({
+            'any.only': 'Context must be one of visitor_registration, appointment_booking, check_in'
+        }),
+    outcome: Joi.string()
+        .optional()
+        .valid('blocked', 'held', 'overridden', 'alerted')
+        .messages({
+            'any.only': 'Outcome must be one of blocked, held, overridden, alerted'
+        })
+});
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+
+/**
+ * A stand-in for a Mongoose query: chain methods return the query and awaiting it
+ * resolves to the given result
+ */
+export const mockQuery = <T>(result: T): any => {
+    const query: any = {
+        then: (resolve: (value: T) => unknown, reject?: (reason: unknown) => unknown) => Promise.resolve(result).then(resolve, reject),
+        exec: () => Promise.resolve(result),
+        cursor: () => (Array.isArray(result) ? result : [])
+    };
+    for (const method of ['populate', 'session', 'select', 'lean', 'sort', 'skip', 'limit']) {
+        query[method] = jest.fn(() => query);
+    }
+    return query;
+};
+
+export interface IMockSession {
+    session: any;
+    events: string[]; // Transaction steps in order: start, commit, abort
+}
+
+/**
+ * Make mongoose.startSession hand out a session that records its transaction steps
+ * without a database
+ */
+export const mockSession = (): IMockSession => {
+    const events: string[] = [];
+    let active = false;
+    const session = {
+        startTransaction: jest.fn(() => {
+            active = true;
+            events.push('start');
+        }),
+        commitTransaction: jest.fn(async () => {
+            active = false;
+            events.push('commit');
+        }),
+        abortTransaction: jest.fn(async () => {
+            active = false;
+            events.push('abort');
+        }),
+        inTransaction: jest.fn(() => active),
+        endSession: jest.fn()
+    };
+    jest.spyOn(mongoose, 'startSession').mockResolvedValue(session as any);
+    return { session, events };
+};
+
+export const objectId = (): string => new mongoose.Types.ObjectId().toString();
@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { AppointmentStatus, IStatusChangeActor } from '../../src/types/appointment/appointment.types';
+import { APPOINTMENT_STATUSES, APPOINTMENT_STATUS_TRANSITIONS, ERROR_CODES } from '../../src/utils/constants';
+
+const userId = new mongoose.Types.ObjectId().toString();
+const actor: IStatusChangeActor = { userId, source: 'dashboard' };
+
+const buildAppointment = (status: AppointmentStatus = 'pending') => new Appointment({ status });
+
+describe('APPOINTMENT_STATUS_TRANSITIONS', () => {
+    it('only moves to known statuses', () => {
+        for (const targets of Object.values(APPOINTMENT_STATUS_TRANSITIONS)) {
+            for (const target of targets) {
+                expect(APPOINTMENT_STATUSES).toContain(target);
+            }
+        }
+    });
+
+    it('ends the lifecycle at rejected, completed, cancelled and no_show', () => {
+        const terminal = APPOINTMENT_STATUSES.filter(status => APPOINTMENT_STATUS_TRANSITIONS[status].length === 0);
+        expect(terminal.sort()).toEqual(['cancelled', 'completed', 'no_show', 'rejected']);
+    });
+});
+
+describe('Appointment.transitionTo', () => {
+    it('follows the transition table for every pair of statuses', () => {
+        for (const from of APPOINTMENT_STATUSES) {
+            for (const to of APPOINTMENT_STATUSES) {
+                const appointment = buildAppointment(from);
+                const allowed = APPOINTMENT_STATUS_TRANSITIONS[from].includes(to);
+
+                expect(appointment.canTransitionTo(to)).toBe(allowed);
+                if (allowed) {
+                    appointment.transitionTo(to, actor);
+                    expect(appointment.status).toBe(to);
+                } else {
+                    expect(() => appointment.transitionTo(to, actor)).toThrow(`Cannot change appointment status from ${from} to ${to}`);
+                    expect(appointment.status).toBe(from);
+                }
+            }
+        }
+    });
+
+    it('rejects an invalid transition with a bad request error', () => {
+        const appointment = buildAppointment('completed');
+        let error: unknown;
+        try {
+            appointment.transitionTo('checked_in', actor);
+        } catch (err) {
+            error = err;
+        }
+
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).statusCode).toBe(ERROR_CODES.BAD_REQUEST);
+        expect(appointment.statusHistory).toHaveLength(0);
+    });
+
+    it('records the change in the status history', () => {
+        const appointment = buildAppointment('approved');
+        appointment.transitionTo('checked_in', { ...actor, note: 'Arrived at reception' });
+
+        expect(appointment.statusHistory).toHaveLength(1);
+        expect(appointment.statusHistory[0]).toMatchObject({
+            from: 'approved',
+            to: 'checked_in',
+            source: 'dashboard',
+            note: 'Arrived at reception'
+        });
+        expect(appointment.statusHistory[0].changedBy?.toString()).toBe(userId);
+        expect(appointment.statusReason).toBeFalsy();
+    });
+
+    it('records the approval decision when a pending appointment is approved', () => {
+        const approverId = new mongoose.Types.ObjectId().toString();
+        const appointment = buildAppointment();
+        appointment.transitionTo('approved', { source: 'approval_link', approverId });
+
+        expect(appointment.approval).toMatchObject({ decision: 'approved', source: 'approval_link', decidedBy: null });
+        expect(appointment.approval?.approverId?.toString()).toBe(approverId);
+        expect(appointment.approval?.reason).toBeUndefined();
+    });
+
+    it('records the reason and the rejection decision when a pending appointment is rejected', () => {
+        const appointment = buildAppointment();
+        appointment.transitionTo('rejected', {
+            ...actor,
+            note: 'No escort available',
+            reason: { code: 'no_escort', label: 'No escort available' }
+        });
+
+        expect(appointment.statusReason).toMatchObject({ code: 'no_escort', label: 'No escort available', comment: 'No escort available' });
+        expect(appointment.statusHistory[0].reasonCode).toBe('no_escort');
+        expect(appointment.approval).toMatchObject({ decision: 'rejected', reason: 'No escort available' });
+    });
+
+    it('does not record an approval decision for a cancellation', () => {
+        const appointment = buildAppointment('approved');
+        appointment.transitionTo('cancelled', actor);
+
+        expect(appointment.statusReason).toMatchObject({ code: null, label: null });
+        expect(appointment.approval).toBeFalsy();
+    });
+});
@@ -0,0 +1,72 @@
+import { AppointmentService } from '../../src/services/appointment/appointment.service';
+import { AvailabilityService } from '../../src/services/availability/availability.service';
+import { VisitorTypeService } from '../../src/services/visitorType/visitorType.service';
+import { DelegationService } from '../../src/services/delegation/delegation.service';
+import { Employee } from '../../src/models/employee/employee.model';
+import { ERROR_CODES } from '../../src/utils/constants';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const companyId = objectId();
+const employeeId = objectId();
+
+describe('AppointmentService.createWalkInAppointment', () => {
+    beforeEach(() => {
+        mockSession();
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('books the walk-in even outside the host\'s availability, keeping the other checks', async () => {
+        const visitor = { _id: objectId(), name: 'Sam Lee' };
+        jest.spyOn(AppointmentService as any, 'findOrCreateWalkInVisitor').mockResolvedValue({ visitor, created: true });
+        jest.spyOn(VisitorTypeService, 'resolveAppointmentType').mockResolvedValue(null);
+        const createAppointment = jest.spyOn(AppointmentService, 'createAppointment').mockResolvedValue({
+            _id: objectId(),
+            status: 'pending'
+        } as any);
+        jest.spyOn(AppointmentService as any, 'notifyHostOfWalkIn').mockResolvedValue(undefined);
+        jest.spyOn(DelegationService, 'notifyStandInApprovers').mockResolvedValue(0);
+
+        await AppointmentService.createWalkInAppointment({
+            visitor: { name: 'Sam Lee', phone: '+15550001111' },
+            employeeId,
+            appointmentDetails: { purpose: 'Delivery' }
+        } as any, companyId, {});
+
+        expect(createAppointment).toHaveBeenCalledWith(
+            expect.objectContaining({ employeeId, visitorId: visitor._id }),
+            companyId,
+            expect.objectContaining({ notify: false, overrideAvailability: true, watchlistOverrideReason: undefined })
+        );
+        expect(createAppointment.mock.calls[0][2]).not.toHaveProperty('skipWatchlist');
+    });
+});
+
+describe('AppointmentService.createAppointment', () => {
+    beforeEach(() => {
+        mockSession();
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('refuses a booking outside the host\'s availability without an override', async () => {
+        jest.spyOn(Employee, 'findOne').mockReturnValue(mockQuery({ _id: employeeId, status: 'Active' }));
+        jest.spyOn(AvailabilityService, 'checkAvailability').mockResolvedValue({
+            reason: 'outside_working_hours',
+            message: 'The employee does not work at this time'
+        });
+        const conflicts = jest.spyOn(AppointmentService, 'assertNoConflicts');
+
+        const booking = AppointmentService.createAppointment({
+            employeeId,
+            visitorId: objectId(),
+            appointmentDetails: { purpose: 'Meeting', scheduledDate: new Date(), scheduledTime: '18:05', duration: 30 }
+        } as any, companyId, {});
+
+        await expect(booking).rejects.toMatchObject({
+            statusCode: ERROR_CODES.BAD_REQUEST,
+            details: { reason: 'outside_working_hours' }
+        });
+        expect(conflicts).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import { AppointmentSeriesService } from '../../src/services/appointmentSeries/appointmentSeries.service';
+import { AppointmentService } from '../../src/services/appointment/appointment.service';
+import { CalendarService } from '../../src/services/calendar/calendar.service';
+import { Appointment, IAppointment } from '../../src/models/appointment/appointment.model';
+import { AppointmentSeries } from '../../src/models/appointmentSeries/appointmentSeries.model';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const companyId = objectId();
+
+// Weekly on Mondays from 6 January 2025, four occurrences
+const mondays = [6, 13, 20, 27].map(day => new Date(2025, 0, day));
+
+const buildSeries = () => new AppointmentSeries({
+    seriesId: 'SER-1',
+    employeeId: new mongoose.Types.ObjectId(),
+    visitorId: new mongoose.Types.ObjectId(),
+    appointmentDetails: { purpose: 'Weekly sync', scheduledTime: '10:00', duration: 60 },
+    recurrence: { frequency: 'weekly', interval: 1, byWeekday: [1], startDate: mondays[0], count: 4 },
+    approvalMode: 'series',
+    status: 'active',
+    createdBy: companyId
+});
+
+const buildOccurrences = (series: InstanceType<typeof AppointmentSeries>) => mondays.map(date => new Appointment({
+    status: 'approved',
+    employeeId: series.employeeId,
+    visitorId: series.visitorId,
+    seriesId: series._id,
+    occurrenceDate: date,
+    createdBy: companyId,
+    appointmentDetails: { purpose: 'Weekly sync', scheduledDate: date, scheduledTime: '10:00', duration: 60 }
+}));
+
+describe('AppointmentSeriesService scoped edits', () => {
+    let events: string[];
+    let series: InstanceType<typeof AppointmentSeries>;
+    let occurrences: IAppointment[];
+
+    const arrange = (target: IAppointment, scoped: IAppointment[], earlierCount: number) => {
+        jest.spyOn(AppointmentSeries, 'findOne').mockReturnValue(mockQuery(series));
+        jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(target));
+        jest.spyOn(Appointment, 'find').mockReturnValue(mockQuery(scoped));
+        jest.spyOn(Appointment, 'countDocuments').mockReturnValue(mockQuery(earlierCount));
+    };
+
+    beforeEach(() => {
+        ({ events } = mockSession());
+        series = buildSeries();
+        occurrences = buildOccurrences(series);
+        jest.spyOn(AppointmentSeries.prototype, 'save').mockImplementation(function (this: any) {
+            return Promise.resolve(this);
+        });
+        jest.spyOn(Appointment.prototype, 'save').mockImplementation(function (this: any) {
+            return Promise.resolve(this);
+        });
+        jest.spyOn(Appointment, 'updateMany').mockResolvedValue({ modifiedCount: 0 } as any);
+        jest.spyOn(Appointment, 'findOneAndUpdate').mockImplementation(((filter: any) =>
+            mockQuery(occurrences.find(occurrence => occurrence.id === filter._id))) as any);
+        jest.spyOn(CalendarService as any, 'deliverInviteUpdate').mockImplementation(async (appointment: any, method: unknown) => {
+            events.push(`${method}:${appointment.occurrenceDate.getDate()}`);
+        });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('cancelOccurrences', () => {
+        it('cancels a single occurrence and skips its date in the series', async () => {
+            arrange(occurrences[1], [occurrences[1]], 1);
+
+            const result = await AppointmentSeriesService.cancelOccurrences(series.id, occurrences[1].id, 'this', companyId, {});
+
+            expect(result.updatedCount).toBe(1);
+            expect(occurrences.map(occurrence => occurrence.status)).toEqual(['approved', 'cancelled', 'approved', 'approved']);
+            expect(series.exceptions).toEqual([mondays[1]]);
+            expect(series.status).toBe('active');
+            expect(events).toEqual(['start', 'commit', 'CANCEL:13']);
+        });
+
+        it('ends the series before "this and following" from a later occurrence', async () => {
+            arrange(occurrences[2], occurrences.slice(2), 2);
+
+            await AppointmentSeriesService.cancelOccurrences(series.id, occurrences[2].id, 'following', companyId, {});
+
+            expect(occurrences.map(occurrence => occurrence.status)).toEqual(['approved', 'approved', 'cancelled', 'cancelled']);
+            expect(series.recurrence.endDate).toEqual(new Date(2025, 0, 19));
+            expect(series.recurrence.count).toBe(2);
+            expect(series.status).toBe('active');
+        });
+
+        it('cancels the whole series for "this and following" from the first occurrence', async () => {
+            arrange(occurrences[0], occurrences, 0);
+
+            const result = await AppointmentSeriesService.cancelOccurrences(series.id, occurrences[0].id, 'following', companyId, {});
+
+            expect(result.updatedCount).toBe(4);
+            expect(series.status).toBe('cancelled');
+        });
+    });
+
+    describe('updateOccurrences', () => {
+        it('moves a later part of the series to a new series linked to the original', async () => {
+            arrange(occurrences[2], occurrences.slice(2), 2);
+            jest.spyOn(AppointmentService, 'assertNoConflicts').mockResolvedValue();
+
+            const result = await AppointmentSeriesService.updateOccurrences(
+                series.id, occurrences[2].id, { scope: 'following', scheduledTime: '14:00' }, companyId, {}
+            );
+
+            expect(result.updatedCount).toBe(2);
+            expect(result.series.parentSeriesId).toEqual(series._id);
+            expect(result.series.recurrence).toMatchObject({ startDate: mondays[2], count: 2 });
+            expect(series.recurrence.count).toBe(2);
+            expect(occurrences.map(occurrence => occurrence.appointmentDetails.scheduledTime)).toEqual(['10:00', '10:00', '14:00', '14:00']);
+            expect(Appointment.updateMany).toHaveBeenCalledWith(
+                { seriesId: series._id, occurrenceDate: { $gte: mondays[2] } },
+                { $set: { seriesId: expect.anything() } },
+                expect.anything()
+            );
+        });
+
+        it('marks an occurrence edited on its own as an exception', async () => {
+            arrange(occurrences[1], [occurrences[1]], 1);
+            jest.spyOn(AppointmentService, 'assertNoConflicts').mockResolvedValue();
+
+            await AppointmentSeriesService.updateOccurrences(series.id, occurrences[1].id, { scope: 'this', scheduledTime: '15:00' }, companyId, {});
+
+            expect(occurrences[1].isSeriesException).toBe(true);
+            expect(occurrences[2].isSeriesException).toBe(false);
+            expect(events).toEqual(['start', 'commit', 'REQUEST:13']);
+        });
+
+        it('sends no invite updates when a later occurrence conflicts and the edit is rolled back', async () => {
+            arrange(occurrences[0], occurrences, 0);
+            jest.spyOn(AppointmentService, 'assertNoConflicts')
+                .mockResolvedValueOnce()
+                .mockRejectedValueOnce(new AppError('Employee already has an appointment at this time', 409));
+
+            await expect(AppointmentSeriesService.updateOccurrences(
+                series.id, occurrences[0].id, { scope: 'all', scheduledTime: '16:00' }, companyId, {}
+            )).rejects.toMatchObject({ statusCode: 409 });
+
+            expect(events).toEqual(['start', 'abort']);
+        });
+
+        it('only moves a single occurrence to another date', async () => {
+            await expect(AppointmentSeriesService.updateOccurrences(
+                series.id, occurrences[0].id, { scope: 'all', scheduledDate: new Date(2025, 0, 7) }, companyId, {}
+            )).rejects.toMatchObject({ statusCode: 400 });
+        });
+    });
+});
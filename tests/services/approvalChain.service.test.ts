@@ -0,0 +1,96 @@
+import { ApprovalChainService } from '../../src/services/approvalChain/approvalChain.service';
+import { AppointmentService } from '../../src/services/appointment/appointment.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { IStatusChangeActor } from '../../src/types/appointment/appointment.types';
+import { ERROR_CODES } from '../../src/utils/constants';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const hostId = objectId();
+const securityId = objectId();
+const actor: IStatusChangeActor = { userId: objectId(), source: 'dashboard' };
+
+const buildAppointment = (currentStep: number = 0) => new Appointment({
+    employeeId: hostId,
+    createdBy: objectId(),
+    status: 'pending',
+    approvalChain: {
+        policyName: 'Restricted areas',
+        currentStep,
+        steps: [
+            { name: 'Host', approverIds: [hostId], status: currentStep === 0 ? 'pending' : 'approved' },
+            { name: 'Security', approverIds: [securityId], status: currentStep === 1 ? 'pending' : 'waiting' }
+        ]
+    }
+});
+
+describe('ApprovalChainService.recordDecision', () => {
+    it('settles an appointment without an approval chain', () => {
+        const appointment = new Appointment({ status: 'pending' });
+        expect(ApprovalChainService.recordDecision(appointment, 'approved', actor)).toBe(true);
+    });
+
+    it('moves the chain on to the next step after the host approves', () => {
+        const appointment = buildAppointment();
+
+        expect(ApprovalChainService.recordDecision(appointment, 'approved', actor, 0)).toBe(false);
+        expect(appointment.approvalChain?.currentStep).toBe(1);
+        expect(appointment.approvalChain?.steps[0].status).toBe('approved');
+        expect(appointment.approvalChain?.steps[0].decidedBy?.toString()).toBe(actor.userId);
+        expect(appointment.approvalChain?.steps[1].status).toBe('pending');
+    });
+
+    it('settles the appointment on the last step', () => {
+        const appointment = buildAppointment(1);
+        expect(ApprovalChainService.recordDecision(appointment, 'approved', { source: 'approval_link', approverId: securityId }, 1)).toBe(true);
+        expect(appointment.approvalChain?.steps[1].approverId?.toString()).toBe(securityId);
+    });
+
+    it('settles the appointment on any rejection', () => {
+        const appointment = buildAppointment();
+        expect(ApprovalChainService.recordDecision(appointment, 'rejected', { ...actor, note: 'Not this week' }, 0)).toBe(true);
+        expect(appointment.approvalChain?.steps[0].reason).toBe('Not this week');
+        expect(appointment.approvalChain?.currentStep).toBe(0);
+    });
+
+    it('refuses a decision for a step the chain is not waiting on', () => {
+        const appointment = buildAppointment(1);
+        expect(() => ApprovalChainService.recordDecision(appointment, 'approved', actor, 0)).toThrow('This request is waiting for Security approval');
+        expect(appointment.approvalChain?.steps[1].status).toBe('pending');
+    });
+});
+
+describe('AppointmentService.approveAppointment', () => {
+    beforeEach(() => {
+        mockSession();
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('approves the host step from the dashboard and asks the next step', async () => {
+        const appointment = buildAppointment();
+        const save = jest.spyOn(appointment, 'save').mockResolvedValue(appointment);
+        jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+        const notify = jest.spyOn(ApprovalChainService, 'notifyCurrentStep').mockResolvedValue();
+
+        const result = await AppointmentService.approveAppointment(objectId(), actor.userId as string);
+
+        expect(result.status).toBe('pending');
+        expect(appointment.approvalChain?.currentStep).toBe(1);
+        expect(save).toHaveBeenCalled();
+        expect(notify).toHaveBeenCalled();
+    });
+
+    it('does not let the dashboard approve a later step', async () => {
+        const appointment = buildAppointment(1);
+        const save = jest.spyOn(appointment, 'save').mockResolvedValue(appointment);
+        jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+
+        const approval = AppointmentService.approveAppointment(objectId(), actor.userId as string);
+
+        await expect(approval).rejects.toBeInstanceOf(AppError);
+        await expect(approval).rejects.toMatchObject({ statusCode: ERROR_CODES.BAD_REQUEST });
+        expect(appointment.status).toBe('pending');
+        expect(save).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,92 @@
+import * as crypto from 'crypto';
+import { ApprovalLinkService } from '../../src/services/approvalLink/approvalLink.service';
+import { ApprovalLink } from '../../src/models/approvalLink/approvalLink.model';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const tomorrow = AppointmentTimeUtil.addMinutes(new Date(), 24 * 60);
+const appointment = new Appointment({
+    status: 'pending',
+    createdBy: objectId(),
+    appointmentDetails: { purpose: 'Meeting', scheduledDate: tomorrow, scheduledTime: '10:00', duration: 60 }
+});
+const approverId = objectId();
+
+const buildLink = (overrides: Record<string, unknown> = {}) => new ApprovalLink({
+    appointmentId: appointment._id,
+    approverId,
+    step: 0,
+    tokenHash: hash('original-token'),
+    expiresAt: AppointmentTimeUtil.addMinutes(new Date(), 60),
+    sendCount: 1,
+    ...overrides
+});
+
+describe('ApprovalLinkService', () => {
+    let save: jest.SpyInstance;
+
+    beforeEach(() => {
+        save = jest.spyOn(ApprovalLink.prototype, 'save').mockImplementation(function (this: any) {
+            return Promise.resolve(this);
+        });
+        jest.spyOn(ApprovalLink, 'exists').mockReturnValue(mockQuery(null));
+        jest.spyOn(ApprovalLinkService as any, 'getExpiry').mockResolvedValue(tomorrow);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('createApprovalLink', () => {
+        beforeEach(() => {
+            jest.spyOn(Appointment, 'findById').mockReturnValue(mockQuery(appointment));
+        });
+
+        it('issues a link the first time it is asked for', async () => {
+            jest.spyOn(ApprovalLink, 'findOne').mockReturnValue(mockQuery(null));
+
+            const issued = await ApprovalLinkService.createApprovalLink(appointment.id, { approverId });
+
+            expect(issued?.link).toContain(issued?.token);
+            expect(save).toHaveBeenCalledTimes(1);
+            expect(save.mock.contexts[0]).toMatchObject({ tokenHash: hash(issued!.token), sendCount: 1 });
+        });
+
+        it('leaves a working link alone so the URL already sent keeps working', async () => {
+            const existing = buildLink();
+            jest.spyOn(ApprovalLink, 'findOne').mockReturnValue(mockQuery(existing));
+
+            expect(await ApprovalLinkService.createApprovalLink(appointment.id, { approverId })).toBeNull();
+            expect(existing.tokenHash).toBe(hash('original-token'));
+            expect(save).not.toHaveBeenCalled();
+        });
+
+        it('reissues a link that has expired', async () => {
+            const existing = buildLink({ expiresAt: AppointmentTimeUtil.addMinutes(new Date(), -1) });
+            jest.spyOn(ApprovalLink, 'findOne').mockReturnValue(mockQuery(existing));
+
+            const issued = await ApprovalLinkService.createApprovalLink(appointment.id, { approverId });
+
+            expect(existing.tokenHash).toBe(hash(issued!.token));
+            expect(existing.sendCount).toBe(2);
+        });
+    });
+
+    describe('resendApprovalLink', () => {
+        it('gives a working link a new token and sends it', async () => {
+            mockSession();
+            const existing = buildLink({ revokedAt: new Date() });
+            jest.spyOn(ApprovalLinkService as any, 'findOwnedAppointment').mockResolvedValue(appointment);
+            jest.spyOn(ApprovalLinkService as any, 'findLink').mockResolvedValue(existing);
+            jest.spyOn(ApprovalLinkService as any, 'toResponse').mockReturnValue({});
+            const sendLink = jest.spyOn(ApprovalLinkService as any, 'sendLink').mockResolvedValue(undefined);
+
+            const { link } = await ApprovalLinkService.resendApprovalLink(appointment.id, existing.id, objectId());
+
+            expect(existing.tokenHash).not.toBe(hash('original-token'));
+            expect(existing.revokedAt).toBeNull();
+            expect(sendLink).toHaveBeenCalledWith(existing, appointment, link, expect.anything());
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import { AttendanceService } from '../../src/services/attendance/attendance.service';
+import { SettingsService } from '../../src/services/settings/settings.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { Settings } from '../../src/models/settings/settings.model';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+import { DEFAULT_ATTENDANCE_SETTINGS } from '../../src/utils/constants';
+import { mockQuery, objectId } from '../helpers/mongoose.helper';
+
+const now = new Date(2025, 0, 6, 15, 0);
+
+describe('AttendanceService', () => {
+    let updateOne: jest.SpyInstance;
+
+    const arrange = (appointments: any[], modifiedCount: number = 1) => {
+        jest.spyOn(Settings, 'distinct').mockResolvedValue([] as any);
+        jest.spyOn(Appointment, 'find').mockReturnValue(mockQuery(appointments));
+        jest.spyOn(SettingsService, 'getAttendanceSettings').mockResolvedValue(DEFAULT_ATTENDANCE_SETTINGS);
+        updateOne = jest.spyOn(Appointment, 'updateOne').mockResolvedValue({ modifiedCount } as any);
+    };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('markNoShows', () => {
+        const endingMinutesAgo = (minutes: number) => {
+            const start = AppointmentTimeUtil.addMinutes(now, -minutes - 60);
+            return {
+                _id: objectId(),
+                createdBy: objectId(),
+                appointmentDetails: { scheduledDate: start, scheduledTime: AppointmentTimeUtil.formatTime(start), duration: 60 }
+            };
+        };
+
+        it('waits for the grace period after the scheduled end', async () => {
+            arrange([endingMinutesAgo(DEFAULT_ATTENDANCE_SETTINGS.noShowGraceMinutes - 1)]);
+
+            expect(await AttendanceService.markNoShows(now)).toBe(0);
+            expect(updateOne).not.toHaveBeenCalled();
+        });
+
+        it('marks the visit as a no-show only while it is still approved', async () => {
+            const appointment = endingMinutesAgo(DEFAULT_ATTENDANCE_SETTINGS.noShowGraceMinutes);
+            arrange([appointment]);
+
+            expect(await AttendanceService.markNoShows(now)).toBe(1);
+            expect(updateOne).toHaveBeenCalledWith(
+                { _id: appointment._id, status: 'approved' },
+                expect.objectContaining({ $set: expect.objectContaining({ status: 'no_show' }) }),
+                expect.anything()
+            );
+        });
+
+        it('does not count a visit that was checked in while the job ran', async () => {
+            arrange([endingMinutesAgo(120)], 0);
+
+            expect(await AttendanceService.markNoShows(now)).toBe(0);
+        });
+    });
+
+    describe('autoCheckout', () => {
+        const checkedIn = (checkInTime: Date, attendees: any[] = []) => ({
+            _id: objectId(),
+            createdBy: objectId(),
+            status: 'checked_in',
+            checkInTime,
+            attendees
+        });
+
+        it('leaves visitors on site until the end-of-day cutoff', async () => {
+            arrange([checkedIn(new Date(2025, 0, 6, 9, 0))]);
+
+            expect(await AttendanceService.autoCheckout(now)).toBe(0);
+            expect(updateOne).not.toHaveBeenCalled();
+        });
+
+        it('checks out at the cutoff everyone in the group still on site', async () => {
+            const appointment = checkedIn(new Date(2025, 0, 5, 22, 0), [{ visitorId: objectId(), checkInTime: new Date(2025, 0, 5, 22, 0) }]);
+            arrange([appointment]);
+
+            expect(await AttendanceService.autoCheckout(now)).toBe(1);
+
+            const cutoff = new Date(2025, 0, 5, 23, 0);
+            expect(updateOne).toHaveBeenCalledWith(
+                { _id: appointment._id, status: 'checked_in' },
+                expect.objectContaining({
+                    $set: expect.objectContaining({
+                        status: 'completed',
+                        checkOutTime: cutoff,
+                        actualDuration: 60,
+                        autoCheckedOut: true,
+                        'attendees.$[onSite].checkOutTime': cutoff
+                    })
+                }),
+                { arrayFilters: [{ 'onSite.checkInTime': { $ne: null }, 'onSite.checkOutTime': null }] }
+            );
+        });
+
+        it('checks out a visitor who arrived after the cutoff at the next day\'s cutoff', async () => {
+            arrange([checkedIn(new Date(2025, 0, 5, 23, 30))]);
+
+            expect(await AttendanceService.autoCheckout(now)).toBe(0);
+        });
+    });
+});
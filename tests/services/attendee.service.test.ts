@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import { AttendeeService } from '../../src/services/attendee/attendee.service';
+import { WatchlistService } from '../../src/services/watchlist/watchlist.service';
+import { BadgeService } from '../../src/services/badge/badge.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { AppError } from '../../src/middlewares/errorHandler';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const companyId = objectId();
+const leadId = new mongoose.Types.ObjectId();
+const guestId = new mongoose.Types.ObjectId();
+
+const buildAppointment = (status: string = 'approved') => new Appointment({
+    status,
+    visitorId: leadId,
+    attendees: [{ visitorId: leadId, isLead: true }, { visitorId: guestId, isLead: false }],
+    createdBy: companyId,
+    appointmentDetails: { purpose: 'Meeting', scheduledDate: new Date(), scheduledTime: '10:00', duration: 60 }
+});
+
+describe('AttendeeService', () => {
+    let save: jest.SpyInstance;
+
+    beforeEach(() => {
+        mockSession();
+        jest.spyOn(WatchlistService, 'screenVisitors').mockResolvedValue();
+        jest.spyOn(BadgeService, 'issueOnCheckIn').mockResolvedValue();
+        save = jest.spyOn(Appointment.prototype, 'save').mockImplementation(function (this: any) {
+            return Promise.resolve(this);
+        });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('checkInAttendee', () => {
+        it('checks in the appointment with its first visitor', async () => {
+            const appointment = buildAppointment();
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+
+            await AttendeeService.checkInAttendee(appointment.id, guestId.toString(), {}, companyId, {});
+
+            expect(appointment.status).toBe('checked_in');
+            expect(appointment.checkInTime).toBeInstanceOf(Date);
+            expect(appointment.attendees[1].checkInTime).toEqual(appointment.checkInTime);
+            expect(appointment.attendees[0].checkInTime).toBeFalsy();
+        });
+
+        it('keeps the visit check-in time when the rest of the group arrives', async () => {
+            const appointment = buildAppointment();
+            const arrivedAt = new Date(Date.now() - 10 * 60 * 1000);
+            appointment.status = 'checked_in';
+            appointment.checkInTime = arrivedAt;
+            appointment.attendees[0].checkInTime = arrivedAt;
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+
+            await AttendeeService.checkInAttendee(appointment.id, guestId.toString(), {}, companyId, {});
+
+            expect(appointment.checkInTime).toBe(arrivedAt);
+            expect(appointment.attendees[1].checkInTime).not.toEqual(arrivedAt);
+        });
+
+        it('checks nobody in when the watchlist stops the visitor', async () => {
+            const appointment = buildAppointment();
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+            jest.spyOn(WatchlistService, 'screenVisitors').mockRejectedValue(new AppError('Visitor is on the watchlist', 403));
+
+            await expect(AttendeeService.checkInAttendee(appointment.id, leadId.toString(), {}, companyId, {}))
+                .rejects.toMatchObject({ statusCode: 403 });
+            expect(save).not.toHaveBeenCalled();
+        });
+
+        it('refuses a visitor who is not on the appointment', async () => {
+            const appointment = buildAppointment();
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+
+            await expect(AttendeeService.checkInAttendee(appointment.id, objectId(), {}, companyId, {}))
+                .rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+
+    describe('checkOutAttendee', () => {
+        const onSite = () => {
+            const appointment = buildAppointment('checked_in');
+            const arrivedAt = new Date(Date.now() - 90 * 60 * 1000);
+            appointment.checkInTime = arrivedAt;
+            appointment.attendees.forEach(attendee => {
+                attendee.checkInTime = arrivedAt;
+            });
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+            return appointment;
+        };
+
+        it('keeps the visit open while part of the group is still on site', async () => {
+            const appointment = onSite();
+
+            await AttendeeService.checkOutAttendee(appointment.id, leadId.toString(), companyId, {});
+
+            expect(appointment.status).toBe('checked_in');
+            expect(appointment.attendees[0].checkOutTime).toBeInstanceOf(Date);
+        });
+
+        it('completes the visit once the last visitor leaves', async () => {
+            const appointment = onSite();
+            appointment.attendees[0].checkOutTime = new Date();
+
+            await AttendeeService.checkOutAttendee(appointment.id, guestId.toString(), companyId, {});
+
+            expect(appointment.status).toBe('completed');
+            expect(appointment.actualDuration).toBe(90);
+        });
+    });
+});
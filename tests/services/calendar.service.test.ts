@@ -0,0 +1,62 @@
+import { CalendarService } from '../../src/services/calendar/calendar.service';
+import { EmailService } from '../../src/services/email/email.service';
+import { SettingsService } from '../../src/services/settings/settings.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { TransactionUtil } from '../../src/utils/transaction.util';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const buildAppointment = () => ({
+    _id: objectId(),
+    createdBy: objectId(),
+    calendarSequence: 1,
+    appointmentDetails: { purpose: 'Meeting', scheduledDate: new Date(), scheduledTime: '10:00', duration: 60 },
+    employeeId: { name: 'Host', email: 'host@example.com' },
+    visitorId: { name: 'Visitor', email: 'visitor@example.com' }
+});
+
+describe('CalendarService.sendInviteUpdate', () => {
+    let events: string[];
+
+    beforeEach(() => {
+        ({ events } = mockSession());
+        jest.spyOn(SettingsService, 'isEmailEnabled').mockResolvedValue(true);
+        jest.spyOn(CalendarService, 'buildInviteAttachment').mockResolvedValue({ filename: 'invite.ics', content: '', contentType: 'text/calendar' });
+        jest.spyOn(EmailService, 'sendAppointmentCalendarUpdateEmail').mockImplementation(async (email) => {
+            events.push(`email:${email}`);
+        });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('bumps the sequence in the transaction and emails visitor and host after commit', async () => {
+        const update = jest.spyOn(Appointment, 'findOneAndUpdate').mockReturnValue(mockQuery(buildAppointment()));
+
+        await TransactionUtil.executeTransaction(async (session) => {
+            await CalendarService.sendInviteUpdate(objectId(), 'REQUEST', session);
+            events.push('updated');
+        });
+
+        expect(update).toHaveBeenCalledWith(expect.anything(), { $inc: { calendarSequence: 1 } }, expect.objectContaining({ session: expect.anything() }));
+        expect(events).toEqual(['start', 'updated', 'commit', 'email:visitor@example.com', 'email:host@example.com']);
+    });
+
+    it('sends nothing for a batch that is rolled back', async () => {
+        jest.spyOn(Appointment, 'findOneAndUpdate').mockReturnValue(mockQuery(buildAppointment()));
+
+        await expect(TransactionUtil.executeTransaction(async (session) => {
+            await CalendarService.sendInviteUpdate(objectId(), 'CANCEL', session);
+            await CalendarService.sendInviteUpdate(objectId(), 'CANCEL', session);
+            throw new Error('Room conflict');
+        })).rejects.toThrow('Room conflict');
+
+        expect(EmailService.sendAppointmentCalendarUpdateEmail).not.toHaveBeenCalled();
+    });
+
+    it('sends nothing when no invite was sent on approval', async () => {
+        jest.spyOn(Appointment, 'findOneAndUpdate').mockReturnValue(mockQuery(null));
+
+        await CalendarService.sendInviteUpdate(objectId(), 'REQUEST');
+
+        expect(EmailService.sendAppointmentCalendarUpdateEmail).not.toHaveBeenCalled();
+    });
+});
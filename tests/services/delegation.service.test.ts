@@ -0,0 +1,102 @@
+import { DelegationService } from '../../src/services/delegation/delegation.service';
+import { ApprovalLinkService } from '../../src/services/approvalLink/approvalLink.service';
+import { Employee } from '../../src/models/employee/employee.model';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const companyId = objectId();
+
+const buildEmployee = (name: string, delegateId?: string) => {
+    const employee = new Employee({
+        name,
+        email: `${name.toLowerCase()}@example.com`,
+        phone: '+15550000000',
+        department: 'Sales',
+        createdBy: companyId,
+        ...(delegateId && { delegation: { delegateId } })
+    });
+    jest.spyOn(employee, 'save').mockResolvedValue(employee);
+    return employee;
+};
+
+describe('DelegationService.setDelegation', () => {
+    let events: string[];
+    let session: any;
+
+    beforeEach(() => {
+        ({ events, session } = mockSession());
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    const arrange = (host: any, delegate: any) => {
+        const pending = new Appointment({
+            _id: objectId(),
+            employeeId: host._id,
+            createdBy: companyId,
+            status: 'pending',
+            appointmentDetails: { purpose: 'Meeting', scheduledDate: new Date(), scheduledTime: '10:00', duration: 60 }
+        });
+
+        jest.spyOn(Employee, 'findOne').mockImplementation(((filter: any) => {
+            return mockQuery(filter._id.toString() === host.id ? host : delegate);
+        }) as any);
+        const findById = jest.spyOn(Employee, 'findById');
+        jest.spyOn(Appointment, 'find').mockReturnValue(mockQuery([{ _id: pending._id }]));
+        jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(pending));
+        const createLink = jest.spyOn(ApprovalLinkService, 'createApprovalLink').mockImplementation(async (_id, approver, linkSession) => {
+            events.push(`link:${approver?.approverId}:${linkSession === session ? 'session' : 'none'}`);
+            return { link: 'https://safein.app/approve/token' } as any;
+        });
+        const send = jest.spyOn(DelegationService, 'sendStandInRequest').mockImplementation(async (_appointment, _host, approver) => {
+            events.push(`send:${approver._id}`);
+        });
+
+        return { findById, createLink, send };
+    };
+
+    it('forwards pending approvals to a first delegate in the transaction and sends the links after commit', async () => {
+        const host = buildEmployee('Host');
+        const delegate = buildEmployee('Delegate');
+        const { findById, send } = arrange(host, delegate);
+
+        await DelegationService.setDelegation(host.id, { delegateId: delegate.id }, companyId, {});
+
+        expect(findById).not.toHaveBeenCalled();
+        expect(send).toHaveBeenCalledWith(expect.anything(), host, delegate, true, 'https://safein.app/approve/token');
+        expect(events).toEqual(['start', `link:${delegate._id}:session`, 'commit', `send:${delegate._id}`]);
+    });
+
+    it('forwards to the new delegate when the delegate changes', async () => {
+        const previous = buildEmployee('Previous');
+        const host = buildEmployee('Host', previous.id);
+        const delegate = buildEmployee('Delegate');
+        const { send } = arrange(host, delegate);
+
+        await DelegationService.setDelegation(host.id, { delegateId: delegate.id }, companyId, {});
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send.mock.calls[0][2]).toBe(delegate);
+    });
+
+    it('sends nothing when the delegation starts later', async () => {
+        const host = buildEmployee('Host');
+        const delegate = buildEmployee('Delegate');
+        const { createLink, send } = arrange(host, delegate);
+        const startDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+        await DelegationService.setDelegation(host.id, { delegateId: delegate.id, startDate }, companyId, {});
+
+        expect(createLink).not.toHaveBeenCalled();
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('refuses to delegate to the employee themselves', async () => {
+        const host = buildEmployee('Host');
+        arrange(host, host);
+
+        await expect(DelegationService.setDelegation(host.id, { delegateId: host.id }, companyId, {}))
+            .rejects.toThrow('An employee cannot delegate to themselves');
+        expect(events).toEqual(['start', 'abort']);
+    });
+});
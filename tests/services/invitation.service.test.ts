@@ -0,0 +1,67 @@
+import * as crypto from 'crypto';
+import { InvitationService } from '../../src/services/invitation/invitation.service';
+import { Invitation } from '../../src/models/invitation/invitation.model';
+import { Employee } from '../../src/models/employee/employee.model';
+import { User } from '../../src/models/user/user.model';
+import { SettingsService } from '../../src/services/settings/settings.service';
+import { EmailService } from '../../src/services/email/email.service';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const companyId = objectId();
+const tomorrow = AppointmentTimeUtil.addMinutes(new Date(), 24 * 60);
+
+const buildInvitation = () => new Invitation({
+    employeeId: objectId(),
+    guest: { name: 'Sam Lee', email: 'sam@example.com' },
+    appointmentDetails: { purpose: 'Meeting', scheduledDate: tomorrow, scheduledTime: '10:00', duration: 60 },
+    tokenHash: hash('original-token'),
+    expiresAt: tomorrow,
+    createdBy: companyId
+});
+
+describe('InvitationService', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('resendInvitation', () => {
+        it('stores only the hash of the new token and emails the token itself', async () => {
+            mockSession();
+            const invitation = buildInvitation();
+            jest.spyOn(Invitation, 'findOne').mockReturnValue(mockQuery(invitation));
+            jest.spyOn(Employee, 'findById').mockReturnValue(mockQuery({ name: 'Alex Host' }));
+            jest.spyOn(User, 'findById').mockReturnValue(mockQuery({ companyName: 'Acme' }));
+            jest.spyOn(SettingsService, 'isEmailEnabled').mockResolvedValue(true);
+            jest.spyOn(SettingsService, 'isWhatsAppEnabled').mockResolvedValue(false);
+            const email = jest.spyOn(EmailService, 'sendVisitorInvitationEmail').mockResolvedValue(true as any);
+            jest.spyOn(Invitation.prototype, 'save').mockImplementation(function (this: any) {
+                return Promise.resolve(this);
+            });
+
+            const result = await InvitationService.resendInvitation(invitation.id, companyId, {});
+
+            const token = result.inviteLink!.split('/').pop() as string;
+            expect(invitation.tokenHash).toBe(hash(token));
+            expect(invitation.tokenHash).not.toBe(hash('original-token'));
+            expect(JSON.stringify(invitation.toObject())).not.toContain(token);
+            expect(result).not.toHaveProperty('tokenHash');
+            expect(email).toHaveBeenCalledWith(
+                'sam@example.com', 'Sam Lee', 'Alex Host', 'Acme', tomorrow, '10:00', 'Meeting', result.inviteLink, invitation.expiresAt
+            );
+        });
+    });
+
+    describe('getInvitationForm', () => {
+        it('finds the invitation by the hash of the token in the link', async () => {
+            const findOne = jest.spyOn(Invitation, 'findOne').mockResolvedValue(buildInvitation());
+            jest.spyOn(User, 'findById').mockReturnValue(mockQuery({ companyName: 'Acme' }));
+            jest.spyOn(Employee, 'findById').mockReturnValue(mockQuery({ name: 'Alex Host' }));
+
+            const form = await InvitationService.getInvitationForm('original-token');
+
+            expect(findOne).toHaveBeenCalledWith({ tokenHash: hash('original-token') });
+            expect(form).toMatchObject({ status: 'pending', hostName: 'Alex Host', companyName: 'Acme' });
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+import { OnSiteService } from '../../src/services/onSite/onSite.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { MeetingRoom } from '../../src/models/meetingRoom/meetingRoom.model';
+import { Visitor } from '../../src/models/visitor/visitor.model';
+import { mockQuery, objectId } from '../helpers/mongoose.helper';
+
+const companyId = objectId();
+const roomId = new mongoose.Types.ObjectId();
+const visitorIds = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+
+const onSiteVisit = (visitorId: mongoose.Types.ObjectId, checkInTime: Date, room: any) => ({
+    _id: new mongoose.Types.ObjectId(),
+    appointmentId: `APT${checkInTime.getTime()}`,
+    visitorId,
+    status: 'checked_in',
+    checkInTime,
+    accompanyingCount: 0,
+    attendees: [],
+    employeeId: null,
+    appointmentDetails: { meetingRoomId: room, meetingRoom: room?.name }
+});
+
+describe('OnSiteService.listOnSite', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('lists visits without a room for a site, marked as site unknown', async () => {
+        const roomsFind = jest.spyOn(MeetingRoom, 'find').mockReturnValue(mockQuery([{ _id: roomId }]));
+        const appointmentsFind = jest.spyOn(Appointment, 'find').mockReturnValue(mockQuery([
+            onSiteVisit(visitorIds[0], new Date(2025, 0, 6, 9), { _id: roomId, name: 'Board room', site: 'North' }),
+            onSiteVisit(visitorIds[1], new Date(2025, 0, 6, 10), null)
+        ]));
+        jest.spyOn(Visitor, 'find').mockReturnValue(mockQuery(visitorIds.map((_id, index) => ({ _id, name: `Visitor ${index}` }))));
+
+        const visitors = await OnSiteService.listOnSite(companyId, 'North');
+
+        expect(roomsFind).toHaveBeenCalledWith(expect.objectContaining({
+            $or: [{ site: expect.anything() }, { site: { $in: [null, ''] } }]
+        }));
+        expect(appointmentsFind).toHaveBeenCalledWith(expect.objectContaining({
+            $or: [
+                { 'appointmentDetails.meetingRoomId': { $in: [roomId] } },
+                { 'appointmentDetails.meetingRoomId': null }
+            ]
+        }));
+        expect(visitors.map(visitor => [visitor.visitor.name, visitor.siteUnknown])).toEqual([
+            ['Visitor 0', false],
+            ['Visitor 1', true]
+        ]);
+    });
+
+    it('does not filter by room without a site', async () => {
+        const roomsFind = jest.spyOn(MeetingRoom, 'find');
+        const appointmentsFind = jest.spyOn(Appointment, 'find').mockReturnValue(mockQuery([]));
+        jest.spyOn(Visitor, 'find').mockReturnValue(mockQuery([]));
+
+        expect(await OnSiteService.listOnSite(companyId)).toEqual([]);
+        expect(roomsFind).not.toHaveBeenCalled();
+        expect(appointmentsFind).toHaveBeenCalledWith(expect.not.objectContaining({ $or: expect.anything() }));
+    });
+});
@@ -0,0 +1,62 @@
+import { OverstayService } from '../../src/services/overstay/overstay.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { Settings } from '../../src/models/settings/settings.model';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+import { DEFAULT_ATTENDANCE_SETTINGS, ON_SITE_STATUSES } from '../../src/utils/constants';
+import { mockQuery, objectId } from '../helpers/mongoose.helper';
+
+const now = new Date(2025, 0, 6, 15, 0);
+
+const checkedIn = (minutesAgo: number, duration: number = 60) => ({
+    _id: objectId(),
+    createdBy: objectId(),
+    checkInTime: AppointmentTimeUtil.addMinutes(now, -minutesAgo),
+    appointmentDetails: { duration }
+});
+
+describe('OverstayService.sendOverstayAlerts', () => {
+    let updateOne: jest.SpyInstance;
+    let sendAlert: jest.SpyInstance;
+
+    const arrange = (appointments: any[], claimed: number = 1) => {
+        jest.spyOn(Settings, 'distinct').mockResolvedValue([] as any);
+        jest.spyOn(Appointment, 'find').mockReturnValue(mockQuery(appointments));
+        jest.spyOn(OverstayService as any, 'getCompanyConfig').mockResolvedValue({
+            attendance: DEFAULT_ATTENDANCE_SETTINGS,
+            emailEnabled: true,
+            whatsappEnabled: false,
+            security: { emails: ['security@example.com'], phones: [] }
+        });
+        updateOne = jest.spyOn(Appointment, 'updateOne').mockResolvedValue({ modifiedCount: claimed } as any);
+        sendAlert = jest.spyOn(OverstayService as any, 'sendAlert').mockResolvedValue(undefined);
+    };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('leaves visits alone until the grace period after their duration has passed', async () => {
+        arrange([checkedIn(60 + DEFAULT_ATTENDANCE_SETTINGS.overstayGraceMinutes - 1)]);
+
+        expect(await OverstayService.sendOverstayAlerts(now)).toBe(0);
+        expect(updateOne).not.toHaveBeenCalled();
+        expect(sendAlert).not.toHaveBeenCalled();
+    });
+
+    it('claims an overstaying visit while it is still on site before alerting', async () => {
+        const appointment = checkedIn(90);
+        arrange([appointment]);
+
+        expect(await OverstayService.sendOverstayAlerts(now)).toBe(1);
+        expect(updateOne).toHaveBeenCalledWith(
+            { _id: appointment._id, status: { $in: ON_SITE_STATUSES }, overstayAlertedAt: null },
+            { $set: { overstayAlertedAt: now } }
+        );
+        expect(sendAlert).toHaveBeenCalledWith(appointment._id, AppointmentTimeUtil.addMinutes(appointment.checkInTime, 60), expect.anything(), now);
+    });
+
+    it('does not alert a visit another run has already claimed', async () => {
+        arrange([checkedIn(90)], 0);
+
+        expect(await OverstayService.sendOverstayAlerts(now)).toBe(0);
+        expect(sendAlert).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,95 @@
+import { ReminderService } from '../../src/services/reminder/reminder.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { Settings } from '../../src/models/settings/settings.model';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+import { mockQuery, objectId } from '../helpers/mongoose.helper';
+
+const now = new Date(2025, 0, 6, 9, 0);
+
+const upcoming = (minutesAhead: number, reminderOffsetsSent: number[] = []) => {
+    const start = AppointmentTimeUtil.addMinutes(now, minutesAhead);
+    return {
+        _id: objectId(),
+        createdBy: objectId(),
+        appointmentDetails: { scheduledDate: start, scheduledTime: AppointmentTimeUtil.formatTime(start) },
+        reminderOffsetsSent
+    };
+};
+
+describe('ReminderService.sendDueReminders', () => {
+    let updateOne: jest.SpyInstance;
+    let sendReminder: jest.SpyInstance;
+
+    const arrange = (appointment: any, delivered: boolean | Error = true) => {
+        jest.spyOn(Settings, 'distinct').mockResolvedValue([] as any);
+        jest.spyOn(Appointment, 'find').mockReturnValue(mockQuery([appointment]));
+        jest.spyOn(ReminderService as any, 'getCompanyConfig').mockResolvedValue({
+            reminders: { enabled: true, offsets: [1440, 60], notifyVisitor: true, notifyHost: true },
+            emailEnabled: true,
+            whatsappEnabled: false,
+            companyName: 'Acme'
+        });
+        updateOne = jest.spyOn(Appointment, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+        sendReminder = jest.spyOn(ReminderService as any, 'sendReminder').mockImplementation(async () => {
+            if (delivered instanceof Error) {
+                throw delivered;
+            }
+            return delivered;
+        });
+    };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('sends only the latest of the offsets missed and claims only that one', async () => {
+        const appointment = upcoming(30);
+        arrange(appointment);
+
+        expect(await ReminderService.sendDueReminders(now)).toBe(1);
+        expect(sendReminder).toHaveBeenCalledWith(appointment._id, 60, expect.anything());
+        expect(updateOne).toHaveBeenNthCalledWith(1,
+            expect.objectContaining({ reminderOffsetsSent: { $not: { $lte: 60 } } }),
+            { $addToSet: { reminderOffsetsSent: 60 } }
+        );
+        expect(updateOne).toHaveBeenNthCalledWith(2, { _id: appointment._id }, { $set: { 'notifications.reminderSent': true } });
+    });
+
+    it('sends the earlier offset when it is the one due', async () => {
+        arrange(upcoming(20 * 60));
+
+        await ReminderService.sendDueReminders(now);
+
+        expect(sendReminder).toHaveBeenCalledWith(expect.any(String), 1440, expect.anything());
+    });
+
+    it('does not go back to an earlier offset once a later one is sent', async () => {
+        arrange(upcoming(30, [60]));
+
+        expect(await ReminderService.sendDueReminders(now)).toBe(0);
+        expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('releases the offset for the next run when nothing could be sent', async () => {
+        const appointment = upcoming(30);
+        arrange(appointment, false);
+
+        expect(await ReminderService.sendDueReminders(now)).toBe(0);
+        expect(updateOne).toHaveBeenLastCalledWith({ _id: appointment._id }, { $pull: { reminderOffsetsSent: 60 } });
+    });
+
+    it('releases the offset when sending throws', async () => {
+        const appointment = upcoming(30);
+        arrange(appointment, new Error('SMTP down'));
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await ReminderService.sendDueReminders(now)).toBe(0);
+        expect(updateOne).toHaveBeenLastCalledWith({ _id: appointment._id }, { $pull: { reminderOffsetsSent: 60 } });
+    });
+
+    it('skips an appointment another run has already claimed', async () => {
+        arrange(upcoming(30));
+        updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+        expect(await ReminderService.sendDueReminders(now)).toBe(0);
+        expect(sendReminder).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,44 @@
+import { RescheduleService } from '../../src/services/reschedule/reschedule.service';
+import { CalendarService } from '../../src/services/calendar/calendar.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const buildAppointment = (scheduledDate: Date) => new Appointment({
+    status: 'approved',
+    createdBy: objectId(),
+    visitorToken: 'visitor-token',
+    appointmentDetails: { purpose: 'Meeting', scheduledDate, scheduledTime: AppointmentTimeUtil.formatTime(scheduledDate), duration: 60 }
+});
+
+describe('RescheduleService', () => {
+    beforeEach(() => mockSession());
+
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('visitor link', () => {
+        it('stops accepting the link once the visit is over', async () => {
+            const appointment = buildAppointment(AppointmentTimeUtil.addMinutes(new Date(), -90));
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+            const save = jest.spyOn(Appointment.prototype, 'save');
+
+            await expect(RescheduleService.cancelByVisitor('visitor-token', undefined, {}))
+                .rejects.toMatchObject({ statusCode: 400, message: 'This link has expired' });
+            await expect(RescheduleService.getVisitorView('visitor-token')).rejects.toMatchObject({ statusCode: 400 });
+            expect(save).not.toHaveBeenCalled();
+        });
+
+        it('still accepts the link while the visit is under way', async () => {
+            const appointment = buildAppointment(AppointmentTimeUtil.addMinutes(new Date(), -30));
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery(appointment));
+            jest.spyOn(Appointment.prototype, 'save').mockImplementation(function (this: any) {
+                return Promise.resolve(this);
+            });
+            jest.spyOn(CalendarService, 'sendInviteUpdate').mockResolvedValue();
+
+            const view = await RescheduleService.cancelByVisitor('visitor-token', 'Running late', {});
+
+            expect(view.status).toBe('cancelled');
+        });
+    });
+});
@@ -0,0 +1,22 @@
+import { RollCallService } from '../../src/services/rollCall/rollCall.service';
+
+const toCsvValue = (value: unknown): string => (RollCallService as any).toCsvValue(value);
+
+describe('RollCallService CSV export', () => {
+    it('keeps spreadsheets from reading typed-in values as formulas', () => {
+        expect(toCsvValue('=HYPERLINK("http://evil")')).toBe(`"'=HYPERLINK(""http://evil"")"`);
+        expect(toCsvValue('@SUM(A1)')).toBe(`'@SUM(A1)`);
+        expect(toCsvValue('+cmd|calc')).toBe(`'+cmd|calc`);
+        expect(toCsvValue('-2+3')).toBe(`'-2+3`);
+    });
+
+    it('leaves international phone numbers as they are', () => {
+        expect(toCsvValue('+919876543210')).toBe('+919876543210');
+        expect(toCsvValue('+1 (555) 010-2030')).toBe('+1 (555) 010-2030');
+    });
+
+    it('quotes values with commas, quotes or line breaks', () => {
+        expect(toCsvValue('Lee, Sam')).toBe('"Lee, Sam"');
+        expect(toCsvValue(null)).toBe('');
+    });
+});
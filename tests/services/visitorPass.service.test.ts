@@ -0,0 +1,115 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { VisitorPassService } from '../../src/services/visitorPass/visitorPass.service';
+import { AttendeeService } from '../../src/services/attendee/attendee.service';
+import { Appointment } from '../../src/models/appointment/appointment.model';
+import { Visitor } from '../../src/models/visitor/visitor.model';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+import { JwtUtil } from '../../src/utils/jwt.util';
+import { VISITOR_PASS_GRACE_MINUTES } from '../../src/utils/constants';
+import { mockQuery, objectId } from '../helpers/mongoose.helper';
+
+const companyId = objectId();
+const visitorId = new mongoose.Types.ObjectId();
+
+const buildAppointment = (passVersion: number = 0) => new Appointment({
+    status: 'approved',
+    visitorId,
+    attendees: [{ visitorId, isLead: true }],
+    createdBy: companyId,
+    passVersion,
+    appointmentDetails: { purpose: 'Meeting', scheduledDate: new Date(), scheduledTime: AppointmentTimeUtil.formatTime(new Date()), duration: 60 }
+});
+
+describe('VisitorPassService', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    describe('issuePass', () => {
+        it('signs the visitor, the pass version and an expiry a grace period after the visit ends', () => {
+            const appointment = buildAppointment(3);
+            const { token } = VisitorPassService.issuePass(appointment, visitorId.toString());
+            const payload = jwt.decode(token) as any;
+
+            const { scheduledDate, scheduledTime, duration } = appointment.appointmentDetails;
+            const end = AppointmentTimeUtil.getWindow(scheduledDate, scheduledTime, duration).end;
+            expect(payload).toMatchObject({ appointmentId: appointment.id, visitorId: visitorId.toString(), version: 3 });
+            expect(payload.exp).toBe(Math.floor(AppointmentTimeUtil.addMinutes(end, VISITOR_PASS_GRACE_MINUTES).getTime() / 1000));
+            expect(payload.iat).toBeUndefined();
+        });
+
+        it('gives the same visitor the same pass again', () => {
+            const appointment = buildAppointment();
+            expect(VisitorPassService.issuePass(appointment, visitorId.toString()).token)
+                .toBe(VisitorPassService.issuePass(appointment, visitorId.toString()).token);
+        });
+    });
+
+    describe('renderQrCode', () => {
+        it('renders a current pass', async () => {
+            const appointment = buildAppointment(1);
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery({ passVersion: 1 }));
+
+            const image = await VisitorPassService.renderQrCode(VisitorPassService.issuePass(appointment, visitorId.toString()).token);
+
+            expect(image.subarray(1, 4).toString()).toBe('PNG');
+        });
+
+        it('refuses a revoked pass', async () => {
+            const { token } = VisitorPassService.issuePass(buildAppointment(1), visitorId.toString());
+            jest.spyOn(Appointment, 'findOne').mockReturnValue(mockQuery({ passVersion: 2 }));
+
+            await expect(VisitorPassService.renderQrCode(token)).rejects.toMatchObject({ details: { reason: 'revoked' } });
+        });
+
+        it('refuses an expired pass', async () => {
+            const token = JwtUtil.generateVisitorPassToken(
+                { appointmentId: objectId(), visitorId: visitorId.toString(), version: 0 },
+                AppointmentTimeUtil.addMinutes(new Date(), -1)
+            );
+            const findOne = jest.spyOn(Appointment, 'findOne');
+
+            await expect(VisitorPassService.renderQrCode(token)).rejects.toMatchObject({ details: { reason: 'invalid' } });
+            expect(findOne).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('scanPass', () => {
+        it('turns away a revoked pass before checking anyone in or out', async () => {
+            const appointment = buildAppointment();
+            const { token } = VisitorPassService.issuePass(appointment, visitorId.toString());
+            appointment.passVersion = 1;
+            jest.spyOn(Appointment, 'findOne').mockResolvedValue(appointment);
+            const checkIn = jest.spyOn(AttendeeService, 'checkInAttendee');
+
+            await expect(VisitorPassService.scanPass({ token }, companyId)).rejects.toMatchObject({ details: { reason: 'revoked' } });
+            expect(checkIn).not.toHaveBeenCalled();
+        });
+
+        it('checks in the visitor on a current pass', async () => {
+            const appointment = buildAppointment();
+            const { token } = VisitorPassService.issuePass(appointment, visitorId.toString());
+            jest.spyOn(Appointment, 'findOne').mockResolvedValue(appointment);
+            jest.spyOn(Visitor, 'findById').mockReturnValue(mockQuery({ name: 'Sam Lee' }));
+            const checkIn = jest.spyOn(AttendeeService, 'checkInAttendee').mockResolvedValue({} as any);
+
+            const result = await VisitorPassService.scanPass({ token, badgeNumber: 'B-12' }, companyId);
+
+            expect(result.action).toBe('checked_in');
+            expect(checkIn).toHaveBeenCalledWith(appointment.id, visitorId.toString(), { badgeNumber: 'B-12' }, companyId);
+        });
+    });
+
+    describe('revokePasses', () => {
+        it('bumps the pass version and sends the visitors new passes', async () => {
+            const appointment = buildAppointment(1);
+            const update = jest.spyOn(Appointment, 'findOneAndUpdate').mockResolvedValue(appointment);
+            const deliver = jest.spyOn(VisitorPassService, 'deliverPasses').mockResolvedValue();
+
+            const passes = await VisitorPassService.revokePasses(appointment.id, companyId);
+
+            expect(update).toHaveBeenCalledWith(expect.objectContaining({ createdBy: companyId }), { $inc: { passVersion: 1 } }, { new: true });
+            expect(deliver).toHaveBeenCalledWith(appointment.id);
+            expect((jwt.decode(passes[0].token) as any).version).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,91 @@
+import { WatchlistService } from '../../src/services/watchlist/watchlist.service';
+import { WatchlistEntry } from '../../src/models/watchlist/watchlistEntry.model';
+import { WatchlistHit } from '../../src/models/watchlist/watchlistHit.model';
+import { TransactionUtil } from '../../src/utils/transaction.util';
+import { ERROR_CODES } from '../../src/utils/constants';
+import { mockQuery, mockSession, objectId } from '../helpers/mongoose.helper';
+
+const companyId = objectId();
+const securityUserId = objectId();
+const subject = { name: 'Alex Morgan', phone: '+44 7700 900123', email: 'alex@example.com' };
+
+const buildEntry = (severity: 'high' | 'medium' | 'low', fields: Record<string, string>) => new WatchlistEntry({
+    severity,
+    reason: 'Previous incident',
+    createdBy: companyId,
+    ...fields
+});
+
+describe('WatchlistService.screen', () => {
+    let events: string[];
+    let insertMany: jest.SpyInstance;
+    let alertSecurity: jest.SpyInstance;
+
+    beforeEach(() => {
+        ({ events } = mockSession());
+        insertMany = jest.spyOn(WatchlistHit, 'insertMany').mockImplementation((async (docs: any[], options: any) => {
+            events.push(`insert:${options?.session ? 'session' : 'none'}`);
+            return docs.map(doc => ({ ...doc, _id: objectId() }));
+        }) as any);
+        alertSecurity = jest.spyOn(WatchlistService as any, 'alertSecurity').mockImplementation(async () => {
+            events.push('alert');
+        });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    const screen = (entries: any[], overrideReason?: string, afterScreening?: () => void) => {
+        jest.spyOn(WatchlistEntry, 'find').mockReturnValue(mockQuery(entries));
+        return TransactionUtil.executeTransaction(async (session) => {
+            await WatchlistService.screen(companyId, [subject], 'check_in', securityUserId, { overrideReason, session });
+            afterScreening?.();
+        });
+    };
+
+    it('blocks a high-severity match and keeps the hit when the action rolls back', async () => {
+        const screening = screen([buildEntry('high', { phone: '+447700900123' })]);
+
+        await expect(screening).rejects.toMatchObject({
+            statusCode: ERROR_CODES.FORBIDDEN,
+            details: { watchlist: { action: 'block' } }
+        });
+        expect(insertMany.mock.calls[0][0][0]).toMatchObject({ outcome: 'blocked', action: 'block' });
+        expect(events).toEqual(['start', 'insert:none', 'alert', 'abort']);
+    });
+
+    it('holds a match on the name alone, even at high severity', async () => {
+        await expect(screen([buildEntry('high', { name: 'Alex Morgan' })])).rejects.toMatchObject({
+            details: { watchlist: { action: 'override' } }
+        });
+        expect(insertMany.mock.calls[0][0][0]).toMatchObject({ outcome: 'held', action: 'override' });
+    });
+
+    it('records an override in the transaction and alerts security after commit', async () => {
+        await screen([buildEntry('medium', { email: 'ALEX@example.com' })], 'Escorted by security');
+
+        expect(insertMany.mock.calls[0][0][0]).toMatchObject({
+            outcome: 'overridden',
+            overrideReason: 'Escorted by security',
+            decidedBy: securityUserId
+        });
+        expect(events).toEqual(['start', 'insert:session', 'commit', 'alert']);
+    });
+
+    it('drops the override and the alert when the action fails after screening', async () => {
+        const screening = screen([buildEntry('low', { email: 'alex@example.com' })], undefined, () => {
+            throw new Error('Meeting room is already booked');
+        });
+
+        await expect(screening).rejects.toThrow('Meeting room is already booked');
+        expect(insertMany.mock.calls[0][0][0]).toMatchObject({ outcome: 'alerted' });
+        expect(events).toEqual(['start', 'insert:session', 'abort']);
+        expect(alertSecurity).not.toHaveBeenCalled();
+    });
+
+    it('records nothing without a match', async () => {
+        await screen([buildEntry('high', { email: 'someone.else@example.com' })]);
+
+        expect(insertMany).not.toHaveBeenCalled();
+        expect(alertSecurity).not.toHaveBeenCalled();
+    });
+});
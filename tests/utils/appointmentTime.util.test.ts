@@ -0,0 +1,45 @@
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+
+const window = (start: string, end: string) => ({
+    start: AppointmentTimeUtil.getStartTime(new Date(2025, 0, 6), start),
+    end: AppointmentTimeUtil.getStartTime(new Date(2025, 0, 6), end)
+});
+
+describe('AppointmentTimeUtil.getWindow', () => {
+    it('starts at the scheduled time and lasts the duration', () => {
+        const { start, end } = AppointmentTimeUtil.getWindow(new Date(2025, 0, 6), '09:30', 90);
+        expect(AppointmentTimeUtil.formatTime(start)).toBe('09:30');
+        expect(AppointmentTimeUtil.formatTime(end)).toBe('11:00');
+        expect(AppointmentTimeUtil.formatDate(end)).toBe('2025-01-06');
+    });
+});
+
+describe('AppointmentTimeUtil.overlaps', () => {
+    it('detects windows that share any time', () => {
+        expect(AppointmentTimeUtil.overlaps(window('09:00', '10:00'), window('09:30', '10:30'))).toBe(true);
+        expect(AppointmentTimeUtil.overlaps(window('09:00', '12:00'), window('10:00', '11:00'))).toBe(true);
+    });
+
+    it('lets back-to-back windows through without a buffer', () => {
+        expect(AppointmentTimeUtil.overlaps(window('09:00', '10:00'), window('10:00', '11:00'))).toBe(false);
+        expect(AppointmentTimeUtil.overlaps(window('10:00', '11:00'), window('09:00', '10:00'))).toBe(false);
+    });
+
+    it('pads both windows by the buffer', () => {
+        expect(AppointmentTimeUtil.overlaps(window('09:00', '10:00'), window('10:10', '11:00'), 15)).toBe(true);
+        expect(AppointmentTimeUtil.overlaps(window('10:10', '11:00'), window('09:00', '10:00'), 15)).toBe(true);
+        expect(AppointmentTimeUtil.overlaps(window('09:00', '10:00'), window('10:15', '11:00'), 15)).toBe(false);
+    });
+});
+
+describe('AppointmentTimeUtil.subtractWindows', () => {
+    it('removes busy time from the free windows, leaving the rest in start order', () => {
+        const free = AppointmentTimeUtil.subtractWindows(
+            [window('13:00', '18:00'), window('09:00', '12:00')],
+            [window('10:00', '10:30'), window('11:30', '14:00'), window('17:00', '19:00')]
+        );
+
+        expect(free.map(({ start, end }) => `${AppointmentTimeUtil.formatTime(start)}-${AppointmentTimeUtil.formatTime(end)}`))
+            .toEqual(['09:00-10:00', '10:30-11:30', '14:00-17:00']);
+    });
+});
@@ -0,0 +1,64 @@
+import { ICalUtil, ICalendarEvent } from '../../src/utils/ical.util';
+
+const event: ICalendarEvent = {
+    uid: 'appointment-1@safein',
+    start: new Date(Date.UTC(2025, 0, 6, 9, 30)),
+    end: new Date(Date.UTC(2025, 0, 6, 10, 30)),
+    summary: 'Visit'
+};
+
+describe('ICalUtil.escape', () => {
+    it('escapes backslashes, semicolons, commas and line breaks', () => {
+        expect(ICalUtil.escape('a\\b;c,d\r\ne\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+    });
+});
+
+describe('ICalUtil.formatDateTime', () => {
+    it('formats the date as UTC without separators or milliseconds', () => {
+        expect(ICalUtil.formatDateTime(new Date(Date.UTC(2025, 0, 6, 9, 30, 15, 250)))).toBe('20250106T093015Z');
+    });
+});
+
+describe('ICalUtil.build', () => {
+    it('writes a calendar with the method and one event per entry, with CRLF line endings', () => {
+        const ics = ICalUtil.build([event, { ...event, uid: 'appointment-2@safein', status: 'CANCELLED', sequence: 2 }], { method: 'CANCEL' });
+        const lines = ics.split('\r\n');
+
+        expect(lines[0]).toBe('BEGIN:VCALENDAR');
+        expect(lines).toContain('METHOD:CANCEL');
+        expect(lines).toContain('DTSTART:20250106T093000Z');
+        expect(lines).toContain('DTEND:20250106T103000Z');
+        expect(lines).toContain('STATUS:CANCELLED');
+        expect(lines).toContain('SEQUENCE:2');
+        expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('escapes text values and strips quotes from attendee names', () => {
+        const ics = ICalUtil.build([{
+            ...event,
+            summary: 'Visit; review, plan',
+            attendees: [{ name: 'Jo "JJ" Smith', email: 'jo@example.com' }]
+        }]);
+
+        expect(ics).toContain('SUMMARY:Visit\\; review\\, plan\r\n');
+        expect(ics.replace(/\r\n /g, '')).toContain('ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE;CN="Jo JJ Smith":mailto:jo@example.com');
+    });
+
+    it('folds lines longer than 75 octets without splitting multi-byte characters', () => {
+        const description = 'é'.repeat(100);
+        const ics = ICalUtil.build([{ ...event, description }]);
+        const lines = ics.split('\r\n');
+        const start = lines.findIndex(line => line.startsWith('DESCRIPTION:'));
+        const folded = [lines[start]];
+        for (let i = start + 1; lines[i].startsWith(' '); i++) {
+            folded.push(lines[i]);
+        }
+
+        expect(folded.length).toBeGreaterThan(1);
+        for (const line of folded) {
+            expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+        }
+        expect(folded.map((line, index) => index === 0 ? line : line.slice(1)).join('')).toBe(`DESCRIPTION:${description}`);
+    });
+});
@@ -0,0 +1,73 @@
+import { RecurrenceUtil, MAX_SERIES_OCCURRENCES } from '../../src/utils/recurrence.util';
+import { AppointmentTimeUtil } from '../../src/utils/appointmentTime.util';
+
+const days = (dates: Date[]): string[] => dates.map(date => AppointmentTimeUtil.formatDate(date));
+
+describe('RecurrenceUtil.expand', () => {
+    // Monday 6 January 2025
+    const monday = new Date(2025, 0, 6);
+
+    it('repeats daily at the interval until the count is reached', () => {
+        const dates = RecurrenceUtil.expand({ frequency: 'daily', interval: 2, startDate: monday, count: 3 });
+        expect(days(dates)).toEqual(['2025-01-06', '2025-01-08', '2025-01-10']);
+    });
+
+    it('stops at the end date', () => {
+        const dates = RecurrenceUtil.expand({ frequency: 'daily', interval: 1, startDate: monday, endDate: new Date(2025, 0, 8) });
+        expect(days(dates)).toEqual(['2025-01-06', '2025-01-07', '2025-01-08']);
+    });
+
+    it('repeats weekly on the given weekdays, skipping those before the start', () => {
+        // Monday, Wednesday and Friday every other week, starting on a Wednesday
+        const dates = RecurrenceUtil.expand({
+            frequency: 'weekly',
+            interval: 2,
+            byWeekday: [5, 1, 3],
+            startDate: new Date(2025, 0, 8),
+            count: 5
+        });
+        expect(days(dates)).toEqual(['2025-01-08', '2025-01-10', '2025-01-20', '2025-01-22', '2025-01-24']);
+    });
+
+    it('repeats weekly on the start weekday when none are given', () => {
+        const dates = RecurrenceUtil.expand({ frequency: 'weekly', interval: 1, startDate: monday, count: 3 });
+        expect(days(dates)).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+    });
+
+    it('skips months without the day of the start date', () => {
+        const dates = RecurrenceUtil.expand({ frequency: 'monthly', interval: 1, startDate: new Date(2025, 0, 31), count: 3 });
+        expect(days(dates)).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+    });
+
+    it('applies the count before removing exceptions', () => {
+        const dates = RecurrenceUtil.expand(
+            { frequency: 'daily', interval: 1, startDate: monday, count: 3 },
+            [new Date(2025, 0, 7, 15, 30)]
+        );
+        expect(days(dates)).toEqual(['2025-01-06', '2025-01-08']);
+    });
+
+    it(`never generates more than ${MAX_SERIES_OCCURRENCES} occurrences`, () => {
+        expect(RecurrenceUtil.expand({ frequency: 'daily', interval: 1, startDate: monday })).toHaveLength(MAX_SERIES_OCCURRENCES);
+        expect(RecurrenceUtil.expand({ frequency: 'daily', interval: 1, startDate: monday, count: 500 })).toHaveLength(MAX_SERIES_OCCURRENCES);
+        expect(RecurrenceUtil.expand({
+            frequency: 'weekly',
+            interval: 1,
+            byWeekday: [1, 2, 3, 4, 5],
+            startDate: monday,
+            endDate: new Date(2030, 0, 1)
+        })).toHaveLength(MAX_SERIES_OCCURRENCES);
+    });
+});
+
+describe('RecurrenceUtil.toRRule', () => {
+    it('renders the frequency, interval, weekdays and count', () => {
+        expect(RecurrenceUtil.toRRule({
+            frequency: 'weekly',
+            interval: 2,
+            byWeekday: [1, 3],
+            startDate: new Date(2025, 0, 6),
+            count: 10
+        })).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10');
+    });
+});
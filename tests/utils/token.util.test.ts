@@ -0,0 +1,25 @@
+import * as crypto from 'crypto';
+import { TokenUtil } from '../../src/utils/token.util';
+import { CONSTANTS } from '../../src/utils/constants';
+
+describe('TokenUtil', () => {
+    it('generates a different 64 character hex token each time', () => {
+        const token = TokenUtil.generateToken();
+
+        expect(token).toMatch(/^[0-9a-f]{64}$/);
+        expect(TokenUtil.generateToken()).not.toBe(token);
+    });
+
+    it('hashes a token with SHA-256', () => {
+        expect(TokenUtil.hashToken('abc')).toBe(crypto.createHash('sha256').update('abc').digest('hex'));
+    });
+
+    it('joins the path onto the base URL without doubling the slash', () => {
+        expect(TokenUtil.buildUrl('invite/abc', 'https://app.example.com/')).toBe('https://app.example.com/invite/abc');
+        expect(TokenUtil.buildUrl('invite/abc', 'https://app.example.com')).toBe('https://app.example.com/invite/abc');
+    });
+
+    it('defaults to the public link base URL', () => {
+        expect(TokenUtil.buildUrl('visit/abc')).toBe(`${(CONSTANTS.APPROVAL_LINK_BASE_URL || '').replace(/\/$/, '')}/visit/abc`);
+    });
+});
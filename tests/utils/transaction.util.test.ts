@@ -0,0 +1,42 @@
+import { TransactionUtil } from '../../src/utils/transaction.util';
+import { mockSession } from '../helpers/mongoose.helper';
+
+describe('TransactionUtil.afterCommit', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('runs tasks once the transaction has committed', async () => {
+        const { events } = mockSession();
+
+        await TransactionUtil.executeTransaction(async (session) => {
+            await TransactionUtil.afterCommit(session, async () => {
+                events.push('task');
+            });
+            events.push('work');
+        });
+
+        expect(events).toEqual(['start', 'work', 'commit', 'task']);
+    });
+
+    it('drops tasks when the transaction aborts', async () => {
+        const { events } = mockSession();
+        const task = jest.fn();
+
+        await expect(TransactionUtil.executeTransaction(async (session) => {
+            await TransactionUtil.afterCommit(session, task);
+            throw new Error('conflict');
+        })).rejects.toThrow('conflict');
+
+        expect(task).not.toHaveBeenCalled();
+        expect(events).toEqual(['start', 'abort']);
+    });
+
+    it('runs the task straight away without a transaction and logs its failure', async () => {
+        const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await TransactionUtil.afterCommit(undefined, async () => {
+            throw new Error('SMTP down');
+        });
+
+        expect(error).toHaveBeenCalledWith('Failed to run after-commit task:', expect.any(Error));
+    });
+});